@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+
+import { resetFaceEnrollment } from '@/lib/faceTemplates';
+import { getAdminAuth, isFirebaseAdminConfigured } from '@/lib/firebaseAdmin';
+import { authenticateAdmin } from '@/lib/requestAuth';
+
+function readString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/** Accepts either a Firebase UID or the student's sign-in email. */
+async function resolveStudentId(identifier: string): Promise<string | null> {
+  if (!identifier.includes('@')) {
+    return identifier;
+  }
+
+  try {
+    return (await getAdminAuth().getUserByEmail(identifier.toLowerCase())).uid;
+  } catch {
+    return null;
+  }
+}
+
+export async function DELETE(request: Request) {
+  if (!isFirebaseAdminConfigured) {
+    return NextResponse.json(
+      { error: 'Face enrollment management is not configured. Set the FIREBASE_ADMIN_* variables on the server.' },
+      { status: 503 }
+    );
+  }
+
+  const admin = await authenticateAdmin(request);
+  if (!admin) {
+    return NextResponse.json({ error: 'Only administrators can reset face enrollment.' }, { status: 403 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const identifier = readString(body?.student);
+  if (!identifier) {
+    return NextResponse.json({ error: 'Provide the student’s UID or email.' }, { status: 400 });
+  }
+
+  try {
+    const studentId = await resolveStudentId(identifier);
+    if (!studentId) {
+      return NextResponse.json({ error: 'No student account uses that email.' }, { status: 404 });
+    }
+
+    const result = await resetFaceEnrollment(studentId, { uid: admin.uid, email: admin.email }, readString(body?.reason) ?? null);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('[Face enrollment] Failed to reset enrollment', error);
+    return NextResponse.json({ error: 'Unable to reset face enrollment right now.' }, { status: 500 });
+  }
+}
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
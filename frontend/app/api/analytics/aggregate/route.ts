@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+
+import { recordPendingAbsentees } from '@/lib/absentees';
+import { aggregateTeacherAnalytics, listTeacherIds } from '@/lib/analyticsAggregation';
+import { isFirebaseAdminConfigured } from '@/lib/firebaseAdmin';
+import { constantTimeEquals } from '@/lib/qrTokens';
+import { authenticateTeacher, readBearerToken } from '@/lib/requestAuth';
+
+const NOT_CONFIGURED_RESPONSE = {
+  error: 'Analytics aggregation is not configured. Set the FIREBASE_ADMIN_* variables on the server.'
+};
+
+/** Records any missing absences, then recomputes the signed-in teacher's analytics on demand. */
+export async function POST(request: Request) {
+  if (!isFirebaseAdminConfigured) {
+    return NextResponse.json(NOT_CONFIGURED_RESPONSE, { status: 503 });
+  }
+
+  const teacher = await authenticateTeacher(request);
+  if (!teacher) {
+    return NextResponse.json({ error: 'Your session has expired. Sign in again to refresh analytics.' }, { status: 401 });
+  }
+
+  try {
+    await recordPendingAbsentees(teacher.uid);
+    const analytics = await aggregateTeacherAnalytics(teacher.uid);
+    return NextResponse.json({
+      classCount: analytics.classes.length,
+      dropoutRiskCount: analytics.dropoutRiskCount,
+      averageAttendanceRate: analytics.averageAttendanceRate
+    });
+  } catch (error) {
+    console.error('[Analytics] Failed to aggregate analytics', error);
+    return NextResponse.json({ error: 'Unable to refresh analytics right now.' }, { status: 500 });
+  }
+}
+
+/**
+ * Scheduled run over every teacher, recording missing absences first so the
+ * rates include them. Called by a cron job with
+ * `Authorization: Bearer $CRON_SECRET`; one teacher failing does not stop the rest.
+ */
+export async function GET(request: Request) {
+  if (!isFirebaseAdminConfigured) {
+    return NextResponse.json(NOT_CONFIGURED_RESPONSE, { status: 503 });
+  }
+
+  const secret = process.env.CRON_SECRET;
+  const token = readBearerToken(request);
+  if (!secret || !token || !constantTimeEquals(token, secret)) {
+    return NextResponse.json({ error: 'Scheduled aggregation requires the cron secret.' }, { status: 401 });
+  }
+
+  try {
+    const teacherIds = await listTeacherIds();
+    const failed: string[] = [];
+
+    for (const teacherId of teacherIds) {
+      try {
+        await recordPendingAbsentees(teacherId);
+        await aggregateTeacherAnalytics(teacherId);
+      } catch (error) {
+        console.error(`[Analytics] Failed to aggregate analytics for ${teacherId}`, error);
+        failed.push(teacherId);
+      }
+    }
+
+    return NextResponse.json({ aggregated: teacherIds.length - failed.length, failed });
+  } catch (error) {
+    console.error('[Analytics] Failed to list teachers', error);
+    return NextResponse.json({ error: 'Unable to run the scheduled aggregation.' }, { status: 500 });
+  }
+}
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
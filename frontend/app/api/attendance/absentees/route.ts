@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+
+import { recordPendingAbsentees } from '@/lib/absentees';
+import { listTeacherIds } from '@/lib/analyticsAggregation';
+import { isFirebaseAdminConfigured } from '@/lib/firebaseAdmin';
+import { constantTimeEquals } from '@/lib/qrTokens';
+import { readBearerToken } from '@/lib/requestAuth';
+
+/**
+ * Records absences for every rostered session that has closed, whether or not
+ * a dashboard was open. Called by a cron job with `Authorization: Bearer
+ * $CRON_SECRET`; one teacher failing does not stop the rest.
+ */
+export async function GET(request: Request) {
+  if (!isFirebaseAdminConfigured) {
+    return NextResponse.json(
+      { error: 'Absence recording is not configured. Set the FIREBASE_ADMIN_* variables on the server.' },
+      { status: 503 }
+    );
+  }
+
+  const secret = process.env.CRON_SECRET;
+  const token = readBearerToken(request);
+  if (!secret || !token || !constantTimeEquals(token, secret)) {
+    return NextResponse.json({ error: 'Scheduled absence recording requires the cron secret.' }, { status: 401 });
+  }
+
+  try {
+    const teacherIds = await listTeacherIds();
+    const failed: string[] = [];
+    let sessions = 0;
+
+    for (const teacherId of teacherIds) {
+      try {
+        sessions += await recordPendingAbsentees(teacherId);
+      } catch (error) {
+        console.error(`[Absentees] Failed to record absentees for ${teacherId}`, error);
+        failed.push(teacherId);
+      }
+    }
+
+    return NextResponse.json({ sessions, failed });
+  } catch (error) {
+    console.error('[Absentees] Failed to list teachers', error);
+    return NextResponse.json({ error: 'Unable to record absences right now.' }, { status: 500 });
+  }
+}
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+
+import { CheckInError, parseCheckInRequest, verifyAndRecordCheckIn } from '@/lib/attendanceCheckIn';
+import { isFirebaseAdminConfigured } from '@/lib/firebaseAdmin';
+import { authenticateStudent } from '@/lib/requestAuth';
+
+export async function POST(request: Request) {
+  if (!isFirebaseAdminConfigured) {
+    return NextResponse.json(
+      { error: 'Attendance verification is not configured. Set the FIREBASE_ADMIN_* variables on the server.' },
+      { status: 503 }
+    );
+  }
+
+  const student = await authenticateStudent(request);
+  if (!student) {
+    return NextResponse.json({ error: 'Your session has expired. Sign in again to submit attendance.' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const result = await verifyAndRecordCheckIn(student, parseCheckInRequest(body));
+    return NextResponse.json({
+      ...result,
+      proximityMeters: Number.isFinite(result.proximityMeters) ? result.proximityMeters : null
+    });
+  } catch (error) {
+    if (error instanceof CheckInError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.httpStatus });
+    }
+
+    console.error('[Attendance check-in] Failed to record attendance', error);
+    return NextResponse.json({ error: 'Unable to record attendance right now.' }, { status: 500 });
+  }
+}
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
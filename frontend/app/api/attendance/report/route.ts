@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+
+import {
+  AttendanceReportError,
+  loadAttendanceRegister,
+  parseReportRequest,
+  renderAttendanceReport
+} from '@/lib/attendanceReport';
+import { isFirebaseAdminConfigured } from '@/lib/firebaseAdmin';
+import { authenticateTeacher } from '@/lib/requestAuth';
+
+/** Streams the signed-in teacher's register for one class and date range as CSV, XLSX or PDF. */
+export async function GET(request: Request) {
+  if (!isFirebaseAdminConfigured) {
+    return NextResponse.json(
+      { error: 'Report export is not configured. Set the FIREBASE_ADMIN_* variables on the server.' },
+      { status: 503 }
+    );
+  }
+
+  const teacher = await authenticateTeacher(request);
+  if (!teacher) {
+    return NextResponse.json({ error: 'Your session has expired. Sign in again to export reports.' }, { status: 401 });
+  }
+
+  try {
+    const reportRequest = parseReportRequest(new URL(request.url).searchParams);
+    const register = await loadAttendanceRegister(teacher.uid, reportRequest);
+    const report = renderAttendanceReport(register, reportRequest.format);
+
+    return new NextResponse(report.body, {
+      headers: {
+        'Content-Type': report.contentType,
+        'Content-Disposition': `attachment; filename="${report.fileName}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    if (error instanceof AttendanceReportError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.httpStatus });
+    }
+
+    console.error('[Attendance report] Failed to export the register', error);
+    return NextResponse.json({ error: 'Unable to export the register right now.' }, { status: 500 });
+  }
+}
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
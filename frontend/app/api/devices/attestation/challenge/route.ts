@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+
+import { isAttestationConfigured, issueAttestationChallenge } from '@/lib/deviceAttestation';
+import { isFirebaseAdminConfigured } from '@/lib/firebaseAdmin';
+import { authenticateStudent } from '@/lib/requestAuth';
+
+export async function POST(request: Request) {
+  if (!isFirebaseAdminConfigured || !isAttestationConfigured()) {
+    return NextResponse.json(
+      { error: 'Device attestation is not configured. Set ATTESTATION_CHALLENGE_SECRET and the FIREBASE_ADMIN_* variables.' },
+      { status: 503 }
+    );
+  }
+
+  const student = await authenticateStudent(request);
+  if (!student) {
+    return NextResponse.json({ error: 'Sign in again to verify this device.' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const deviceKey = typeof body?.deviceKey === 'string' ? body.deviceKey.trim() : '';
+  if (!deviceKey) {
+    return NextResponse.json({ error: 'A device key is required.' }, { status: 400 });
+  }
+
+  const signingKeyHash = typeof body?.signingKeyHash === 'string' && body.signingKeyHash ? body.signingKeyHash : null;
+
+  return NextResponse.json(issueAttestationChallenge(student.uid, deviceKey, signingKeyHash));
+}
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
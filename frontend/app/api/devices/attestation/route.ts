@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+
+import {
+  evaluateAttestation,
+  isAttestationConfigured,
+  recordAttestationVerdict,
+  type AttestationPlatform
+} from '@/lib/deviceAttestation';
+import { getAdminDb, isFirebaseAdminConfigured } from '@/lib/firebaseAdmin';
+import { authenticateStudent } from '@/lib/requestAuth';
+
+const PLATFORMS: AttestationPlatform[] = ['android', 'ios', 'none'];
+
+function readString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+export async function POST(request: Request) {
+  if (!isFirebaseAdminConfigured || !isAttestationConfigured()) {
+    return NextResponse.json(
+      { error: 'Device attestation is not configured. Set ATTESTATION_CHALLENGE_SECRET and the FIREBASE_ADMIN_* variables.' },
+      { status: 503 }
+    );
+  }
+
+  const student = await authenticateStudent(request);
+  if (!student) {
+    return NextResponse.json({ error: 'Sign in again to verify this device.' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const deviceKey = readString(body?.deviceKey);
+  const challenge = readString(body?.challenge);
+  const signingKey = readString(body?.signingKey) ?? null;
+  const platform = PLATFORMS.find((candidate) => candidate === body?.platform);
+
+  if (!deviceKey || !challenge || !platform) {
+    return NextResponse.json({ error: 'deviceKey, challenge and platform are required.' }, { status: 400 });
+  }
+
+  try {
+    const deviceSnapshot = await getAdminDb().doc(`students/${student.uid}/devices/${deviceKey}`).get();
+    if (!deviceSnapshot.exists) {
+      return NextResponse.json({ error: 'Register this device before verifying it.' }, { status: 404 });
+    }
+
+    const device = deviceSnapshot.data() ?? {};
+    const verdict = await evaluateAttestation(
+      { platform, token: readString(body?.token), keyId: readString(body?.keyId), attestation: readString(body?.attestation) },
+      {
+        studentId: student.uid,
+        deviceKey,
+        challenge,
+        device: {
+          isPhysicalDevice: device.isPhysicalDevice === true,
+          platform: typeof device.platform === 'string' ? device.platform : null
+        },
+        signingKey,
+        now: Date.now()
+      }
+    );
+
+    await recordAttestationVerdict(student.uid, deviceKey, verdict, signingKey);
+    return NextResponse.json(verdict);
+  } catch (error) {
+    console.error('[Device attestation] Failed to verify device', error);
+    return NextResponse.json({ error: 'Unable to verify this device right now.' }, { status: 500 });
+  }
+}
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
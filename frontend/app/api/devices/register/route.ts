@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+
+import { parseDeviceMetadata, registerStudentDevice } from '@/lib/deviceRegistration';
+import { isFirebaseAdminConfigured } from '@/lib/firebaseAdmin';
+import { authenticateStudent } from '@/lib/requestAuth';
+
+/**
+ * Registers the calling student's device and returns its approval state.
+ * Students cannot write approval fields themselves, so this is how a first
+ * device gets approved.
+ */
+export async function POST(request: Request) {
+  if (!isFirebaseAdminConfigured) {
+    return NextResponse.json(
+      { error: 'Device registration is not configured. Set the FIREBASE_ADMIN_* variables on the server.' },
+      { status: 503 }
+    );
+  }
+
+  const student = await authenticateStudent(request);
+  if (!student) {
+    return NextResponse.json({ error: 'Sign in again to register this device.' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const deviceKey = typeof body?.deviceKey === 'string' ? body.deviceKey.trim() : '';
+  const metadata = parseDeviceMetadata(body?.metadata);
+
+  if (!deviceKey || deviceKey.includes('/') || !metadata) {
+    return NextResponse.json({ error: 'A device key and device details are required.' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await registerStudentDevice(student.uid, deviceKey, metadata));
+  } catch (error) {
+    console.error('[Device registration] Failed to register device', error);
+    return NextResponse.json({ error: 'Unable to register this device right now.' }, { status: 500 });
+  }
+}
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+
+import {
+  FACE_ENROLLMENT_POSES,
+  matchFaceTemplate,
+  parseFaceTemplateSubmission,
+  PROFILE_CLASS_ID
+} from '@/lib/faceTemplates';
+import { isFirebaseAdminConfigured } from '@/lib/firebaseAdmin';
+import { authenticateStudent } from '@/lib/requestAuth';
+
+/**
+ * Guided enrollment: stores one quality-checked capture per pose in the
+ * student's profile baseline. Captures that do not match the ones already
+ * stored are rejected, so a single enrollment cannot mix two people.
+ */
+export async function POST(request: Request) {
+  if (!isFirebaseAdminConfigured) {
+    return NextResponse.json(
+      { error: 'Face enrollment is not configured. Set the FIREBASE_ADMIN_* variables on the server.' },
+      { status: 503 }
+    );
+  }
+
+  const student = await authenticateStudent(request);
+  if (!student) {
+    return NextResponse.json({ error: 'Sign in again to enroll your face.' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const submission = parseFaceTemplateSubmission(body?.faceTemplate);
+  const pose = FACE_ENROLLMENT_POSES.find((candidate) => candidate === body?.pose);
+
+  if (!submission || !pose) {
+    return NextResponse.json({ error: 'A face embedding and enrollment pose are required.' }, { status: 400 });
+  }
+
+  try {
+    const verification = await matchFaceTemplate(student.uid, PROFILE_CLASS_ID, submission, pose);
+    return NextResponse.json({ ...verification, pose, stored: verification.verdict !== 'mismatch' });
+  } catch (error) {
+    console.error('[Face enrollment] Failed to store template', error);
+    return NextResponse.json({ error: 'Unable to save your face enrollment right now.' }, { status: 500 });
+  }
+}
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
@@ -1,10 +1,13 @@
 'use client';
 
 import Link from 'next/link';
+import { useState } from 'react';
+import toast from 'react-hot-toast';
 import { format } from 'date-fns';
-import { ArrowLeft, AlertTriangle, TrendingDown, Users } from 'lucide-react';
+import { ArrowLeft, AlertTriangle, RefreshCw, TrendingDown, Users } from 'lucide-react';
 import { useAuth } from '@/components/auth/AuthProvider';
 import { SignOutButton } from '@/components/auth/SignOutButton';
+import { refreshTeacherAnalytics } from '@/lib/analyticsRefresh';
 import {
   useTeacherAnalytics,
   type ClassAnalytics,
@@ -15,6 +18,24 @@ import {
 export default function AnalyticsPage() {
   const { user } = useAuth();
   const { analytics, loading, error } = useTeacherAnalytics(user?.uid);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    try {
+      const result = await refreshTeacherAnalytics(user);
+      toast.success(
+        result
+          ? `Analytics rebuilt from ${result.classCount} classes.`
+          : 'Demo mode shows sample analytics. Connect Firebase to compute real ones.'
+      );
+    } catch (refreshError) {
+      console.error(refreshError);
+      toast.error(refreshError instanceof Error ? refreshError.message : 'Unable to refresh analytics.');
+    } finally {
+      setRefreshing(false);
+    }
+  };
 
   const lastUpdatedLabel = analytics?.updatedAt
     ? format(new Date(analytics.updatedAt), 'MMM d, yyyy · h:mm a')
@@ -31,7 +52,7 @@ export default function AnalyticsPage() {
     {
       label: 'Drop-out risk candidates',
       value: analytics ? analytics.dropoutRiskCount.toString() : '—',
-      description: 'Students with attendance below 75% in the last 30 days.',
+      description: 'Students scoring medium or high drop-out risk over the last 30 days.',
       icon: AlertTriangle,
       accent: 'bg-amber-100 text-amber-700'
     },
@@ -62,6 +83,15 @@ export default function AnalyticsPage() {
             <p className="text-xs text-slate-500">Last updated {lastUpdatedLabel}</p>
           </div>
           <div className="flex items-center gap-4">
+            <button
+              type="button"
+              onClick={handleRefresh}
+              disabled={refreshing}
+              className="inline-flex items-center gap-2 rounded-full border border-slate-200 px-3 py-1.5 text-xs font-semibold text-slate-600 transition hover:border-primary-300 hover:text-primary-600 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              <RefreshCw className={`h-3.5 w-3.5 ${refreshing ? 'animate-spin' : ''}`} />
+              {refreshing ? 'Refreshing…' : 'Refresh'}
+            </button>
             <div className="text-right">
               <p className="text-sm font-medium text-slate-900">{user?.displayName ?? 'Teacher'}</p>
               <p className="text-xs text-slate-500">{user?.email}</p>
@@ -164,7 +194,7 @@ export default function AnalyticsPage() {
             <div className="flex items-center justify-between">
               <div>
                 <h2 className="text-lg font-semibold text-slate-900">Drop-out risk students</h2>
-                <p className="text-sm text-slate-500">Prioritise interventions for students with low attendance.</p>
+                <p className="text-sm text-slate-500">Prioritise interventions; each score lists what raised it.</p>
               </div>
               <p className="text-xs text-slate-400">{analytics?.dropoutRiskStudents.length ?? 0} flagged</p>
             </div>
@@ -199,10 +229,22 @@ export default function AnalyticsPage() {
                       <dd>{student.absences}</dd>
                     </div>
                     <div>
-                      <dt className="font-semibold text-slate-500">Notes</dt>
-                      <dd className="text-[11px] text-slate-500">{student.notes ?? 'No notes recorded.'}</dd>
+                      <dt className="font-semibold text-slate-500">Risk score</dt>
+                      <dd>{student.score !== undefined ? `${student.score} / 100` : '—'}</dd>
                     </div>
                   </dl>
+                  {student.reasons?.length ? (
+                    <ul className="mt-3 space-y-1 text-[11px] text-slate-600">
+                      {student.reasons.map((reason) => (
+                        <li key={reason.feature} className="flex items-start justify-between gap-3">
+                          <span>{reason.detail}</span>
+                          <span className="shrink-0 font-semibold text-slate-500">+{reason.points}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="mt-3 text-[11px] text-slate-500">{student.notes ?? 'No notes recorded.'}</p>
+                  )}
                 </article>
               ))}
 
@@ -218,14 +260,22 @@ export default function AnalyticsPage() {
             <div className="flex items-center justify-between">
               <div>
                 <h2 className="text-lg font-semibold text-slate-900">Failing students</h2>
-                <p className="text-sm text-slate-500">Track students below the passing threshold and follow up.</p>
+                <p className="text-sm text-slate-500">
+                  Track students below the passing threshold and follow up. Grades come from the{' '}
+                  <Link href="/dashboard/grades" className="text-primary-600 hover:underline">
+                    gradebook
+                  </Link>
+                  .
+                </p>
               </div>
               <p className="text-xs text-slate-400">{analytics?.failingStudents.length ?? 0} flagged</p>
             </div>
 
             <div className="mt-4 space-y-3">
               {(analytics?.failingStudents ?? []).map((student: FailingStudent) => (
-                <article key={student.studentId} className="rounded-xl border border-rose-100 bg-rose-50/60 p-4">
+                <article
+                  key={`${student.studentId}:${student.className}`}
+                  className="rounded-xl border border-rose-100 bg-rose-50/60 p-4">
                   <div className="flex items-center justify-between">
                     <div>
                       <h3 className="font-semibold text-slate-900">{student.name}</h3>
@@ -0,0 +1,159 @@
+'use client';
+
+import Link from 'next/link';
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { ArrowLeft } from 'lucide-react';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { SignOutButton } from '@/components/auth/SignOutButton';
+import { ClassRosterManager } from '@/components/dashboard/ClassRosterManager';
+import { useTeacherClasses, type ClassRecord } from '@/lib/hooks/useTeacherClasses';
+
+export default function ClassesPage() {
+  const { user } = useAuth();
+  const { classes, loading, addClass, addStudents, removeStudent, removeClass } = useTeacherClasses(user?.uid);
+  const [selectedClassId, setSelectedClassId] = useState<string | null>(null);
+  const [newClass, setNewClass] = useState({ name: '', subject: '' });
+  const [isCreating, setIsCreating] = useState(false);
+
+  const selectedClass = classes.find((entry: ClassRecord) => entry.id === selectedClassId) ?? classes[0];
+
+  const handleCreate = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsCreating(true);
+
+    try {
+      const created = await addClass({ name: newClass.name.trim(), subject: newClass.subject.trim() });
+      setSelectedClassId(created.id);
+      setNewClass({ name: '', subject: '' });
+      toast.success(`${created.name} created. Add students to its roster next.`);
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : 'Unable to create the class.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleDelete = async (classRecord: ClassRecord) => {
+    if (!window.confirm(`Delete ${classRecord.name}? Past sessions keep their attendance records.`)) {
+      return;
+    }
+
+    try {
+      await removeClass(classRecord.id);
+      setSelectedClassId(null);
+      toast.success('Class deleted.');
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : 'Unable to delete the class.');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-100">
+      <header className="border-b border-slate-200 bg-white/90 backdrop-blur">
+        <div className="mx-auto flex max-w-6xl items-center justify-between px-6 py-4">
+          <div>
+            <div className="flex items-center gap-3 text-sm text-slate-600">
+              <Link
+                href="/dashboard"
+                className="inline-flex items-center gap-2 rounded-full border border-slate-200 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-500 transition hover:border-primary-300 hover:text-primary-600"
+              >
+                <ArrowLeft className="h-3.5 w-3.5" /> Back to sessions
+              </Link>
+              <span className="text-xs text-slate-400">Class rosters</span>
+            </div>
+            <h1 className="mt-2 text-2xl font-semibold text-slate-900">Classes and enrollment</h1>
+            <p className="text-xs text-slate-500">Rosters drive expected attendance and absentee tracking.</p>
+          </div>
+          <div className="flex items-center gap-4">
+            <div className="text-right">
+              <p className="text-sm font-medium text-slate-900">{user?.displayName ?? 'Teacher'}</p>
+              <p className="text-xs text-slate-500">{user?.email}</p>
+            </div>
+            <SignOutButton />
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto grid max-w-6xl gap-8 px-6 py-8 lg:grid-cols-[1fr_2fr]">
+        <div className="flex flex-col gap-6">
+          <form onSubmit={handleCreate} className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+            <h2 className="text-lg font-semibold text-slate-900">New class</h2>
+            <div className="mt-4 space-y-3">
+              <input
+                value={newClass.name}
+                onChange={(event) => setNewClass((prev) => ({ ...prev, name: event.target.value }))}
+                required
+                placeholder="Grade 10 — Section A"
+                className="w-full rounded-lg border border-slate-200 px-4 py-2.5 text-sm text-slate-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-200"
+              />
+              <input
+                value={newClass.subject}
+                onChange={(event) => setNewClass((prev) => ({ ...prev, subject: event.target.value }))}
+                required
+                placeholder="Mathematics"
+                className="w-full rounded-lg border border-slate-200 px-4 py-2.5 text-sm text-slate-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-200"
+              />
+              <button
+                type="submit"
+                disabled={isCreating}
+                className="w-full rounded-lg bg-primary-600 px-4 py-2.5 text-sm font-semibold text-white shadow hover:bg-primary-700 disabled:cursor-not-allowed disabled:bg-primary-400"
+              >
+                {isCreating ? 'Creating…' : 'Create class'}
+              </button>
+            </div>
+          </form>
+
+          <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+            <h2 className="text-lg font-semibold text-slate-900">Your classes</h2>
+            <ul className="mt-4 space-y-2">
+              {loading && classes.length === 0 ? <li className="text-sm text-slate-500">Loading classes…</li> : null}
+              {classes.map((classRecord: ClassRecord) => (
+                <li key={classRecord.id}>
+                  <div
+                    className={`flex items-center justify-between rounded-xl border px-4 py-3 text-sm transition ${
+                      classRecord.id === selectedClass?.id
+                        ? 'border-primary-300 bg-primary-50/60'
+                        : 'border-slate-100 hover:border-primary-200'
+                    }`}
+                  >
+                    <button type="button" onClick={() => setSelectedClassId(classRecord.id)} className="text-left">
+                      <p className="font-medium text-slate-900">{classRecord.name}</p>
+                      <p className="text-xs text-slate-500">
+                        {classRecord.subject} · {classRecord.roster.length} students
+                      </p>
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(classRecord)}
+                      className="text-xs font-semibold text-rose-500 hover:text-rose-700"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              ))}
+              {!loading && classes.length === 0 ? (
+                <li className="text-sm text-slate-500">No classes yet. Create one to start building a roster.</li>
+              ) : null}
+            </ul>
+          </section>
+        </div>
+
+        {selectedClass ? (
+          <ClassRosterManager
+            classRecord={selectedClass}
+            onAddStudents={addStudents}
+            onRemoveStudent={removeStudent}
+          />
+        ) : (
+          <div className="flex items-center justify-center rounded-2xl border border-dashed border-slate-200 bg-white p-10 text-sm text-slate-500">
+            Select or create a class to manage its roster.
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
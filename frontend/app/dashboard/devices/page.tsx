@@ -0,0 +1,69 @@
+'use client';
+
+import Link from 'next/link';
+import { ArrowLeft, RefreshCw } from 'lucide-react';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { SignOutButton } from '@/components/auth/SignOutButton';
+import { DeviceApprovalQueue } from '@/components/dashboard/DeviceApprovalQueue';
+import { DeviceTransferRequests } from '@/components/dashboard/DeviceTransferRequests';
+import { FaceEnrollmentReset } from '@/components/dashboard/FaceEnrollmentReset';
+import { isFirebaseConfigured } from '@/lib/firebase';
+import { useDeviceAdmin } from '@/lib/hooks/useDeviceAdmin';
+
+export default function DevicesPage() {
+  const { user, isAdmin } = useAuth();
+  const canManage = isAdmin || !isFirebaseConfigured;
+  const { devices, transfers, loading, error, refresh, decide, resolveTransfer } = useDeviceAdmin(user, canManage);
+
+  return (
+    <div className="min-h-screen bg-slate-100">
+      <header className="border-b border-slate-200 bg-white/90 backdrop-blur">
+        <div className="mx-auto flex max-w-6xl items-center justify-between px-6 py-4">
+          <div>
+            <div className="flex items-center gap-3 text-sm text-slate-600">
+              <Link
+                href="/dashboard"
+                className="inline-flex items-center gap-2 rounded-full border border-slate-200 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-500 transition hover:border-primary-300 hover:text-primary-600"
+              >
+                <ArrowLeft className="h-3.5 w-3.5" /> Back to sessions
+              </Link>
+              <span className="text-xs text-slate-400">Admin console</span>
+            </div>
+            <h1 className="mt-2 text-2xl font-semibold text-slate-900">Device approvals</h1>
+            <p className="text-xs text-slate-500">Only approved devices can submit attendance.</p>
+          </div>
+          <div className="flex items-center gap-4">
+            <div className="text-right">
+              <p className="text-sm font-medium text-slate-900">{user?.displayName ?? 'Administrator'}</p>
+              <p className="text-xs text-slate-500">{user?.email}</p>
+            </div>
+            {canManage ? (
+              <button
+                type="button"
+                onClick={refresh}
+                className="inline-flex items-center gap-2 rounded-full border border-slate-200 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-500 transition hover:border-primary-300 hover:text-primary-600"
+              >
+                <RefreshCw className="h-3.5 w-3.5" /> Refresh
+              </button>
+            ) : null}
+            <SignOutButton />
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto flex max-w-6xl flex-col gap-8 px-6 py-8">
+        {canManage ? (
+          <>
+            <DeviceApprovalQueue devices={devices} loading={loading} error={error} onDecide={decide} />
+            <DeviceTransferRequests transfers={transfers} loading={loading} onResolve={resolveTransfer} />
+            <FaceEnrollmentReset user={user} />
+          </>
+        ) : (
+          <div className="rounded-2xl border border-dashed border-slate-200 bg-white p-10 text-center text-sm text-slate-500">
+            This console is limited to administrators. Ask a project owner to grant your account the admin role.
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
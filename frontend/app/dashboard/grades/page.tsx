@@ -0,0 +1,98 @@
+'use client';
+
+import Link from 'next/link';
+import { useState } from 'react';
+import { ArrowLeft } from 'lucide-react';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { SignOutButton } from '@/components/auth/SignOutButton';
+import { GradebookManager } from '@/components/dashboard/GradebookManager';
+import { useClassAssignments } from '@/lib/hooks/useClassAssignments';
+import { useTeacherClasses, type ClassRecord } from '@/lib/hooks/useTeacherClasses';
+
+export default function GradesPage() {
+  const { user } = useAuth();
+  const { classes, loading: classesLoading } = useTeacherClasses(user?.uid);
+  const [selectedClassId, setSelectedClassId] = useState<string | null>(null);
+
+  const selectedClass = classes.find((entry: ClassRecord) => entry.id === selectedClassId) ?? classes[0];
+  const { assignments, loading, addAssignment, setScore, importGradebook, removeAssignment } =
+    useClassAssignments(selectedClass);
+
+  return (
+    <div className="min-h-screen bg-slate-100">
+      <header className="border-b border-slate-200 bg-white/90 backdrop-blur">
+        <div className="mx-auto flex max-w-6xl items-center justify-between px-6 py-4">
+          <div>
+            <div className="flex items-center gap-3 text-sm text-slate-600">
+              <Link
+                href="/dashboard"
+                className="inline-flex items-center gap-2 rounded-full border border-slate-200 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-500 transition hover:border-primary-300 hover:text-primary-600"
+              >
+                <ArrowLeft className="h-3.5 w-3.5" /> Back to sessions
+              </Link>
+              <span className="text-xs text-slate-400">Gradebook</span>
+            </div>
+            <h1 className="mt-2 text-2xl font-semibold text-slate-900">Assignments and grades</h1>
+            <p className="text-xs text-slate-500">Grades feed the failing-students panel on the analytics page.</p>
+          </div>
+          <div className="flex items-center gap-4">
+            <div className="text-right">
+              <p className="text-sm font-medium text-slate-900">{user?.displayName ?? 'Teacher'}</p>
+              <p className="text-xs text-slate-500">{user?.email}</p>
+            </div>
+            <SignOutButton />
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto grid max-w-6xl gap-8 px-6 py-8 lg:grid-cols-[1fr_3fr]">
+        <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+          <h2 className="text-lg font-semibold text-slate-900">Your classes</h2>
+          <ul className="mt-4 space-y-2">
+            {classesLoading && classes.length === 0 ? <li className="text-sm text-slate-500">Loading classes…</li> : null}
+            {classes.map((classRecord: ClassRecord) => (
+              <li key={classRecord.id}>
+                <button
+                  type="button"
+                  onClick={() => setSelectedClassId(classRecord.id)}
+                  className={`w-full rounded-xl border px-4 py-3 text-left text-sm transition ${
+                    classRecord.id === selectedClass?.id
+                      ? 'border-primary-300 bg-primary-50/60'
+                      : 'border-slate-100 hover:border-primary-200'
+                  }`}
+                >
+                  <p className="font-medium text-slate-900">{classRecord.name}</p>
+                  <p className="text-xs text-slate-500">
+                    {classRecord.subject} · {classRecord.roster.length} students
+                  </p>
+                </button>
+              </li>
+            ))}
+            {!classesLoading && classes.length === 0 ? (
+              <li className="text-sm text-slate-500">
+                No classes yet. <Link href="/dashboard/classes" className="text-primary-600 hover:underline">Create one</Link>{' '}
+                to start a gradebook.
+              </li>
+            ) : null}
+          </ul>
+        </section>
+
+        {selectedClass ? (
+          <GradebookManager
+            classRecord={selectedClass}
+            assignments={assignments}
+            loading={loading}
+            onAddAssignment={addAssignment}
+            onSetScore={setScore}
+            onImport={importGradebook}
+            onRemoveAssignment={removeAssignment}
+          />
+        ) : (
+          <div className="flex items-center justify-center rounded-2xl border border-dashed border-slate-200 bg-white p-10 text-sm text-slate-500">
+            Select a class to open its gradebook.
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
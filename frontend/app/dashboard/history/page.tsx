@@ -0,0 +1,307 @@
+'use client';
+
+import Link from 'next/link';
+import { Fragment, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { ArrowLeft, ChevronDown, ChevronRight, RefreshCw } from 'lucide-react';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { SignOutButton } from '@/components/auth/SignOutButton';
+import {
+  emptySessionHistoryFilters,
+  useSessionHistory,
+  type SessionHistoryFilters
+} from '@/lib/hooks/useSessionHistory';
+import { useTeacherClasses, type ClassRecord } from '@/lib/hooks/useTeacherClasses';
+import type {
+  AttendanceSession,
+  AttendanceStatus,
+  SessionAttendee,
+  SessionStatus
+} from '@/lib/hooks/useTeacherSessions';
+
+const statusBadgeClasses: Record<SessionStatus, string> = {
+  scheduled: 'bg-primary-100 text-primary-700',
+  active: 'bg-emerald-100 text-emerald-700',
+  completed: 'bg-slate-100 text-slate-600',
+  cancelled: 'bg-rose-100 text-rose-700'
+};
+
+const attendeeStatusClasses: Record<AttendanceStatus, string> = {
+  present: 'text-emerald-600',
+  late: 'text-amber-600',
+  flagged: 'text-rose-600',
+  absent: 'text-slate-400'
+};
+
+const SESSION_STATUSES: SessionStatus[] = ['scheduled', 'active', 'completed', 'cancelled'];
+
+const inputClasses =
+  'w-full rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-200';
+
+export default function SessionHistoryPage() {
+  const { user } = useAuth();
+  const { classes } = useTeacherClasses(user?.uid);
+  const [filters, setFilters] = useState<SessionHistoryFilters>(emptySessionHistoryFilters);
+  const [expandedSessionId, setExpandedSessionId] = useState<string | null>(null);
+  const { sessions, loading, loadingMore, hasMore, error, loadMore, attendees, loadAttendees } = useSessionHistory(
+    user?.uid,
+    filters
+  );
+
+  const subjects = useMemo(
+    () => Array.from(new Set(classes.map((classRecord: ClassRecord) => classRecord.subject))).sort(),
+    [classes]
+  );
+  const isFiltered = Object.values(filters).some((value) => value !== '');
+
+  const updateFilter = (name: keyof SessionHistoryFilters, value: string) => {
+    setFilters((previous: SessionHistoryFilters) => ({ ...previous, [name]: value }));
+    setExpandedSessionId(null);
+  };
+
+  const toggleSession = (session: AttendanceSession) => {
+    if (expandedSessionId === session.id) {
+      setExpandedSessionId(null);
+      return;
+    }
+    setExpandedSessionId(session.id);
+    loadAttendees(session);
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-100">
+      <header className="border-b border-slate-200 bg-white/90 backdrop-blur">
+        <div className="mx-auto flex max-w-6xl items-center justify-between px-6 py-4">
+          <div>
+            <div className="flex items-center gap-3 text-sm text-slate-600">
+              <Link
+                href="/dashboard"
+                className="inline-flex items-center gap-2 rounded-full border border-slate-200 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-500 transition hover:border-primary-300 hover:text-primary-600"
+              >
+                <ArrowLeft className="h-3.5 w-3.5" /> Back to sessions
+              </Link>
+              <span className="text-xs text-slate-400">History</span>
+            </div>
+            <h1 className="mt-2 text-2xl font-semibold text-slate-900">Session history</h1>
+            <p className="text-xs text-slate-500">Every session you have scheduled, newest first.</p>
+          </div>
+          <div className="flex items-center gap-4">
+            <div className="text-right">
+              <p className="text-sm font-medium text-slate-900">{user?.displayName ?? 'Teacher'}</p>
+              <p className="text-xs text-slate-500">{user?.email}</p>
+            </div>
+            <SignOutButton />
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-6xl space-y-6 px-6 py-8">
+        <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+          <div className="grid gap-3 md:grid-cols-5">
+            <label className="space-y-1">
+              <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">Class</span>
+              <select
+                value={filters.classId}
+                onChange={(event) => updateFilter('classId', event.target.value)}
+                className={inputClasses}
+              >
+                <option value="">All classes</option>
+                {classes.map((classRecord: ClassRecord) => (
+                  <option key={classRecord.id} value={classRecord.id}>
+                    {classRecord.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">Subject</span>
+              <input
+                list="session-history-subjects"
+                value={filters.subject}
+                onChange={(event) => updateFilter('subject', event.target.value)}
+                placeholder="Any subject"
+                className={inputClasses}
+              />
+              <datalist id="session-history-subjects">
+                {subjects.map((subject) => (
+                  <option key={subject} value={subject} />
+                ))}
+              </datalist>
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">From</span>
+              <input
+                type="date"
+                value={filters.fromDate}
+                max={filters.toDate || undefined}
+                onChange={(event) => updateFilter('fromDate', event.target.value)}
+                className={inputClasses}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">To</span>
+              <input
+                type="date"
+                value={filters.toDate}
+                min={filters.fromDate || undefined}
+                onChange={(event) => updateFilter('toDate', event.target.value)}
+                className={inputClasses}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">Status</span>
+              <select
+                value={filters.status}
+                onChange={(event) => updateFilter('status', event.target.value)}
+                className={`${inputClasses} capitalize`}
+              >
+                <option value="">Any status</option>
+                {SESSION_STATUSES.map((status) => (
+                  <option key={status} value={status}>
+                    {status}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          {isFiltered ? (
+            <button
+              type="button"
+              onClick={() => {
+                setFilters(emptySessionHistoryFilters);
+                setExpandedSessionId(null);
+              }}
+              className="mt-3 text-xs font-semibold text-primary-600 hover:underline"
+            >
+              Clear filters
+            </button>
+          ) : null}
+        </section>
+
+        <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+          {error ? (
+            <p className="mb-4 rounded-xl border border-rose-100 bg-rose-50 p-3 text-sm text-rose-700">{error}</p>
+          ) : null}
+
+          <div className="overflow-hidden rounded-xl border border-slate-100">
+            <table className="min-w-full divide-y divide-slate-100 text-sm">
+              <thead className="bg-slate-50 text-left text-xs font-semibold uppercase tracking-wider text-slate-500">
+                <tr>
+                  <th className="w-10 px-4 py-3" />
+                  <th className="px-4 py-3">Schedule</th>
+                  <th className="px-4 py-3">Class</th>
+                  <th className="px-4 py-3">Subject</th>
+                  <th className="px-4 py-3">Location</th>
+                  <th className="px-4 py-3">Expected</th>
+                  <th className="px-4 py-3">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 bg-white">
+                {loading ? (
+                  <tr>
+                    <td colSpan={7} className="px-4 py-6 text-center text-slate-500">
+                      Loading sessions…
+                    </td>
+                  </tr>
+                ) : null}
+                {!loading &&
+                  sessions.map((session: AttendanceSession) => {
+                    const expanded = expandedSessionId === session.id;
+                    const checkIns = attendees[session.id];
+                    return (
+                      <Fragment key={session.id}>
+                        <tr
+                          onClick={() => toggleSession(session)}
+                          className={`cursor-pointer ${expanded ? 'bg-primary-50/40' : 'hover:bg-slate-50/80'}`}
+                        >
+                          <td className="px-4 py-3 text-slate-400">
+                            {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          </td>
+                          <td className="px-4 py-3 text-slate-600">
+                            {format(new Date(session.scheduledFor), 'MMM d, yyyy · h:mm a')}
+                          </td>
+                          <td className="px-4 py-3 font-medium text-slate-900">{session.className}</td>
+                          <td className="px-4 py-3 text-slate-600">{session.subject}</td>
+                          <td className="px-4 py-3 text-slate-600">{session.roomName ?? session.location}</td>
+                          <td className="px-4 py-3 text-slate-600">{session.expectedAttendance}</td>
+                          <td className="px-4 py-3">
+                            <span
+                              className={`inline-flex rounded-full px-3 py-1 text-xs font-semibold uppercase tracking-wide ${statusBadgeClasses[session.status]}`}
+                            >
+                              {session.status}
+                            </span>
+                          </td>
+                        </tr>
+                        {expanded ? (
+                          <tr>
+                            <td colSpan={7} className="bg-slate-50/60 px-6 py-4">
+                              {!checkIns || checkIns.loading ? (
+                                <p className="text-sm text-slate-500">Loading check-ins…</p>
+                              ) : checkIns.error ? (
+                                <p className="text-sm text-rose-600">{checkIns.error}</p>
+                              ) : checkIns.attendees.length === 0 ? (
+                                <p className="text-sm text-slate-500">No one checked in to this session.</p>
+                              ) : (
+                                <ul className="grid gap-2 md:grid-cols-2">
+                                  {checkIns.attendees.map((attendee: SessionAttendee) => (
+                                    <li
+                                      key={attendee.id}
+                                      className="flex items-center justify-between rounded-lg border border-slate-100 bg-white px-3 py-2"
+                                    >
+                                      <span className="font-medium text-slate-800">{attendee.name}</span>
+                                      <span className="text-xs text-slate-500">
+                                        <span className={`font-semibold capitalize ${attendeeStatusClasses[attendee.status]}`}>
+                                          {attendee.status}
+                                        </span>
+                                        {attendee.scannedAt ? ` · ${format(new Date(attendee.scannedAt), 'h:mm a')}` : null}
+                                        {typeof attendee.proximityMeters === 'number'
+                                          ? ` · ${Math.round(attendee.proximityMeters)} m`
+                                          : null}
+                                      </span>
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
+                              {checkIns && !checkIns.loading ? (
+                                <button
+                                  type="button"
+                                  onClick={() => loadAttendees(session, { force: true })}
+                                  className="mt-3 inline-flex items-center gap-1 text-xs font-semibold text-primary-600 hover:underline"
+                                >
+                                  <RefreshCw className="h-3 w-3" /> Reload check-ins
+                                </button>
+                              ) : null}
+                            </td>
+                          </tr>
+                        ) : null}
+                      </Fragment>
+                    );
+                  })}
+                {!loading && sessions.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="px-4 py-8 text-center text-slate-500">
+                      {isFiltered ? 'No sessions match these filters.' : 'No sessions yet.'}
+                    </td>
+                  </tr>
+                ) : null}
+              </tbody>
+            </table>
+          </div>
+
+          {hasMore ? (
+            <div className="mt-4 flex justify-center">
+              <button
+                type="button"
+                onClick={loadMore}
+                disabled={loadingMore}
+                className="rounded-lg border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-600 transition hover:border-primary-300 hover:text-primary-600 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {loadingMore ? 'Loading…' : 'Load older sessions'}
+              </button>
+            </div>
+          ) : null}
+        </section>
+      </main>
+    </div>
+  );
+}
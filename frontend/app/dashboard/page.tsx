@@ -9,21 +9,37 @@ import { OverviewCards } from '@/components/dashboard/OverviewCards';
 import { SessionCreator } from '@/components/dashboard/SessionCreator';
 import { AttendanceFeed } from '@/components/dashboard/AttendanceFeed';
 import { TaskRecommendations } from '@/components/dashboard/TaskRecommendations';
+import { SessionLifecycleActions } from '@/components/dashboard/SessionLifecycleActions';
+import { ReviewQueue } from '@/components/dashboard/ReviewQueue';
+import { AppealsPanel } from '@/components/dashboard/AppealsPanel';
 import {
   useTeacherSessions,
+  withDerivedStatus,
   type AttendanceSession,
-  type SessionAttendee
+  type SessionAttendee,
+  type SessionStatus
 } from '@/lib/hooks/useTeacherSessions';
+import { useReviewQueue } from '@/lib/hooks/useReviewQueue';
+import { useTeacherAppeals } from '@/lib/hooks/useTeacherAppeals';
+import { describeGeofence } from '@/lib/rooms';
+import { applySessionTransition } from '@/lib/sessionLifecycle';
+
+const statusBadgeClasses: Record<SessionStatus, string> = {
+  scheduled: 'bg-primary-100 text-primary-700',
+  active: 'bg-emerald-100 text-emerald-700',
+  completed: 'bg-slate-100 text-slate-600',
+  cancelled: 'bg-rose-100 text-rose-700'
+};
 
 export default function DashboardPage() {
-  const { user } = useAuth();
-  const { sessions, loading: sessionsLoading, metrics } = useTeacherSessions(user?.uid);
+  const { user, isAdmin } = useAuth();
+  const { sessions, loading: sessionsLoading, metrics, transitionSession } = useTeacherSessions(user?.uid);
   const [localSessions, setLocalSessions] = useState<AttendanceSession[]>([]);
 
   const combinedSessions = useMemo(() => {
     const existingIds = new Set(localSessions.map((session: AttendanceSession) => session.id));
     const merged = [
-      ...localSessions,
+      ...localSessions.map((session: AttendanceSession) => withDerivedStatus(session)),
       ...sessions.filter((session: AttendanceSession) => !existingIds.has(session.id))
     ];
     return merged.sort(
@@ -31,6 +47,19 @@ export default function DashboardPage() {
     );
   }, [localSessions, sessions]);
 
+  const reviewQueue = useReviewQueue(user, combinedSessions);
+  const { appeals, loading: appealsLoading, resolve: resolveAppeal } = useTeacherAppeals(user);
+
+  const handleTransition = async (session: AttendanceSession, nextStatus: SessionStatus) => {
+    if (localSessions.some((local: AttendanceSession) => local.id === session.id)) {
+      setLocalSessions((prev: AttendanceSession[]) =>
+        prev.map((local) => (local.id === session.id ? applySessionTransition(session, nextStatus) : local))
+      );
+    }
+
+    await transitionSession(session, nextStatus);
+  };
+
   const upcomingCount = metrics.upcomingCount + localSessions.length;
   const averageAttendanceRate = metrics.averageAttendanceRate;
   const activeSession =
@@ -50,6 +79,38 @@ export default function DashboardPage() {
               <p className="text-sm font-medium text-slate-900">{user?.displayName ?? 'Teacher'}</p>
               <p className="text-xs text-slate-500">{user?.email}</p>
             </div>
+            <Link
+              href="/dashboard/classes"
+              className="hidden rounded-full border border-slate-200 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-500 transition hover:border-primary-300 hover:text-primary-600 md:inline-flex"
+            >
+              Classes
+            </Link>
+            <Link
+              href="/dashboard/rooms"
+              className="hidden rounded-full border border-slate-200 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-500 transition hover:border-primary-300 hover:text-primary-600 md:inline-flex"
+            >
+              Rooms
+            </Link>
+            <Link
+              href="/dashboard/grades"
+              className="hidden rounded-full border border-slate-200 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-500 transition hover:border-primary-300 hover:text-primary-600 md:inline-flex"
+            >
+              Grades
+            </Link>
+            <Link
+              href="/dashboard/reports"
+              className="hidden rounded-full border border-slate-200 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-500 transition hover:border-primary-300 hover:text-primary-600 md:inline-flex"
+            >
+              Reports
+            </Link>
+            {isAdmin ? (
+              <Link
+                href="/dashboard/devices"
+                className="hidden rounded-full border border-slate-200 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-500 transition hover:border-primary-300 hover:text-primary-600 md:inline-flex"
+              >
+                Devices
+              </Link>
+            ) : null}
             <Link
               href="/dashboard/analytics"
               className="hidden rounded-full border border-slate-200 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-500 transition hover:border-primary-300 hover:text-primary-600 md:inline-flex"
@@ -79,9 +140,25 @@ export default function DashboardPage() {
           <TaskRecommendations teacherId={user?.uid ?? undefined} />
         </div>
 
+        <ReviewQueue
+          items={reviewQueue.items}
+          loading={reviewQueue.loading}
+          error={reviewQueue.error}
+          onDecide={reviewQueue.decide}
+        />
+
+        <AppealsPanel appeals={appeals} loading={appealsLoading} onResolve={resolveAppeal} />
+
         <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
-          <h3 className="text-lg font-semibold text-slate-900">Recent sessions</h3>
-          <p className="text-sm text-slate-500">Snapshot of the latest QR-powered attendance sessions.</p>
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="text-lg font-semibold text-slate-900">Recent sessions</h3>
+              <p className="text-sm text-slate-500">Snapshot of the latest QR-powered attendance sessions.</p>
+            </div>
+            <Link href="/dashboard/history" className="text-sm font-semibold text-primary-600 hover:underline">
+              View all sessions
+            </Link>
+          </div>
 
           <div className="mt-4 overflow-hidden rounded-xl border border-slate-100">
             <table className="min-w-full divide-y divide-slate-100 text-sm">
@@ -93,12 +170,13 @@ export default function DashboardPage() {
                   <th className="px-4 py-3">Location</th>
                   <th className="px-4 py-3">Attendance</th>
                   <th className="px-4 py-3">Status</th>
+                  <th className="px-4 py-3">Actions</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-slate-100 bg-white">
                 {(sessionsLoading && combinedSessions.length === 0) && (
                   <tr>
-                    <td colSpan={6} className="px-4 py-6 text-center text-slate-500">
+                    <td colSpan={7} className="px-4 py-6 text-center text-slate-500">
                       Loading sessions…
                     </td>
                   </tr>
@@ -107,6 +185,9 @@ export default function DashboardPage() {
                   const presentCount = session.attendees.filter(
                     (attendee: SessionAttendee) => attendee.status === 'present'
                   ).length;
+                  const absentCount = session.attendees.filter(
+                    (attendee: SessionAttendee) => attendee.status === 'absent'
+                  ).length;
                   return (
                     <tr key={session.id} className="hover:bg-slate-50/80">
                       <td className="px-4 py-3 font-medium text-slate-900">{session.className}</td>
@@ -116,7 +197,9 @@ export default function DashboardPage() {
                       </td>
                       <td className="px-4 py-3 text-slate-600">
                         <p>{session.location}</p>
-                        {session.locationCoordinates?.accuracy ? (
+                        {session.geofence ? (
+                          <p className="text-xs text-slate-400">{describeGeofence(session.geofence)}</p>
+                        ) : session.locationCoordinates?.accuracy ? (
                           <p className="text-xs text-slate-400">
                             ±{session.locationCoordinates.accuracy.toFixed(0)} m accuracy
                           </p>
@@ -124,20 +207,24 @@ export default function DashboardPage() {
                       </td>
                       <td className="px-4 py-3 text-slate-600">
                         {presentCount}/{session.expectedAttendance}
+                        {absentCount > 0 ? <p className="text-xs text-rose-500">{absentCount} absent</p> : null}
                       </td>
                       <td className="px-4 py-3">
                         <span
-                          className="inline-flex rounded-full bg-primary-100 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-primary-700"
+                          className={`inline-flex rounded-full px-3 py-1 text-xs font-semibold uppercase tracking-wide ${statusBadgeClasses[session.status]}`}
                         >
                           {session.status}
                         </span>
                       </td>
+                      <td className="px-4 py-3">
+                        <SessionLifecycleActions session={session} onTransition={handleTransition} />
+                      </td>
                     </tr>
                   );
                 })}
                 {(!sessionsLoading && combinedSessions.length === 0) && (
                   <tr>
-                    <td colSpan={6} className="px-4 py-8 text-center text-slate-500">
+                    <td colSpan={7} className="px-4 py-8 text-center text-slate-500">
                       No sessions yet. Use the generator above to create your first attendance QR.
                     </td>
                   </tr>
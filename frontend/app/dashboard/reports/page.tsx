@@ -0,0 +1,158 @@
+'use client';
+
+import Link from 'next/link';
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { format, subDays } from 'date-fns';
+import { ArrowLeft, FileSpreadsheet, FileText, Sheet } from 'lucide-react';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { SignOutButton } from '@/components/auth/SignOutButton';
+import { downloadAttendanceReport, type AttendanceReportFormat } from '@/lib/attendanceReportDownload';
+import { useTeacherClasses, type ClassRecord } from '@/lib/hooks/useTeacherClasses';
+
+const REPORT_FORMATS: Array<{ format: AttendanceReportFormat; label: string; description: string; icon: typeof Sheet }> = [
+  { format: 'pdf', label: 'PDF', description: 'Printable register for signing and filing.', icon: FileText },
+  { format: 'xlsx', label: 'Excel', description: 'Workbook with frozen names and headers.', icon: FileSpreadsheet },
+  { format: 'csv', label: 'CSV', description: 'Plain rows for a student information system.', icon: Sheet }
+];
+
+export default function ReportsPage() {
+  const { user } = useAuth();
+  const { classes, loading } = useTeacherClasses(user?.uid);
+  const [selectedClassId, setSelectedClassId] = useState('');
+  const [fromDate, setFromDate] = useState(() => format(subDays(new Date(), 30), 'yyyy-MM-dd'));
+  const [toDate, setToDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [exporting, setExporting] = useState<AttendanceReportFormat | null>(null);
+
+  const classId = selectedClassId || classes[0]?.id || '';
+
+  const handleExport = async (reportFormat: AttendanceReportFormat) => {
+    if (!classId) {
+      toast.error('Create a class roster first.');
+      return;
+    }
+    if (!fromDate || !toDate || fromDate > toDate) {
+      toast.error('Choose a start date on or before the end date.');
+      return;
+    }
+
+    setExporting(reportFormat);
+    try {
+      const fileName = await downloadAttendanceReport(user, { classId, fromDate, toDate, format: reportFormat });
+      toast.success(fileName ? `${fileName} downloaded.` : 'Demo mode has no attendance to export. Connect Firebase first.');
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : 'Unable to export the register.');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-100">
+      <header className="border-b border-slate-200 bg-white/90 backdrop-blur">
+        <div className="mx-auto flex max-w-4xl items-center justify-between px-6 py-4">
+          <div>
+            <div className="flex items-center gap-3 text-sm text-slate-600">
+              <Link
+                href="/dashboard"
+                className="inline-flex items-center gap-2 rounded-full border border-slate-200 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-500 transition hover:border-primary-300 hover:text-primary-600"
+              >
+                <ArrowLeft className="h-3.5 w-3.5" /> Back to sessions
+              </Link>
+              <span className="text-xs text-slate-400">Reports</span>
+            </div>
+            <h1 className="mt-2 text-2xl font-semibold text-slate-900">Attendance registers</h1>
+            <p className="text-xs text-slate-500">Export a class register for administration.</p>
+          </div>
+          <div className="flex items-center gap-4">
+            <div className="text-right">
+              <p className="text-sm font-medium text-slate-900">{user?.displayName ?? 'Teacher'}</p>
+              <p className="text-xs text-slate-500">{user?.email}</p>
+            </div>
+            <SignOutButton />
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-4xl space-y-6 px-6 py-8">
+        <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+          <h2 className="text-lg font-semibold text-slate-900">Register</h2>
+          <p className="text-sm text-slate-500">
+            One row per student and one column per session held, marked P (present), L (late), A (absent) or F
+            (flagged for review), with each student&rsquo;s and each session&rsquo;s attendance rate.
+          </p>
+
+          <div className="mt-6 grid gap-4 md:grid-cols-2">
+            <label className="space-y-2 md:col-span-2">
+              <span className="text-sm font-medium text-slate-700">Class</span>
+              <select
+                value={classId}
+                onChange={(event) => setSelectedClassId(event.target.value)}
+                disabled={loading && classes.length === 0}
+                className="w-full rounded-lg border border-slate-200 px-4 py-3 text-slate-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-200"
+              >
+                {classes.length === 0 ? <option value="">{loading ? 'Loading classes…' : 'No classes yet'}</option> : null}
+                {classes.map((classRecord: ClassRecord) => (
+                  <option key={classRecord.id} value={classRecord.id}>
+                    {classRecord.name} · {classRecord.subject} ({classRecord.roster.length} students)
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="space-y-2">
+              <span className="text-sm font-medium text-slate-700">From</span>
+              <input
+                type="date"
+                value={fromDate}
+                max={toDate}
+                onChange={(event) => setFromDate(event.target.value)}
+                className="w-full rounded-lg border border-slate-200 px-4 py-3 text-slate-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-200"
+              />
+            </label>
+            <label className="space-y-2">
+              <span className="text-sm font-medium text-slate-700">To</span>
+              <input
+                type="date"
+                value={toDate}
+                min={fromDate}
+                onChange={(event) => setToDate(event.target.value)}
+                className="w-full rounded-lg border border-slate-200 px-4 py-3 text-slate-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-200"
+              />
+            </label>
+          </div>
+
+          <div className="mt-6 grid gap-3 md:grid-cols-3">
+            {REPORT_FORMATS.map(({ format: reportFormat, label, description, icon: Icon }) => (
+              <button
+                key={reportFormat}
+                type="button"
+                onClick={() => handleExport(reportFormat)}
+                disabled={exporting !== null || !classId}
+                className="flex items-start gap-3 rounded-xl border border-slate-200 p-4 text-left transition hover:border-primary-300 hover:bg-primary-50/40 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                <Icon className="mt-0.5 h-5 w-5 text-primary-600" />
+                <span>
+                  <span className="block text-sm font-semibold text-slate-900">
+                    {exporting === reportFormat ? 'Exporting…' : `Download ${label}`}
+                  </span>
+                  <span className="block text-xs text-slate-500">{description}</span>
+                </span>
+              </button>
+            ))}
+          </div>
+        </section>
+
+        {!loading && classes.length === 0 ? (
+          <p className="rounded-xl border border-slate-200 bg-white p-4 text-sm text-slate-500">
+            Registers are built from class rosters.{' '}
+            <Link href="/dashboard/classes" className="text-primary-600 hover:underline">
+              Create a class
+            </Link>{' '}
+            and launch sessions from it to export attendance.
+          </p>
+        ) : null}
+      </main>
+    </div>
+  );
+}
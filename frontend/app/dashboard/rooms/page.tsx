@@ -0,0 +1,118 @@
+'use client';
+
+import Link from 'next/link';
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { ArrowLeft } from 'lucide-react';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { SignOutButton } from '@/components/auth/SignOutButton';
+import { RoomEditor } from '@/components/dashboard/RoomEditor';
+import { describeGeofence } from '@/lib/rooms';
+import { useTeacherRooms, type RoomInput, type RoomRecord } from '@/lib/hooks/useTeacherRooms';
+
+export default function RoomsPage() {
+  const { user } = useAuth();
+  const { rooms, loading, addRoom, editRoom, removeRoom } = useTeacherRooms(user?.uid);
+  const [editingRoomId, setEditingRoomId] = useState<string | null>(null);
+
+  const editingRoom = rooms.find((room: RoomRecord) => room.id === editingRoomId) ?? null;
+
+  const handleSave = async (input: RoomInput) => {
+    if (editingRoom) {
+      const updated = await editRoom(editingRoom, input);
+      setEditingRoomId(null);
+      toast.success(`${updated.name} updated. Sessions already created keep their original location.`);
+      return;
+    }
+
+    const created = await addRoom(input);
+    toast.success(`${created.name} saved. Pick it when launching a session.`);
+  };
+
+  const handleDelete = async (room: RoomRecord) => {
+    if (!window.confirm(`Delete ${room.name}? Past sessions keep their location.`)) {
+      return;
+    }
+
+    try {
+      await removeRoom(room.id);
+      if (editingRoomId === room.id) {
+        setEditingRoomId(null);
+      }
+      toast.success('Room deleted.');
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : 'Unable to delete the room.');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-100">
+      <header className="border-b border-slate-200 bg-white/90 backdrop-blur">
+        <div className="mx-auto flex max-w-6xl items-center justify-between px-6 py-4">
+          <div>
+            <div className="flex items-center gap-3 text-sm text-slate-600">
+              <Link
+                href="/dashboard"
+                className="inline-flex items-center gap-2 rounded-full border border-slate-200 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-500 transition hover:border-primary-300 hover:text-primary-600"
+              >
+                <ArrowLeft className="h-3.5 w-3.5" /> Back to sessions
+              </Link>
+              <span className="text-xs text-slate-400">Rooms</span>
+            </div>
+            <h1 className="mt-2 text-2xl font-semibold text-slate-900">Rooms and geofences</h1>
+            <p className="text-xs text-slate-500">Save each classroom once, then pick it when launching a session.</p>
+          </div>
+          <div className="flex items-center gap-4">
+            <div className="text-right">
+              <p className="text-sm font-medium text-slate-900">{user?.displayName ?? 'Teacher'}</p>
+              <p className="text-xs text-slate-500">{user?.email}</p>
+            </div>
+            <SignOutButton />
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto grid max-w-6xl gap-8 px-6 py-8 lg:grid-cols-[1fr_2fr]">
+        <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+          <h2 className="text-lg font-semibold text-slate-900">Saved rooms</h2>
+          <ul className="mt-4 space-y-2">
+            {loading && rooms.length === 0 ? <li className="text-sm text-slate-500">Loading rooms…</li> : null}
+            {rooms.map((room: RoomRecord) => (
+              <li key={room.id}>
+                <div
+                  className={`flex items-center justify-between rounded-xl border px-4 py-3 text-sm transition ${
+                    room.id === editingRoomId ? 'border-primary-300 bg-primary-50/60' : 'border-slate-100 hover:border-primary-200'
+                  }`}
+                >
+                  <button type="button" onClick={() => setEditingRoomId(room.id)} className="text-left">
+                    <p className="font-medium text-slate-900">{room.name}</p>
+                    <p className="text-xs text-slate-500">
+                      {[room.building, describeGeofence(room.geofence)].filter(Boolean).join(' · ')}
+                    </p>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(room)}
+                    className="text-xs font-semibold text-rose-500 hover:text-rose-700"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+            {!loading && rooms.length === 0 ? (
+              <li className="text-sm text-slate-500">No rooms yet. Outline your first classroom to reuse it across sessions.</li>
+            ) : null}
+          </ul>
+        </section>
+
+        <RoomEditor
+          room={editingRoom}
+          onSave={handleSave}
+          onCancel={editingRoom ? () => setEditingRoomId(null) : undefined}
+        />
+      </main>
+    </div>
+  );
+}
@@ -21,6 +21,7 @@ import { ensureTeacherDocument } from '@/lib/utils/ensureTeacherDocument';
 
 interface AuthContextValue {
   user: User | null;
+  isAdmin: boolean;
   loading: boolean;
   error: string | null;
   signIn: (email: string, password: string) => Promise<void>;
@@ -32,6 +33,7 @@ const AuthContext = createContext<AuthContextValue | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
+  const [isAdmin, setIsAdmin] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -42,15 +44,29 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
 
     const unsubscribe = onAuthStateChanged(getFirebaseAuth(), async (firebaseUser: User | null) => {
+      if (!firebaseUser) {
+        setUser(null);
+        setIsAdmin(false);
+        setLoading(false);
+        return;
+      }
+
+      try {
+        // Admins carry the `admin` custom claim, granted with the Firebase Admin SDK.
+        const tokenResult = await firebaseUser.getIdTokenResult();
+        setIsAdmin(tokenResult.claims.admin === true);
+      } catch (err) {
+        console.error('Failed to read account claims', err);
+        setIsAdmin(false);
+      }
+
       setUser(firebaseUser);
       setLoading(false);
 
-      if (firebaseUser) {
-        try {
-          await ensureTeacherDocument(firebaseUser.uid, firebaseUser.displayName);
-        } catch (err) {
-          console.error('Failed to ensure teacher document exists', err);
-        }
+      try {
+        await ensureTeacherDocument(firebaseUser.uid, firebaseUser.displayName);
+      } catch (err) {
+        console.error('Failed to ensure teacher document exists', err);
       }
     });
 
@@ -108,13 +124,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const value = useMemo(
     () => ({
       user,
+      isAdmin,
       loading,
       error,
       signIn,
       signOut,
       requestPasswordReset
     }),
-    [error, loading, requestPasswordReset, signIn, signOut, user]
+    [error, isAdmin, loading, requestPasswordReset, signIn, signOut, user]
   );
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
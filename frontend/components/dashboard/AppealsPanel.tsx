@@ -0,0 +1,139 @@
+'use client';
+
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import clsx from 'clsx';
+import { formatDistanceToNow } from 'date-fns';
+import { Paperclip } from 'lucide-react';
+import { APPEAL_CATEGORY_LABELS } from '@/lib/appeals';
+import type { AppealStatus, AttendanceAppeal } from '@/lib/hooks/useTeacherAppeals';
+
+interface AppealsPanelProps {
+  appeals: AttendanceAppeal[];
+  loading: boolean;
+  onResolve: (appeal: AttendanceAppeal, resolution: Exclude<AppealStatus, 'pending'>, note: string) => Promise<void>;
+}
+
+const statusClasses: Record<AppealStatus, string> = {
+  pending: 'bg-amber-100 text-amber-700',
+  accepted: 'bg-emerald-100 text-emerald-700',
+  rejected: 'bg-rose-100 text-rose-700'
+};
+
+export function AppealsPanel({ appeals, loading, onResolve }: AppealsPanelProps) {
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const pendingCount = appeals.filter((appeal) => appeal.status === 'pending').length;
+
+  const handleResolve = async (appeal: AttendanceAppeal, resolution: Exclude<AppealStatus, 'pending'>) => {
+    setPendingId(appeal.id);
+    try {
+      await onResolve(appeal, resolution, notes[appeal.id] ?? '');
+      setNotes((previous) => ({ ...previous, [appeal.id]: '' }));
+      toast.success(resolution === 'accepted' ? 'Appeal accepted.' : 'Appeal rejected.');
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : 'Unable to resolve the appeal.');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-900">Student appeals</h3>
+          <p className="text-sm text-slate-500">Excuses and disputes students filed against their attendance records.</p>
+        </div>
+        <p className="text-xs text-slate-400">{pendingCount} pending</p>
+      </div>
+
+      <div className="mt-4 space-y-3">
+        {loading && appeals.length === 0 ? <p className="text-sm text-slate-500">Loading appeals…</p> : null}
+
+        {appeals.map((appeal) => (
+          <article key={appeal.id} className="rounded-xl border border-slate-100 p-4">
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              <div>
+                <h4 className="font-semibold text-slate-900">{appeal.studentName}</h4>
+                <p className="text-xs text-slate-500">
+                  {appeal.subject} · {appeal.className} · recorded as {appeal.logStatus} ·{' '}
+                  {formatDistanceToNow(new Date(appeal.submittedAt), { addSuffix: true })}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="rounded-full bg-slate-100 px-2.5 py-1 text-[11px] font-semibold text-slate-600">
+                  {APPEAL_CATEGORY_LABELS[appeal.category]}
+                </span>
+                <span
+                  className={clsx(
+                    'rounded-full px-2.5 py-1 text-[11px] font-semibold uppercase tracking-wide',
+                    statusClasses[appeal.status]
+                  )}
+                >
+                  {appeal.status}
+                </span>
+              </div>
+            </div>
+
+            <p className="mt-3 text-sm text-slate-700">{appeal.reason}</p>
+
+            {appeal.attachment ? (
+              <a
+                href={appeal.attachment.dataUrl}
+                target="_blank"
+                rel="noreferrer"
+                className="mt-3 inline-flex items-center gap-2 text-xs font-semibold text-primary-600 hover:text-primary-700"
+              >
+                <Paperclip className="h-3.5 w-3.5" />
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img
+                  src={appeal.attachment.dataUrl}
+                  alt={`Attachment from ${appeal.studentName}`}
+                  className="h-16 w-16 rounded-lg border border-slate-200 object-cover"
+                />
+              </a>
+            ) : null}
+
+            {appeal.status === 'pending' ? (
+              <div className="mt-3 space-y-2">
+                <textarea
+                  value={notes[appeal.id] ?? ''}
+                  onChange={(event) => setNotes((previous) => ({ ...previous, [appeal.id]: event.target.value }))}
+                  rows={2}
+                  placeholder="Note to the student"
+                  className="w-full rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-200"
+                />
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => handleResolve(appeal, 'accepted')}
+                    disabled={pendingId !== null}
+                    className="rounded-lg border border-emerald-200 px-3 py-1.5 text-xs font-semibold text-emerald-700 transition hover:bg-emerald-50 disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    {pendingId === appeal.id ? 'Saving…' : 'Accept'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleResolve(appeal, 'rejected')}
+                    disabled={pendingId !== null}
+                    className="rounded-lg border border-rose-200 px-3 py-1.5 text-xs font-semibold text-rose-600 transition hover:bg-rose-50 disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    Reject
+                  </button>
+                </div>
+              </div>
+            ) : appeal.resolutionNote ? (
+              <p className="mt-3 rounded-lg bg-slate-50 p-3 text-xs text-slate-500">{appeal.resolutionNote}</p>
+            ) : null}
+          </article>
+        ))}
+
+        {!loading && appeals.length === 0 ? (
+          <p className="rounded-xl border border-slate-200 bg-slate-50 p-4 text-sm text-slate-500">No appeals yet.</p>
+        ) : null}
+      </div>
+    </section>
+  );
+}
@@ -1,11 +1,18 @@
 'use client';
 
 import { Fragment } from 'react';
-import { CheckCircle2, CircleAlert, Clock } from 'lucide-react';
+import { Activity, CheckCircle2, CircleAlert, Clock, ScanFace, UserX } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import clsx from 'clsx';
+import type { FaceVerification } from '@/lib/faceVerification';
 import type { AttendanceSession, SessionAttendee } from '@/lib/hooks/useTeacherSessions';
 
+const FACE_LABELS: Record<FaceVerification['verdict'], string> = {
+  matched: 'Face match',
+  mismatch: 'Face mismatch',
+  enrolled: 'Face enrolled'
+};
+
 interface AttendanceFeedProps {
   sessions: AttendanceSession[];
 }
@@ -17,7 +24,7 @@ export function AttendanceFeed({ sessions }: AttendanceFeedProps) {
         ...attendee,
         sessionSubject: session.subject,
         sessionId: session.id,
-        scannedAt: attendee.scannedAt ?? session.scheduledFor
+        scannedAt: attendee.scannedAt ?? session.endedAt ?? session.scheduledFor
       }))
     )
     .sort((a, b) => new Date(b.scannedAt ?? 0).getTime() - new Date(a.scannedAt ?? 0).getTime())
@@ -34,7 +41,7 @@ export function AttendanceFeed({ sessions }: AttendanceFeedProps) {
   return (
     <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
       <h3 className="text-lg font-semibold text-slate-900">Live attendance feed</h3>
-      <p className="text-sm text-slate-500">Most recent face scans, proximity checks, and flags.</p>
+      <p className="text-sm text-slate-500">Most recent face scans, proximity checks, flags, and absences.</p>
 
       <div className="mt-4 space-y-3">
         {recentEvents.map((event) => {
@@ -43,6 +50,8 @@ export function AttendanceFeed({ sessions }: AttendanceFeedProps) {
               <CheckCircle2 className="h-5 w-5 text-emerald-500" />
             ) : event.status === 'flagged' ? (
               <CircleAlert className="h-5 w-5 text-amber-500" />
+            ) : event.status === 'absent' ? (
+              <UserX className="h-5 w-5 text-rose-500" />
             ) : (
               <Clock className="h-5 w-5 text-slate-400" />
             );
@@ -53,7 +62,10 @@ export function AttendanceFeed({ sessions }: AttendanceFeedProps) {
                 <div>{icon}</div>
                 <div className="flex-1">
                   <p className="text-sm font-semibold text-slate-800">{event.name}</p>
-                  <p className="text-xs text-slate-500">{event.sessionSubject}</p>
+                  <p className="text-xs text-slate-500">
+                    {event.sessionSubject}
+                    {event.status === 'absent' ? ' · Absent' : null}
+                  </p>
                 </div>
                 <div className="text-right text-xs text-slate-400">
                   <p>{formatDistanceToNow(new Date(event.scannedAt ?? Date.now()), { addSuffix: true })}</p>
@@ -62,6 +74,38 @@ export function AttendanceFeed({ sessions }: AttendanceFeedProps) {
                       {event.proximityMeters.toFixed(1)} m
                     </p>
                   ) : null}
+                  {event.faceVerification ? (
+                    <p
+                      className={clsx(
+                        'inline-flex items-center gap-1 font-medium',
+                        event.faceVerification.verdict === 'mismatch' ? 'text-rose-600' : 'text-emerald-600'
+                      )}
+                      title={[
+                        event.faceVerification.source === 'server' ? 'Verified on the server' : 'Reported by the device',
+                        event.faceVerification.threshold !== null
+                          ? `match threshold ${event.faceVerification.threshold.toFixed(3)}`
+                          : null
+                      ]
+                        .filter(Boolean)
+                        .join(' · ')}
+                    >
+                      <ScanFace className="h-3.5 w-3.5" />
+                      {FACE_LABELS[event.faceVerification.verdict]}
+                      {event.faceVerification.distance !== null ? ` · ${event.faceVerification.distance.toFixed(3)}` : null}
+                    </p>
+                  ) : null}
+                  {event.liveness ? (
+                    <p
+                      className={clsx(
+                        'inline-flex items-center gap-1 font-medium',
+                        event.liveness.passed ? 'text-emerald-600' : 'text-rose-600'
+                      )}
+                      title={`Challenge: ${event.liveness.challenge}`}
+                    >
+                      <Activity className="h-3.5 w-3.5" />
+                      {event.liveness.passed ? 'Live' : 'Liveness failed'} · {Math.round(event.liveness.confidence * 100)}%
+                    </p>
+                  ) : null}
                 </div>
               </div>
             </Fragment>
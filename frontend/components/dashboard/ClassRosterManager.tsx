@@ -0,0 +1,221 @@
+'use client';
+
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { Trash2, Upload, UserPlus } from 'lucide-react';
+import { parseRosterCsv, type ClassRecord, type RosterEntry, type RosterEntryInput } from '@/lib/classRoster';
+
+interface ClassRosterManagerProps {
+  classRecord: ClassRecord;
+  onAddStudents: (classRecord: ClassRecord, additions: RosterEntryInput[]) => Promise<number>;
+  onRemoveStudent: (classRecord: ClassRecord, rosterId: string) => Promise<void>;
+}
+
+interface StudentFormState {
+  name: string;
+  email: string;
+  studentNumber: string;
+}
+
+const initialStudentForm: StudentFormState = {
+  name: '',
+  email: '',
+  studentNumber: ''
+};
+
+export function ClassRosterManager({ classRecord, onAddStudents, onRemoveStudent }: ClassRosterManagerProps) {
+  const [studentForm, setStudentForm] = useState<StudentFormState>(initialStudentForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = event.target;
+    setStudentForm((prev: StudentFormState) => ({ ...prev, [name]: value }));
+  };
+
+  const handleAddStudent = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    if (!studentForm.email.trim() && !studentForm.studentNumber.trim()) {
+      toast.error('Add an email or student number so check-ins can be matched to this student.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const added = await onAddStudents(classRecord, [
+        {
+          name: studentForm.name,
+          email: studentForm.email || null,
+          studentNumber: studentForm.studentNumber || null
+        }
+      ]);
+      if (added > 0) {
+        toast.success(`${studentForm.name} added to ${classRecord.name}.`);
+        setStudentForm(initialStudentForm);
+      } else {
+        toast.error('That student is already on this roster.');
+      }
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : 'Unable to add the student.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+
+    if (!file) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { entries, skippedRows } = parseRosterCsv(await file.text());
+      if (entries.length === 0) {
+        toast.error('No students found. Include name and email or student number columns.');
+        return;
+      }
+
+      const added = await onAddStudents(classRecord, entries);
+      const duplicates = entries.length - added;
+      toast.success(
+        [
+          `Imported ${added} student${added === 1 ? '' : 's'}.`,
+          duplicates > 0 ? `${duplicates} already enrolled.` : null,
+          skippedRows.length > 0 ? `Skipped rows ${skippedRows.join(', ')}.` : null
+        ]
+          .filter(Boolean)
+          .join(' ')
+      );
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : 'Unable to import the roster.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (entry: RosterEntry) => {
+    if (!window.confirm(`Remove ${entry.name} from ${classRecord.name}?`)) {
+      return;
+    }
+
+    setRemovingId(entry.rosterId);
+    try {
+      await onRemoveStudent(classRecord, entry.rosterId);
+      toast.success(`${entry.name} removed.`);
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : 'Unable to remove the student.');
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  return (
+    <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900">{classRecord.name}</h2>
+          <p className="text-sm text-slate-500">
+            {classRecord.subject} · {classRecord.roster.length} enrolled
+          </p>
+        </div>
+        <label className="inline-flex cursor-pointer items-center gap-2 rounded-lg border border-primary-200 px-4 py-2 text-sm font-semibold text-primary-700 transition hover:bg-primary-50">
+          <Upload className="h-4 w-4" />
+          Import CSV
+          <input type="file" accept=".csv,text/csv" onChange={handleImport} disabled={isSaving} className="hidden" />
+        </label>
+      </div>
+      <p className="mt-2 text-xs text-slate-400">
+        CSV columns: name, email, student number. A header row is optional.
+      </p>
+
+      <form onSubmit={handleAddStudent} className="mt-4 grid gap-3 md:grid-cols-[1.2fr_1.2fr_1fr_auto]">
+        <input
+          name="name"
+          value={studentForm.name}
+          onChange={handleChange}
+          required
+          placeholder="Student name"
+          className="rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-200"
+        />
+        <input
+          type="email"
+          name="email"
+          value={studentForm.email}
+          onChange={handleChange}
+          placeholder="student@school.edu"
+          className="rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-200"
+        />
+        <input
+          name="studentNumber"
+          value={studentForm.studentNumber}
+          onChange={handleChange}
+          placeholder="Student number"
+          className="rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-200"
+        />
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="inline-flex items-center justify-center gap-2 rounded-lg bg-primary-600 px-4 py-2 text-sm font-semibold text-white shadow hover:bg-primary-700 disabled:cursor-not-allowed disabled:bg-primary-400"
+        >
+          <UserPlus className="h-4 w-4" />
+          Add
+        </button>
+      </form>
+
+      <div className="mt-4 overflow-hidden rounded-xl border border-slate-100">
+        <table className="min-w-full divide-y divide-slate-100 text-sm">
+          <thead className="bg-slate-50 text-left text-xs font-semibold uppercase tracking-wider text-slate-500">
+            <tr>
+              <th className="px-4 py-3">Name</th>
+              <th className="px-4 py-3">Email</th>
+              <th className="px-4 py-3">Student number</th>
+              <th className="px-4 py-3">App account</th>
+              <th className="px-4 py-3" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 bg-white">
+            {classRecord.roster.map((entry: RosterEntry) => (
+              <tr key={entry.rosterId} className="hover:bg-slate-50/80">
+                <td className="px-4 py-3 font-medium text-slate-900">{entry.name}</td>
+                <td className="px-4 py-3 text-slate-600">{entry.email ?? '—'}</td>
+                <td className="px-4 py-3 text-slate-600">{entry.studentNumber ?? '—'}</td>
+                <td className="px-4 py-3 text-slate-600">
+                  {entry.studentId ? (
+                    <span className="rounded-full bg-emerald-100 px-2.5 py-1 text-xs font-semibold text-emerald-700">Linked</span>
+                  ) : (
+                    <span className="rounded-full bg-slate-100 px-2.5 py-1 text-xs font-semibold text-slate-500">Not yet</span>
+                  )}
+                </td>
+                <td className="px-4 py-3 text-right">
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(entry)}
+                    disabled={removingId === entry.rosterId}
+                    className="inline-flex items-center gap-1 rounded-lg border border-rose-200 px-2.5 py-1 text-xs font-semibold text-rose-600 transition hover:bg-rose-50 disabled:opacity-60"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {classRecord.roster.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-4 py-6 text-center text-slate-500">
+                  No students yet. Add them one by one or import a CSV export.
+                </td>
+              </tr>
+            ) : null}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,175 @@
+'use client';
+
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { formatDistanceToNow } from 'date-fns';
+import { Ban, CheckCircle2, Cpu, ShieldCheck, ShieldX, Smartphone } from 'lucide-react';
+import type { DeviceDecision, ManagedDevice } from '@/lib/hooks/useDeviceAdmin';
+
+interface DeviceApprovalQueueProps {
+  devices: ManagedDevice[];
+  loading: boolean;
+  error: string | null;
+  onDecide: (device: ManagedDevice, decision: DeviceDecision, reason: string) => Promise<void>;
+}
+
+const DECISIONS: {
+  decision: DeviceDecision;
+  label: string;
+  success: string;
+  icon: typeof CheckCircle2;
+  className: string;
+}[] = [
+  {
+    decision: 'approve',
+    label: 'Approve device',
+    success: 'Device approved and set as the student’s active device.',
+    icon: CheckCircle2,
+    className: 'border-emerald-200 text-emerald-700 hover:bg-emerald-50'
+  },
+  {
+    decision: 'block',
+    label: 'Block device',
+    success: 'Device blocked.',
+    icon: Ban,
+    className: 'border-rose-200 text-rose-600 hover:bg-rose-50'
+  }
+];
+
+function getDeviceKey(device: ManagedDevice) {
+  return `${device.studentId}:${device.deviceKey}`;
+}
+
+export function DeviceApprovalQueue({ devices, loading, error, onDecide }: DeviceApprovalQueueProps) {
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [pendingKey, setPendingKey] = useState<string | null>(null);
+
+  const handleDecision = async (device: ManagedDevice, action: (typeof DECISIONS)[number]) => {
+    const key = getDeviceKey(device);
+    const reason = reasons[key]?.trim() ?? '';
+
+    if (!reason) {
+      toast.error('Add a reason before recording a decision.');
+      return;
+    }
+
+    setPendingKey(key);
+    try {
+      await onDecide(device, action.decision, reason);
+      setReasons((previous) => ({ ...previous, [key]: '' }));
+      toast.success(action.success);
+    } catch (decisionError) {
+      console.error(decisionError);
+      toast.error(decisionError instanceof Error ? decisionError.message : 'Unable to save the decision.');
+    } finally {
+      setPendingKey(null);
+    }
+  };
+
+  return (
+    <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-900">Pending devices</h3>
+          <p className="text-sm text-slate-500">Approve or block hardware before it can submit attendance.</p>
+        </div>
+        <p className="text-xs text-slate-400">{devices.length} awaiting approval</p>
+      </div>
+
+      {error ? <p className="mt-4 text-sm text-rose-600">{error}</p> : null}
+
+      <div className="mt-4 space-y-4">
+        {loading && devices.length === 0 ? <p className="text-sm text-slate-500">Loading devices…</p> : null}
+
+        {devices.map((device) => {
+          const key = getDeviceKey(device);
+
+          return (
+            <article key={key} className="space-y-3 rounded-xl border border-slate-100 bg-slate-50/60 p-4">
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <h4 className="font-semibold text-slate-900">{device.studentName}</h4>
+                  <p className="text-xs text-slate-500">
+                    {device.studentEmail ?? 'No email on file'}
+                    {device.studentNumber ? ` · ${device.studentNumber}` : null}
+                    {device.lastSeenAt
+                      ? ` · seen ${formatDistanceToNow(new Date(device.lastSeenAt), { addSuffix: true })}`
+                      : null}
+                  </p>
+                </div>
+                <span className="rounded-full bg-primary-100 px-2.5 py-1 text-[11px] font-semibold uppercase tracking-wide text-primary-700">
+                  Pending
+                </span>
+              </div>
+
+              <dl className="grid grid-cols-2 gap-3 text-xs text-slate-600 md:grid-cols-4">
+                <div>
+                  <dt className="font-semibold text-slate-500">Platform</dt>
+                  <dd className="inline-flex items-center gap-1">
+                    <Smartphone className="h-3.5 w-3.5" />
+                    {device.platform}
+                    {device.osVersion ? ` ${device.osVersion}` : null}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="font-semibold text-slate-500">Model</dt>
+                  <dd>{[device.brand, device.modelName].filter(Boolean).join(' ') || 'Unknown model'}</dd>
+                </div>
+                <div>
+                  <dt className="font-semibold text-slate-500">Hardware</dt>
+                  <dd className={`inline-flex items-center gap-1 ${device.isPhysicalDevice ? '' : 'text-rose-600'}`}>
+                    <Cpu className="h-3.5 w-3.5" />
+                    {device.isPhysicalDevice ? 'Physical device' : 'Emulator / virtual'}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="font-semibold text-slate-500">Attestation</dt>
+                  <dd
+                    className={`inline-flex items-center gap-1 ${device.attestationPassed ? 'text-emerald-700' : 'text-rose-600'}`}
+                  >
+                    {device.attestationPassed ? <ShieldCheck className="h-3.5 w-3.5" /> : <ShieldX className="h-3.5 w-3.5" />}
+                    {device.attestationPassed ? 'Passed' : 'Failed'}
+                  </dd>
+                </div>
+              </dl>
+
+              <p className="text-xs text-slate-500">
+                Device key <span className="font-mono">{device.deviceKey}</span>
+                {device.approvalReason ? ` · ${device.approvalReason}` : null}
+              </p>
+
+              <textarea
+                value={reasons[key] ?? ''}
+                onChange={(event) => setReasons((previous) => ({ ...previous, [key]: event.target.value }))}
+                rows={2}
+                placeholder="Reason for your decision (shown to the student when blocking)"
+                className="w-full rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-200"
+              />
+
+              <div className="flex flex-wrap gap-2">
+                {DECISIONS.map((action) => (
+                  <button
+                    key={action.decision}
+                    type="button"
+                    onClick={() => handleDecision(device, action)}
+                    disabled={pendingKey !== null}
+                    className={`inline-flex items-center gap-1.5 rounded-lg border px-3 py-1.5 text-xs font-semibold transition disabled:cursor-not-allowed disabled:opacity-60 ${action.className}`}
+                  >
+                    <action.icon className="h-3.5 w-3.5" />
+                    {pendingKey === key ? 'Saving…' : action.label}
+                  </button>
+                ))}
+              </div>
+            </article>
+          );
+        })}
+
+        {!loading && devices.length === 0 ? (
+          <p className="rounded-xl border border-slate-200 bg-slate-50 p-4 text-sm text-slate-500">
+            No devices are waiting for approval.
+          </p>
+        ) : null}
+      </div>
+    </section>
+  );
+}
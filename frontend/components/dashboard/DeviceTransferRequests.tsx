@@ -0,0 +1,139 @@
+'use client';
+
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { formatDistanceToNow } from 'date-fns';
+import { ArrowRightLeft, CheckCircle2, XCircle } from 'lucide-react';
+import type { DeviceTransferRequest, TransferStatus } from '@/lib/hooks/useDeviceAdmin';
+
+interface DeviceTransferRequestsProps {
+  transfers: DeviceTransferRequest[];
+  loading: boolean;
+  onResolve: (
+    request: DeviceTransferRequest,
+    resolution: Exclude<TransferStatus, 'pending'>,
+    reason: string
+  ) => Promise<void>;
+}
+
+export function DeviceTransferRequests({ transfers, loading, onResolve }: DeviceTransferRequestsProps) {
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const handleResolve = async (request: DeviceTransferRequest, resolution: Exclude<TransferStatus, 'pending'>) => {
+    const reason = reasons[request.id]?.trim() ?? '';
+
+    if (!reason) {
+      toast.error('Add a reason before resolving the transfer.');
+      return;
+    }
+
+    setPendingId(request.id);
+    try {
+      await onResolve(request, resolution, reason);
+      setReasons((previous) => ({ ...previous, [request.id]: '' }));
+      toast.success(resolution === 'approved' ? 'Device transferred.' : 'Transfer request rejected.');
+    } catch (resolveError) {
+      console.error(resolveError);
+      toast.error(resolveError instanceof Error ? resolveError.message : 'Unable to resolve the transfer.');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-900">Transfer requests</h3>
+          <p className="text-sm text-slate-500">Students asking to move attendance to a different device.</p>
+        </div>
+        <p className="text-xs text-slate-400">{transfers.length} open</p>
+      </div>
+
+      <div className="mt-4 space-y-4">
+        {loading && transfers.length === 0 ? <p className="text-sm text-slate-500">Loading transfer requests…</p> : null}
+
+        {transfers.map((request) => (
+          <article key={request.id} className="space-y-3 rounded-xl border border-slate-100 bg-slate-50/60 p-4">
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <h4 className="font-semibold text-slate-900">{request.studentName}</h4>
+                <p className="text-xs text-slate-500">
+                  {request.studentEmail ?? 'No email on file'} ·{' '}
+                  {formatDistanceToNow(new Date(request.requestedAt), { addSuffix: true })}
+                </p>
+              </div>
+              <ArrowRightLeft className="h-4 w-4 text-slate-400" />
+            </div>
+
+            <dl className="grid grid-cols-2 gap-3 text-xs text-slate-600">
+              <div>
+                <dt className="font-semibold text-slate-500">Requested device</dt>
+                <dd>
+                  {request.device
+                    ? `${[request.device.brand, request.device.modelName].filter(Boolean).join(' ') || 'Unknown model'} (${request.device.platform})`
+                    : 'Unknown device'}
+                </dd>
+                <dd className="font-mono text-[11px] text-slate-400">{request.deviceKey}</dd>
+              </div>
+              <div>
+                <dt className="font-semibold text-slate-500">Replaces</dt>
+                <dd className="font-mono text-[11px]">{request.fromDeviceKey ?? 'No active device'}</dd>
+                {request.currentOwnerId && request.currentOwnerId !== request.studentId ? (
+                  <dd className="text-rose-600">Currently registered to another student</dd>
+                ) : null}
+              </div>
+              {request.device ? (
+                <div className="col-span-2">
+                  <dt className="font-semibold text-slate-500">Checks</dt>
+                  <dd>
+                    {request.device.isPhysicalDevice ? 'Physical device' : 'Emulator / virtual'} · attestation{' '}
+                    {request.device.attestationPassed ? 'passed' : 'failed'}
+                  </dd>
+                </div>
+              ) : null}
+            </dl>
+
+            <p className="rounded-lg bg-white/70 p-3 text-sm text-slate-700">“{request.reason}”</p>
+
+            <textarea
+              value={reasons[request.id] ?? ''}
+              onChange={(event) => setReasons((previous) => ({ ...previous, [request.id]: event.target.value }))}
+              rows={2}
+              placeholder="Reason for your decision (shared with the student)"
+              className="w-full rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-200"
+            />
+
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={() => handleResolve(request, 'approved')}
+                disabled={pendingId !== null}
+                className="inline-flex items-center gap-1.5 rounded-lg border border-emerald-200 px-3 py-1.5 text-xs font-semibold text-emerald-700 transition hover:bg-emerald-50 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                <CheckCircle2 className="h-3.5 w-3.5" />
+                {pendingId === request.id ? 'Saving…' : 'Approve transfer'}
+              </button>
+              <button
+                type="button"
+                onClick={() => handleResolve(request, 'rejected')}
+                disabled={pendingId !== null}
+                className="inline-flex items-center gap-1.5 rounded-lg border border-rose-200 px-3 py-1.5 text-xs font-semibold text-rose-600 transition hover:bg-rose-50 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                <XCircle className="h-3.5 w-3.5" />
+                {pendingId === request.id ? 'Saving…' : 'Reject'}
+              </button>
+            </div>
+          </article>
+        ))}
+
+        {!loading && transfers.length === 0 ? (
+          <p className="rounded-xl border border-slate-200 bg-slate-50 p-4 text-sm text-slate-500">
+            No transfer requests are open.
+          </p>
+        ) : null}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,78 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import toast from 'react-hot-toast';
+import type { User } from 'firebase/auth';
+import { ScanFace } from 'lucide-react';
+import { resetStudentFaceEnrollment } from '@/lib/faceEnrollmentAdmin';
+
+interface FaceEnrollmentResetProps {
+  user: User | null;
+}
+
+export function FaceEnrollmentReset({ user }: FaceEnrollmentResetProps) {
+  const [student, setStudent] = useState('');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    if (!student.trim() || !reason.trim()) {
+      toast.error('Enter the student and a reason before resetting.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await resetStudentFaceEnrollment(user, student.trim(), reason.trim());
+      setStudent('');
+      setReason('');
+      toast.success(
+        `Face enrollment reset (${result.removedSamples} template${result.removedSamples === 1 ? '' : 's'} removed).`
+      );
+    } catch (resetError) {
+      console.error(resetError);
+      toast.error(resetError instanceof Error ? resetError.message : 'Unable to reset face enrollment.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-900">Face enrollment</h3>
+          <p className="text-sm text-slate-500">
+            Clear a student’s stored face templates. Their next check-in selfie becomes the new baseline.
+          </p>
+        </div>
+        <ScanFace className="h-4 w-4 text-slate-400" />
+      </div>
+
+      <form onSubmit={handleSubmit} className="mt-4 space-y-3">
+        <input
+          value={student}
+          onChange={(event) => setStudent(event.target.value)}
+          placeholder="Student email or UID"
+          className="w-full rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-200"
+        />
+        <textarea
+          value={reason}
+          onChange={(event) => setReason(event.target.value)}
+          rows={2}
+          placeholder="Reason for the reset (kept for audit)"
+          className="w-full rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-200"
+        />
+        <button
+          type="submit"
+          disabled={saving}
+          className="inline-flex items-center gap-1.5 rounded-lg border border-rose-200 px-3 py-1.5 text-xs font-semibold text-rose-600 transition hover:bg-rose-50 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {saving ? 'Resetting…' : 'Reset enrollment'}
+        </button>
+      </form>
+    </section>
+  );
+}
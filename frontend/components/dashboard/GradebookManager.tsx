@@ -0,0 +1,319 @@
+'use client';
+
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { Plus, Trash2, Upload } from 'lucide-react';
+import type { ClassRecord, RosterEntry } from '@/lib/classRoster';
+import {
+  formatScore,
+  parseGradebookCsv,
+  parseScoreInput,
+  summarizeGrades,
+  type Assignment,
+  type AssignmentInput,
+  type AssignmentScore,
+  type GradebookImportResult,
+  type GradebookImportSummary,
+  type GradeStatus
+} from '@/lib/gradebook';
+
+interface GradebookManagerProps {
+  classRecord: ClassRecord;
+  assignments: Assignment[];
+  loading: boolean;
+  onAddAssignment: (input: AssignmentInput) => Promise<Assignment>;
+  onSetScore: (assignment: Assignment, entry: RosterEntry, score: AssignmentScore | null) => Promise<void>;
+  onImport: (parsed: GradebookImportResult) => Promise<GradebookImportSummary>;
+  onRemoveAssignment: (assignmentId: string) => Promise<void>;
+}
+
+interface AssignmentFormState {
+  title: string;
+  maxPoints: string;
+  dueDate: string;
+}
+
+const initialAssignmentForm: AssignmentFormState = {
+  title: '',
+  maxPoints: '100',
+  dueDate: ''
+};
+
+const statusBadgeClasses: Record<GradeStatus, string> = {
+  critical: 'bg-rose-200 text-rose-900',
+  warning: 'bg-amber-100 text-amber-700',
+  recovering: 'bg-emerald-100 text-emerald-700'
+};
+
+export function GradebookManager({
+  classRecord,
+  assignments,
+  loading,
+  onAddAssignment,
+  onSetScore,
+  onImport,
+  onRemoveAssignment
+}: GradebookManagerProps) {
+  const [assignmentForm, setAssignmentForm] = useState<AssignmentFormState>(initialAssignmentForm);
+  const [isSaving, setIsSaving] = useState(false);
+  // Cell text while it is being edited, keyed by `${assignmentId}:${rosterId}`.
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = event.target;
+    setAssignmentForm((prev: AssignmentFormState) => ({ ...prev, [name]: value }));
+  };
+
+  const handleAddAssignment = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    const maxPoints = Number(assignmentForm.maxPoints);
+    if (!Number.isFinite(maxPoints) || maxPoints <= 0) {
+      toast.error('Maximum points must be a positive number.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const created = await onAddAssignment({
+        title: assignmentForm.title,
+        maxPoints,
+        dueDate: assignmentForm.dueDate || null
+      });
+      toast.success(`${created.title} added. Enter scores in its column.`);
+      setAssignmentForm(initialAssignmentForm);
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : 'Unable to add the assignment.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+
+    if (!file) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const parsed = parseGradebookCsv(await file.text());
+      if (parsed.columns.length === 0 || parsed.rows.length === 0) {
+        toast.error('No scores found. Include an email or student number column and one column per assignment.');
+        return;
+      }
+
+      const summary = await onImport(parsed);
+      toast.success(
+        [
+          `Imported ${summary.scoresImported} score${summary.scoresImported === 1 ? '' : 's'} into ${
+            summary.assignmentsCreated + summary.assignmentsUpdated
+          } assignment${summary.assignmentsCreated + summary.assignmentsUpdated === 1 ? '' : 's'}.`,
+          summary.unmatched.length > 0 ? `Not on the roster: ${summary.unmatched.join(', ')}.` : null,
+          parsed.skippedRows.length > 0 ? `Skipped rows ${parsed.skippedRows.join(', ')}.` : null
+        ]
+          .filter(Boolean)
+          .join(' ')
+      );
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : 'Unable to import the gradebook.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleScoreBlur = async (assignment: Assignment, entry: RosterEntry) => {
+    const key = `${assignment.id}:${entry.rosterId}`;
+    const draft = drafts[key];
+    if (draft === undefined) {
+      return;
+    }
+
+    const clearDraft = () =>
+      setDrafts((previous) => {
+        const next = { ...previous };
+        delete next[key];
+        return next;
+      });
+
+    if (draft === formatScore(assignment.scores[entry.rosterId])) {
+      clearDraft();
+      return;
+    }
+
+    const parsed = parseScoreInput(draft, assignment.maxPoints);
+    if (parsed === null) {
+      toast.error('Enter points, a percentage, M for missing, or EX for excused.');
+      return;
+    }
+
+    try {
+      await onSetScore(assignment, entry, parsed === 'clear' ? null : parsed);
+      clearDraft();
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : 'Unable to save the score.');
+    }
+  };
+
+  const handleRemoveAssignment = async (assignment: Assignment) => {
+    if (!window.confirm(`Delete ${assignment.title} and all of its scores?`)) {
+      return;
+    }
+
+    try {
+      await onRemoveAssignment(assignment.id);
+      toast.success(`${assignment.title} deleted.`);
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : 'Unable to delete the assignment.');
+    }
+  };
+
+  return (
+    <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900">{classRecord.name}</h2>
+          <p className="text-sm text-slate-500">
+            {classRecord.subject} · {assignments.length} assignments
+          </p>
+        </div>
+        <label className="inline-flex cursor-pointer items-center gap-2 rounded-lg border border-primary-200 px-4 py-2 text-sm font-semibold text-primary-700 transition hover:bg-primary-50">
+          <Upload className="h-4 w-4" />
+          Import gradebook CSV
+          <input type="file" accept=".csv,text/csv" onChange={handleImport} disabled={isSaving} className="hidden" />
+        </label>
+      </div>
+      <p className="mt-2 text-xs text-slate-400">
+        Google Classroom and Canvas exports work as-is: students are matched by email or student number, and a
+        &ldquo;Points Possible&rdquo; row sets each assignment&rsquo;s maximum. Type M for missing or EX for excused.
+      </p>
+
+      <form onSubmit={handleAddAssignment} className="mt-4 grid gap-3 md:grid-cols-[2fr_1fr_1fr_auto]">
+        <input
+          name="title"
+          value={assignmentForm.title}
+          onChange={handleChange}
+          required
+          placeholder="Assignment title"
+          className="rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-200"
+        />
+        <input
+          type="number"
+          name="maxPoints"
+          min={1}
+          step="any"
+          value={assignmentForm.maxPoints}
+          onChange={handleChange}
+          required
+          placeholder="Max points"
+          className="rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-200"
+        />
+        <input
+          type="date"
+          name="dueDate"
+          value={assignmentForm.dueDate}
+          onChange={handleChange}
+          className="rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-200"
+        />
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="inline-flex items-center justify-center gap-2 rounded-lg bg-primary-600 px-4 py-2 text-sm font-semibold text-white shadow hover:bg-primary-700 disabled:cursor-not-allowed disabled:bg-primary-400"
+        >
+          <Plus className="h-4 w-4" />
+          Add
+        </button>
+      </form>
+
+      <div className="mt-4 overflow-x-auto rounded-xl border border-slate-100">
+        <table className="min-w-full divide-y divide-slate-100 text-sm">
+          <thead className="bg-slate-50 text-left text-xs font-semibold uppercase tracking-wider text-slate-500">
+            <tr>
+              <th className="px-4 py-3">Student</th>
+              {assignments.map((assignment: Assignment) => (
+                <th key={assignment.id} className="px-3 py-3">
+                  <div className="flex items-start gap-1">
+                    <span className="normal-case">
+                      {assignment.title}
+                      <span className="block text-[11px] font-normal text-slate-400">/ {assignment.maxPoints}</span>
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveAssignment(assignment)}
+                      aria-label={`Delete ${assignment.title}`}
+                      className="text-slate-300 transition hover:text-rose-500"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                </th>
+              ))}
+              <th className="px-4 py-3">Average</th>
+              <th className="px-4 py-3">Missing</th>
+              <th className="px-4 py-3">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 bg-white">
+            {loading && assignments.length === 0 ? (
+              <tr>
+                <td colSpan={assignments.length + 4} className="px-4 py-6 text-center text-slate-500">
+                  Loading gradebook…
+                </td>
+              </tr>
+            ) : null}
+            {classRecord.roster.map((entry: RosterEntry) => {
+              const summary = summarizeGrades(entry.rosterId, assignments);
+              return (
+                <tr key={entry.rosterId} className="hover:bg-slate-50/80">
+                  <td className="px-4 py-3 font-medium text-slate-900">{entry.name}</td>
+                  {assignments.map((assignment: Assignment) => {
+                    const key = `${assignment.id}:${entry.rosterId}`;
+                    return (
+                      <td key={assignment.id} className="px-3 py-2">
+                        <input
+                          value={drafts[key] ?? formatScore(assignment.scores[entry.rosterId])}
+                          onChange={(event) => setDrafts((previous) => ({ ...previous, [key]: event.target.value }))}
+                          onBlur={() => handleScoreBlur(assignment, entry)}
+                          aria-label={`${entry.name} — ${assignment.title}`}
+                          className="w-16 rounded-md border border-slate-200 px-2 py-1 text-sm text-slate-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-200"
+                        />
+                      </td>
+                    );
+                  })}
+                  <td className="px-4 py-3 text-slate-600">
+                    {summary.averageGrade !== null ? `${summary.averageGrade}%` : '—'}
+                  </td>
+                  <td className="px-4 py-3 text-slate-600">{summary.missingAssignments}</td>
+                  <td className="px-4 py-3">
+                    {summary.status ? (
+                      <span
+                        className={`rounded-full px-2.5 py-1 text-xs font-semibold uppercase tracking-wide ${statusBadgeClasses[summary.status]}`}
+                      >
+                        {summary.status}
+                      </span>
+                    ) : (
+                      <span className="text-xs text-slate-400">On track</span>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+            {classRecord.roster.length === 0 ? (
+              <tr>
+                <td colSpan={assignments.length + 4} className="px-4 py-6 text-center text-slate-500">
+                  This class has no students yet. Build its roster under Classes first.
+                </td>
+              </tr>
+            ) : null}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
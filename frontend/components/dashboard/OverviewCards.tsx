@@ -44,7 +44,7 @@ export function OverviewCards({ upcomingCount, averageAttendanceRate, activeSess
             <p className="text-xl font-semibold">{activeSession.subject}</p>
             <p className="text-sm text-slate-500">{activeSession.className}</p>
             <p className="text-sm text-slate-500">
-              Started at {format(new Date(activeSession.scheduledFor), 'h:mm a')} • {activeSession.attendees.length} scanned
+              Started at {format(new Date(activeSession.startedAt ?? activeSession.scheduledFor), 'h:mm a')} • {activeSession.attendees.length} scanned
             </p>
           </div>
         ) : (
@@ -0,0 +1,219 @@
+'use client';
+
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { formatDistanceToNow } from 'date-fns';
+import { CheckCircle2, MapPin, MessageCircleQuestion, ShieldAlert, UserX } from 'lucide-react';
+import type { FlaggedAttendance, ReviewDecision } from '@/lib/hooks/useReviewQueue';
+
+interface ReviewQueueProps {
+  items: FlaggedAttendance[];
+  loading: boolean;
+  error: string | null;
+  onDecide: (item: FlaggedAttendance, decision: ReviewDecision, reason: string) => Promise<void>;
+}
+
+const DECISIONS: Array<{
+  decision: ReviewDecision;
+  label: string;
+  success: string;
+  icon: typeof CheckCircle2;
+  className: string;
+}> = [
+  {
+    decision: 'approve',
+    label: 'Approve as present',
+    success: 'Marked present.',
+    icon: CheckCircle2,
+    className: 'border-emerald-200 text-emerald-700 hover:bg-emerald-50'
+  },
+  {
+    decision: 'mark-absent',
+    label: 'Mark absent',
+    success: 'Marked absent.',
+    icon: UserX,
+    className: 'border-rose-200 text-rose-600 hover:bg-rose-50'
+  },
+  {
+    decision: 'request-explanation',
+    label: 'Request explanation',
+    success: 'Explanation requested from the student.',
+    icon: MessageCircleQuestion,
+    className: 'border-slate-200 text-slate-600 hover:bg-slate-50'
+  }
+];
+
+function getItemKey(item: FlaggedAttendance) {
+  return `${item.sessionId}:${item.studentId}`;
+}
+
+function buildMapEmbedUrl(latitude: number, longitude: number) {
+  const delta = 0.002;
+  const bbox = [longitude - delta, latitude - delta, longitude + delta, latitude + delta].join(',');
+  return `https://www.openstreetmap.org/export/embed.html?bbox=${bbox}&layer=mapnik&marker=${latitude},${longitude}`;
+}
+
+export function ReviewQueue({ items, loading, error, onDecide }: ReviewQueueProps) {
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [pendingKey, setPendingKey] = useState<string | null>(null);
+
+  const handleDecision = async (item: FlaggedAttendance, action: (typeof DECISIONS)[number]) => {
+    const key = getItemKey(item);
+    const reason = reasons[key]?.trim() ?? '';
+
+    if (!reason) {
+      toast.error('Add a reason before recording a decision.');
+      return;
+    }
+
+    setPendingKey(key);
+    try {
+      await onDecide(item, action.decision, reason);
+      setReasons((previous) => ({ ...previous, [key]: '' }));
+      toast.success(action.success);
+    } catch (decisionError) {
+      console.error(decisionError);
+      toast.error(decisionError instanceof Error ? decisionError.message : 'Unable to save the decision.');
+    } finally {
+      setPendingKey(null);
+    }
+  };
+
+  return (
+    <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-900">Flagged check-ins</h3>
+          <p className="text-sm text-slate-500">Review distance and device flags before they count against a student.</p>
+        </div>
+        <p className="text-xs text-slate-400">{items.length} awaiting review</p>
+      </div>
+
+      {error ? <p className="mt-4 text-sm text-rose-600">{error}</p> : null}
+
+      <div className="mt-4 space-y-4">
+        {loading && items.length === 0 ? <p className="text-sm text-slate-500">Loading flagged check-ins…</p> : null}
+
+        {items.map((item) => {
+          const key = getItemKey(item);
+          const hasPin = item.latitude != null && item.longitude != null;
+
+          return (
+            <article key={key} className="grid gap-4 rounded-xl border border-amber-100 bg-amber-50/40 p-4 md:grid-cols-[1.4fr_1fr]">
+              <div className="space-y-3">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <h4 className="font-semibold text-slate-900">{item.studentName}</h4>
+                    <p className="text-xs text-slate-500">
+                      {item.subject} · {item.className}
+                      {item.scannedAt
+                        ? ` · ${formatDistanceToNow(new Date(item.scannedAt), { addSuffix: true })}`
+                        : null}
+                    </p>
+                  </div>
+                  {item.review.state === 'explanation-requested' ? (
+                    <span className="rounded-full bg-slate-100 px-2.5 py-1 text-[11px] font-semibold uppercase tracking-wide text-slate-600">
+                      Explanation requested
+                    </span>
+                  ) : (
+                    <span className="inline-flex items-center gap-1 rounded-full bg-amber-100 px-2.5 py-1 text-[11px] font-semibold uppercase tracking-wide text-amber-700">
+                      <ShieldAlert className="h-3.5 w-3.5" /> Flagged
+                    </span>
+                  )}
+                </div>
+
+                <dl className="grid grid-cols-2 gap-3 text-xs text-slate-600">
+                  <div>
+                    <dt className="font-semibold text-slate-500">Distance</dt>
+                    <dd>{item.proximityMeters != null ? `${item.proximityMeters.toFixed(1)} m` : 'Unknown'}</dd>
+                  </div>
+                  <div>
+                    <dt className="font-semibold text-slate-500">Device</dt>
+                    <dd>
+                      {item.deviceModel ?? 'Unknown model'}
+                      {item.devicePlatform ? ` (${item.devicePlatform})` : null}
+                    </dd>
+                  </div>
+                </dl>
+
+                {item.notes.length ? (
+                  <ul className="list-disc space-y-1 pl-5 text-xs text-slate-600">
+                    {item.notes.map((note) => (
+                      <li key={note}>{note}</li>
+                    ))}
+                  </ul>
+                ) : null}
+
+                {item.reviewHistory.length ? (
+                  <div className="rounded-lg bg-white/70 p-3 text-xs text-slate-500">
+                    {item.reviewHistory.map((entry) => (
+                      <p key={`${entry.decidedAt}-${entry.decision}`}>
+                        {entry.decidedByName ?? 'Teacher'} · {entry.decision.replace('-', ' ')} ·{' '}
+                        {entry.decidedAt ? formatDistanceToNow(new Date(entry.decidedAt), { addSuffix: true }) : ''}:{' '}
+                        {entry.reason}
+                      </p>
+                    ))}
+                  </div>
+                ) : null}
+
+                <textarea
+                  value={reasons[key] ?? ''}
+                  onChange={(event) => setReasons((previous) => ({ ...previous, [key]: event.target.value }))}
+                  rows={2}
+                  placeholder="Reason for your decision (kept in the audit trail)"
+                  className="w-full rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-200"
+                />
+
+                <div className="flex flex-wrap gap-2">
+                  {DECISIONS.filter(
+                    (action) => !(action.decision === 'request-explanation' && item.review.state === 'explanation-requested')
+                  ).map((action) => (
+                    <button
+                      key={action.decision}
+                      type="button"
+                      onClick={() => handleDecision(item, action)}
+                      disabled={pendingKey !== null}
+                      className={`inline-flex items-center gap-1.5 rounded-lg border px-3 py-1.5 text-xs font-semibold transition disabled:cursor-not-allowed disabled:opacity-60 ${action.className}`}
+                    >
+                      <action.icon className="h-3.5 w-3.5" />
+                      {pendingKey === key ? 'Saving…' : action.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {hasPin ? (
+                <div className="space-y-2">
+                  <iframe
+                    title={`Check-in location for ${item.studentName}`}
+                    src={buildMapEmbedUrl(item.latitude!, item.longitude!)}
+                    className="h-44 w-full rounded-lg border border-slate-200"
+                    loading="lazy"
+                  />
+                  <a
+                    href={`https://www.openstreetmap.org/?mlat=${item.latitude}&mlon=${item.longitude}#map=18/${item.latitude}/${item.longitude}`}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="inline-flex items-center gap-1 text-xs font-semibold text-primary-600 hover:text-primary-700"
+                  >
+                    <MapPin className="h-3.5 w-3.5" /> Open in maps
+                  </a>
+                </div>
+              ) : (
+                <div className="flex items-center justify-center rounded-lg border border-dashed border-slate-200 text-xs text-slate-400">
+                  No location captured
+                </div>
+              )}
+            </article>
+          );
+        })}
+
+        {!loading && items.length === 0 ? (
+          <p className="rounded-xl border border-slate-200 bg-slate-50 p-4 text-sm text-slate-500">
+            No flagged check-ins need your attention.
+          </p>
+        ) : null}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,330 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Crosshair } from 'lucide-react';
+import { parsePolygonVertices, type RoomInput, type RoomRecord } from '@/lib/rooms';
+import {
+  MAX_ROOM_RADIUS_METERS,
+  MIN_ROOM_RADIUS_METERS,
+  type GeofenceVertex,
+  type RoomGeofence
+} from '@/lib/utils/geofence';
+
+interface RoomEditorProps {
+  room?: RoomRecord | null;
+  onSave: (input: RoomInput) => Promise<void>;
+  onCancel?: () => void;
+}
+
+interface RoomFormState {
+  name: string;
+  building: string;
+  type: RoomGeofence['type'];
+  centerLatitude: string;
+  centerLongitude: string;
+  radiusMeters: number;
+  corners: string;
+}
+
+const initialFormState: RoomFormState = {
+  name: '',
+  building: '',
+  type: 'polygon',
+  centerLatitude: '',
+  centerLongitude: '',
+  radiusMeters: 25,
+  corners: ''
+};
+
+function toFormState(room?: RoomRecord | null): RoomFormState {
+  if (!room) {
+    return initialFormState;
+  }
+
+  const { geofence } = room;
+  return {
+    name: room.name,
+    building: room.building ?? '',
+    type: geofence.type,
+    centerLatitude: geofence.type === 'radius' ? String(geofence.center.latitude) : '',
+    centerLongitude: geofence.type === 'radius' ? String(geofence.center.longitude) : '',
+    radiusMeters: geofence.type === 'radius' ? geofence.radiusMeters : initialFormState.radiusMeters,
+    corners:
+      geofence.type === 'polygon'
+        ? geofence.vertices.map((vertex) => `${vertex.latitude}, ${vertex.longitude}`).join('\n')
+        : ''
+  };
+}
+
+function buildGeofence(state: RoomFormState): RoomGeofence {
+  if (state.type === 'polygon') {
+    return { type: 'polygon', vertices: parsePolygonVertices(state.corners) };
+  }
+
+  const latitude = Number(state.centerLatitude);
+  const longitude = Number(state.centerLongitude);
+  if (!state.centerLatitude.trim() || !state.centerLongitude.trim() || !Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+    throw new Error('Enter the centre of the room as a latitude and longitude.');
+  }
+
+  return { type: 'radius', center: { latitude, longitude }, radiusMeters: state.radiusMeters };
+}
+
+function readCurrentPosition(): Promise<GeofenceVertex & { accuracy: number }> {
+  return new Promise((resolve, reject) => {
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      reject(new Error('Geolocation is not supported in this environment.'));
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) =>
+        resolve({
+          latitude: Number(position.coords.latitude.toFixed(6)),
+          longitude: Number(position.coords.longitude.toFixed(6)),
+          accuracy: Number(position.coords.accuracy)
+        }),
+      (error) =>
+        reject(
+          new Error(
+            error.code === error.PERMISSION_DENIED
+              ? 'Location permission denied. Enable it or paste coordinates instead.'
+              : 'Unable to capture location. Paste coordinates instead.'
+          )
+        ),
+      { enableHighAccuracy: true, maximumAge: 0, timeout: 15_000 }
+    );
+  });
+}
+
+/** Scales the outline into the preview box; north is up. */
+function toPreviewPoints(vertices: GeofenceVertex[], size: number): string {
+  const latitudes = vertices.map((vertex) => vertex.latitude);
+  const longitudes = vertices.map((vertex) => vertex.longitude);
+  const minLatitude = Math.min(...latitudes);
+  const minLongitude = Math.min(...longitudes);
+  const longitudeScale = Math.cos((minLatitude * Math.PI) / 180);
+  const span = Math.max(Math.max(...latitudes) - minLatitude, (Math.max(...longitudes) - minLongitude) * longitudeScale, 1e-9);
+  const padding = 8;
+  const scale = (size - padding * 2) / span;
+
+  return vertices
+    .map((vertex) => {
+      const x = padding + (vertex.longitude - minLongitude) * longitudeScale * scale;
+      const y = size - padding - (vertex.latitude - minLatitude) * scale;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+}
+
+export function RoomEditor({ room, onSave, onCancel }: RoomEditorProps) {
+  const [formState, setFormState] = useState<RoomFormState>(() => toFormState(room));
+  const [isSaving, setIsSaving] = useState(false);
+  const [isLocating, setIsLocating] = useState(false);
+
+  useEffect(() => {
+    setFormState(toFormState(room));
+  }, [room]);
+
+  const previewVertices = useMemo(() => {
+    if (formState.type !== 'polygon') {
+      return null;
+    }
+    try {
+      return parsePolygonVertices(formState.corners);
+    } catch {
+      return null;
+    }
+  }, [formState.corners, formState.type]);
+
+  const handleChange = (event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value } = event.target;
+    setFormState((prev: RoomFormState) => ({
+      ...prev,
+      [name]: name === 'radiusMeters' ? Number(value) : value
+    }));
+  };
+
+  const handleUseLocation = async () => {
+    setIsLocating(true);
+    try {
+      const position = await readCurrentPosition();
+      setFormState((prev: RoomFormState) =>
+        prev.type === 'radius'
+          ? { ...prev, centerLatitude: String(position.latitude), centerLongitude: String(position.longitude) }
+          : { ...prev, corners: [prev.corners.trim(), `${position.latitude}, ${position.longitude}`].filter(Boolean).join('\n') }
+      );
+      if (position.accuracy > 20) {
+        toast(`Location is only accurate to ±${Math.round(position.accuracy)}m. A phone standing in the room is more reliable than a laptop.`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Unable to capture location.');
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    let geofence: RoomGeofence;
+    try {
+      geofence = buildGeofence(formState);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Check the room location.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave({ name: formState.name.trim(), building: formState.building.trim() || null, geofence });
+      if (!room) {
+        setFormState(initialFormState);
+      }
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : 'Unable to save the room.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+      <h2 className="text-lg font-semibold text-slate-900">{room ? `Edit ${room.name}` : 'New room'}</h2>
+      <div className="mt-4 grid gap-3 md:grid-cols-2">
+        <input
+          name="name"
+          value={formState.name}
+          onChange={handleChange}
+          required
+          placeholder="Room 204"
+          className="w-full rounded-lg border border-slate-200 px-4 py-2.5 text-sm text-slate-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-200"
+        />
+        <input
+          name="building"
+          value={formState.building}
+          onChange={handleChange}
+          placeholder="Science Block (optional)"
+          className="w-full rounded-lg border border-slate-200 px-4 py-2.5 text-sm text-slate-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-200"
+        />
+      </div>
+
+      <div className="mt-4 flex flex-wrap gap-4 text-sm text-slate-700">
+        <label className="flex items-center gap-2">
+          <input
+            type="radio"
+            name="type"
+            value="polygon"
+            checked={formState.type === 'polygon'}
+            onChange={handleChange}
+            className="h-4 w-4 border-slate-300 text-primary-600 focus:ring-primary-500"
+          />
+          Room outline
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="radio"
+            name="type"
+            value="radius"
+            checked={formState.type === 'radius'}
+            onChange={handleChange}
+            className="h-4 w-4 border-slate-300 text-primary-600 focus:ring-primary-500"
+          />
+          Centre and radius
+        </label>
+      </div>
+
+      {formState.type === 'polygon' ? (
+        <div className="mt-4 grid gap-4 md:grid-cols-[1fr_auto]">
+          <label className="space-y-2">
+            <span className="text-sm text-slate-600">Corners, one &ldquo;latitude, longitude&rdquo; per line</span>
+            <textarea
+              name="corners"
+              value={formState.corners}
+              onChange={handleChange}
+              rows={6}
+              placeholder={'12.97225, 77.59315\n12.97225, 77.59345\n12.97195, 77.59345'}
+              className="w-full rounded-lg border border-slate-200 px-4 py-2.5 font-mono text-sm text-slate-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-200"
+            />
+            <span className="block text-xs text-slate-500">
+              Copy corners from a map app, or walk to each corner with a phone and add your position.
+            </span>
+          </label>
+          <div className="flex h-40 w-40 items-center justify-center rounded-xl border border-slate-200 bg-slate-50">
+            {previewVertices ? (
+              <svg viewBox="0 0 160 160" className="h-40 w-40" aria-label="Room outline preview">
+                <polygon
+                  points={toPreviewPoints(previewVertices, 160)}
+                  className="fill-primary-100 stroke-primary-600"
+                  strokeWidth={2}
+                />
+              </svg>
+            ) : (
+              <span className="px-4 text-center text-xs text-slate-400">Outline preview</span>
+            )}
+          </div>
+        </div>
+      ) : (
+        <div className="mt-4 grid gap-3 md:grid-cols-3">
+          <input
+            name="centerLatitude"
+            value={formState.centerLatitude}
+            onChange={handleChange}
+            placeholder="Latitude"
+            inputMode="decimal"
+            className="w-full rounded-lg border border-slate-200 px-4 py-2.5 text-sm text-slate-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-200"
+          />
+          <input
+            name="centerLongitude"
+            value={formState.centerLongitude}
+            onChange={handleChange}
+            placeholder="Longitude"
+            inputMode="decimal"
+            className="w-full rounded-lg border border-slate-200 px-4 py-2.5 text-sm text-slate-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-200"
+          />
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input
+              type="number"
+              name="radiusMeters"
+              min={MIN_ROOM_RADIUS_METERS}
+              max={MAX_ROOM_RADIUS_METERS}
+              value={formState.radiusMeters}
+              onChange={handleChange}
+              required
+              className="w-24 rounded-lg border border-slate-200 px-3 py-2 text-slate-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-200"
+            />
+            meters
+          </label>
+        </div>
+      )}
+
+      <div className="mt-6 flex flex-wrap items-center justify-between gap-3">
+        <button
+          type="button"
+          onClick={handleUseLocation}
+          disabled={isLocating}
+          className="inline-flex items-center gap-2 rounded-lg border border-primary-200 px-4 py-2 text-sm font-semibold text-primary-700 transition hover:bg-primary-50 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          <Crosshair className="h-4 w-4" />
+          {isLocating ? 'Locating…' : formState.type === 'polygon' ? 'Add my position as a corner' : 'Use my position as centre'}
+        </button>
+        <div className="flex items-center gap-3">
+          {onCancel ? (
+            <button type="button" onClick={onCancel} className="text-sm font-semibold text-slate-500 hover:text-slate-700">
+              Cancel
+            </button>
+          ) : null}
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="rounded-lg bg-primary-600 px-4 py-2.5 text-sm font-semibold text-white shadow hover:bg-primary-700 disabled:cursor-not-allowed disabled:bg-primary-400"
+          >
+            {isSaving ? 'Saving…' : room ? 'Save changes' : 'Save room'}
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+}
@@ -3,38 +3,95 @@
 import { useState } from 'react';
 import { FirebaseError } from 'firebase/app';
 import { collection, doc, serverTimestamp, setDoc } from 'firebase/firestore';
-import QRCode from 'qrcode';
 import toast from 'react-hot-toast';
 import { format } from 'date-fns';
 import { getFirestoreDb, isFirebaseConfigured } from '@/lib/firebase';
 import { useAuth } from '@/components/auth/AuthProvider';
+import {
+  DEFAULT_MIN_SIGNAL_RSSI,
+  normalizeBeaconUuid,
+  normalizeBssid,
+  type ClassroomSignalFingerprint
+} from '@shared/classroom-signals';
+import { useRotatingQrCode, type QrBasePayload } from '@/lib/hooks/useRotatingQrCode';
+import { useTeacherClasses } from '@/lib/hooks/useTeacherClasses';
+import { useTeacherRooms } from '@/lib/hooks/useTeacherRooms';
+import {
+  DEFAULT_QR_ROTATION_SECONDS,
+  MAX_QR_ROTATION_SECONDS,
+  MIN_QR_ROTATION_SECONDS,
+  generateRotationSecret,
+  type QrRotationConfig
+} from '@/lib/qrTokens';
+import { describeGeofence } from '@/lib/rooms';
+import { geofenceCenter } from '@/lib/utils/geofence';
 import type {
   AttendanceSession,
   SessionLocationCoordinates
 } from '@/lib/hooks/useTeacherSessions';
 
 interface SessionCreatorState {
+  classId: string;
   className: string;
+  roomId: string;
   subject: string;
   date: string;
   startTime: string;
   durationMinutes: number;
+  lateGraceMinutes: number;
   expectedAttendance: number;
+  rotateQr: boolean;
+  rotationSeconds: number;
+  wifiBssids: string;
+  beaconUuid: string;
 }
 
 const initialState: SessionCreatorState = {
+  classId: '',
   className: '',
+  roomId: '',
   subject: '',
   date: new Date().toISOString().split('T')[0],
   startTime: format(new Date(), 'HH:mm'),
   durationMinutes: 45,
-  expectedAttendance: 30
+  lateGraceMinutes: 10,
+  expectedAttendance: 30,
+  rotateQr: true,
+  rotationSeconds: DEFAULT_QR_ROTATION_SECONDS,
+  wifiBssids: '',
+  beaconUuid: ''
 };
 
 interface SessionCreatorProps {
   onSessionCreated?: (session: AttendanceSession) => void;
 }
 
+/** Returns null when no classroom signal was entered, or throws on a malformed entry. */
+function buildSignalFingerprint(state: SessionCreatorState): ClassroomSignalFingerprint | null {
+  const entries = state.wifiBssids
+    .split(/[\s,;]+/)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const wifiBssids = entries.map(normalizeBssid);
+  const invalid = entries.find((_, index) => wifiBssids[index] === null);
+
+  if (invalid) {
+    throw new Error(`"${invalid}" is not a Wi-Fi BSSID. Use the access point's MAC address, e.g. a4:2b:b0:11:22:33.`);
+  }
+
+  const beaconUuid = state.beaconUuid.trim() ? normalizeBeaconUuid(state.beaconUuid) : null;
+  if (state.beaconUuid.trim() && !beaconUuid) {
+    throw new Error('The beacon UUID must be a 128-bit UUID, e.g. f7826da6-4fa2-4e98-8024-bc5b71e0893e.');
+  }
+
+  const uniqueBssids = Array.from(new Set(wifiBssids as string[]));
+  if (!uniqueBssids.length && !beaconUuid) {
+    return null;
+  }
+
+  return { wifiBssids: uniqueBssids, beaconUuid, minRssi: DEFAULT_MIN_SIGNAL_RSSI };
+}
+
 function generateSecureId() {
   if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
     return crypto.randomUUID();
@@ -48,19 +105,53 @@ export function SessionCreator({ onSessionCreated }: SessionCreatorProps) {
   const { user } = useAuth();
   const [formState, setFormState] = useState<SessionCreatorState>(initialState);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [qrPreview, setQrPreview] = useState<string | null>(null);
+  const [qrBase, setQrBase] = useState<QrBasePayload | null>(null);
+  const [qrRotation, setQrRotation] = useState<QrRotationConfig | null>(null);
   const [coordinates, setCoordinates] = useState<SessionLocationCoordinates | null>(null);
   const [locationStatus, setLocationStatus] = useState<'idle' | 'locating' | 'success' | 'error'>('idle');
   const [locationError, setLocationError] = useState<string | null>(null);
+  const { dataUrl: qrPreview, secondsRemaining, error: qrError } = useRotatingQrCode(qrBase, qrRotation);
+  const { classes } = useTeacherClasses(user?.uid);
+  const selectedClass = classes.find((entry) => entry.id === formState.classId);
+  const { rooms } = useTeacherRooms(user?.uid);
+  const selectedRoom = rooms.find((entry) => entry.id === formState.roomId);
 
   const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value } = event.target;
+    const { name, value, type, checked } = event.target;
     setFormState((prev: SessionCreatorState) => ({
       ...prev,
-      [name]: name === 'durationMinutes' || name === 'expectedAttendance' ? Number(value) : value
+      [name]:
+        type === 'checkbox'
+          ? checked
+          : name === 'durationMinutes' ||
+              name === 'lateGraceMinutes' ||
+              name === 'expectedAttendance' ||
+              name === 'rotationSeconds'
+            ? Number(value)
+            : value
     }));
   };
 
+  const handleClassSelect = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const classRecord = classes.find((entry) => entry.id === event.target.value);
+    setFormState((prev: SessionCreatorState) =>
+      classRecord
+        ? {
+            ...prev,
+            classId: classRecord.id,
+            className: classRecord.name,
+            subject: classRecord.subject,
+            expectedAttendance: Math.max(1, classRecord.roster.length)
+          }
+        : { ...prev, classId: '' }
+    );
+  };
+
+  const handleRoomSelect = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const { value } = event.target;
+    setFormState((prev: SessionCreatorState) => ({ ...prev, roomId: value }));
+  };
+
   const handleCaptureLocation = () => {
     if (typeof navigator === 'undefined' || !navigator.geolocation) {
       const message = 'Geolocation is not supported in this environment.';
@@ -105,8 +196,21 @@ export function SessionCreator({ onSessionCreated }: SessionCreatorProps) {
   const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
 
-    if (!coordinates) {
-      toast.error('Capture your current location before launching the session.');
+    // A saved room's fence is checked directly; its centre only stands in for the old point-plus-radius field.
+    const sessionCoordinates: SessionLocationCoordinates | null = selectedRoom
+      ? geofenceCenter(selectedRoom.geofence)
+      : coordinates;
+
+    if (!sessionCoordinates) {
+      toast.error('Pick a saved room or capture your current location before launching the session.');
+      return;
+    }
+
+    let signalFingerprint: ClassroomSignalFingerprint | null;
+    try {
+      signalFingerprint = buildSignalFingerprint(formState);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Check the classroom signal details.');
       return;
     }
 
@@ -123,34 +227,46 @@ export function SessionCreator({ onSessionCreated }: SessionCreatorProps) {
 
       const sessionId = sessionRef?.id ?? generateSecureId();
       const sessionToken = generateSecureId().replace(/-/g, '');
-      const formattedLocation = `${coordinates.latitude.toFixed(5)}, ${coordinates.longitude.toFixed(5)}`;
+      const formattedLocation = selectedRoom
+        ? [selectedRoom.name, selectedRoom.building].filter(Boolean).join(' · ')
+        : `${sessionCoordinates.latitude.toFixed(5)}, ${sessionCoordinates.longitude.toFixed(5)}`;
+      const rotation: QrRotationConfig | null = formState.rotateQr
+        ? { intervalSeconds: formState.rotationSeconds, secret: generateRotationSecret() }
+        : null;
       const sessionPayload = {
         sessionId,
+        classId: selectedClass?.id ?? null,
         className: formState.className,
         subject: formState.subject,
         scheduledFor: scheduledTimestamp.toISOString(),
         location: formattedLocation,
-        locationCoordinates: coordinates,
+        locationCoordinates: sessionCoordinates,
+        roomId: selectedRoom?.id ?? null,
+        roomName: selectedRoom?.name ?? null,
+        geofence: selectedRoom?.geofence ?? null,
+        signalFingerprint,
         durationMinutes: formState.durationMinutes,
+        lateGraceMinutes: formState.lateGraceMinutes,
         status: 'scheduled',
-        expectedAttendance: formState.expectedAttendance,
+        expectedAttendance: selectedClass ? selectedClass.roster.length : formState.expectedAttendance,
         attendees: [],
+        qrRotation: rotation,
         createdAt: serverTimestamp()
       };
 
-      const qrData = JSON.stringify({
+      const qrPayload: QrBasePayload = {
         sessionId,
         sessionToken,
+        classId: sessionPayload.classId ?? undefined,
         className: sessionPayload.className,
         subject: sessionPayload.subject,
         scheduledFor: sessionPayload.scheduledFor,
         teacherId: user?.uid ?? 'demo-teacher',
         durationMinutes: sessionPayload.durationMinutes,
-        locationCoordinates: coordinates
-      });
-
-      const qrSvg = await QRCode.toDataURL(qrData, { width: 320 });
-      setQrPreview(qrSvg);
+        lateGraceMinutes: sessionPayload.lateGraceMinutes,
+        locationCoordinates: sessionCoordinates
+      };
+      const qrData = JSON.stringify(qrPayload);
 
       if (sessionRef && user && isFirebaseConfigured && db) {
         const publicRef = doc(collection(db, 'publicSessions'), sessionToken);
@@ -166,29 +282,45 @@ export function SessionCreator({ onSessionCreated }: SessionCreatorProps) {
             sessionPath: sessionRef.path,
             sessionToken,
             teacherId: user.uid,
+            classId: sessionPayload.classId,
             className: sessionPayload.className,
             subject: sessionPayload.subject,
             scheduledFor: sessionPayload.scheduledFor,
             durationMinutes: sessionPayload.durationMinutes,
+            lateGraceMinutes: sessionPayload.lateGraceMinutes,
             expectedAttendance: sessionPayload.expectedAttendance,
             location: formattedLocation,
-            locationCoordinates: coordinates,
+            locationCoordinates: sessionCoordinates,
+            roomName: sessionPayload.roomName,
+            geofence: sessionPayload.geofence,
+            signalFingerprint,
             status: sessionPayload.status,
             createdAt: serverTimestamp()
           })
         ]);
       }
 
+      setQrRotation(rotation);
+      setQrBase(qrPayload);
+
       toast.success('Session prepared! Share the QR with your class.');
       onSessionCreated?.({
         id: sessionId,
+        classId: sessionPayload.classId ?? undefined,
         className: sessionPayload.className,
         subject: sessionPayload.subject,
         scheduledFor: sessionPayload.scheduledFor,
+        durationMinutes: sessionPayload.durationMinutes,
+        lateGraceMinutes: sessionPayload.lateGraceMinutes,
         location: formattedLocation,
-        locationCoordinates: coordinates,
+        locationCoordinates: sessionCoordinates,
+        roomId: selectedRoom?.id,
+        roomName: selectedRoom?.name,
+        geofence: selectedRoom?.geofence,
+        signalFingerprint: signalFingerprint ?? undefined,
         status: 'scheduled',
         qrCodeData: qrData,
+        qrRotation: rotation ?? undefined,
         sessionToken,
         expectedAttendance: sessionPayload.expectedAttendance,
         attendees: [],
@@ -213,6 +345,25 @@ export function SessionCreator({ onSessionCreated }: SessionCreatorProps) {
         </div>
 
         <div className="mt-6 grid gap-4 md:grid-cols-2">
+          <label className="md:col-span-2 space-y-2">
+            <span className="text-sm font-medium text-slate-700">Class roster</span>
+            <select
+              name="classId"
+              value={formState.classId}
+              onChange={handleClassSelect}
+              className="w-full rounded-lg border border-slate-200 px-4 py-3 text-slate-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-200"
+            >
+              <option value="">No roster — enter details manually</option>
+              {classes.map((classRecord) => (
+                <option key={classRecord.id} value={classRecord.id}>
+                  {classRecord.name} · {classRecord.subject} ({classRecord.roster.length} students)
+                </option>
+              ))}
+            </select>
+            <span className="block text-xs text-slate-500">
+              Linking a class sets expected attendance from its roster and lets absentees be tracked.
+            </span>
+          </label>
           <label className="space-y-2">
             <span className="text-sm font-medium text-slate-700">Class name</span>
             <input
@@ -271,6 +422,20 @@ export function SessionCreator({ onSessionCreated }: SessionCreatorProps) {
               className="w-full rounded-lg border border-slate-200 px-4 py-3 text-slate-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-200"
             />
           </label>
+          <label className="space-y-2">
+            <span className="text-sm font-medium text-slate-700">Late after (minutes)</span>
+            <input
+              type="number"
+              min={0}
+              max={60}
+              name="lateGraceMinutes"
+              value={formState.lateGraceMinutes}
+              onChange={handleChange}
+              required
+              className="w-full rounded-lg border border-slate-200 px-4 py-3 text-slate-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-200"
+            />
+            <span className="block text-xs text-slate-500">Check-ins after this grace period are marked late.</span>
+          </label>
           <label className="space-y-2">
             <span className="text-sm font-medium text-slate-700">Expected students</span>
             <input
@@ -278,28 +443,121 @@ export function SessionCreator({ onSessionCreated }: SessionCreatorProps) {
               min={1}
               max={120}
               name="expectedAttendance"
-              value={formState.expectedAttendance}
+              value={selectedClass ? selectedClass.roster.length : formState.expectedAttendance}
               onChange={handleChange}
+              disabled={Boolean(selectedClass)}
               required
-              className="w-full rounded-lg border border-slate-200 px-4 py-3 text-slate-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-200"
+              className="w-full rounded-lg border border-slate-200 px-4 py-3 text-slate-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-200 disabled:bg-slate-50 disabled:text-slate-500"
             />
+            {selectedClass ? (
+              <span className="block text-xs text-slate-500">Taken from the {selectedClass.name} roster.</span>
+            ) : null}
           </label>
+          <div className="md:col-span-2 flex flex-wrap items-center justify-between gap-4 rounded-xl border border-slate-200 p-4">
+            <label className="flex items-start gap-3">
+              <input
+                type="checkbox"
+                name="rotateQr"
+                checked={formState.rotateQr}
+                onChange={handleChange}
+                className="mt-1 h-4 w-4 rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+              />
+              <span>
+                <span className="block text-sm font-medium text-slate-700">Rotating QR code</span>
+                <span className="block text-xs text-slate-500">
+                  Signs a fresh code every few seconds so photos of the screen stop working.
+                </span>
+              </span>
+            </label>
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              Rotate every
+              <input
+                type="number"
+                min={MIN_QR_ROTATION_SECONDS}
+                max={MAX_QR_ROTATION_SECONDS}
+                step={5}
+                name="rotationSeconds"
+                value={formState.rotationSeconds}
+                onChange={handleChange}
+                disabled={!formState.rotateQr}
+                required
+                className="w-20 rounded-lg border border-slate-200 px-3 py-2 text-slate-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-200 disabled:bg-slate-50 disabled:text-slate-400"
+              />
+              seconds
+            </label>
+          </div>
+          <div className="md:col-span-2 space-y-3 rounded-xl border border-slate-200 p-4">
+            <div>
+              <span className="text-sm font-medium text-slate-700">Classroom signal (optional)</span>
+              <p className="text-xs text-slate-500">
+                Students&apos; phones must also hear one of these to pass the location check. GPS alone is easy to
+                spoof and drifts indoors.
+              </p>
+            </div>
+            <label className="block space-y-2">
+              <span className="text-sm text-slate-600">Wi-Fi access point BSSIDs</span>
+              <input
+                name="wifiBssids"
+                value={formState.wifiBssids}
+                onChange={handleChange}
+                placeholder="a4:2b:b0:11:22:33, a4:2b:b0:11:22:34"
+                className="w-full rounded-lg border border-slate-200 px-4 py-3 font-mono text-sm text-slate-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-200"
+              />
+            </label>
+            <label className="block space-y-2">
+              <span className="text-sm text-slate-600">BLE beacon UUID</span>
+              <input
+                name="beaconUuid"
+                value={formState.beaconUuid}
+                onChange={handleChange}
+                placeholder="f7826da6-4fa2-4e98-8024-bc5b71e0893e"
+                className="w-full rounded-lg border border-slate-200 px-4 py-3 font-mono text-sm text-slate-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-200"
+              />
+              <span className="block text-xs text-slate-500">
+                Broadcast it from your phone with any iBeacon or BLE advertiser app during class.
+              </span>
+            </label>
+          </div>
           <div className="md:col-span-2 space-y-3 rounded-xl border border-dashed border-primary-200 bg-primary-50/40 p-4">
+            <label className="block space-y-2">
+              <span className="text-sm font-medium text-slate-700">Room</span>
+              <select
+                name="roomId"
+                value={formState.roomId}
+                onChange={handleRoomSelect}
+                className="w-full rounded-lg border border-slate-200 bg-white px-4 py-3 text-slate-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-200"
+              >
+                <option value="">No saved room — use my current location</option>
+                {rooms.map((room) => (
+                  <option key={room.id} value={room.id}>
+                    {room.name}
+                    {room.building ? ` · ${room.building}` : ''} ({describeGeofence(room.geofence)})
+                  </option>
+                ))}
+              </select>
+              <span className="block text-xs text-slate-500">
+                Students must be inside the room&apos;s outline or radius. Manage rooms from the Rooms page.
+              </span>
+            </label>
             <div className="flex flex-wrap items-center justify-between gap-3">
               <div>
                 <span className="text-sm font-medium text-slate-700">Location coordinates</span>
-                <p className="text-xs text-slate-500">Capture your current GPS location to enforce the proximity barrier.</p>
+                <p className="text-xs text-slate-500">
+                  {selectedRoom
+                    ? `Using the saved geofence for ${selectedRoom.name}.`
+                    : 'Capture your current GPS location to enforce the proximity barrier.'}
+                </p>
               </div>
               <button
                 type="button"
                 onClick={handleCaptureLocation}
-                disabled={locationStatus === 'locating'}
+                disabled={locationStatus === 'locating' || Boolean(selectedRoom)}
                 className="inline-flex items-center gap-2 rounded-lg bg-primary-600 px-4 py-2 text-sm font-semibold text-white shadow hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 disabled:cursor-not-allowed disabled:bg-primary-400"
               >
                 {locationStatus === 'locating' ? 'Capturing…' : 'Use current location'}
               </button>
             </div>
-            {coordinates ? (
+            {selectedRoom ? null : coordinates ? (
               <div className="rounded-lg bg-white px-4 py-3 text-sm text-slate-700 shadow-sm">
                 <p className="font-semibold">
                   {coordinates.latitude.toFixed(5)}, {coordinates.longitude.toFixed(5)}
@@ -345,7 +603,14 @@ export function SessionCreator({ onSessionCreated }: SessionCreatorProps) {
             </div>
           )}
         </div>
-        {qrPreview ? (
+        {qrError ? <p className="mt-4 text-sm text-rose-600">{qrError}</p> : null}
+        {qrPreview && qrRotation ? (
+          <p className="mt-4 text-xs text-slate-500">
+            Code refreshes in {secondsRemaining ?? qrRotation.intervalSeconds}s. Keep this tab open on the classroom screen —
+            screenshots expire with each rotation.
+          </p>
+        ) : null}
+        {qrPreview && !qrRotation ? (
           <p className="mt-4 text-xs text-slate-500">
             Tip: Save this QR code and project it when class begins. Students will still need to pass the location and device checks.
           </p>
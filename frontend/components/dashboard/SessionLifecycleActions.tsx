@@ -0,0 +1,71 @@
+'use client';
+
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { canTransition, type SessionStatus } from '@/lib/sessionLifecycle';
+import type { AttendanceSession } from '@/lib/hooks/useTeacherSessions';
+
+interface SessionLifecycleActionsProps {
+  session: AttendanceSession;
+  onTransition: (session: AttendanceSession, nextStatus: SessionStatus) => Promise<void>;
+}
+
+const ACTIONS: Array<{ status: SessionStatus; label: string; success: string; tone: 'primary' | 'neutral' | 'danger' }> = [
+  { status: 'active', label: 'Start', success: 'Session started. Students can check in now.', tone: 'primary' },
+  { status: 'completed', label: 'End', success: 'Session ended. Check-ins are closed.', tone: 'neutral' },
+  { status: 'cancelled', label: 'Cancel', success: 'Session cancelled.', tone: 'danger' }
+];
+
+const toneClasses: Record<(typeof ACTIONS)[number]['tone'], string> = {
+  primary: 'border-primary-200 text-primary-700 hover:bg-primary-50',
+  neutral: 'border-slate-200 text-slate-600 hover:bg-slate-50',
+  danger: 'border-rose-200 text-rose-600 hover:bg-rose-50'
+};
+
+export function SessionLifecycleActions({ session, onTransition }: SessionLifecycleActionsProps) {
+  const [pendingStatus, setPendingStatus] = useState<SessionStatus | null>(null);
+  const available = ACTIONS.filter((action) => {
+    // Ending a session that never opened is the same as cancelling it.
+    if (action.status === 'completed' && session.status === 'scheduled') {
+      return false;
+    }
+    return canTransition(session.status, action.status);
+  });
+
+  if (available.length === 0) {
+    return <span className="text-xs text-slate-400">—</span>;
+  }
+
+  const handleClick = async (action: (typeof ACTIONS)[number]) => {
+    if (action.status === 'cancelled' && !window.confirm(`Cancel ${session.subject} for ${session.className}?`)) {
+      return;
+    }
+
+    setPendingStatus(action.status);
+    try {
+      await onTransition(session, action.status);
+      toast.success(action.success);
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : 'Unable to update the session.');
+    } finally {
+      setPendingStatus(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {available.map((action) => (
+        <button
+          key={action.status}
+          type="button"
+          onClick={() => handleClick(action)}
+          disabled={pendingStatus !== null}
+          className={`rounded-lg border px-3 py-1 text-xs font-semibold transition disabled:cursor-not-allowed disabled:opacity-60 ${toneClasses[action.tone]}`}
+        >
+          {pendingStatus === action.status ? 'Saving…' : action.label}
+        </button>
+      ))}
+    </div>
+  );
+}
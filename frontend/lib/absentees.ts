@@ -0,0 +1,236 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { format } from 'date-fns';
+import {
+  buildRosterIndexes,
+  matchesRosterEntry,
+  normalizeClassRecord,
+  type RosterEntry,
+  type RosterIdentity
+} from '@/lib/classRoster';
+import { getAdminDb } from '@/lib/firebaseAdmin';
+import { deriveSessionStatus, getSessionWindow, type SessionLifecycleFields } from '@/lib/sessionLifecycle';
+
+// Server-only: absences are written with admin credentials, like check-ins.
+
+export interface AbsenteeResult {
+  absentees: RosterEntry[];
+  linkedCount: number;
+}
+
+type AttendeeIdentity = RosterIdentity & { studentId: string };
+
+const ABSENCE_NOTE = 'No check-in recorded before the session ended.';
+
+/**
+ * Roster entries with no matching check-in. A student counts as attending
+ * whatever status their scan produced; only a missing scan makes them absent.
+ */
+export function computeAbsentees(roster: RosterEntry[], attendees: RosterIdentity[]): RosterEntry[] {
+  return roster.filter((entry) => !attendees.some((attendee) => matchesRosterEntry(entry, attendee)));
+}
+
+export function getAbsenteeId(entry: RosterEntry): string {
+  return entry.studentId ?? `roster:${entry.rosterId}`;
+}
+
+function readString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+function readLifecycle(data: Record<string, unknown>): SessionLifecycleFields {
+  const status = data.status;
+  return {
+    status: status === 'active' || status === 'completed' || status === 'cancelled' ? status : 'scheduled',
+    scheduledFor: readString(data.scheduledFor) ?? new Date(0).toISOString(),
+    durationMinutes: typeof data.durationMinutes === 'number' ? data.durationMinutes : 0,
+    startedAt: readString(data.startedAt),
+    endedAt: readString(data.endedAt),
+    cancelledAt: readString(data.cancelledAt)
+  };
+}
+
+/**
+ * A rostered session whose window has closed and whose absences are still
+ * missing. The schedule decides, not the stored status, because the stored
+ * status only moves when a dashboard is open.
+ */
+function needsAbsentees(data: Record<string, unknown>, now: number): boolean {
+  return (
+    Boolean(readString(data.classId)) &&
+    !data.absenteesRecordedAt &&
+    deriveSessionStatus(readLifecycle(data), now) === 'completed'
+  );
+}
+
+function readAttendeeIdentity(raw: Record<string, unknown>, fallbackId: string): AttendeeIdentity | null {
+  const studentId = typeof raw.studentId === 'string' ? raw.studentId : typeof raw.id === 'string' ? raw.id : fallbackId;
+  const status = raw.status;
+
+  if (!studentId || status === 'absent') {
+    return null;
+  }
+
+  return {
+    studentId,
+    email: typeof raw.email === 'string' ? raw.email : typeof raw.studentEmail === 'string' ? raw.studentEmail : null,
+    studentNumber: typeof raw.studentNumber === 'string' ? raw.studentNumber : null
+  };
+}
+
+/**
+ * Writes explicit `absent` records for every rostered student who never checked
+ * in: on the teacher session, in `publicSessions/{token}/attendances` and in each
+ * linked student's `attendanceLogs`. Roster rows are linked to the uid of any
+ * matching attendee on the way, so later sessions can reach those students too.
+ * Safe to call more than once: the `absenteesRecordedAt` stamp is checked and
+ * written in the same transaction as the absence records.
+ */
+export async function recordSessionAbsentees(teacherId: string, sessionId: string, now = Date.now()): Promise<AbsenteeResult> {
+  const db = getAdminDb();
+  const sessionRef = db.doc(`teachers/${teacherId}/sessions/${sessionId}`);
+
+  return db.runTransaction(async (transaction) => {
+    const sessionSnapshot = await transaction.get(sessionRef);
+    const sessionData = sessionSnapshot.data();
+
+    if (!sessionData || !needsAbsentees(sessionData, now)) {
+      return { absentees: [], linkedCount: 0 };
+    }
+
+    const lifecycle = readLifecycle(sessionData);
+    const recordedAtIso = lifecycle.endedAt ?? new Date(getSessionWindow(lifecycle).closesAt).toISOString();
+    const sessionToken = readString(sessionData.sessionToken);
+    const classRef = db.doc(`classes/${sessionData.classId}`);
+
+    const [classSnapshot, publicSnapshot] = await Promise.all([
+      transaction.get(classRef),
+      sessionToken ? transaction.get(db.collection(`publicSessions/${sessionToken}/attendances`)) : null
+    ]);
+
+    if (!classSnapshot.exists) {
+      transaction.update(sessionRef, { absenteesRecordedAt: recordedAtIso, absentCount: 0 });
+      return { absentees: [], linkedCount: 0 };
+    }
+
+    const classRecord = normalizeClassRecord(classSnapshot.id, classSnapshot.data() ?? {});
+    const sessionAttendees = Array.isArray(sessionData.attendees)
+      ? (sessionData.attendees as Array<Record<string, unknown>>)
+      : [];
+
+    const identities = new Map<string, AttendeeIdentity>();
+    sessionAttendees.forEach((attendee) => {
+      const identity = readAttendeeIdentity(attendee, '');
+      if (identity) {
+        identities.set(identity.studentId, identity);
+      }
+    });
+    publicSnapshot?.docs.forEach((docSnapshot) => {
+      const identity = readAttendeeIdentity(docSnapshot.data(), docSnapshot.id);
+      if (identity) {
+        identities.set(identity.studentId, { ...identities.get(identity.studentId), ...identity });
+      }
+    });
+
+    const attendees = Array.from(identities.values());
+    let linkedCount = 0;
+    const roster = classRecord.roster.map((entry) => {
+      if (entry.studentId) {
+        return entry;
+      }
+      const match = attendees.find((attendee) => matchesRosterEntry(entry, attendee));
+      if (!match) {
+        return entry;
+      }
+      linkedCount += 1;
+      return { ...entry, studentId: match.studentId };
+    });
+
+    const absentees = computeAbsentees(roster, attendees);
+    const className = readString(sessionData.className) ?? classRecord.name;
+    const subject = readString(sessionData.subject) ?? classRecord.subject;
+
+    absentees.forEach((entry) => {
+      if (!entry.studentId) {
+        return;
+      }
+
+      if (sessionToken) {
+        transaction.set(db.doc(`publicSessions/${sessionToken}/attendances/${entry.studentId}`), {
+          studentId: entry.studentId,
+          studentName: entry.name,
+          studentEmail: entry.email,
+          studentNumber: entry.studentNumber,
+          status: 'absent',
+          teacherId,
+          sessionId,
+          classId: classRecord.id,
+          sessionToken,
+          scannedAt: null,
+          notes: [ABSENCE_NOTE],
+          updatedAt: FieldValue.serverTimestamp()
+        });
+      }
+
+      // A fixed id keeps one absence log per session and student.
+      transaction.set(db.doc(`students/${entry.studentId}/attendanceLogs/absent-${sessionId}`), {
+        sessionId,
+        classId: classRecord.id,
+        className,
+        subject,
+        teacherId,
+        status: 'absent',
+        recordedAt: FieldValue.serverTimestamp(),
+        recordedAtLabel: format(new Date(recordedAtIso), 'PPpp'),
+        notes: [ABSENCE_NOTE]
+      });
+    });
+
+    transaction.update(sessionRef, {
+      attendees: [
+        ...sessionAttendees,
+        ...absentees.map((entry) => ({
+          id: getAbsenteeId(entry),
+          name: entry.name,
+          status: 'absent',
+          rosterId: entry.rosterId,
+          email: entry.email,
+          studentNumber: entry.studentNumber,
+          markedAt: recordedAtIso
+        }))
+      ],
+      absentCount: absentees.length,
+      absenteesRecordedAt: recordedAtIso
+    });
+
+    if (linkedCount > 0) {
+      transaction.update(classRef, {
+        ...buildRosterIndexes(roster),
+        updatedAt: FieldValue.serverTimestamp()
+      });
+    }
+
+    return { absentees, linkedCount };
+  });
+}
+
+/**
+ * Records absences for every session of the teacher that has closed without
+ * them. One session failing does not stop the rest; the count covers the
+ * sessions that were processed.
+ */
+export async function recordPendingAbsentees(teacherId: string, now = Date.now()): Promise<number> {
+  const snapshot = await getAdminDb().collection(`teachers/${teacherId}/sessions`).get();
+  const pending = snapshot.docs.filter((sessionDoc) => needsAbsentees(sessionDoc.data(), now));
+  let recorded = 0;
+
+  for (const sessionDoc of pending) {
+    try {
+      await recordSessionAbsentees(teacherId, sessionDoc.id, now);
+      recorded += 1;
+    } catch (error) {
+      console.error(`[Absentees] Failed to record absentees for session ${sessionDoc.id}`, error);
+    }
+  }
+
+  return recorded;
+}
@@ -0,0 +1,247 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  ANALYTICS_WINDOW_DAYS,
+  buildTeacherAnalytics,
+  type AnalyticsAttendee,
+  type AnalyticsClass,
+  type AnalyticsSession
+} from '@/lib/analyticsAggregation';
+import type { RosterEntry } from '@/lib/classRoster';
+import { DEFAULT_DROPOUT_RISK_CONFIG } from '@/lib/dropoutRisk';
+import type { AttendanceStatus } from '@/lib/hooks/useTeacherSessions';
+
+const NOW = Date.UTC(2026, 1, 1, 12);
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RISK_CONFIG = { ...DEFAULT_DROPOUT_RISK_CONFIG, timeZone: 'UTC' };
+
+const STATUS_CODES: Record<string, AttendanceStatus> = {
+  P: 'present',
+  L: 'late',
+  F: 'flagged',
+  A: 'absent'
+};
+
+function rosterEntry(studentId: string): RosterEntry {
+  return {
+    rosterId: `roster-${studentId}`,
+    name: `Student ${studentId}`,
+    email: null,
+    studentNumber: null,
+    studentId,
+    addedAt: new Date(0).toISOString()
+  };
+}
+
+function algebra(studentIds: string[]): AnalyticsClass {
+  return { id: 'algebra', name: 'Algebra', subject: 'Math', roster: studentIds.map(rosterEntry), assignments: [] };
+}
+
+/** Check-ins coded P/L/F/A, for students s1, s2, … in order. */
+function attendees(codes: string): AnalyticsAttendee[] {
+  return Array.from(codes).map((code, index) => ({
+    studentId: `s${index + 1}`,
+    name: `Student s${index + 1}`,
+    email: null,
+    studentNumber: null,
+    status: STATUS_CODES[code]
+  }));
+}
+
+/** A completed hour-long session held `daysAgo` days before the run. */
+function session(daysAgo: number, overrides: Partial<AnalyticsSession> = {}): AnalyticsSession {
+  return {
+    id: `session-${daysAgo}`,
+    classId: 'algebra',
+    className: 'Algebra',
+    subject: 'Math',
+    status: 'completed',
+    scheduledFor: new Date(NOW - daysAgo * DAY_MS).toISOString(),
+    durationMinutes: 60,
+    expectedAttendance: 0,
+    attendees: [],
+    ...overrides
+  };
+}
+
+function build(sessions: AnalyticsSession[], classes: AnalyticsClass[] = []) {
+  return buildTeacherAnalytics('teacher-1', sessions, classes, NOW, RISK_CONFIG);
+}
+
+describe('buildTeacherAnalytics attendance rates', () => {
+  test.each([
+    {
+      name: 'a roster class counts attended roster students over the roster size',
+      sessions: [session(1, { attendees: attendees('PPAA') })],
+      classes: [algebra(['s1', 's2', 's3', 's4'])],
+      rate: 50
+    },
+    {
+      name: 'late and flagged check-ins count as attended',
+      sessions: [session(1, { attendees: attendees('LFPA') })],
+      classes: [algebra(['s1', 's2', 's3', 's4'])],
+      rate: 75
+    },
+    {
+      name: 'a missing check-in counts as absent for a roster class',
+      sessions: [session(1, { attendees: attendees('P') })],
+      classes: [algebra(['s1', 's2', 's3', 's4'])],
+      rate: 25
+    },
+    {
+      name: 'walk-ins outside the roster are neither attended nor expected',
+      sessions: [
+        session(1, {
+          attendees: [...attendees('PA'), { ...attendees('P')[0], studentId: 'walk-in', name: 'Walk In' }]
+        })
+      ],
+      classes: [algebra(['s1', 's2'])],
+      rate: 50
+    },
+    {
+      name: 'without a roster the expected count is the planned attendance',
+      sessions: [session(1, { classId: null, expectedAttendance: 4, attendees: attendees('PLA') })],
+      classes: [],
+      rate: 50
+    },
+    {
+      name: 'without a roster the check-ins stand in when more than planned',
+      sessions: [session(1, { classId: null, expectedAttendance: 2, attendees: attendees('PFA') })],
+      classes: [],
+      rate: 67
+    },
+    {
+      name: 'sessions outside the window are left out of the rate',
+      sessions: [
+        session(1, { attendees: attendees('PP') }),
+        session(ANALYTICS_WINDOW_DAYS + 1, { attendees: attendees('AA') })
+      ],
+      classes: [algebra(['s1', 's2'])],
+      rate: 100
+    },
+    {
+      name: 'sessions that have not finished are left out of the rate',
+      sessions: [
+        session(1, { attendees: attendees('PP') }),
+        session(-1, { status: 'scheduled', attendees: attendees('AA') }),
+        session(2, { status: 'cancelled', attendees: attendees('AA') })
+      ],
+      classes: [algebra(['s1', 's2'])],
+      rate: 100
+    }
+  ])('$name', ({ sessions, classes, rate }) => {
+    const analytics = build(sessions, classes);
+
+    expect(analytics.classes).toHaveLength(1);
+    expect(analytics.classes[0].averageAttendanceRate).toBe(rate);
+    expect(analytics.averageAttendanceRate).toBe(rate);
+  });
+
+  test('the overall rate pools attendance across classes rather than averaging class rates', () => {
+    const analytics = build(
+      [
+        session(1, { attendees: attendees('PPPA') }),
+        session(1, { classId: null, className: 'Drop-in', subject: 'Study', expectedAttendance: 0, attendees: attendees('A') })
+      ],
+      [algebra(['s1', 's2', 's3', 's4'])]
+    );
+
+    expect(analytics.classes.map((entry) => [entry.className, entry.averageAttendanceRate])).toEqual([
+      ['Algebra', 75],
+      ['Drop-in', 0]
+    ]);
+    expect(analytics.averageAttendanceRate).toBe(60);
+  });
+
+  test('ad-hoc sessions group by class name and subject', () => {
+    const analytics = build([
+      session(1, { classId: null, className: 'Lab', subject: 'Physics', attendees: attendees('PP') }),
+      session(2, { classId: 'deleted-class', className: 'Lab', subject: 'Physics', attendees: attendees('PA') }),
+      session(3, { classId: null, className: 'Lab', subject: 'Chemistry', attendees: attendees('P') })
+    ]);
+
+    expect(analytics.classes.map((entry) => [entry.subject, entry.totalStudents, entry.averageAttendanceRate])).toEqual([
+      ['Chemistry', 1, 100],
+      ['Physics', 2, 75]
+    ]);
+  });
+});
+
+describe('buildTeacherAnalytics empty classes', () => {
+  test('a rostered class with no sessions is listed with nothing to report', () => {
+    const analytics = build([], [algebra(['s1', 's2'])]);
+
+    expect(analytics.classes).toEqual([
+      {
+        classId: 'algebra',
+        className: 'Algebra',
+        subject: 'Math',
+        averageAttendanceRate: 0,
+        totalStudents: 2,
+        dropoutRiskCount: 0,
+        failingStudentsCount: 0,
+        attendanceTrend: [],
+        updatedAt: new Date(NOW).toISOString()
+      }
+    ]);
+    expect(analytics.averageAttendanceRate).toBe(0);
+    expect(analytics.dropoutRiskStudents).toEqual([]);
+  });
+
+  test('a class with an empty roster reports 0% rather than dividing by zero', () => {
+    const analytics = build([session(1)], [algebra([])]);
+
+    expect(analytics.classes[0].averageAttendanceRate).toBe(0);
+    expect(analytics.classes[0].attendanceTrend).toEqual([0]);
+  });
+
+  test('a teacher with no classes or sessions gets an empty snapshot', () => {
+    expect(build([])).toEqual({
+      teacherId: 'teacher-1',
+      reportingPeriod: new Date(NOW - ANALYTICS_WINDOW_DAYS * DAY_MS).toISOString(),
+      averageAttendanceRate: 0,
+      dropoutRiskCount: 0,
+      failingStudentsCount: 0,
+      classes: [],
+      dropoutRiskStudents: [],
+      failingStudents: []
+    });
+  });
+});
+
+describe('buildTeacherAnalytics attendance trend', () => {
+  test.each([
+    {
+      name: 'one point per session, oldest first, whatever the input order',
+      sessions: [
+        session(1, { attendees: attendees('PP') }),
+        session(3, { attendees: attendees('AA') }),
+        session(2, { attendees: attendees('PA') })
+      ],
+      trend: [0, 50, 100]
+    },
+    {
+      name: 'only the last seven sessions are kept',
+      sessions: [9, 8, 7, 6, 5, 4, 3, 2, 1].map((daysAgo) =>
+        session(daysAgo, { attendees: attendees(daysAgo % 2 === 0 ? 'PP' : 'PA') })
+      ),
+      trend: [50, 100, 50, 100, 50, 100, 50]
+    },
+    {
+      name: 'sessions older than the window still feed the trend',
+      sessions: [
+        session(ANALYTICS_WINDOW_DAYS + 5, { attendees: attendees('AA') }),
+        session(1, { attendees: attendees('PP') })
+      ],
+      trend: [0, 100]
+    },
+    {
+      name: 'unfinished sessions are not plotted',
+      sessions: [session(1, { attendees: attendees('PL') }), session(-2, { status: 'scheduled' })],
+      trend: [100]
+    }
+  ])('$name', ({ sessions, trend }) => {
+    const analytics = build(sessions, [algebra(['s1', 's2'])]);
+
+    expect(analytics.classes[0].attendanceTrend).toEqual(trend);
+  });
+});
@@ -0,0 +1,389 @@
+import { FieldValue, type Firestore } from 'firebase-admin/firestore';
+import { matchesRosterEntry, normalizeRosterEntry, type RosterEntry } from '@/lib/classRoster';
+import {
+  assessDropoutRisk,
+  parseDropoutRiskConfig,
+  type AttendanceHistoryEntry,
+  type DropoutRiskConfig
+} from '@/lib/dropoutRisk';
+import { getAdminDb } from '@/lib/firebaseAdmin';
+import { normalizeAssignment, summarizeGrades, type Assignment } from '@/lib/gradebook';
+import type { AttendanceStatus } from '@/lib/hooks/useTeacherSessions';
+import type { ClassAnalytics, FailingStudent, RiskStudent, TeacherAnalytics } from '@/lib/hooks/useTeacherAnalytics';
+import { deriveSessionStatus, type SessionLifecycleFields, type SessionStatus } from '@/lib/sessionLifecycle';
+
+// Server-only: reads every session, roster and gradebook for a teacher with admin credentials.
+
+export interface AnalyticsAttendee {
+  studentId: string;
+  name: string;
+  email: string | null;
+  studentNumber: string | null;
+  status: AttendanceStatus;
+}
+
+export interface AnalyticsSession extends SessionLifecycleFields {
+  id: string;
+  classId: string | null;
+  className: string;
+  subject: string;
+  expectedAttendance: number;
+  attendees: AnalyticsAttendee[];
+}
+
+export interface AnalyticsClass {
+  id: string;
+  name: string;
+  subject: string;
+  roster: RosterEntry[];
+  assignments: Assignment[];
+}
+
+export type TeacherAnalyticsSnapshot = Omit<TeacherAnalytics, 'updatedAt'>;
+
+/** Attendance rates and the risk list cover this many days back from the run. */
+export const ANALYTICS_WINDOW_DAYS = 30;
+const TREND_SESSION_COUNT = 7;
+
+interface ClassGroup {
+  key: string;
+  classId: string;
+  className: string;
+  subject: string;
+  roster: RosterEntry[] | null;
+  assignments: Assignment[];
+  sessions: AnalyticsSession[];
+}
+
+interface StudentRecord {
+  studentId: string;
+  name: string;
+  /** One entry per session held, oldest first. */
+  history: AttendanceHistoryEntry[];
+}
+
+function percentage(part: number, whole: number): number {
+  return whole > 0 ? Math.round((part / whole) * 100) : 0;
+}
+
+/** Any check-in counts as attending, whatever its review state; only `absent` does not. */
+function hasAttended(attendee: AnalyticsAttendee): boolean {
+  return attendee.status !== 'absent';
+}
+
+function findAttendee(session: AnalyticsSession, entry: RosterEntry): AnalyticsAttendee | undefined {
+  return session.attendees.find((attendee) => matchesRosterEntry(entry, attendee));
+}
+
+function countAttended(session: AnalyticsSession, roster: RosterEntry[] | null): number {
+  if (roster) {
+    return roster.filter((entry) => {
+      const attendee = findAttendee(session, entry);
+      return attendee ? hasAttended(attendee) : false;
+    }).length;
+  }
+  return session.attendees.filter(hasAttended).length;
+}
+
+function countExpected(session: AnalyticsSession, roster: RosterEntry[] | null): number {
+  if (roster?.length) {
+    return roster.length;
+  }
+  return Math.max(session.expectedAttendance, session.attendees.length);
+}
+
+/**
+ * Sessions launched from a roster group by class. Ad-hoc sessions group by
+ * class name and subject, and their students are whoever checked in to any of them.
+ */
+function groupSessions(sessions: AnalyticsSession[], classes: AnalyticsClass[]): ClassGroup[] {
+  const groups = new Map<string, ClassGroup>();
+
+  classes.forEach((classRecord) => {
+    groups.set(classRecord.id, {
+      key: classRecord.id,
+      classId: classRecord.id,
+      className: classRecord.name,
+      subject: classRecord.subject,
+      roster: classRecord.roster,
+      assignments: classRecord.assignments,
+      sessions: []
+    });
+  });
+
+  sessions.forEach((session) => {
+    const key = session.classId && groups.has(session.classId) ? session.classId : `adhoc:${session.className}|${session.subject}`;
+    const group = groups.get(key) ?? {
+      key,
+      classId: key,
+      className: session.className,
+      subject: session.subject,
+      roster: null,
+      assignments: [],
+      sessions: []
+    };
+    group.sessions.push(session);
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.values());
+}
+
+function collectStudents(group: ClassGroup, sessions: AnalyticsSession[]): StudentRecord[] {
+  if (group.roster) {
+    return group.roster.map((entry) => ({
+      studentId: entry.studentId ?? `roster:${entry.rosterId}`,
+      name: entry.name,
+      history: sessions.map((session) => ({
+        scheduledFor: session.scheduledFor,
+        status: findAttendee(session, entry)?.status ?? 'absent'
+      }))
+    }));
+  }
+
+  const names = new Map<string, string>();
+  sessions.forEach((session) => session.attendees.forEach((attendee) => names.set(attendee.studentId, attendee.name)));
+
+  return Array.from(names.entries()).map(([studentId, name]) => ({
+    studentId,
+    name,
+    history: sessions.map((session) => ({
+      scheduledFor: session.scheduledFor,
+      status: session.attendees.find((attendee) => attendee.studentId === studentId)?.status ?? 'absent'
+    }))
+  }));
+}
+
+/** Medium and high risk make the list; low-risk students are left off it. */
+function assessRisk(student: StudentRecord, className: string, config: DropoutRiskConfig): RiskStudent | null {
+  const assessment = assessDropoutRisk(student.history, config);
+  if (!assessment || assessment.riskLevel === 'low') {
+    return null;
+  }
+
+  return {
+    studentId: student.studentId,
+    name: student.name,
+    className,
+    attendanceRate: assessment.attendanceRate,
+    absences: assessment.absences,
+    riskLevel: assessment.riskLevel,
+    score: assessment.score,
+    reasons: assessment.reasons,
+    notes: assessment.reasons[0]?.detail ?? null
+  };
+}
+
+/**
+ * Every rostered student the gradebook gives a status. Recovering students are
+ * listed so the teacher can see the turnaround but are not counted as failing.
+ */
+function collectFailing(group: ClassGroup): FailingStudent[] {
+  if (!group.roster || group.assignments.length === 0) {
+    return [];
+  }
+
+  return group.roster.flatMap((entry) => {
+    const summary = summarizeGrades(entry.rosterId, group.assignments);
+    if (!summary.status || summary.averageGrade === null) {
+      return [];
+    }
+    return [
+      {
+        studentId: entry.studentId ?? `roster:${entry.rosterId}`,
+        name: entry.name,
+        className: group.className,
+        averageGrade: summary.averageGrade,
+        missingAssignments: summary.missingAssignments,
+        status: summary.status
+      }
+    ];
+  });
+}
+
+function countFailing(students: FailingStudent[]): number {
+  return students.filter((student) => student.status !== 'recovering').length;
+}
+
+const FAILING_STATUS_ORDER: Record<FailingStudent['status'], number> = { critical: 0, warning: 1, recovering: 2 };
+
+/**
+ * Builds the `teacherAnalytics` document from completed sessions. Class rates
+ * and the risk list cover the last `ANALYTICS_WINDOW_DAYS`; the trend is the
+ * attendance rate of each class's last seven sessions, however old. Risk is
+ * scored per class by `assessDropoutRisk`; failing students come from each
+ * class's gradebook via `summarizeGrades`, whatever the window.
+ */
+export function buildTeacherAnalytics(
+  teacherId: string,
+  sessions: AnalyticsSession[],
+  classes: AnalyticsClass[],
+  now = Date.now(),
+  riskConfig: DropoutRiskConfig = parseDropoutRiskConfig(process.env.DROPOUT_RISK_CONFIG)
+): TeacherAnalyticsSnapshot {
+  const windowStart = now - ANALYTICS_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  const completed = sessions
+    .filter((session) => deriveSessionStatus(session, now) === 'completed')
+    .sort((a, b) => new Date(a.scheduledFor).getTime() - new Date(b.scheduledFor).getTime());
+
+  let totalAttended = 0;
+  let totalExpected = 0;
+  const dropoutRiskStudents: RiskStudent[] = [];
+  const failingStudents: FailingStudent[] = [];
+
+  const classAnalytics = groupSessions(completed, classes)
+    .filter((group) => group.sessions.length > 0 || group.roster !== null)
+    .map((group): ClassAnalytics => {
+      const recent = group.sessions.filter((session) => new Date(session.scheduledFor).getTime() >= windowStart);
+      const attended = recent.reduce((sum, session) => sum + countAttended(session, group.roster), 0);
+      const expected = recent.reduce((sum, session) => sum + countExpected(session, group.roster), 0);
+      totalAttended += attended;
+      totalExpected += expected;
+
+      const risks = collectStudents(group, recent)
+        .map((student) => assessRisk(student, group.className, riskConfig))
+        .filter((risk): risk is RiskStudent => risk !== null);
+      dropoutRiskStudents.push(...risks);
+
+      const failing = collectFailing(group);
+      failingStudents.push(...failing);
+
+      return {
+        classId: group.classId,
+        className: group.className,
+        subject: group.subject,
+        averageAttendanceRate: percentage(attended, expected),
+        totalStudents: group.roster ? group.roster.length : collectStudents(group, group.sessions).length,
+        dropoutRiskCount: risks.length,
+        failingStudentsCount: countFailing(failing),
+        attendanceTrend: group.sessions
+          .slice(-TREND_SESSION_COUNT)
+          .map((session) => percentage(countAttended(session, group.roster), countExpected(session, group.roster))),
+        updatedAt: new Date(now).toISOString()
+      };
+    })
+    .sort((a, b) => a.className.localeCompare(b.className));
+
+  dropoutRiskStudents.sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+  failingStudents.sort(
+    (a, b) => FAILING_STATUS_ORDER[a.status] - FAILING_STATUS_ORDER[b.status] || a.averageGrade - b.averageGrade
+  );
+
+  return {
+    teacherId,
+    reportingPeriod: new Date(windowStart).toISOString(),
+    averageAttendanceRate: percentage(totalAttended, totalExpected),
+    dropoutRiskCount: dropoutRiskStudents.length,
+    failingStudentsCount: countFailing(failingStudents),
+    classes: classAnalytics,
+    dropoutRiskStudents,
+    failingStudents
+  };
+}
+
+function readString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+function toFiniteNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function readSessionStatus(value: unknown): SessionStatus {
+  return value === 'active' || value === 'completed' || value === 'cancelled' ? value : 'scheduled';
+}
+
+function readAttendee(raw: unknown): AnalyticsAttendee | null {
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+
+  const data = raw as Record<string, unknown>;
+  const studentId = readString(data.id) ?? readString(data.studentId);
+  const status = data.status;
+
+  if (!studentId || (status !== 'present' && status !== 'late' && status !== 'flagged' && status !== 'absent')) {
+    return null;
+  }
+
+  return {
+    studentId,
+    name: readString(data.name) ?? 'Student',
+    email: readString(data.email) ?? null,
+    studentNumber: readString(data.studentNumber) ?? null,
+    status
+  };
+}
+
+/** A teacher's sessions, or only those launched from one class when `classId` is given. */
+export async function loadTeacherSessions(db: Firestore, teacherId: string, classId?: string): Promise<AnalyticsSession[]> {
+  const sessions = db.collection(`teachers/${teacherId}/sessions`);
+  const snapshot = await (classId ? sessions.where('classId', '==', classId) : sessions).get();
+
+  return snapshot.docs.map((sessionDoc) => {
+    const data = sessionDoc.data();
+    return {
+      id: sessionDoc.id,
+      classId: readString(data.classId) ?? null,
+      className: readString(data.className) ?? 'Class',
+      subject: readString(data.subject) ?? 'Subject',
+      status: readSessionStatus(data.status),
+      scheduledFor: readString(data.scheduledFor) ?? new Date(0).toISOString(),
+      durationMinutes: toFiniteNumber(data.durationMinutes) ?? 0,
+      startedAt: readString(data.startedAt),
+      endedAt: readString(data.endedAt),
+      cancelledAt: readString(data.cancelledAt),
+      expectedAttendance: toFiniteNumber(data.expectedAttendance) ?? 0,
+      attendees: (Array.isArray(data.attendees) ? data.attendees : [])
+        .map(readAttendee)
+        .filter((attendee): attendee is AnalyticsAttendee => attendee !== null)
+    };
+  });
+}
+
+async function loadAssignments(db: Firestore, teacherId: string): Promise<Assignment[]> {
+  const snapshot = await db.collection('assignments').where('teacherId', '==', teacherId).get();
+
+  return snapshot.docs.map((assignmentDoc) => {
+    const data = assignmentDoc.data();
+    // Admin timestamps are not the client SDK's `Timestamp`, so convert before normalising.
+    return normalizeAssignment(assignmentDoc.id, { ...data, createdAt: data.createdAt?.toDate?.().toISOString() });
+  });
+}
+
+async function loadClasses(db: Firestore, teacherId: string): Promise<AnalyticsClass[]> {
+  const [snapshot, assignments] = await Promise.all([
+    db.collection('classes').where('teacherId', '==', teacherId).get(),
+    loadAssignments(db, teacherId)
+  ]);
+
+  return snapshot.docs.map((classDoc) => {
+    const data = classDoc.data();
+    return {
+      id: classDoc.id,
+      name: readString(data.name) ?? 'Class',
+      subject: readString(data.subject) ?? 'Subject',
+      roster: (Array.isArray(data.roster) ? data.roster : [])
+        .map(normalizeRosterEntry)
+        .filter((entry): entry is RosterEntry => entry !== null),
+      assignments: assignments.filter((assignment) => assignment.classId === classDoc.id)
+    };
+  });
+}
+
+/** Recomputes and overwrites `teacherAnalytics/{teacherId}`. */
+export async function aggregateTeacherAnalytics(teacherId: string, now = Date.now()): Promise<TeacherAnalyticsSnapshot> {
+  const db = getAdminDb();
+  const [sessions, classes] = await Promise.all([loadTeacherSessions(db, teacherId), loadClasses(db, teacherId)]);
+  const analytics = buildTeacherAnalytics(teacherId, sessions, classes, now);
+
+  await db.doc(`teacherAnalytics/${teacherId}`).set({ ...analytics, updatedAt: FieldValue.serverTimestamp() });
+
+  return analytics;
+}
+
+/** Every teacher with at least one session; `teachers/{uid}` may exist only as a parent path. */
+export async function listTeacherIds(): Promise<string[]> {
+  const references = await getAdminDb().collection('teachers').listDocuments();
+  return references.map((reference) => reference.id);
+}
@@ -0,0 +1,42 @@
+import type { User } from 'firebase/auth';
+import { isFirebaseConfigured } from '@/lib/firebase';
+
+export interface AnalyticsRefreshResult {
+  classCount: number;
+  dropoutRiskCount: number;
+  averageAttendanceRate: number;
+}
+
+const AGGREGATE_PATH = '/api/analytics/aggregate';
+
+/**
+ * Asks the portal to recompute `teacherAnalytics/{uid}` from the teacher's
+ * sessions and rosters. The analytics page picks up the new document through
+ * its listener.
+ */
+export async function refreshTeacherAnalytics(teacher: User | null): Promise<AnalyticsRefreshResult | null> {
+  if (!isFirebaseConfigured) {
+    return null;
+  }
+
+  if (!teacher) {
+    throw new Error('Sign in again to refresh analytics.');
+  }
+
+  const response = await fetch(AGGREGATE_PATH, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${await teacher.getIdToken()}` }
+  });
+
+  const body = (await response.json().catch(() => null)) as Record<string, unknown> | null;
+
+  if (!response.ok) {
+    throw new Error(typeof body?.error === 'string' ? body.error : 'Unable to refresh analytics.');
+  }
+
+  return {
+    classCount: typeof body?.classCount === 'number' ? body.classCount : 0,
+    dropoutRiskCount: typeof body?.dropoutRiskCount === 'number' ? body.dropoutRiskCount : 0,
+    averageAttendanceRate: typeof body?.averageAttendanceRate === 'number' ? body.averageAttendanceRate : 0
+  };
+}
@@ -0,0 +1,163 @@
+import { Timestamp, doc, getDoc, runTransaction, serverTimestamp, type Transaction } from 'firebase/firestore';
+import { getFirestoreDb, isFirebaseConfigured } from '@/lib/firebase';
+import { applyReviewDecision } from '@/lib/attendanceReview';
+import type { AttendanceStatus } from '@/lib/hooks/useTeacherSessions';
+
+export type AppealCategory = 'medical' | 'gps-error' | 'device-issue';
+
+export type AppealStatus = 'pending' | 'accepted' | 'rejected';
+
+export interface AppealAttachment {
+  dataUrl: string;
+  width?: number;
+  height?: number;
+}
+
+export interface AttendanceAppeal {
+  id: string;
+  studentId: string;
+  studentName: string;
+  teacherId: string;
+  sessionId: string;
+  classId?: string;
+  className: string;
+  subject: string;
+  logId: string;
+  logStatus: AttendanceStatus;
+  category: AppealCategory;
+  reason: string;
+  attachment: AppealAttachment | null;
+  status: AppealStatus;
+  resolutionNote: string | null;
+  resolvedBy: string | null;
+  resolvedAt: string | null;
+  submittedAt: string;
+}
+
+export const APPEAL_CATEGORY_LABELS: Record<AppealCategory, string> = {
+  medical: 'Medical',
+  'gps-error': 'GPS error',
+  'device-issue': 'Device issue'
+};
+
+function toIsoString(value: unknown): string | null {
+  if (value instanceof Timestamp) {
+    return value.toDate().toISOString();
+  }
+  return typeof value === 'string' ? value : null;
+}
+
+export function normalizeAppeal(id: string, raw: Record<string, unknown>): AttendanceAppeal {
+  const attachmentRaw = raw.attachment as Record<string, unknown> | null | undefined;
+  const category = raw.category === 'medical' || raw.category === 'gps-error' ? raw.category : 'device-issue';
+  const status = raw.status === 'accepted' || raw.status === 'rejected' ? raw.status : 'pending';
+
+  return {
+    id,
+    studentId: String(raw.studentId ?? ''),
+    studentName: String(raw.studentName ?? 'Student'),
+    teacherId: String(raw.teacherId ?? ''),
+    sessionId: String(raw.sessionId ?? ''),
+    classId: typeof raw.classId === 'string' ? raw.classId : undefined,
+    className: String(raw.className ?? 'Class'),
+    subject: String(raw.subject ?? 'Subject'),
+    logId: String(raw.logId ?? ''),
+    logStatus: (raw.logStatus as AttendanceStatus) ?? 'flagged',
+    category,
+    reason: String(raw.reason ?? ''),
+    attachment:
+      attachmentRaw && typeof attachmentRaw.dataUrl === 'string' && attachmentRaw.dataUrl.startsWith('data:image/')
+        ? {
+            dataUrl: attachmentRaw.dataUrl,
+            width: typeof attachmentRaw.width === 'number' ? attachmentRaw.width : undefined,
+            height: typeof attachmentRaw.height === 'number' ? attachmentRaw.height : undefined
+          }
+        : null,
+    status,
+    resolutionNote: typeof raw.resolutionNote === 'string' ? raw.resolutionNote : null,
+    resolvedBy: typeof raw.resolvedBy === 'string' ? raw.resolvedBy : null,
+    resolvedAt: toIsoString(raw.resolvedAt),
+    submittedAt: toIsoString(raw.submittedAt) ?? new Date().toISOString()
+  } satisfies AttendanceAppeal;
+}
+
+/**
+ * Records the teacher's ruling on the appeal and mirrors it onto the student's
+ * log. Accepting also approves the underlying check-in through the review
+ * workflow, so the attendance record and its audit trail change together.
+ */
+export async function resolveAppeal(params: {
+  appeal: AttendanceAppeal;
+  resolution: Exclude<AppealStatus, 'pending'>;
+  note: string;
+  reviewer: { uid: string; displayName?: string | null };
+}): Promise<AttendanceAppeal> {
+  const { appeal, resolution, reviewer } = params;
+  const note = params.note.trim();
+
+  if (appeal.status !== 'pending') {
+    throw new Error('This appeal has already been resolved.');
+  }
+
+  if (!note) {
+    throw new Error('Add a note so the student understands the decision.');
+  }
+
+  const resolvedAt = new Date().toISOString();
+  const resolved: AttendanceAppeal = {
+    ...appeal,
+    status: resolution,
+    resolutionNote: note,
+    resolvedBy: reviewer.uid,
+    resolvedAt
+  };
+
+  if (!isFirebaseConfigured) {
+    return resolved;
+  }
+
+  const db = getFirestoreDb();
+  const recordResolution = (transaction: Transaction) => {
+    transaction.update(doc(db, 'appeals', appeal.id), {
+      status: resolution,
+      resolutionNote: note,
+      resolvedBy: reviewer.uid,
+      resolvedByName: reviewer.displayName ?? null,
+      resolvedAt,
+      updatedAt: serverTimestamp()
+    });
+
+    transaction.update(doc(db, 'students', appeal.studentId, 'attendanceLogs', appeal.logId), {
+      'appeal.status': resolution,
+      'appeal.resolutionNote': note,
+      'appeal.resolvedAt': resolvedAt
+    });
+  };
+
+  if (resolution === 'accepted' && appeal.logStatus !== 'present') {
+    const sessionSnapshot = await getDoc(doc(db, 'teachers', reviewer.uid, 'sessions', appeal.sessionId));
+    const sessionToken = sessionSnapshot.data()?.sessionToken;
+
+    // The appeal is closed in the same transaction that approves the check-in.
+    await applyReviewDecision(
+      {
+        item: {
+          sessionId: appeal.sessionId,
+          sessionToken: typeof sessionToken === 'string' ? sessionToken : undefined,
+          studentId: appeal.studentId
+        },
+        decision: 'approve',
+        reason: `Appeal accepted (${APPEAL_CATEGORY_LABELS[appeal.category]}): ${note}`,
+        reviewer
+      },
+      recordResolution
+    );
+    return resolved;
+  }
+
+  await runTransaction(db, async (transaction) => {
+    recordResolution(transaction);
+  });
+
+  return resolved;
+}
@@ -0,0 +1,681 @@
+import { format } from 'date-fns';
+import { FieldValue, type Firestore } from 'firebase-admin/firestore';
+import {
+  assessLocationFactors,
+  parseClassroomSignalFingerprint,
+  parseClassroomSignalScan,
+  scoreClassroomSignals,
+  type ClassroomSignalFingerprint,
+  type ClassroomSignalScan
+} from '@shared/classroom-signals';
+import {
+  describeFaceVerification,
+  describeLiveness,
+  normalizeFaceVerification,
+  normalizeLiveness,
+  type FaceVerification,
+  type LivenessCheck
+} from '@/lib/faceVerification';
+import {
+  matchFaceTemplate,
+  parseFaceTemplateSubmission,
+  PROFILE_CLASS_ID,
+  type FaceTemplateSubmission
+} from '@/lib/faceTemplates';
+import { getAdminDb } from '@/lib/firebaseAdmin';
+import {
+  assessLocationIntegrity,
+  describeLocationIntegrity,
+  parseLocationTrace,
+  type LocationFix
+} from '@shared/location-integrity';
+import type { AttendanceStatus } from '@/lib/hooks/useTeacherSessions';
+import { parseOfflineCapture, verifyOfflineCapture, type OfflineCapture } from '@/lib/offlineCheckIns';
+import { verifyQrWindow, type QrRotationConfig, type SignedQrWindow } from '@/lib/qrTokens';
+import {
+  DEFAULT_LATE_GRACE_MINUTES,
+  deriveSessionStatus,
+  getLateCutoff,
+  getSessionWindow,
+  type SessionLifecycleFields,
+  type SessionStatus
+} from '@/lib/sessionLifecycle';
+import { computeProximity, getAccuracyMargin, type GeoPoint } from '@/lib/utils/geo';
+import { evaluateGeofence, normalizeGeofence, type RoomGeofence } from '@/lib/utils/geofence';
+
+// Server-only: writes with admin credentials.
+
+export type CheckInErrorCode =
+  | 'invalid-request'
+  | 'session-not-found'
+  | 'session-closed'
+  | 'qr-rejected'
+  | 'device-rejected'
+  | 'offline-rejected';
+
+const ERROR_HTTP_STATUS: Record<CheckInErrorCode, number> = {
+  'invalid-request': 400,
+  'session-not-found': 404,
+  'session-closed': 409,
+  'qr-rejected': 403,
+  'device-rejected': 403,
+  'offline-rejected': 422
+};
+
+export class CheckInError extends Error {
+  readonly code: CheckInErrorCode;
+
+  constructor(code: CheckInErrorCode, message: string) {
+    super(message);
+    this.name = 'CheckInError';
+    this.code = code;
+  }
+
+  get httpStatus(): number {
+    return ERROR_HTTP_STATUS[this.code];
+  }
+}
+
+export interface CheckInRequest {
+  sessionToken: string;
+  deviceKey: string;
+  location: GeoPoint;
+  rotation?: SignedQrWindow;
+  /** Embedding of the check-in selfie, matched here against the stored templates. */
+  faceTemplate?: FaceTemplateSubmission;
+  /** The app's own verdict; recorded when no usable embedding was sent, but never trusted. */
+  faceVerification?: FaceVerification;
+  liveness?: LivenessCheck;
+  /** Wi-Fi/BLE scan, scored when the session declares a classroom fingerprint. */
+  signals?: ClassroomSignalScan | null;
+  /** GPS fixes sampled at scan time, checked for mock-location and replay signs. */
+  locationTrace?: LocationFix[] | null;
+  /** Present when the app queued the check-in offline; it is judged at the signed capture time. */
+  offline?: OfflineCapture;
+}
+
+export interface CheckInStudent {
+  uid: string;
+  name?: string | null;
+  email?: string | null;
+}
+
+export interface CheckInResult {
+  status: AttendanceStatus;
+  proximityMeters: number;
+  message: string;
+  notes: string[];
+}
+
+interface ResolvedCheckInSession extends SessionLifecycleFields {
+  id: string;
+  path: string;
+  teacherId: string;
+  classId: string | null;
+  className: string;
+  subject: string;
+  lateGraceMinutes?: number;
+  locationCoordinates?: GeoPoint;
+  geofence: RoomGeofence | null;
+  roomName?: string;
+  signalFingerprint: ClassroomSignalFingerprint | null;
+  qrRotation: QrRotationConfig | null;
+}
+
+const DEFAULT_THRESHOLD_METERS = 50;
+
+function getProximityThreshold(): number {
+  const configured = Number(process.env.ATTENDANCE_PROXIMITY_THRESHOLD_METERS);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_THRESHOLD_METERS;
+}
+
+function toFiniteNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function readString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+function readSignedWindow(raw: unknown): SignedQrWindow | undefined {
+  if (!raw || typeof raw !== 'object') {
+    return undefined;
+  }
+
+  const data = raw as Record<string, unknown>;
+  const window = toFiniteNumber(data.window);
+  const intervalSeconds = toFiniteNumber(data.intervalSeconds);
+  const nonce = readString(data.nonce);
+  const signature = readString(data.signature);
+
+  if (window === undefined || intervalSeconds === undefined || !nonce || !signature) {
+    throw new CheckInError('invalid-request', 'The scanned QR code is malformed. Scan the code on your teacher’s screen.');
+  }
+
+  return { window, intervalSeconds, nonce, signature };
+}
+
+/**
+ * Validates the raw request body. Only what the device actually observed is
+ * accepted — status and distance are always computed here.
+ */
+export function parseCheckInRequest(raw: unknown): CheckInRequest {
+  if (!raw || typeof raw !== 'object') {
+    throw new CheckInError('invalid-request', 'Check-in request body is missing.');
+  }
+
+  const data = raw as Record<string, unknown>;
+  const sessionToken = readString(data.sessionToken);
+  const deviceKey = readString(data.deviceKey);
+  const location = data.location as Record<string, unknown> | undefined;
+  const latitude = toFiniteNumber(location?.latitude);
+  const longitude = toFiniteNumber(location?.longitude);
+
+  if (!sessionToken || sessionToken.length < 8) {
+    throw new CheckInError('invalid-request', 'Session token is missing. Rescan the QR code.');
+  }
+
+  if (!deviceKey) {
+    throw new CheckInError('invalid-request', 'Device key is missing. Refresh the device status and try again.');
+  }
+
+  if (latitude === undefined || longitude === undefined || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    throw new CheckInError('invalid-request', 'A valid location fix is required to check in.');
+  }
+
+  return {
+    sessionToken,
+    deviceKey,
+    location: { latitude, longitude, accuracy: toFiniteNumber(location?.accuracy) ?? null },
+    rotation: readSignedWindow(data.rotation),
+    faceTemplate: parseFaceTemplateSubmission(data.faceTemplate),
+    faceVerification: normalizeFaceVerification(data.faceVerification),
+    liveness: normalizeLiveness(data.liveness),
+    signals: parseClassroomSignalScan(data.signals),
+    locationTrace: parseLocationTrace(data.locationTrace),
+    offline: parseOfflineCapture(data.offline)
+  };
+}
+
+function parseRotationConfig(raw: unknown): QrRotationConfig | null {
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+
+  const data = raw as Record<string, unknown>;
+  const intervalSeconds = Number(data.intervalSeconds);
+
+  if (typeof data.secret !== 'string' || !data.secret || !Number.isFinite(intervalSeconds) || intervalSeconds <= 0) {
+    return null;
+  }
+
+  return { secret: data.secret, intervalSeconds };
+}
+
+function readSessionStatus(value: unknown): SessionStatus {
+  return value === 'active' || value === 'completed' || value === 'cancelled' ? value : 'scheduled';
+}
+
+async function resolveSession(db: Firestore, sessionToken: string): Promise<ResolvedCheckInSession> {
+  const publicSnapshot = await db.doc(`publicSessions/${sessionToken}`).get();
+
+  if (!publicSnapshot.exists) {
+    throw new CheckInError('session-not-found', 'Session not found. Ask your teacher to regenerate the QR code.');
+  }
+
+  const publicData = publicSnapshot.data() ?? {};
+  const teacherId = readString(publicData.teacherId);
+  const sessionId = readString(publicData.sessionId);
+
+  if (!teacherId || !sessionId) {
+    throw new CheckInError('session-not-found', 'Session not found. Ask your teacher to regenerate the QR code.');
+  }
+
+  const path = readString(publicData.sessionPath) ?? `teachers/${teacherId}/sessions/${sessionId}`;
+  const teacherSnapshot = await db.doc(path).get();
+
+  if (!teacherSnapshot.exists) {
+    throw new CheckInError('session-not-found', 'This session was removed. Ask your teacher for a new QR code.');
+  }
+
+  const data = teacherSnapshot.data() ?? {};
+
+  if (readString(data.sessionToken) && data.sessionToken !== sessionToken) {
+    throw new CheckInError('qr-rejected', 'This session QR code has expired. Ask your teacher to refresh it and try again.');
+  }
+
+  const coordinates = (data.locationCoordinates ?? publicData.locationCoordinates) as Record<string, unknown> | undefined;
+  const latitude = toFiniteNumber(coordinates?.latitude);
+  const longitude = toFiniteNumber(coordinates?.longitude);
+
+  return {
+    id: teacherSnapshot.id,
+    path,
+    teacherId,
+    classId: readString(data.classId) ?? null,
+    className: readString(data.className) ?? 'Class',
+    subject: readString(data.subject) ?? 'Subject',
+    status: readSessionStatus(data.status),
+    scheduledFor: readString(data.scheduledFor) ?? new Date(0).toISOString(),
+    durationMinutes: toFiniteNumber(data.durationMinutes) ?? 0,
+    lateGraceMinutes: toFiniteNumber(data.lateGraceMinutes),
+    startedAt: readString(data.startedAt),
+    endedAt: readString(data.endedAt),
+    cancelledAt: readString(data.cancelledAt),
+    locationCoordinates:
+      latitude !== undefined && longitude !== undefined
+        ? { latitude, longitude, accuracy: toFiniteNumber(coordinates?.accuracy) ?? null }
+        : undefined,
+    geofence: normalizeGeofence(data.geofence ?? publicData.geofence),
+    roomName: readString(data.roomName) ?? readString(publicData.roomName),
+    signalFingerprint: parseClassroomSignalFingerprint(data.signalFingerprint ?? publicData.signalFingerprint),
+    // The signing secret lives only on the teacher-only session document.
+    qrRotation: parseRotationConfig(data.qrRotation)
+  };
+}
+
+const QR_FAILURE_MESSAGES = {
+  expired: 'This QR code has expired. Scan the code currently shown on your teacher’s screen.',
+  'clock-skew': 'This QR code is not valid yet. Check that your phone’s date and time are set automatically.',
+  forged: 'This QR code could not be verified. Scan the code on your teacher’s screen.'
+} as const;
+
+async function assertQrAccepted(
+  session: ResolvedCheckInSession,
+  sessionToken: string,
+  rotation: SignedQrWindow | undefined,
+  now: number
+): Promise<boolean> {
+  if (!session.qrRotation) {
+    return false;
+  }
+
+  if (!rotation) {
+    throw new CheckInError(
+      'qr-rejected',
+      'This class uses a rotating QR code. Scan the live code on your teacher’s screen, not a saved copy.'
+    );
+  }
+
+  const failure = await verifyQrWindow(sessionToken, rotation, session.qrRotation, now);
+
+  if (failure) {
+    throw new CheckInError('qr-rejected', QR_FAILURE_MESSAGES[failure]);
+  }
+
+  return true;
+}
+
+function assertSessionOpen(session: ResolvedCheckInSession, now: number): void {
+  switch (deriveSessionStatus(session, now)) {
+    case 'active':
+      return;
+    case 'scheduled':
+      throw new CheckInError('session-closed', 'This session has not started yet. Wait for your teacher to open check-ins.');
+    case 'cancelled':
+      throw new CheckInError('session-closed', 'This session was cancelled by your teacher.');
+    default:
+      throw new CheckInError('session-closed', 'This session has ended. Check-ins are closed.');
+  }
+}
+
+const OFFLINE_FAILURE_MESSAGES = {
+  unattested: 'This device has no attested signing key, so its offline check-ins cannot be accepted. Check in online.',
+  forged: 'This offline check-in could not be verified against your device. Scan again in class.',
+  future: 'This offline check-in has a capture time in the future. Check that your phone’s date and time are set automatically.',
+  'too-late': 'This offline check-in was synced too long after it was captured.'
+} as const;
+
+/** The signing key stored when this student's device last passed attestation, if any. */
+async function loadDeviceSigningKey(db: Firestore, studentId: string, deviceKey: string): Promise<string | null> {
+  const snapshot = await db.doc(`deviceSigningKeys/${deviceKey}`).get();
+  const data = snapshot.data();
+  return data?.studentId === studentId ? readString(data.key) ?? null : null;
+}
+
+async function resolveCheckInTime(
+  db: Firestore,
+  studentId: string,
+  request: CheckInRequest,
+  serverNow: number
+): Promise<number> {
+  if (!request.offline) {
+    return serverNow;
+  }
+
+  const signingKey = await loadDeviceSigningKey(db, studentId, request.deviceKey);
+  const failure = await verifyOfflineCapture(request, request.offline, signingKey, serverNow);
+
+  if (failure) {
+    throw new CheckInError('offline-rejected', OFFLINE_FAILURE_MESSAGES[failure]);
+  }
+
+  return request.offline.capturedAt;
+}
+
+/**
+ * A late-synced record is accepted when it was captured while check-ins were
+ * open, even if the session has ended since. Cancelled sessions never count.
+ */
+function assertCapturedWithinWindow(session: ResolvedCheckInSession, capturedAt: number): void {
+  if (session.status === 'cancelled') {
+    throw new CheckInError('session-closed', 'This session was cancelled by your teacher.');
+  }
+
+  const { opensAt, closesAt } = getSessionWindow(session);
+
+  if (capturedAt < opensAt) {
+    throw new CheckInError('offline-rejected', 'This offline check-in was captured before the session opened.');
+  }
+
+  if (capturedAt >= closesAt) {
+    throw new CheckInError('offline-rejected', 'This offline check-in was captured after the session closed.');
+  }
+}
+
+interface VerifiedDevice {
+  deviceKey: string;
+  platform: string | null;
+  modelName: string | null;
+  /**
+   * Server-recorded platform attestation verdict; false until one has passed.
+   * The app's own emulator check is self-reported and plays no part here.
+   */
+  attestationPassed: boolean;
+}
+
+async function loadApprovedDevice(
+  db: Firestore,
+  studentId: string,
+  deviceKey: string,
+  profile: Record<string, unknown>
+): Promise<VerifiedDevice> {
+  const [deviceSnapshot, directorySnapshot] = await Promise.all([
+    db.doc(`students/${studentId}/devices/${deviceKey}`).get(),
+    db.doc(`deviceDirectory/${deviceKey}`).get()
+  ]);
+
+  if (!deviceSnapshot.exists) {
+    throw new CheckInError('device-rejected', 'This device is not registered. Refresh the device status and try again.');
+  }
+
+  const directoryOwner = readString(directorySnapshot.data()?.studentId);
+  if (directoryOwner && directoryOwner !== studentId) {
+    throw new CheckInError(
+      'device-rejected',
+      'This device is registered to another student. Use your approved device or request a transfer.'
+    );
+  }
+
+  const device = deviceSnapshot.data() ?? {};
+
+  if (device.approvalState !== 'approved') {
+    throw new CheckInError(
+      'device-rejected',
+      readString(device.approvalReason) ??
+        readString(profile.deviceApprovalReason) ??
+        'This device has not been approved for attendance. Contact your administrator.'
+    );
+  }
+
+  const activeDeviceKey = readString(profile.activeDeviceKey);
+  if (activeDeviceKey && activeDeviceKey !== deviceKey) {
+    throw new CheckInError(
+      'device-rejected',
+      'Another device is currently approved for this account. Switch back to the approved device.'
+    );
+  }
+
+  return {
+    deviceKey,
+    platform: readString(device.platform) ?? null,
+    modelName: readString(device.modelName) ?? null,
+    attestationPassed: device.attestation?.passed === true
+  };
+}
+
+function describeStatus(status: AttendanceStatus): string {
+  switch (status) {
+    case 'present':
+      return 'You were marked present';
+    case 'late':
+      return 'You were marked late';
+    default:
+      return 'Attendance flagged for review';
+  }
+}
+
+/**
+ * The authoritative check-in. Everything the student app used to decide on
+ * the device — session state, QR freshness, device approval, distance and
+ * lateness — is recomputed against server time before the record is written.
+ * Offline records are judged at their signed capture time instead.
+ */
+export async function verifyAndRecordCheckIn(student: CheckInStudent, request: CheckInRequest): Promise<CheckInResult> {
+  const db = getAdminDb();
+  const serverNow = Date.now();
+  const now = await resolveCheckInTime(db, student.uid, request, serverNow);
+  const capturedOffline = Boolean(request.offline);
+
+  const session = await resolveSession(db, request.sessionToken);
+  const qrVerified = await assertQrAccepted(session, request.sessionToken, request.rotation, now);
+  if (capturedOffline) {
+    assertCapturedWithinWindow(session, now);
+  } else {
+    assertSessionOpen(session, now);
+  }
+
+  const profileSnapshot = await db.doc(`students/${student.uid}`).get();
+  const profile = profileSnapshot.data() ?? {};
+  const device = await loadApprovedDevice(db, student.uid, request.deviceKey, profile);
+
+  const geofenceCheck = session.geofence ? evaluateGeofence(request.location, session.geofence) : null;
+  const proximityMeters = geofenceCheck
+    ? geofenceCheck.proximityMeters
+    : computeProximity(request.location, session.locationCoordinates);
+  const accuracyMargin = geofenceCheck
+    ? geofenceCheck.bufferMeters
+    : getAccuracyMargin(request.location, session.locationCoordinates);
+  const threshold = geofenceCheck ? 0 : getProximityThreshold();
+  const notes: string[] = [];
+  let status: AttendanceStatus = 'present';
+
+  if (capturedOffline) {
+    const minutesLater = Math.max(0, Math.round((serverNow - now) / 60_000));
+    notes.push(`Captured offline at ${format(new Date(now), 'p')} and synced ${minutesLater} min later.`);
+    // The capture time and position are the device's word, so a teacher confirms every offline record.
+    notes.push(
+      session.qrRotation
+        ? 'Offline check-in held for review; the rotating QR code bounds the capture time.'
+        : 'Offline check-in held for review; the capture time comes from the device clock alone.'
+    );
+    status = 'flagged';
+  }
+
+  if (accuracyMargin > 0) {
+    notes.push(
+      geofenceCheck
+        ? `Geofence widened by ±${accuracyMargin}m for GPS accuracy.`
+        : `Distance adjusted by ±${Math.round(accuracyMargin)}m for GPS accuracy.`
+    );
+  }
+
+  const lateCutoff = getLateCutoff(session);
+
+  if (now > lateCutoff) {
+    const graceMinutes = session.lateGraceMinutes ?? DEFAULT_LATE_GRACE_MINUTES;
+    const minutesLate = Math.ceil((now - lateCutoff) / 60_000);
+    status = status === 'flagged' ? status : 'late';
+    notes.push(`Checked in ${minutesLate} min after the ${graceMinutes}-minute grace period.`);
+  }
+
+  const signalCheck = session.signalFingerprint
+    ? scoreClassroomSignals(session.signalFingerprint, request.signals ?? null)
+    : null;
+  const location = assessLocationFactors({
+    proximityMeters,
+    thresholdMeters: threshold,
+    signal: signalCheck,
+    geofenceName: geofenceCheck ? session.roomName ?? 'room' : undefined
+  });
+  notes.push(...location.notes);
+  if (location.flagged) {
+    status = 'flagged';
+  }
+
+  const locationIntegrity = assessLocationIntegrity(request.locationTrace ?? null, now);
+  notes.push(...describeLocationIntegrity(locationIntegrity));
+  if (locationIntegrity.flagged) {
+    status = 'flagged';
+  }
+
+  if (qrVerified) {
+    notes.push('Rotating QR signature verified.');
+  }
+
+  notes.push(`Device key ${device.deviceKey}`);
+  if (!device.attestationPassed) {
+    notes.push('Device attestation has not passed.');
+    status = 'flagged';
+  }
+
+  const faceVerification = request.faceTemplate
+    ? await matchFaceTemplate(student.uid, session.classId ?? PROFILE_CLASS_ID, request.faceTemplate)
+    : request.faceVerification
+      ? { ...request.faceVerification, source: 'device' as const }
+      : null;
+  notes.push(describeFaceVerification(faceVerification ?? undefined));
+  // Only a match computed here counts; the app can report whatever verdict it likes.
+  if (!request.faceTemplate) {
+    if (faceVerification) {
+      notes.push('Face verdict came from the device alone, without an embedding the server could check.');
+    }
+    status = 'flagged';
+  } else if (faceVerification?.verdict === 'mismatch' || faceVerification?.unverifiedBaseline) {
+    status = 'flagged';
+  }
+
+  const liveness = request.liveness ?? null;
+  notes.push(describeLiveness(request.liveness));
+  if (!liveness?.passed) {
+    status = 'flagged';
+  }
+
+  // Firestore rejects Infinity, so a session without coordinates stores null.
+  const storedProximity = Number.isFinite(proximityMeters) ? proximityMeters : null;
+  const studentName = readString(profile.displayName) ?? student.name ?? student.email ?? 'Student';
+  const studentNumber = readString(profile.studentNumber) ?? null;
+
+  const attendeeEntry = {
+    id: student.uid,
+    name: studentName,
+    email: student.email ?? null,
+    studentNumber,
+    status,
+    proximityMeters: storedProximity,
+    scannedAt: new Date(now).toISOString(),
+    capturedOffline,
+    syncedAt: capturedOffline ? new Date(serverNow).toISOString() : null,
+    deviceKey: device.deviceKey,
+    devicePlatform: device.platform,
+    deviceModel: device.modelName,
+    qrVerified,
+    signalCheck,
+    locationIntegrity,
+    faceVerification,
+    liveness
+  } satisfies Record<string, unknown>;
+
+  const sessionRef = db.doc(session.path);
+  const logsCollection = db.collection(`students/${student.uid}/attendanceLogs`);
+  // A resent offline record lands on the same log entry instead of adding another.
+  const logRef = request.offline ? logsCollection.doc(`offline-${request.offline.signature.slice(0, 32)}`) : logsCollection.doc();
+  // Written by `recordSessionAbsentees` when the session closed before this record synced.
+  const absentLogRef = logsCollection.doc(`absent-${session.id}`);
+
+  await db.runTransaction(async (transaction) => {
+    const [snapshot, absentLog] = await Promise.all([transaction.get(sessionRef), transaction.get(absentLogRef)]);
+    if (!snapshot.exists) {
+      throw new CheckInError('session-not-found', 'Session was removed before attendance could be recorded.');
+    }
+
+    const data = snapshot.data() ?? {};
+    const attendees = Array.isArray(data.attendees) ? [...(data.attendees as Record<string, unknown>[])] : [];
+    const existingIndex = attendees.findIndex((attendee) => attendee?.id === student.uid);
+
+    if (existingIndex >= 0) {
+      attendees[existingIndex] = attendeeEntry;
+    } else {
+      attendees.push(attendeeEntry);
+    }
+
+    const recordNotes = absentLog.exists ? [...notes, 'Replaces the absence recorded when the session closed.'] : notes;
+
+    transaction.update(sessionRef, { attendees });
+
+    transaction.set(
+      db.doc(`publicSessions/${request.sessionToken}/attendances/${student.uid}`),
+      {
+        studentId: student.uid,
+        studentName,
+        studentEmail: student.email ?? null,
+        studentNumber,
+        status,
+        proximityMeters: storedProximity,
+        scannedAt: capturedOffline ? new Date(now) : FieldValue.serverTimestamp(),
+        capturedOffline,
+        deviceKey: device.deviceKey,
+        devicePlatform: device.platform,
+        deviceModel: device.modelName,
+        studentLatitude: request.location.latitude,
+        studentLongitude: request.location.longitude,
+        teacherId: session.teacherId,
+        sessionId: session.id,
+        classId: session.classId,
+        sessionToken: request.sessionToken,
+        qrVerified,
+        signalCheck,
+        locationIntegrity,
+        faceVerification,
+        liveness,
+        notes: recordNotes,
+        updatedAt: FieldValue.serverTimestamp()
+      },
+      { merge: true }
+    );
+
+    transaction.set(logRef, {
+      sessionId: session.id,
+      classId: session.classId,
+      className: session.className,
+      subject: session.subject,
+      teacherId: session.teacherId,
+      status,
+      proximityMeters: storedProximity,
+      recordedAt: FieldValue.serverTimestamp(),
+      recordedAtLabel: format(new Date(now), 'PPpp'),
+      capturedOffline,
+      latitude: request.location.latitude,
+      longitude: request.location.longitude,
+      deviceKey: device.deviceKey,
+      devicePlatform: device.platform,
+      deviceModel: device.modelName,
+      signalCheck,
+      locationIntegrity,
+      faceVerification,
+      liveness,
+      notes: recordNotes
+    });
+
+    if (absentLog.exists) {
+      transaction.delete(absentLogRef);
+    }
+  });
+
+  return {
+    status,
+    proximityMeters,
+    message: `${describeStatus(status)}.`,
+    notes
+  };
+}
@@ -0,0 +1,277 @@
+import { describe, expect, test } from 'bun:test';
+import type { AnalyticsAttendee, AnalyticsSession } from '@/lib/analyticsAggregation';
+import {
+  AttendanceReportError,
+  MAX_REPORT_RANGE_DAYS,
+  buildAttendanceRegister,
+  parseReportRequest,
+  type RegisterCode
+} from '@/lib/attendanceReport';
+import type { RosterEntry } from '@/lib/classRoster';
+import type { AttendanceStatus } from '@/lib/hooks/useTeacherSessions';
+
+const NOW = Date.UTC(2026, 2, 1, 12);
+const DAY_MS = 24 * 60 * 60 * 1000;
+const REQUEST = {
+  from: new Date(NOW - 14 * DAY_MS).toISOString(),
+  to: new Date(NOW + 7 * DAY_MS).toISOString(),
+  timeZone: 'UTC'
+};
+
+const STATUSES: Record<RegisterCode, AttendanceStatus> = {
+  P: 'present',
+  L: 'late',
+  F: 'flagged',
+  A: 'absent'
+};
+
+function rosterEntry(name: string, identity: Partial<Pick<RosterEntry, 'email' | 'studentNumber' | 'studentId'>>): RosterEntry {
+  return {
+    rosterId: `roster-${name}`,
+    name,
+    email: null,
+    studentNumber: null,
+    studentId: null,
+    addedAt: new Date(0).toISOString(),
+    ...identity
+  };
+}
+
+const ROSTER: RosterEntry[] = [
+  rosterEntry('Cara', { studentId: 'uid-cara' }),
+  rosterEntry('Ada', { email: 'ada@example.edu' }),
+  rosterEntry('Ben', { studentNumber: 'S0002' })
+];
+
+const CLASS = { id: 'algebra', name: 'Algebra', subject: 'Math', roster: ROSTER };
+
+const ADA: Omit<AnalyticsAttendee, 'status'> = {
+  studentId: 'uid-ada',
+  name: 'Ada L.',
+  email: 'ADA@example.edu',
+  studentNumber: null
+};
+const BEN: Omit<AnalyticsAttendee, 'status'> = { studentId: 'uid-ben', name: 'Ben', email: null, studentNumber: 's0002' };
+const CARA: Omit<AnalyticsAttendee, 'status'> = { studentId: 'uid-cara', name: 'Cara', email: null, studentNumber: null };
+const ZED: Omit<AnalyticsAttendee, 'status'> = { studentId: 'uid-zed', name: 'Zed', email: 'zed@example.edu', studentNumber: null };
+
+function checkIn(student: Omit<AnalyticsAttendee, 'status'>, code: RegisterCode): AnalyticsAttendee {
+  return { ...student, status: STATUSES[code] };
+}
+
+/** An hour-long session held `daysAgo` days before the run, completed unless overridden. */
+function session(daysAgo: number, attendees: AnalyticsAttendee[], overrides: Partial<AnalyticsSession> = {}): AnalyticsSession {
+  return {
+    id: `session-${daysAgo}`,
+    classId: CLASS.id,
+    className: CLASS.name,
+    subject: CLASS.subject,
+    status: 'completed',
+    scheduledFor: new Date(NOW - daysAgo * DAY_MS).toISOString(),
+    durationMinutes: 60,
+    expectedAttendance: ROSTER.length,
+    attendees,
+    ...overrides
+  };
+}
+
+function summarize(rows: ReturnType<typeof buildAttendanceRegister>['rows']) {
+  return rows.map((row) => ({ name: row.name, onRoster: row.onRoster, codes: row.codes.join(''), rate: row.attendanceRate }));
+}
+
+describe('buildAttendanceRegister rows', () => {
+  test('roster rows match check-ins by uid, email or student number and come first, by name', () => {
+    const register = buildAttendanceRegister(
+      CLASS,
+      [session(2, [checkIn(ADA, 'P'), checkIn(BEN, 'L'), checkIn(CARA, 'F')])],
+      REQUEST,
+      NOW
+    );
+
+    expect(summarize(register.rows)).toEqual([
+      { name: 'Ada', onRoster: true, codes: 'P', rate: 100 },
+      { name: 'Ben', onRoster: true, codes: 'L', rate: 100 },
+      { name: 'Cara', onRoster: true, codes: 'F', rate: 100 }
+    ]);
+  });
+
+  test('a rostered student with no check-in defaults to A', () => {
+    const register = buildAttendanceRegister(CLASS, [session(3, [checkIn(ADA, 'P')]), session(2, [])], REQUEST, NOW);
+
+    expect(summarize(register.rows)).toEqual([
+      { name: 'Ada', onRoster: true, codes: 'PA', rate: 50 },
+      { name: 'Ben', onRoster: true, codes: 'AA', rate: 0 },
+      { name: 'Cara', onRoster: true, codes: 'AA', rate: 0 }
+    ]);
+    expect(register.rows[0].counts).toEqual({ P: 1, L: 0, A: 1, F: 0 });
+  });
+
+  test('walk-ins are appended after the roster with A for the sessions they missed', () => {
+    const register = buildAttendanceRegister(
+      CLASS,
+      [session(3, [checkIn(ZED, 'L')]), session(2, [checkIn(ADA, 'P')])],
+      REQUEST,
+      NOW
+    );
+
+    expect(summarize(register.rows).slice(-1)).toEqual([{ name: 'Zed', onRoster: false, codes: 'LA', rate: 50 }]);
+    expect(register.rows).toHaveLength(ROSTER.length + 1);
+  });
+});
+
+describe('buildAttendanceRegister rates', () => {
+  test.each([
+    {
+      name: 'late and flagged count as attended',
+      sessions: [session(2, [checkIn(ADA, 'L'), checkIn(BEN, 'F'), checkIn(CARA, 'A')])],
+      sessionRates: [67],
+      rate: 67
+    },
+    {
+      name: 'walk-ins do not raise the session rate, whose denominator is the roster',
+      sessions: [session(2, [checkIn(ADA, 'P'), checkIn(ZED, 'P')])],
+      sessionRates: [33],
+      rate: 33
+    },
+    {
+      name: 'the overall rate pools every roster cell in the range',
+      sessions: [
+        session(4, [checkIn(ADA, 'P'), checkIn(BEN, 'P'), checkIn(CARA, 'P')]),
+        session(3, [checkIn(ADA, 'P')]),
+        session(2, [])
+      ],
+      sessionRates: [100, 33, 0],
+      rate: 44
+    },
+    {
+      name: 'no sessions held leaves every rate at 0',
+      sessions: [],
+      sessionRates: [],
+      rate: 0
+    }
+  ])('$name', ({ sessions, sessionRates, rate }) => {
+    const register = buildAttendanceRegister(CLASS, sessions, REQUEST, NOW);
+
+    expect(register.sessions.map((entry) => entry.attendanceRate)).toEqual(sessionRates);
+    expect(register.attendanceRate).toBe(rate);
+  });
+
+  test('without a roster the walk-ins are the denominator', () => {
+    const register = buildAttendanceRegister(
+      { ...CLASS, roster: [] },
+      [session(3, [checkIn(ADA, 'P'), checkIn(ZED, 'P')]), session(2, [checkIn(ADA, 'A')])],
+      REQUEST,
+      NOW
+    );
+
+    expect(summarize(register.rows)).toEqual([
+      { name: 'Ada L.', onRoster: false, codes: 'PA', rate: 50 },
+      { name: 'Zed', onRoster: false, codes: 'PA', rate: 50 }
+    ]);
+    expect(register.sessions.map((entry) => entry.attendanceRate)).toEqual([100, 0]);
+    expect(register.attendanceRate).toBe(50);
+  });
+});
+
+describe('buildAttendanceRegister sessions', () => {
+  test.each([
+    {
+      name: 'completed sessions are columns, oldest first',
+      sessions: [session(2, []), session(5, [])],
+      ids: ['session-5', 'session-2']
+    },
+    {
+      name: 'a session in progress is included',
+      sessions: [session(0, [], { status: 'active', scheduledFor: new Date(NOW - 10 * 60 * 1000).toISOString() })],
+      ids: ['session-0']
+    },
+    { name: 'scheduled sessions are excluded', sessions: [session(-2, [], { status: 'scheduled' })], ids: [] },
+    {
+      name: 'cancelled sessions are excluded',
+      sessions: [session(2, [checkIn(ADA, 'P')], { status: 'cancelled' })],
+      ids: []
+    },
+    { name: 'sessions outside the range are excluded', sessions: [session(15, []), session(-8, [])], ids: [] }
+  ])('$name', ({ sessions, ids }) => {
+    const register = buildAttendanceRegister(CLASS, sessions, REQUEST, NOW);
+
+    expect(register.sessions.map((entry) => entry.id)).toEqual(ids);
+    expect(register.rows.every((row) => row.codes.length === ids.length)).toBe(true);
+  });
+
+  test('check-ins on excluded sessions do not add walk-in rows', () => {
+    const register = buildAttendanceRegister(CLASS, [session(2, [checkIn(ZED, 'P')], { status: 'cancelled' })], REQUEST, NOW);
+
+    expect(register.rows.some((row) => !row.onRoster)).toBe(false);
+  });
+});
+
+describe('parseReportRequest', () => {
+  const valid = {
+    classId: ' algebra ',
+    format: 'xlsx',
+    from: '2026-02-01T00:00:00.000+01:00',
+    to: '2026-02-28T23:59:59.999+01:00',
+    timeZone: 'Europe/Paris'
+  };
+
+  function parse(overrides: Partial<Record<keyof typeof valid, string | null>>) {
+    const params = new URLSearchParams();
+    Object.entries({ ...valid, ...overrides }).forEach(([key, value]) => {
+      if (typeof value === 'string') {
+        params.set(key, value);
+      }
+    });
+    return parseReportRequest(params);
+  }
+
+  test('normalizes the range to UTC instants and keeps the time zone', () => {
+    expect(parse({})).toEqual({
+      classId: 'algebra',
+      format: 'xlsx',
+      from: '2026-01-31T23:00:00.000Z',
+      to: '2026-02-28T22:59:59.999Z',
+      timeZone: 'Europe/Paris'
+    });
+  });
+
+  test('the time zone is optional', () => {
+    expect(parse({ timeZone: null }).timeZone).toBeUndefined();
+  });
+
+  test('a range of exactly the maximum is accepted', () => {
+    const from = Date.UTC(2026, 0, 1);
+    const to = new Date(from + MAX_REPORT_RANGE_DAYS * DAY_MS).toISOString();
+
+    expect(parse({ from: new Date(from).toISOString(), to }).to).toBe(to);
+  });
+
+  test.each([
+    { name: 'missing class', overrides: { classId: '  ' }, message: 'Choose a class to export.' },
+    { name: 'unknown format', overrides: { format: 'docx' }, message: 'Export as csv, xlsx or pdf.' },
+    { name: 'missing format', overrides: { format: null }, message: 'Export as csv, xlsx or pdf.' },
+    { name: 'unparseable start', overrides: { from: 'last monday' }, message: 'Choose a start date on or before the end date.' },
+    { name: 'missing end', overrides: { to: null }, message: 'Choose a start date on or before the end date.' },
+    {
+      name: 'end before start',
+      overrides: { from: '2026-03-01T00:00:00.000Z', to: '2026-02-01T00:00:00.000Z' },
+      message: 'Choose a start date on or before the end date.'
+    },
+    {
+      name: 'range over the maximum',
+      overrides: { from: '2025-01-01T00:00:00.000Z', to: '2026-01-03T00:00:00.000Z' },
+      message: `Reports cover at most ${MAX_REPORT_RANGE_DAYS} days.`
+    },
+    { name: 'unknown time zone', overrides: { timeZone: 'Mars/Olympus_Mons' }, message: 'Unknown time zone Mars/Olympus_Mons.' }
+  ])('rejects $name', ({ overrides, message }) => {
+    let caught: unknown;
+    try {
+      parse(overrides);
+    } catch (error) {
+      caught = error;
+    }
+
+    expect(caught).toBeInstanceOf(AttendanceReportError);
+    expect(caught).toMatchObject({ code: 'invalid-request', httpStatus: 400, message });
+  });
+});
@@ -0,0 +1,570 @@
+import { loadTeacherSessions, type AnalyticsAttendee, type AnalyticsClass, type AnalyticsSession } from '@/lib/analyticsAggregation';
+import { matchesRosterEntry, normalizeRosterEntry, type RosterEntry } from '@/lib/classRoster';
+import { getAdminDb } from '@/lib/firebaseAdmin';
+import type { AttendanceStatus } from '@/lib/hooks/useTeacherSessions';
+import { deriveSessionStatus } from '@/lib/sessionLifecycle';
+import { formatCsv } from '@/lib/utils/csv';
+import { A4_LANDSCAPE, buildPdf, fitText, type PdfOperation } from '@/lib/utils/pdf';
+import { buildXlsxWorkbook, type XlsxCell } from '@/lib/utils/xlsx';
+
+// Server-only: reads a class and its sessions with admin credentials.
+
+export type ReportFormat = 'csv' | 'xlsx' | 'pdf';
+export type RegisterCode = 'P' | 'L' | 'A' | 'F';
+
+export type AttendanceReportErrorCode = 'invalid-request' | 'class-not-found';
+
+const ERROR_HTTP_STATUS: Record<AttendanceReportErrorCode, number> = {
+  'invalid-request': 400,
+  'class-not-found': 404
+};
+
+export class AttendanceReportError extends Error {
+  readonly code: AttendanceReportErrorCode;
+
+  constructor(code: AttendanceReportErrorCode, message: string) {
+    super(message);
+    this.name = 'AttendanceReportError';
+    this.code = code;
+  }
+
+  get httpStatus(): number {
+    return ERROR_HTTP_STATUS[this.code];
+  }
+}
+
+export interface AttendanceReportRequest {
+  classId: string;
+  /** ISO instants; the portal sends the start and end of the chosen local days. */
+  from: string;
+  to: string;
+  format: ReportFormat;
+  /** Used to print session dates as the teacher sees them. */
+  timeZone?: string;
+}
+
+export interface RegisterSession {
+  id: string;
+  scheduledFor: string;
+  /** Share of the roster that attended, or of everyone listed when there is no roster. */
+  attendanceRate: number;
+}
+
+export interface RegisterRow {
+  name: string;
+  email: string | null;
+  studentNumber: string | null;
+  /** False for students who checked in without being on the roster. */
+  onRoster: boolean;
+  codes: RegisterCode[];
+  counts: Record<RegisterCode, number>;
+  attendanceRate: number;
+}
+
+export interface AttendanceRegister {
+  classId: string;
+  className: string;
+  subject: string;
+  from: string;
+  to: string;
+  timeZone?: string;
+  generatedAt: string;
+  sessions: RegisterSession[];
+  rows: RegisterRow[];
+  attendanceRate: number;
+}
+
+export interface RenderedReport {
+  body: string | Uint8Array<ArrayBuffer>;
+  contentType: string;
+  fileName: string;
+}
+
+type RegisterClass = Pick<AnalyticsClass, 'id' | 'name' | 'subject' | 'roster'>;
+
+/** Registers longer than a school year are almost certainly a mistyped date. */
+export const MAX_REPORT_RANGE_DAYS = 366;
+
+const REPORT_FORMATS: ReportFormat[] = ['csv', 'xlsx', 'pdf'];
+
+const REGISTER_CODES: Record<AttendanceStatus, RegisterCode> = {
+  present: 'P',
+  late: 'L',
+  absent: 'A',
+  flagged: 'F'
+};
+
+const REGISTER_LEGEND = 'P present · L late · A absent · F flagged for review. Late and flagged count as attended.';
+
+const CONTENT_TYPES: Record<ReportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf'
+};
+
+function percentage(part: number, whole: number): number {
+  return whole > 0 ? Math.round((part / whole) * 100) : 0;
+}
+
+function readTimeZone(value: string | null): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return value;
+  } catch {
+    throw new AttendanceReportError('invalid-request', `Unknown time zone ${value}.`);
+  }
+}
+
+export function parseReportRequest(params: URLSearchParams): AttendanceReportRequest {
+  const classId = params.get('classId')?.trim();
+  const format = params.get('format') as ReportFormat | null;
+  const from = Date.parse(params.get('from') ?? '');
+  const to = Date.parse(params.get('to') ?? '');
+
+  if (!classId) {
+    throw new AttendanceReportError('invalid-request', 'Choose a class to export.');
+  }
+  if (!format || !REPORT_FORMATS.includes(format)) {
+    throw new AttendanceReportError('invalid-request', 'Export as csv, xlsx or pdf.');
+  }
+  if (!Number.isFinite(from) || !Number.isFinite(to) || to < from) {
+    throw new AttendanceReportError('invalid-request', 'Choose a start date on or before the end date.');
+  }
+  if (to - from > MAX_REPORT_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+    throw new AttendanceReportError('invalid-request', `Reports cover at most ${MAX_REPORT_RANGE_DAYS} days.`);
+  }
+
+  return {
+    classId,
+    from: new Date(from).toISOString(),
+    to: new Date(to).toISOString(),
+    format,
+    timeZone: readTimeZone(params.get('timeZone'))
+  };
+}
+
+function countCodes(codes: RegisterCode[]): Record<RegisterCode, number> {
+  const counts: Record<RegisterCode, number> = { P: 0, L: 0, A: 0, F: 0 };
+  codes.forEach((code) => {
+    counts[code] += 1;
+  });
+  return counts;
+}
+
+function toRow(
+  identity: Pick<RegisterRow, 'name' | 'email' | 'studentNumber' | 'onRoster'>,
+  sessions: AnalyticsSession[],
+  findStatus: (session: AnalyticsSession) => AttendanceStatus | undefined
+): RegisterRow {
+  const codes = sessions.map((session) => REGISTER_CODES[findStatus(session) ?? 'absent']);
+  const counts = countCodes(codes);
+  return { ...identity, codes, counts, attendanceRate: percentage(codes.length - counts.A, codes.length) };
+}
+
+/**
+ * Builds the register for one class: every session held in the range, as
+ * columns, against every roster student, as rows. Students who checked in
+ * without being on the roster are appended so no check-in is lost, but the
+ * session and overall rates are taken over the roster only.
+ */
+export function buildAttendanceRegister(
+  classRecord: RegisterClass,
+  sessions: AnalyticsSession[],
+  request: Pick<AttendanceReportRequest, 'from' | 'to' | 'timeZone'>,
+  now = Date.now()
+): AttendanceRegister {
+  const from = new Date(request.from).getTime();
+  const to = new Date(request.to).getTime();
+  const held = sessions
+    .filter((session) => {
+      const scheduledFor = new Date(session.scheduledFor).getTime();
+      const status = deriveSessionStatus(session, now);
+      return scheduledFor >= from && scheduledFor <= to && (status === 'active' || status === 'completed');
+    })
+    .sort((a, b) => new Date(a.scheduledFor).getTime() - new Date(b.scheduledFor).getTime());
+
+  const byName = (a: RegisterRow, b: RegisterRow) => a.name.localeCompare(b.name);
+
+  const rosterRows = classRecord.roster
+    .map((entry: RosterEntry) =>
+      toRow(
+        { name: entry.name, email: entry.email, studentNumber: entry.studentNumber, onRoster: true },
+        held,
+        (session) => session.attendees.find((attendee) => matchesRosterEntry(entry, attendee))?.status
+      )
+    )
+    .sort(byName);
+
+  const walkIns = new Map<string, AnalyticsAttendee>();
+  held.forEach((session) =>
+    session.attendees.forEach((attendee) => {
+      if (!classRecord.roster.some((entry) => matchesRosterEntry(entry, attendee))) {
+        walkIns.set(attendee.studentId, attendee);
+      }
+    })
+  );
+  const walkInRows = Array.from(walkIns.values())
+    .map((attendee) =>
+      toRow(
+        { name: attendee.name, email: attendee.email, studentNumber: attendee.studentNumber, onRoster: false },
+        held,
+        (session) => session.attendees.find((candidate) => candidate.studentId === attendee.studentId)?.status
+      )
+    )
+    .sort(byName);
+
+  const rateRows = rosterRows.length > 0 ? rosterRows : walkInRows;
+  const attendedIn = (index: number) => rateRows.filter((row) => row.codes[index] !== 'A').length;
+  const totalAttended = held.reduce((sum, _, index) => sum + attendedIn(index), 0);
+
+  return {
+    classId: classRecord.id,
+    className: classRecord.name,
+    subject: classRecord.subject,
+    from: request.from,
+    to: request.to,
+    timeZone: request.timeZone,
+    generatedAt: new Date(now).toISOString(),
+    sessions: held.map((session, index) => ({
+      id: session.id,
+      scheduledFor: session.scheduledFor,
+      attendanceRate: percentage(attendedIn(index), rateRows.length)
+    })),
+    rows: [...rosterRows, ...walkInRows],
+    attendanceRate: percentage(totalAttended, rateRows.length * held.length)
+  };
+}
+
+function formatParts(iso: string, timeZone: string | undefined): { date: string; time: string; short: string } {
+  const instant = new Date(iso);
+  const date = new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(instant);
+  const time = new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).format(
+    instant
+  );
+  const dayMonth = new Intl.DateTimeFormat('en-GB', { timeZone, day: '2-digit', month: 'short' }).format(instant);
+
+  return { date, time, short: `${dayMonth} ${time}` };
+}
+
+function sessionLabel(session: RegisterSession, timeZone: string | undefined): string {
+  const { date, time } = formatParts(session.scheduledFor, timeZone);
+  return `${date} ${time}`;
+}
+
+function periodLabel(register: AttendanceRegister): string {
+  return `${formatParts(register.from, register.timeZone).date} to ${formatParts(register.to, register.timeZone).date}`;
+}
+
+function rowLabel(row: RegisterRow): string {
+  return row.onRoster ? row.name : `${row.name} (not on roster)`;
+}
+
+function tableRows(register: AttendanceRegister): XlsxCell[][] {
+  return [
+    [
+      'Student',
+      'Student number',
+      'Email',
+      ...register.sessions.map((session) => sessionLabel(session, register.timeZone)),
+      'Present',
+      'Late',
+      'Absent',
+      'Flagged',
+      'Attendance %'
+    ],
+    ...register.rows.map((row) => [
+      rowLabel(row),
+      row.studentNumber,
+      row.email,
+      ...row.codes,
+      row.counts.P,
+      row.counts.L,
+      row.counts.A,
+      row.counts.F,
+      row.attendanceRate
+    ]),
+    [
+      'Session attendance %',
+      null,
+      null,
+      ...register.sessions.map((session) => session.attendanceRate),
+      null,
+      null,
+      null,
+      null,
+      register.attendanceRate
+    ]
+  ];
+}
+
+export function formatRegisterCsv(register: AttendanceRegister): string {
+  // The byte-order mark makes Excel read names as UTF-8.
+  return `\uFEFF${formatCsv(tableRows(register))}\r\n`;
+}
+
+export function formatRegisterXlsx(register: AttendanceRegister): Uint8Array<ArrayBuffer> {
+  const heading: XlsxCell[][] = [
+    [`${register.className} attendance register`],
+    [`${register.subject} · ${periodLabel(register)} · ${register.sessions.length} sessions · ${register.attendanceRate}% attendance`],
+    [REGISTER_LEGEND],
+    []
+  ];
+  const table = tableRows(register);
+
+  return buildXlsxWorkbook([
+    {
+      name: 'Register',
+      rows: [...heading, ...table],
+      boldRows: [0, heading.length, heading.length + table.length - 1],
+      columnWidths: [28, 14, 28, ...register.sessions.map(() => 16), 9, 9, 9, 9, 13],
+      freeze: { rows: heading.length + 1, columns: 1 }
+    }
+  ]);
+}
+
+const PDF_MARGIN = 36;
+const PDF_NAME_WIDTH = 170;
+const PDF_SESSION_WIDTH = 18;
+const PDF_SUMMARY_WIDTH = 26;
+const PDF_ROW_HEIGHT = 13;
+const PDF_HEADER_HEIGHT = 52;
+const PDF_TABLE_TOP = A4_LANDSCAPE.height - 76;
+const PDF_TABLE_BOTTOM = 60;
+const PDF_SUMMARY_LABELS = ['P', 'L', 'A', 'F', '%'];
+
+function chunk<T>(items: T[], size: number): T[][] {
+  if (items.length === 0) {
+    return [[]];
+  }
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += size) {
+    chunks.push(items.slice(index, index + size));
+  }
+  return chunks;
+}
+
+/**
+ * Printable A4 landscape register. Long registers split across pages: first
+ * by groups of students, then by groups of sessions. Every page repeats the
+ * student names and the whole-period totals.
+ */
+export function formatRegisterPdf(register: AttendanceRegister): Uint8Array<ArrayBuffer> {
+  const summaryX = A4_LANDSCAPE.width - PDF_MARGIN - PDF_SUMMARY_LABELS.length * PDF_SUMMARY_WIDTH;
+  const sessionsX = PDF_MARGIN + PDF_NAME_WIDTH;
+  const sessionsPerPage = Math.floor((summaryX - sessionsX) / PDF_SESSION_WIDTH);
+  // One row is kept for the per-session attendance line.
+  const rowsPerPage = Math.floor((PDF_TABLE_TOP - PDF_HEADER_HEIGHT - PDF_TABLE_BOTTOM) / PDF_ROW_HEIGHT) - 1;
+
+  const sessionIndexes = chunk(
+    register.sessions.map((_, index) => index),
+    sessionsPerPage
+  );
+  const rowChunks = chunk(register.rows, rowsPerPage);
+  const hasWalkIns = register.rows.some((row) => !row.onRoster);
+  const pages: PdfOperation[][] = [];
+
+  sessionIndexes.forEach((indexes) => {
+    rowChunks.forEach((rows) => {
+      const operations: PdfOperation[] = [
+        {
+          kind: 'text',
+          x: PDF_MARGIN,
+          y: A4_LANDSCAPE.height - 44,
+          text: `${register.className} attendance register`,
+          size: 16,
+          bold: true
+        },
+        {
+          kind: 'text',
+          x: PDF_MARGIN,
+          y: A4_LANDSCAPE.height - 60,
+          text: `${register.subject} · ${periodLabel(register)} · ${register.sessions.length} sessions · ${register.attendanceRate}% attendance`,
+          size: 9,
+          gray: 0.35
+        }
+      ];
+
+      const headerBaseline = PDF_TABLE_TOP - PDF_HEADER_HEIGHT + 4;
+      operations.push({ kind: 'text', x: PDF_MARGIN, y: headerBaseline, text: 'Student', size: 8, bold: true });
+      indexes.forEach((sessionIndex, column) => {
+        operations.push({
+          kind: 'text',
+          x: sessionsX + column * PDF_SESSION_WIDTH + PDF_SESSION_WIDTH / 2 + 2.5,
+          y: headerBaseline,
+          text: formatParts(register.sessions[sessionIndex].scheduledFor, register.timeZone).short,
+          size: 7,
+          vertical: true
+        });
+      });
+      PDF_SUMMARY_LABELS.forEach((label, column) => {
+        operations.push({
+          kind: 'text',
+          x: summaryX + column * PDF_SUMMARY_WIDTH + PDF_SUMMARY_WIDTH / 2,
+          y: headerBaseline,
+          text: label,
+          size: 8,
+          bold: true,
+          align: 'center'
+        });
+      });
+
+      let y = PDF_TABLE_TOP - PDF_HEADER_HEIGHT;
+      const rule = (gray: number, width = 0.5) =>
+        operations.push({ kind: 'line', x1: PDF_MARGIN, y1: y, x2: A4_LANDSCAPE.width - PDF_MARGIN, y2: y, gray, width });
+      rule(0, 0.8);
+
+      rows.forEach((row) => {
+        y -= PDF_ROW_HEIGHT;
+        const baseline = y + 4;
+        operations.push({
+          kind: 'text',
+          x: PDF_MARGIN,
+          y: baseline,
+          text: fitText(row.onRoster ? row.name : `${row.name} *`, PDF_NAME_WIDTH - 6, 8),
+          size: 8
+        });
+        indexes.forEach((sessionIndex, column) => {
+          const code = row.codes[sessionIndex];
+          const x = sessionsX + column * PDF_SESSION_WIDTH;
+          if (code === 'A') {
+            operations.push({ kind: 'rect', x: x + 1, y: y + 1, width: PDF_SESSION_WIDTH - 2, height: PDF_ROW_HEIGHT - 2, gray: 0.88 });
+          }
+          operations.push({
+            kind: 'text',
+            x: x + PDF_SESSION_WIDTH / 2,
+            y: baseline,
+            text: code,
+            size: 8,
+            bold: code === 'A',
+            align: 'center'
+          });
+        });
+        [row.counts.P, row.counts.L, row.counts.A, row.counts.F, row.attendanceRate].forEach((value, column) => {
+          operations.push({
+            kind: 'text',
+            x: summaryX + column * PDF_SUMMARY_WIDTH + PDF_SUMMARY_WIDTH / 2,
+            y: baseline,
+            text: String(value),
+            size: 8,
+            align: 'center'
+          });
+        });
+        rule(0.85);
+      });
+
+      if (rows.length === 0) {
+        y -= PDF_ROW_HEIGHT;
+        operations.push({ kind: 'text', x: PDF_MARGIN, y: y + 4, text: 'No students on this roster.', size: 8, gray: 0.35 });
+        rule(0.85);
+      }
+
+      y -= PDF_ROW_HEIGHT;
+      operations.push({ kind: 'text', x: PDF_MARGIN, y: y + 4, text: 'Attendance %', size: 8, bold: true });
+      indexes.forEach((sessionIndex, column) => {
+        operations.push({
+          kind: 'text',
+          x: sessionsX + column * PDF_SESSION_WIDTH + PDF_SESSION_WIDTH / 2,
+          y: y + 4,
+          text: String(register.sessions[sessionIndex].attendanceRate),
+          size: 7,
+          bold: true,
+          align: 'center'
+        });
+      });
+      operations.push({
+        kind: 'text',
+        x: summaryX + 4 * PDF_SUMMARY_WIDTH + PDF_SUMMARY_WIDTH / 2,
+        y: y + 4,
+        text: String(register.attendanceRate),
+        size: 8,
+        bold: true,
+        align: 'center'
+      });
+      rule(0, 0.8);
+
+      if (register.sessions.length === 0) {
+        operations.push({
+          kind: 'text',
+          x: sessionsX,
+          y: PDF_TABLE_TOP - PDF_HEADER_HEIGHT + 4,
+          text: 'No sessions were held in this period.',
+          size: 8,
+          gray: 0.35
+        });
+      }
+
+      operations.push({
+        kind: 'text',
+        x: PDF_MARGIN,
+        y: 36,
+        text: hasWalkIns ? `${REGISTER_LEGEND} * Checked in but not on the roster.` : REGISTER_LEGEND,
+        size: 7,
+        gray: 0.35
+      });
+      pages.push(operations);
+    });
+  });
+
+  const generated = formatParts(register.generatedAt, register.timeZone);
+  pages.forEach((operations, index) => {
+    operations.push({
+      kind: 'text',
+      x: A4_LANDSCAPE.width - PDF_MARGIN,
+      y: 36,
+      text: `Generated ${generated.date} ${generated.time} · Page ${index + 1} of ${pages.length}`,
+      size: 7,
+      gray: 0.35,
+      align: 'right'
+    });
+  });
+
+  return buildPdf(pages);
+}
+
+function fileSlug(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'class';
+}
+
+export function renderAttendanceReport(register: AttendanceRegister, format: ReportFormat): RenderedReport {
+  const body =
+    format === 'csv'
+      ? formatRegisterCsv(register)
+      : format === 'xlsx'
+        ? formatRegisterXlsx(register)
+        : formatRegisterPdf(register);
+  const from = formatParts(register.from, register.timeZone).date;
+  const to = formatParts(register.to, register.timeZone).date;
+
+  return {
+    body,
+    contentType: CONTENT_TYPES[format],
+    fileName: `attendance-${fileSlug(register.className)}-${from}-to-${to}.${format}`
+  };
+}
+
+/** Loads one of the teacher's classes and builds its register. Other teachers' classes read as not found. */
+export async function loadAttendanceRegister(teacherId: string, request: AttendanceReportRequest): Promise<AttendanceRegister> {
+  const db = getAdminDb();
+  const classSnapshot = await db.doc(`classes/${request.classId}`).get();
+  const data = classSnapshot.data();
+
+  if (!classSnapshot.exists || !data || data.teacherId !== teacherId) {
+    throw new AttendanceReportError('class-not-found', 'That class was not found.');
+  }
+
+  const classRecord: RegisterClass = {
+    id: classSnapshot.id,
+    name: typeof data.name === 'string' && data.name ? data.name : 'Class',
+    subject: typeof data.subject === 'string' && data.subject ? data.subject : 'Subject',
+    roster: (Array.isArray(data.roster) ? data.roster : [])
+      .map(normalizeRosterEntry)
+      .filter((entry): entry is RosterEntry => entry !== null)
+  };
+
+  const sessions = await loadTeacherSessions(db, teacherId, request.classId);
+  return buildAttendanceRegister(classRecord, sessions, request);
+}
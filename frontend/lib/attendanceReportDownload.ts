@@ -0,0 +1,64 @@
+import type { User } from 'firebase/auth';
+import { isFirebaseConfigured } from '@/lib/firebase';
+
+export type AttendanceReportFormat = 'csv' | 'xlsx' | 'pdf';
+
+export interface AttendanceReportOptions {
+  classId: string;
+  /** Local calendar days as `yyyy-MM-dd`, both included. */
+  fromDate: string;
+  toDate: string;
+  format: AttendanceReportFormat;
+}
+
+const REPORT_PATH = '/api/attendance/report';
+
+/**
+ * Asks the portal for a class register and saves it through the browser. The
+ * chosen days are sent as local midnight-to-midnight instants along with the
+ * browser's time zone, so sessions print at the times the teacher saw them.
+ * Returns the saved file name, or null in demo mode.
+ */
+export async function downloadAttendanceReport(
+  teacher: User | null,
+  options: AttendanceReportOptions
+): Promise<string | null> {
+  if (!isFirebaseConfigured) {
+    return null;
+  }
+
+  if (!teacher) {
+    throw new Error('Sign in again to export reports.');
+  }
+
+  const params = new URLSearchParams({
+    classId: options.classId,
+    from: new Date(`${options.fromDate}T00:00:00`).toISOString(),
+    to: new Date(`${options.toDate}T23:59:59.999`).toISOString(),
+    format: options.format,
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
+  });
+
+  const response = await fetch(`${REPORT_PATH}?${params.toString()}`, {
+    headers: { Authorization: `Bearer ${await teacher.getIdToken()}` }
+  });
+
+  if (!response.ok) {
+    const body = (await response.json().catch(() => null)) as Record<string, unknown> | null;
+    throw new Error(typeof body?.error === 'string' ? body.error : 'Unable to export the register.');
+  }
+
+  const disposition = response.headers.get('content-disposition') ?? '';
+  const fileName = /filename="([^"]+)"/.exec(disposition)?.[1] ?? `attendance.${options.format}`;
+  const url = URL.createObjectURL(await response.blob());
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+
+  return fileName;
+}
@@ -0,0 +1,267 @@
+import {
+  Timestamp,
+  arrayUnion,
+  collection,
+  doc,
+  getDocs,
+  query,
+  runTransaction,
+  serverTimestamp,
+  where,
+  type Transaction
+} from 'firebase/firestore';
+import { getFirestoreDb, isFirebaseConfigured } from '@/lib/firebase';
+import type { AttendanceSession, AttendanceStatus, SessionLocationCoordinates } from '@/lib/hooks/useTeacherSessions';
+
+export type ReviewDecision = 'approve' | 'mark-absent' | 'request-explanation';
+
+export type ReviewState = 'pending' | 'approved' | 'marked-absent' | 'explanation-requested';
+
+export interface ReviewAuditEntry {
+  decision: ReviewDecision;
+  reason: string;
+  decidedBy: string;
+  decidedByName: string | null;
+  decidedAt: string;
+}
+
+export interface AttendanceReview {
+  state: ReviewState;
+  reason?: string;
+  decidedBy?: string;
+  decidedByName?: string | null;
+  decidedAt?: string;
+}
+
+export interface FlaggedAttendance {
+  sessionId: string;
+  sessionToken?: string;
+  className: string;
+  subject: string;
+  sessionCoordinates?: SessionLocationCoordinates;
+  studentId: string;
+  studentName: string;
+  status: AttendanceStatus;
+  scannedAt?: string;
+  proximityMeters?: number;
+  deviceModel?: string | null;
+  devicePlatform?: string | null;
+  latitude?: number;
+  longitude?: number;
+  notes: string[];
+  review: AttendanceReview;
+  reviewHistory: ReviewAuditEntry[];
+}
+
+export interface ReviewDecisionInput {
+  item: Pick<FlaggedAttendance, 'sessionId' | 'sessionToken' | 'studentId'>;
+  decision: ReviewDecision;
+  reason: string;
+  reviewer: { uid: string; displayName?: string | null };
+}
+
+const DECISION_OUTCOMES: Record<ReviewDecision, { status: AttendanceStatus; state: ReviewState }> = {
+  approve: { status: 'present', state: 'approved' },
+  'mark-absent': { status: 'absent', state: 'marked-absent' },
+  'request-explanation': { status: 'flagged', state: 'explanation-requested' }
+};
+
+export function getDecisionOutcome(decision: ReviewDecision) {
+  return DECISION_OUTCOMES[decision];
+}
+
+/**
+ * A flag stays in the queue until the teacher approves it or marks the student
+ * absent. Asking for an explanation keeps it open so the reply can be judged.
+ */
+export function isAwaitingReview(item: Pick<FlaggedAttendance, 'status' | 'review'>): boolean {
+  return item.status === 'flagged' && (item.review.state === 'pending' || item.review.state === 'explanation-requested');
+}
+
+function toIsoString(value: unknown): string | undefined {
+  if (value instanceof Timestamp) {
+    return value.toDate().toISOString();
+  }
+  return typeof value === 'string' ? value : undefined;
+}
+
+function toFiniteNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+export function normalizeReview(raw: unknown): AttendanceReview {
+  if (!raw || typeof raw !== 'object') {
+    return { state: 'pending' };
+  }
+
+  const data = raw as Record<string, unknown>;
+  const state =
+    data.state === 'approved' || data.state === 'marked-absent' || data.state === 'explanation-requested'
+      ? data.state
+      : 'pending';
+
+  return {
+    state,
+    reason: typeof data.reason === 'string' ? data.reason : undefined,
+    decidedBy: typeof data.decidedBy === 'string' ? data.decidedBy : undefined,
+    decidedByName: typeof data.decidedByName === 'string' ? data.decidedByName : null,
+    decidedAt: toIsoString(data.decidedAt)
+  };
+}
+
+function normalizeAuditEntries(raw: unknown): ReviewAuditEntry[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  return raw
+    .filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === 'object')
+    .map((entry) => ({
+      decision: entry.decision as ReviewDecision,
+      reason: String(entry.reason ?? ''),
+      decidedBy: String(entry.decidedBy ?? ''),
+      decidedByName: typeof entry.decidedByName === 'string' ? entry.decidedByName : null,
+      decidedAt: toIsoString(entry.decidedAt) ?? ''
+    }));
+}
+
+export async function loadFlaggedAttendances(
+  teacherId: string,
+  sessions: AttendanceSession[]
+): Promise<FlaggedAttendance[]> {
+  const db = getFirestoreDb();
+  const results = await Promise.all(
+    sessions
+      .filter((session) => session.sessionToken && session.status !== 'cancelled')
+      .map(async (session) => {
+        const snapshot = await getDocs(
+          query(
+            collection(db, 'publicSessions', session.sessionToken!, 'attendances'),
+            where('teacherId', '==', teacherId),
+            where('status', '==', 'flagged')
+          )
+        );
+
+        return snapshot.docs.map((docSnapshot) => {
+          const data = docSnapshot.data() as Record<string, unknown>;
+          return {
+            sessionId: session.id,
+            sessionToken: session.sessionToken,
+            className: session.className,
+            subject: session.subject,
+            sessionCoordinates: session.locationCoordinates,
+            studentId: String(data.studentId ?? docSnapshot.id),
+            studentName: String(data.studentName ?? 'Student'),
+            status: 'flagged',
+            scannedAt: toIsoString(data.scannedAt),
+            proximityMeters: toFiniteNumber(data.proximityMeters),
+            deviceModel: typeof data.deviceModel === 'string' ? data.deviceModel : null,
+            devicePlatform: typeof data.devicePlatform === 'string' ? data.devicePlatform : null,
+            latitude: toFiniteNumber(data.studentLatitude),
+            longitude: toFiniteNumber(data.studentLongitude),
+            notes: Array.isArray(data.notes) ? (data.notes as string[]) : [],
+            review: normalizeReview(data.review),
+            reviewHistory: normalizeAuditEntries(data.reviewHistory)
+          } satisfies FlaggedAttendance;
+        });
+      })
+  );
+
+  return results
+    .flat()
+    .filter(isAwaitingReview)
+    .sort((a, b) => new Date(b.scannedAt ?? 0).getTime() - new Date(a.scannedAt ?? 0).getTime());
+}
+
+export function buildAuditEntry(input: ReviewDecisionInput, decidedAt = new Date().toISOString()): ReviewAuditEntry {
+  return {
+    decision: input.decision,
+    reason: input.reason.trim(),
+    decidedBy: input.reviewer.uid,
+    decidedByName: input.reviewer.displayName ?? null,
+    decidedAt
+  };
+}
+
+/**
+ * Applies a decision everywhere the check-in is stored: the attendee entry on
+ * the teacher session, the public attendance record, and the student's own
+ * attendance logs for that session. Each keeps the full audit trail, and all of
+ * them change in one transaction together with any `extraWrites` the caller
+ * stages, so a decision is never half-applied.
+ */
+export async function applyReviewDecision(
+  input: ReviewDecisionInput,
+  extraWrites?: (transaction: Transaction) => void
+): Promise<ReviewAuditEntry> {
+  const reason = input.reason.trim();
+  if (!reason) {
+    throw new Error('Add a short reason so the decision can be audited later.');
+  }
+
+  const entry = buildAuditEntry(input);
+
+  if (!isFirebaseConfigured) {
+    return entry;
+  }
+
+  const { item, reviewer } = input;
+  const { status, state } = getDecisionOutcome(input.decision);
+  const review = {
+    state,
+    reason: entry.reason,
+    decidedBy: entry.decidedBy,
+    decidedByName: entry.decidedByName,
+    decidedAt: entry.decidedAt
+  };
+  const db = getFirestoreDb();
+  const sessionRef = doc(db, 'teachers', reviewer.uid, 'sessions', item.sessionId);
+
+  // Client transactions cannot run queries, so the log references are found first.
+  const logs = await getDocs(
+    query(
+      collection(db, 'students', item.studentId, 'attendanceLogs'),
+      where('teacherId', '==', reviewer.uid),
+      where('sessionId', '==', item.sessionId)
+    )
+  );
+
+  await runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(sessionRef);
+    if (!snapshot.exists()) {
+      throw new Error('This session no longer exists.');
+    }
+
+    const attendees = Array.isArray(snapshot.data().attendees)
+      ? [...(snapshot.data().attendees as Array<Record<string, unknown>>)]
+      : [];
+    const index = attendees.findIndex((attendee) => attendee?.id === item.studentId);
+
+    if (index >= 0) {
+      const history = normalizeAuditEntries(attendees[index].reviewHistory);
+      attendees[index] = { ...attendees[index], status, review, reviewHistory: [...history, entry] };
+      transaction.update(sessionRef, { attendees });
+    }
+
+    if (item.sessionToken) {
+      transaction.update(doc(db, 'publicSessions', item.sessionToken, 'attendances', item.studentId), {
+        status,
+        review,
+        reviewHistory: arrayUnion(entry),
+        updatedAt: serverTimestamp()
+      });
+    }
+
+    logs.docs.forEach((logSnapshot) => {
+      transaction.update(logSnapshot.ref, {
+        status,
+        review,
+        reviewHistory: arrayUnion(entry)
+      });
+    });
+
+    extraWrites?.(transaction);
+  });
+
+  return entry;
+}
@@ -0,0 +1,179 @@
+import { X509Certificate, createHash } from 'crypto';
+import type { AttestationVerdict, AttestationVerifier } from '@/lib/deviceAttestation';
+import { decodeCbor, type CborMap } from '@/lib/utils/cbor';
+
+// Apple App Attestation Root CA, from https://www.apple.com/certificateauthority/private/
+const APPLE_APP_ATTEST_ROOT_CA = `-----BEGIN CERTIFICATE-----
+MIICITCCAaegAwIBAgIQC/O+DvHN0uD7jG5yH2IXmDAKBggqhkjOPQQDAzBSMSYw
+JAYDVQQDDB1BcHBsZSBBcHAgQXR0ZXN0YXRpb24gUm9vdCBDQTETMBEGA1UECgwK
+QXBwbGUgSW5jLjETMBEGA1UECAwKQ2FsaWZvcm5pYTAeFw0yMDAzMTgxODMyNTNa
+Fw00NTAzMTUwMDAwMDBaMFIxJjAkBgNVBAMMHUFwcGxlIEFwcCBBdHRlc3RhdGlv
+biBSb290IENBMRMwEQYDVQQKDApBcHBsZSBJbmMuMRMwEQYDVQQIDApDYWxpZm9y
+bmlhMHYwEAYHKoZIzj0CAQYFK4EEACIDYgAERTHhmLW07ATaFQIEVwTtT4dyctdh
+NbJhFs/Ii2FdCgAHGbpphY3+d8qjuDngIN3WVhQUBHAoMeQ/cLiP1sOUtgjqK9au
+Yen1mMEvRq9Sk3Jm5X8U62H+xTD3FE9TgS41o0IwQDAPBgNVHRMBAf8EBTADAQH/
+MB0GA1UdDgQWBBSskRBTM72+aEH/pwyp5frq5eWKoTAOBgNVHQ8BAf8EBAMCAQYw
+CgYIKoZIzj0EAwMDaAAwZQIwQgFGnByvsiVbpTKwSga0kP0e8EeDS4+sQmTvb7vn
+53O5+FRXgeLhpJ06ysC5PrOyAjEAp5U4xDgEgllF7En3VcE3iexZZtKeYnpqtijV
+oyFraWVIyd/dganmrduC1bmTBGwD
+-----END CERTIFICATE-----`;
+
+// DER encoding of OID 1.2.840.113635.100.8.2, the extension carrying the attestation nonce.
+const NONCE_EXTENSION_OID = Buffer.from([0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x63, 0x64, 0x08, 0x02]);
+
+const PRODUCTION_AAGUID = Buffer.concat([Buffer.from('appattest'), Buffer.alloc(7)]);
+const DEVELOPMENT_AAGUID = Buffer.from('appattestdevelop');
+
+function sha256(...parts: Buffer[]): Buffer {
+  const hash = createHash('sha256');
+  parts.forEach((part) => hash.update(part));
+  return hash.digest();
+}
+
+function reject(reason: string): AttestationVerdict {
+  return { passed: false, provider: 'app-attest', reason };
+}
+
+interface DerElement {
+  tag: number;
+  contentStart: number;
+  end: number;
+}
+
+function readDerElement(bytes: Buffer, offset: number): DerElement {
+  const tag = bytes[offset];
+  let length = bytes[offset + 1];
+  let contentStart = offset + 2;
+
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    length = 0;
+    for (let index = 0; index < lengthBytes; index += 1) {
+      length = (length << 8) | bytes[contentStart + index];
+    }
+    contentStart += lengthBytes;
+  }
+
+  return { tag, contentStart, end: contentStart + length };
+}
+
+/** Pulls the 32-byte nonce out of the leaf certificate's Apple extension. */
+function readCertificateNonce(certificate: X509Certificate): Buffer | null {
+  const raw = certificate.raw;
+  const oidIndex = raw.indexOf(NONCE_EXTENSION_OID);
+  if (oidIndex === -1) {
+    return null;
+  }
+
+  // Extension ::= SEQUENCE { extnID, critical BOOLEAN OPTIONAL, extnValue OCTET STRING }
+  let element = readDerElement(raw, oidIndex + NONCE_EXTENSION_OID.length);
+  if (element.tag === 0x01) {
+    element = readDerElement(raw, element.end);
+  }
+
+  // extnValue wraps SEQUENCE { [1] EXPLICIT OCTET STRING nonce }
+  const sequence = readDerElement(raw, element.contentStart);
+  const tagged = readDerElement(raw, sequence.contentStart);
+  const nonce = readDerElement(raw, tagged.contentStart);
+
+  if (sequence.tag !== 0x30 || tagged.tag !== 0xa1 || nonce.tag !== 0x04) {
+    return null;
+  }
+
+  return raw.subarray(nonce.contentStart, nonce.end);
+}
+
+function getUncompressedPublicKey(certificate: X509Certificate): Buffer {
+  const jwk = certificate.publicKey.export({ format: 'jwk' });
+  return Buffer.concat([
+    Buffer.from([0x04]),
+    Buffer.from(jwk.x ?? '', 'base64url'),
+    Buffer.from(jwk.y ?? '', 'base64url')
+  ]);
+}
+
+function isCertificateCurrent(certificate: X509Certificate, now: number) {
+  return Date.parse(certificate.validFrom) <= now && now <= Date.parse(certificate.validTo);
+}
+
+/**
+ * Validates an App Attest key attestation following Apple's server-side
+ * checklist. IOS_APP_ID is "<team id>.<bundle id>"; development-environment
+ * keys are only accepted when APP_ATTEST_ALLOW_DEVELOPMENT is "true".
+ */
+export function createAppAttestVerifier(): AttestationVerifier | null {
+  const appId = process.env.IOS_APP_ID;
+  if (!appId) {
+    return null;
+  }
+
+  const allowDevelopment = process.env.APP_ATTEST_ALLOW_DEVELOPMENT === 'true';
+  const root = new X509Certificate(APPLE_APP_ATTEST_ROOT_CA);
+
+  return {
+    provider: 'app-attest',
+    async verify(evidence, context) {
+      if (!evidence.keyId || !evidence.attestation) {
+        return reject('No App Attest attestation was provided.');
+      }
+
+      const decoded = decodeCbor(Buffer.from(evidence.attestation, 'base64')) as CborMap;
+      const statement = decoded?.attStmt as CborMap | undefined;
+      const chain = statement?.x5c;
+      const authData = decoded?.authData;
+
+      if (decoded?.fmt !== 'apple-appattest' || !Array.isArray(chain) || chain.length < 2 || !(authData instanceof Uint8Array)) {
+        return reject('The attestation object is malformed.');
+      }
+
+      const [leaf, intermediate] = chain.map((entry) => new X509Certificate(Buffer.from(entry as Uint8Array)));
+
+      if (
+        !intermediate.verify(root.publicKey) ||
+        !leaf.verify(intermediate.publicKey) ||
+        !isCertificateCurrent(leaf, context.now) ||
+        !isCertificateCurrent(intermediate, context.now)
+      ) {
+        return reject('The attestation certificate chain is not trusted.');
+      }
+
+      const authenticatorData = Buffer.from(authData);
+      const clientDataHash = sha256(Buffer.from(context.challenge, 'utf8'));
+      const nonce = readCertificateNonce(leaf);
+
+      if (!nonce || !nonce.equals(sha256(authenticatorData, clientDataHash))) {
+        return reject('The attestation does not match the attestation challenge.');
+      }
+
+      const keyId = Buffer.from(evidence.keyId, 'base64');
+      if (!sha256(getUncompressedPublicKey(leaf)).equals(keyId)) {
+        return reject('The attested key does not match the supplied key id.');
+      }
+
+      // authData: rpIdHash (32) | flags (1) | signCount (4) | aaguid (16) | credentialIdLength (2) | credentialId
+      if (authenticatorData.length < 55) {
+        return reject('The authenticator data is truncated.');
+      }
+
+      if (!authenticatorData.subarray(0, 32).equals(sha256(Buffer.from(appId, 'utf8')))) {
+        return reject('The attestation was issued for a different app.');
+      }
+
+      if (authenticatorData.readUInt32BE(33) !== 0) {
+        return reject('The attested key has already been used.');
+      }
+
+      const aaguid = authenticatorData.subarray(37, 53);
+      if (!aaguid.equals(PRODUCTION_AAGUID) && !(allowDevelopment && aaguid.equals(DEVELOPMENT_AAGUID))) {
+        return reject('The attestation came from an unsupported App Attest environment.');
+      }
+
+      const credentialIdLength = authenticatorData.readUInt16BE(53);
+      if (!authenticatorData.subarray(55, 55 + credentialIdLength).equals(keyId)) {
+        return reject('The credential id does not match the attested key.');
+      }
+
+      return { passed: true, provider: 'app-attest', reason: null };
+    }
+  };
+}
@@ -0,0 +1,92 @@
+import { GoogleAuth } from 'google-auth-library';
+import {
+  ATTESTATION_CHALLENGE_TTL_MS,
+  hashChallenge,
+  type AttestationVerdict,
+  type AttestationVerifier
+} from '@/lib/deviceAttestation';
+
+const PLAY_INTEGRITY_SCOPE = 'https://www.googleapis.com/auth/playintegrity';
+
+interface PlayIntegrityPayload {
+  requestDetails?: { requestPackageName?: string; requestHash?: string; timestampMillis?: string };
+  appIntegrity?: { appRecognitionVerdict?: string; packageName?: string };
+  deviceIntegrity?: { deviceRecognitionVerdict?: string[] };
+}
+
+let auth: GoogleAuth | null = null;
+
+function getGoogleAuth(): GoogleAuth {
+  if (!auth) {
+    const clientEmail = process.env.FIREBASE_ADMIN_CLIENT_EMAIL;
+    const privateKey = process.env.FIREBASE_ADMIN_PRIVATE_KEY?.replace(/\\n/g, '\n');
+
+    auth = new GoogleAuth({
+      scopes: [PLAY_INTEGRITY_SCOPE],
+      credentials: clientEmail && privateKey ? { client_email: clientEmail, private_key: privateKey } : undefined
+    });
+  }
+
+  return auth;
+}
+
+function reject(reason: string): AttestationVerdict {
+  return { passed: false, provider: 'play-integrity', reason };
+}
+
+/**
+ * Decodes the token through Google's API (the service account needs the Play
+ * Integrity API enabled) and checks it was minted for our app and challenge.
+ */
+export function createPlayIntegrityVerifier(): AttestationVerifier | null {
+  const packageName = process.env.ANDROID_PACKAGE_NAME;
+  if (!packageName) {
+    return null;
+  }
+
+  return {
+    provider: 'play-integrity',
+    async verify(evidence, context) {
+      if (!evidence.token) {
+        return reject('No Play Integrity token was provided.');
+      }
+
+      const client = await getGoogleAuth().getClient();
+      const response = await client.request<{ tokenPayloadExternal?: PlayIntegrityPayload }>({
+        url: `https://playintegrity.googleapis.com/v1/${encodeURIComponent(packageName)}:decodeIntegrityToken`,
+        method: 'POST',
+        data: { integrity_token: evidence.token }
+      });
+
+      const payload = response.data.tokenPayloadExternal;
+      const details = payload?.requestDetails;
+
+      if (!payload || !details) {
+        return reject('Play Integrity returned an empty verdict.');
+      }
+
+      if (details.requestPackageName !== packageName) {
+        return reject('The integrity token was issued for a different app.');
+      }
+
+      if (details.requestHash !== hashChallenge(context.challenge)) {
+        return reject('The integrity token does not match the attestation challenge.');
+      }
+
+      const issuedAt = Number(details.timestampMillis);
+      if (!Number.isFinite(issuedAt) || Math.abs(context.now - issuedAt) > ATTESTATION_CHALLENGE_TTL_MS) {
+        return reject('The integrity token is stale.');
+      }
+
+      if (payload.appIntegrity?.appRecognitionVerdict !== 'PLAY_RECOGNIZED') {
+        return reject('The app binary is not recognised by Google Play.');
+      }
+
+      if (!payload.deviceIntegrity?.deviceRecognitionVerdict?.includes('MEETS_DEVICE_INTEGRITY')) {
+        return reject('The device does not meet Play device integrity.');
+      }
+
+      return { passed: true, provider: 'play-integrity', reason: null };
+    }
+  };
+}
@@ -0,0 +1,336 @@
+import {
+  Timestamp,
+  collection,
+  doc,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  type Firestore,
+  type Transaction
+} from 'firebase/firestore';
+import { getFirestoreDb, isFirebaseConfigured } from '@/lib/firebase';
+import { findColumn, parseCsv } from '@/lib/utils/csv';
+
+export interface RosterEntry {
+  rosterId: string;
+  name: string;
+  email: string | null;
+  studentNumber: string | null;
+  studentId: string | null;
+  addedAt: string;
+}
+
+export interface ClassRecord {
+  id: string;
+  teacherId: string;
+  name: string;
+  subject: string;
+  roster: RosterEntry[];
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type RosterEntryInput = Pick<RosterEntry, 'name'> & Partial<Pick<RosterEntry, 'email' | 'studentNumber' | 'studentId'>>;
+
+export interface RosterImportResult {
+  entries: RosterEntryInput[];
+  skippedRows: number[];
+}
+
+/**
+ * Anything that identifies a student on the attendance side: the Firebase uid
+ * plus whatever profile details were captured with the check-in.
+ */
+export interface RosterIdentity {
+  studentId?: string | null;
+  email?: string | null;
+  studentNumber?: string | null;
+}
+
+function generateRosterId() {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return Math.random().toString(36).slice(2, 12);
+}
+
+function normalizeEmail(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim().toLowerCase() : null;
+}
+
+function normalizeStudentNumber(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim().toUpperCase() : null;
+}
+
+function toIsoString(value: unknown): string | undefined {
+  if (value instanceof Timestamp) {
+    return value.toDate().toISOString();
+  }
+  return typeof value === 'string' ? value : undefined;
+}
+
+export function normalizeRosterEntry(raw: unknown): RosterEntry | null {
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+
+  const data = raw as Record<string, unknown>;
+  const name = typeof data.name === 'string' ? data.name.trim() : '';
+
+  if (!name) {
+    return null;
+  }
+
+  return {
+    rosterId: typeof data.rosterId === 'string' ? data.rosterId : generateRosterId(),
+    name,
+    email: normalizeEmail(data.email),
+    studentNumber: normalizeStudentNumber(data.studentNumber),
+    studentId: typeof data.studentId === 'string' && data.studentId ? data.studentId : null,
+    addedAt: toIsoString(data.addedAt) ?? new Date().toISOString()
+  } satisfies RosterEntry;
+}
+
+export function normalizeClassRecord(id: string, raw: Record<string, unknown>): ClassRecord {
+  const roster = Array.isArray(raw.roster)
+    ? raw.roster.map((entry) => normalizeRosterEntry(entry)).filter((entry): entry is RosterEntry => Boolean(entry))
+    : [];
+
+  return {
+    id,
+    teacherId: String(raw.teacherId ?? ''),
+    name: String(raw.name ?? 'Untitled class'),
+    subject: String(raw.subject ?? 'Subject'),
+    roster,
+    createdAt: toIsoString(raw.createdAt),
+    updatedAt: toIsoString(raw.updatedAt)
+  } satisfies ClassRecord;
+}
+
+export function matchesRosterEntry(entry: RosterEntry, identity: RosterIdentity): boolean {
+  if (entry.studentId && identity.studentId && entry.studentId === identity.studentId) {
+    return true;
+  }
+
+  const email = normalizeEmail(identity.email);
+  if (entry.email && email && entry.email === email) {
+    return true;
+  }
+
+  const studentNumber = normalizeStudentNumber(identity.studentNumber);
+  return Boolean(entry.studentNumber && studentNumber && entry.studentNumber === studentNumber);
+}
+
+export function findRosterEntry(roster: RosterEntry[], identity: RosterIdentity): RosterEntry | undefined {
+  return roster.find((entry) => matchesRosterEntry(entry, identity));
+}
+
+/**
+ * Merges new students into a roster, skipping anyone already enrolled by uid,
+ * email, or student number.
+ */
+export function mergeRosterEntries(roster: RosterEntry[], additions: RosterEntryInput[]): RosterEntry[] {
+  const next = [...roster];
+
+  additions.forEach((addition) => {
+    const candidate = normalizeRosterEntry({ ...addition, addedAt: new Date().toISOString() });
+    if (!candidate || findRosterEntry(next, candidate)) {
+      return;
+    }
+    next.push(candidate);
+  });
+
+  return next;
+}
+
+export function parseRosterCsv(text: string): RosterImportResult {
+  const rows = parseCsv(text);
+  if (rows.length === 0) {
+    return { entries: [], skippedRows: [] };
+  }
+
+  const headers = rows[0];
+  let nameColumn = findColumn(headers, ['name', 'fullname', 'studentname', 'displayname']);
+  let emailColumn = findColumn(headers, ['email', 'emailaddress', 'studentemail']);
+  let numberColumn = findColumn(headers, ['studentnumber', 'studentno', 'studentid', 'rollnumber', 'rollno', 'id']);
+  const hasHeader = nameColumn >= 0 || emailColumn >= 0 || numberColumn >= 0;
+
+  // Headerless exports are read as name, email, student number.
+  if (!hasHeader) {
+    nameColumn = 0;
+    emailColumn = 1;
+    numberColumn = 2;
+  }
+
+  const entries: RosterEntryInput[] = [];
+  const skippedRows: number[] = [];
+
+  rows.slice(hasHeader ? 1 : 0).forEach((cells, index) => {
+    const name = nameColumn >= 0 ? cells[nameColumn] ?? '' : '';
+    const email = emailColumn >= 0 ? normalizeEmail(cells[emailColumn]) : null;
+    const studentNumber = numberColumn >= 0 ? normalizeStudentNumber(cells[numberColumn]) : null;
+
+    if (!name || (!email && !studentNumber)) {
+      skippedRows.push(index + (hasHeader ? 2 : 1));
+      return;
+    }
+
+    entries.push({ name, email, studentNumber });
+  });
+
+  return { entries, skippedRows };
+}
+
+// Emails are document IDs in the enrollment index, where a '/' would split the path.
+function collectRosterEmails(roster: RosterEntry[]): string[] {
+  return Array.from(
+    new Set(
+      roster
+        .map((entry) => entry.email)
+        .filter((email): email is string => typeof email === 'string' && email.length > 0 && !email.includes('/'))
+    )
+  );
+}
+
+export function buildRosterIndexes(roster: RosterEntry[]) {
+  return {
+    roster,
+    rosterStudentIds: Array.from(
+      new Set(roster.map((entry) => entry.studentId).filter((studentId): studentId is string => Boolean(studentId)))
+    ),
+    studentCount: roster.length
+  };
+}
+
+export async function createClass(params: { teacherId: string; name: string; subject: string }): Promise<ClassRecord> {
+  const nowIso = new Date().toISOString();
+
+  if (!isFirebaseConfigured) {
+    return {
+      id: generateRosterId(),
+      teacherId: params.teacherId,
+      name: params.name,
+      subject: params.subject,
+      roster: [],
+      createdAt: nowIso,
+      updatedAt: nowIso
+    };
+  }
+
+  const classRef = doc(collection(getFirestoreDb(), 'classes'));
+  await setDoc(classRef, {
+    teacherId: params.teacherId,
+    name: params.name,
+    subject: params.subject,
+    ...buildRosterIndexes([]),
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp()
+  });
+
+  return {
+    id: classRef.id,
+    teacherId: params.teacherId,
+    name: params.name,
+    subject: params.subject,
+    roster: [],
+    createdAt: nowIso,
+    updatedAt: nowIso
+  };
+}
+
+/**
+ * Class documents carry the whole roster, so only the teacher can read them.
+ * Students find their classes through `studentEnrollments/{email}/classes/{classId}`
+ * instead, which holds nothing about classmates. Every roster write re-asserts
+ * the index for the whole roster, which also backfills classes saved before it existed.
+ */
+function writeEnrollmentIndex(
+  transaction: Transaction,
+  db: Firestore,
+  params: { classId: string; teacherId: string; previous: RosterEntry[]; next: RosterEntry[] }
+) {
+  const nextEmails = collectRosterEmails(params.next);
+
+  collectRosterEmails(params.previous)
+    .filter((email) => !nextEmails.includes(email))
+    .forEach((email) => transaction.delete(doc(db, 'studentEnrollments', email, 'classes', params.classId)));
+
+  nextEmails.forEach((email) =>
+    transaction.set(doc(db, 'studentEnrollments', email, 'classes', params.classId), {
+      classId: params.classId,
+      teacherId: params.teacherId,
+      updatedAt: serverTimestamp()
+    })
+  );
+}
+
+async function updateRoster(classId: string, mutate: (roster: RosterEntry[]) => RosterEntry[]): Promise<RosterEntry[]> {
+  const db = getFirestoreDb();
+  const classRef = doc(db, 'classes', classId);
+
+  return runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(classRef);
+    if (!snapshot.exists()) {
+      throw new Error('This class no longer exists.');
+    }
+
+    const classRecord = normalizeClassRecord(snapshot.id, snapshot.data() as Record<string, unknown>);
+    const next = mutate(classRecord.roster);
+
+    transaction.update(classRef, {
+      ...buildRosterIndexes(next),
+      updatedAt: serverTimestamp()
+    });
+    writeEnrollmentIndex(transaction, db, {
+      classId,
+      teacherId: classRecord.teacherId,
+      previous: classRecord.roster,
+      next
+    });
+
+    return next;
+  });
+}
+
+export async function addStudentsToClass(classRecord: ClassRecord, additions: RosterEntryInput[]): Promise<RosterEntry[]> {
+  if (!isFirebaseConfigured) {
+    return mergeRosterEntries(classRecord.roster, additions);
+  }
+
+  return updateRoster(classRecord.id, (roster) => mergeRosterEntries(roster, additions));
+}
+
+export async function removeStudentFromClass(classRecord: ClassRecord, rosterId: string): Promise<RosterEntry[]> {
+  const remove = (roster: RosterEntry[]) => roster.filter((entry) => entry.rosterId !== rosterId);
+
+  if (!isFirebaseConfigured) {
+    return remove(classRecord.roster);
+  }
+
+  return updateRoster(classRecord.id, remove);
+}
+
+export async function deleteClass(classId: string): Promise<void> {
+  if (!isFirebaseConfigured) {
+    return;
+  }
+
+  const db = getFirestoreDb();
+  const classRef = doc(db, 'classes', classId);
+
+  await runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(classRef);
+    if (!snapshot.exists()) {
+      return;
+    }
+
+    const classRecord = normalizeClassRecord(snapshot.id, snapshot.data() as Record<string, unknown>);
+    writeEnrollmentIndex(transaction, db, {
+      classId,
+      teacherId: classRecord.teacherId,
+      previous: classRecord.roster,
+      next: []
+    });
+    transaction.delete(classRef);
+  });
+}
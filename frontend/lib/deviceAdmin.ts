@@ -0,0 +1,389 @@
+import {
+  Timestamp,
+  collection,
+  collectionGroup,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  where,
+  writeBatch,
+  type WriteBatch
+} from 'firebase/firestore';
+import { getFirestoreDb, isFirebaseConfigured } from '@/lib/firebase';
+
+export type DeviceApprovalState = 'pending' | 'approved' | 'blocked';
+
+export type DeviceDecision = 'approve' | 'block';
+
+export type TransferStatus = 'pending' | 'approved' | 'rejected';
+
+export interface AdminActor {
+  uid: string;
+  displayName?: string | null;
+}
+
+export interface AdminDecisionEntry {
+  action: DeviceDecision | Exclude<TransferStatus, 'pending'>;
+  reason: string;
+  decidedBy: string;
+  decidedByName: string | null;
+  decidedAt: string;
+}
+
+export interface ManagedDevice {
+  studentId: string;
+  studentName: string;
+  studentEmail: string | null;
+  studentNumber: string | null;
+  deviceKey: string;
+  platform: string;
+  brand: string | null;
+  modelName: string | null;
+  osVersion: string | null;
+  appVersion: string | null;
+  isPhysicalDevice: boolean;
+  attestationPassed: boolean;
+  approvalState: DeviceApprovalState;
+  approvalReason: string | null;
+  registeredAt?: string;
+  lastSeenAt?: string;
+}
+
+export interface DeviceTransferRequest {
+  id: string;
+  studentId: string;
+  studentName: string;
+  studentEmail: string | null;
+  deviceKey: string;
+  fromDeviceKey: string | null;
+  currentOwnerId: string | null;
+  reason: string;
+  status: TransferStatus;
+  device: ManagedDevice | null;
+  resolution: AdminDecisionEntry | null;
+  requestedAt: string;
+}
+
+const REPLACED_REASON = 'Replaced by a newer approved device.';
+const TRANSFERRED_AWAY_REASON = 'This device was transferred to another student.';
+
+function toIsoString(value: unknown): string | undefined {
+  if (value instanceof Timestamp) {
+    return value.toDate().toISOString();
+  }
+  return typeof value === 'string' ? value : undefined;
+}
+
+function readString(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+function toApprovalState(value: unknown): DeviceApprovalState {
+  return value === 'approved' || value === 'blocked' ? value : 'pending';
+}
+
+export function normalizeDevice(
+  studentId: string,
+  deviceKey: string,
+  raw: Record<string, unknown>,
+  profile: Record<string, unknown> = {}
+): ManagedDevice {
+  const attestation = raw.attestation as Record<string, unknown> | undefined;
+
+  return {
+    studentId,
+    studentName: readString(profile.displayName) ?? readString(profile.email) ?? 'Student',
+    studentEmail: readString(profile.email),
+    studentNumber: readString(profile.studentNumber),
+    deviceKey,
+    platform: readString(raw.platform) ?? 'unknown',
+    brand: readString(raw.brand),
+    modelName: readString(raw.modelName),
+    osVersion: readString(raw.osVersion),
+    appVersion: readString(raw.appVersion),
+    isPhysicalDevice: raw.isPhysicalDevice === true,
+    attestationPassed: attestation?.passed === true,
+    approvalState: toApprovalState(raw.approvalState),
+    approvalReason: readString(raw.approvalReason),
+    registeredAt: toIsoString(raw.registeredAt),
+    lastSeenAt: toIsoString(raw.lastSeenAt)
+  } satisfies ManagedDevice;
+}
+
+function normalizeDecision(raw: unknown): AdminDecisionEntry | null {
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+
+  const data = raw as Record<string, unknown>;
+  return {
+    action: data.action as AdminDecisionEntry['action'],
+    reason: String(data.reason ?? ''),
+    decidedBy: String(data.decidedBy ?? ''),
+    decidedByName: readString(data.decidedByName),
+    decidedAt: toIsoString(data.decidedAt) ?? ''
+  };
+}
+
+export function normalizeTransferRequest(
+  id: string,
+  raw: Record<string, unknown>,
+  device: ManagedDevice | null = null
+): DeviceTransferRequest {
+  return {
+    id,
+    studentId: String(raw.studentId ?? ''),
+    studentName: String(raw.studentName ?? 'Student'),
+    studentEmail: readString(raw.studentEmail),
+    deviceKey: String(raw.deviceKey ?? ''),
+    fromDeviceKey: readString(raw.fromDeviceKey),
+    currentOwnerId: readString(raw.currentOwnerId),
+    reason: String(raw.reason ?? ''),
+    status: raw.status === 'approved' || raw.status === 'rejected' ? raw.status : 'pending',
+    device,
+    resolution: normalizeDecision(raw.resolution),
+    requestedAt: toIsoString(raw.requestedAt) ?? new Date().toISOString()
+  } satisfies DeviceTransferRequest;
+}
+
+function buildDecisionEntry(
+  action: AdminDecisionEntry['action'],
+  reason: string,
+  admin: AdminActor
+): AdminDecisionEntry {
+  return {
+    action,
+    reason,
+    decidedBy: admin.uid,
+    decidedByName: admin.displayName ?? null,
+    decidedAt: new Date().toISOString()
+  };
+}
+
+async function loadProfiles(studentIds: string[]): Promise<Map<string, Record<string, unknown>>> {
+  const db = getFirestoreDb();
+  const unique = Array.from(new Set(studentIds));
+  const snapshots = await Promise.all(unique.map((studentId) => getDoc(doc(db, 'students', studentId))));
+
+  return new Map(snapshots.map((snapshot) => [snapshot.id, (snapshot.data() ?? {}) as Record<string, unknown>]));
+}
+
+/**
+ * Devices waiting on an administrator, across every student. Relies on a
+ * collection-group index over `devices.approvalState`.
+ */
+export async function loadPendingDevices(): Promise<ManagedDevice[]> {
+  const db = getFirestoreDb();
+  const snapshot = await getDocs(query(collectionGroup(db, 'devices'), where('approvalState', '==', 'pending')));
+  const owners = snapshot.docs.map((docSnapshot) => docSnapshot.ref.parent.parent?.id ?? '');
+  const profiles = await loadProfiles(owners.filter(Boolean));
+
+  return snapshot.docs
+    .map((docSnapshot, index) =>
+      normalizeDevice(owners[index], docSnapshot.id, docSnapshot.data(), profiles.get(owners[index]))
+    )
+    .filter((device) => device.studentId)
+    .sort((a, b) => new Date(b.lastSeenAt ?? 0).getTime() - new Date(a.lastSeenAt ?? 0).getTime());
+}
+
+export async function loadTransferRequests(): Promise<DeviceTransferRequest[]> {
+  const db = getFirestoreDb();
+  const snapshot = await getDocs(query(collection(db, 'deviceTransfers'), where('status', '==', 'pending')));
+
+  const requests = await Promise.all(
+    snapshot.docs.map(async (docSnapshot) => {
+      const data = docSnapshot.data();
+      const studentId = String(data.studentId ?? '');
+      const deviceKey = String(data.deviceKey ?? '');
+      const deviceSnapshot =
+        studentId && deviceKey ? await getDoc(doc(db, 'students', studentId, 'devices', deviceKey)) : null;
+      const device = deviceSnapshot?.exists()
+        ? normalizeDevice(studentId, deviceKey, deviceSnapshot.data(), {
+            displayName: data.studentName,
+            email: data.studentEmail
+          })
+        : null;
+
+      return normalizeTransferRequest(docSnapshot.id, data, device);
+    })
+  );
+
+  return requests.sort((a, b) => new Date(a.requestedAt).getTime() - new Date(b.requestedAt).getTime());
+}
+
+/**
+ * Makes `deviceKey` the student's only approved device. Whatever device was
+ * active before is blocked so a student never holds two approved devices.
+ */
+function stageActiveDeviceBinding(
+  batch: WriteBatch,
+  params: { studentId: string; deviceKey: string; previousKey: string | null; entry: AdminDecisionEntry }
+) {
+  const db = getFirestoreDb();
+  const { studentId, deviceKey, previousKey, entry } = params;
+
+  batch.set(
+    doc(db, 'students', studentId, 'devices', deviceKey),
+    { approvalState: 'approved', approvalReason: null, adminDecision: entry, updatedAt: serverTimestamp() },
+    { merge: true }
+  );
+
+  if (previousKey && previousKey !== deviceKey) {
+    batch.set(
+      doc(db, 'students', studentId, 'devices', previousKey),
+      { approvalState: 'blocked', approvalReason: REPLACED_REASON, adminDecision: entry, updatedAt: serverTimestamp() },
+      { merge: true }
+    );
+  }
+
+  batch.update(doc(db, 'students', studentId), {
+    activeDeviceKey: deviceKey,
+    deviceApprovalState: 'approved',
+    deviceApprovalReason: null,
+    deviceApprovalUpdatedAt: serverTimestamp()
+  });
+}
+
+export async function decideDevice(params: {
+  device: Pick<ManagedDevice, 'studentId' | 'deviceKey'>;
+  decision: DeviceDecision;
+  reason: string;
+  admin: AdminActor;
+}): Promise<AdminDecisionEntry> {
+  const { device, decision, admin } = params;
+  const reason = params.reason.trim();
+
+  if (!reason) {
+    throw new Error('Add a reason so the decision can be audited later.');
+  }
+
+  const entry = buildDecisionEntry(decision, reason, admin);
+
+  if (!isFirebaseConfigured) {
+    return entry;
+  }
+
+  const db = getFirestoreDb();
+  const profileSnapshot = await getDoc(doc(db, 'students', device.studentId));
+  const activeKey = readString(profileSnapshot.data()?.activeDeviceKey);
+  const batch = writeBatch(db);
+
+  if (decision === 'approve') {
+    stageActiveDeviceBinding(batch, {
+      studentId: device.studentId,
+      deviceKey: device.deviceKey,
+      previousKey: activeKey,
+      entry
+    });
+  } else {
+    batch.set(
+      doc(db, 'students', device.studentId, 'devices', device.deviceKey),
+      { approvalState: 'blocked', approvalReason: reason, adminDecision: entry, updatedAt: serverTimestamp() },
+      { merge: true }
+    );
+
+    if (activeKey === device.deviceKey) {
+      batch.update(doc(db, 'students', device.studentId), {
+        activeDeviceKey: null,
+        deviceApprovalState: 'blocked',
+        deviceApprovalReason: reason,
+        deviceApprovalUpdatedAt: serverTimestamp()
+      });
+    }
+  }
+
+  await batch.commit();
+  return entry;
+}
+
+/**
+ * Approving a transfer hands the hardware to the requesting student: the
+ * device directory is rebound to them, the previous owner's copy is blocked,
+ * and the device becomes the requester's active device.
+ */
+export async function resolveTransferRequest(params: {
+  request: DeviceTransferRequest;
+  resolution: Exclude<TransferStatus, 'pending'>;
+  reason: string;
+  admin: AdminActor;
+}): Promise<AdminDecisionEntry> {
+  const { request, resolution, admin } = params;
+  const reason = params.reason.trim();
+
+  if (request.status !== 'pending') {
+    throw new Error('This transfer request has already been resolved.');
+  }
+
+  if (!reason) {
+    throw new Error('Add a reason so the student understands the decision.');
+  }
+
+  const entry = buildDecisionEntry(resolution, reason, admin);
+
+  if (!isFirebaseConfigured) {
+    return entry;
+  }
+
+  const db = getFirestoreDb();
+  const batch = writeBatch(db);
+
+  batch.update(doc(db, 'deviceTransfers', request.id), {
+    status: resolution,
+    resolution: entry,
+    updatedAt: serverTimestamp()
+  });
+
+  if (resolution === 'approved') {
+    const [profileSnapshot, directorySnapshot] = await Promise.all([
+      getDoc(doc(db, 'students', request.studentId)),
+      getDoc(doc(db, 'deviceDirectory', request.deviceKey))
+    ]);
+    const previousOwnerId = readString(directorySnapshot.data()?.studentId);
+
+    if (previousOwnerId && previousOwnerId !== request.studentId) {
+      const previousOwnerProfile = await getDoc(doc(db, 'students', previousOwnerId));
+
+      batch.set(
+        doc(db, 'students', previousOwnerId, 'devices', request.deviceKey),
+        {
+          approvalState: 'blocked',
+          approvalReason: TRANSFERRED_AWAY_REASON,
+          adminDecision: entry,
+          updatedAt: serverTimestamp()
+        },
+        { merge: true }
+      );
+
+      if (readString(previousOwnerProfile.data()?.activeDeviceKey) === request.deviceKey) {
+        batch.update(doc(db, 'students', previousOwnerId), {
+          activeDeviceKey: null,
+          deviceApprovalState: 'pending',
+          deviceApprovalReason: TRANSFERRED_AWAY_REASON,
+          deviceApprovalUpdatedAt: serverTimestamp()
+        });
+      }
+    }
+
+    batch.set(
+      doc(db, 'deviceDirectory', request.deviceKey),
+      {
+        studentId: request.studentId,
+        previousOwnerId: previousOwnerId ?? null,
+        transferredAt: serverTimestamp()
+      },
+      { merge: true }
+    );
+
+    stageActiveDeviceBinding(batch, {
+      studentId: request.studentId,
+      deviceKey: request.deviceKey,
+      previousKey: readString(profileSnapshot.data()?.activeDeviceKey),
+      entry
+    });
+  }
+
+  await batch.commit();
+  return entry;
+}
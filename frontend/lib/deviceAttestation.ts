@@ -0,0 +1,256 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { FieldValue } from 'firebase-admin/firestore';
+import { createAppAttestVerifier } from '@/lib/attestation/appAttest';
+import { createPlayIntegrityVerifier } from '@/lib/attestation/playIntegrity';
+import { getAdminDb } from '@/lib/firebaseAdmin';
+
+// Server-only: verifies platform integrity evidence and records the verdict.
+
+export type AttestationPlatform = 'android' | 'ios' | 'none';
+
+export type AttestationProvider = 'play-integrity' | 'app-attest' | 'local';
+
+export interface AttestationEvidence {
+  platform: AttestationPlatform;
+  /** Play Integrity token (Android). */
+  token?: string;
+  /** App Attest key identifier and attestation object, both base64 (iOS). */
+  keyId?: string;
+  attestation?: string;
+}
+
+export interface AttestationContext {
+  studentId: string;
+  deviceKey: string;
+  challenge: string;
+  /** What the device reported about itself at registration. */
+  device: { isPhysicalDevice: boolean; platform: string | null };
+  /** Offline signing key the device generated; its hash must be bound into the challenge. */
+  signingKey: string | null;
+  now: number;
+}
+
+export interface AttestationVerdict {
+  passed: boolean;
+  provider: AttestationProvider;
+  reason: string | null;
+}
+
+export interface AttestationVerifier {
+  provider: AttestationProvider;
+  verify(evidence: AttestationEvidence, context: AttestationContext): Promise<AttestationVerdict>;
+}
+
+export const ATTESTATION_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+const LOCAL_CHALLENGE_SECRET = 'smart-attender-local-attestation';
+
+export function isLocalAttestationMode(): boolean {
+  return process.env.DEVICE_ATTESTATION_MODE === 'local';
+}
+
+function getChallengeSecret(): string | null {
+  return process.env.ATTESTATION_CHALLENGE_SECRET || (isLocalAttestationMode() ? LOCAL_CHALLENGE_SECRET : null);
+}
+
+export function isAttestationConfigured(): boolean {
+  return getChallengeSecret() !== null;
+}
+
+/** Play Integrity binds this value as `requestHash`; App Attest hashes the raw challenge itself. */
+export function hashChallenge(challenge: string): string {
+  return createHash('sha256').update(challenge, 'utf8').digest('hex');
+}
+
+function signChallengeBody(body: string, secret: string): string {
+  return createHmac('sha256', secret).update(body).digest('base64url');
+}
+
+/**
+ * Challenges are stateless: the student, device, issue time and the hash of the
+ * device's offline signing key are signed into the string, so any server
+ * instance can check one without a Firestore read. Because the platform
+ * evidence covers the challenge, a passing verdict also vouches for that key.
+ */
+export function issueAttestationChallenge(
+  studentId: string,
+  deviceKey: string,
+  signingKeyHash: string | null,
+  now = Date.now()
+) {
+  const secret = getChallengeSecret();
+  if (!secret) {
+    throw new Error('ATTESTATION_CHALLENGE_SECRET is not configured.');
+  }
+
+  const body = Buffer.from(
+    JSON.stringify({ sid: studentId, dk: deviceKey, skh: signingKeyHash, iat: now, n: randomBytes(16).toString('hex') })
+  ).toString('base64url');
+
+  return {
+    challenge: `${body}.${signChallengeBody(body, secret)}`,
+    expiresAt: now + ATTESTATION_CHALLENGE_TTL_MS
+  };
+}
+
+export function verifyAttestationChallenge(
+  challenge: string,
+  studentId: string,
+  deviceKey: string,
+  signingKey: string | null,
+  now = Date.now()
+): string | null {
+  const secret = getChallengeSecret();
+  const [body, signature] = challenge.split('.');
+
+  if (!secret || !body || !signature) {
+    return 'The attestation challenge is malformed.';
+  }
+
+  const expected = Buffer.from(signChallengeBody(body, secret));
+  const received = Buffer.from(signature);
+
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return 'The attestation challenge was not issued by this server.';
+  }
+
+  let claims: { sid?: unknown; dk?: unknown; skh?: unknown; iat?: unknown };
+  try {
+    claims = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+  } catch {
+    return 'The attestation challenge is malformed.';
+  }
+
+  if (claims.sid !== studentId || claims.dk !== deviceKey) {
+    return 'The attestation challenge belongs to a different device.';
+  }
+
+  if ((claims.skh ?? null) !== (signingKey ? hashChallenge(signingKey) : null)) {
+    return 'The offline signing key does not match the one the challenge was issued for.';
+  }
+
+  if (typeof claims.iat !== 'number' || now - claims.iat > ATTESTATION_CHALLENGE_TTL_MS || claims.iat > now + 60_000) {
+    return 'The attestation challenge has expired. Try again.';
+  }
+
+  return null;
+}
+
+/**
+ * Stand-in for the platform services, for demos and tests. It trusts the
+ * device's own emulator check, which is exactly what real attestation replaces.
+ */
+export const localAttestationVerifier: AttestationVerifier = {
+  provider: 'local',
+  async verify(_evidence, context) {
+    return context.device.isPhysicalDevice
+      ? { passed: true, provider: 'local', reason: null }
+      : { passed: false, provider: 'local', reason: 'Local verifier: device reported as virtual.' };
+  }
+};
+
+let verifierOverride: ((platform: AttestationPlatform) => AttestationVerifier | null) | null = null;
+
+/**
+ * Replaces verifier selection, e.g. with a fake that returns fixed verdicts.
+ * Pass null to restore the environment-driven choice.
+ */
+export function setAttestationVerifierResolver(
+  resolver: ((platform: AttestationPlatform) => AttestationVerifier | null) | null
+): void {
+  verifierOverride = resolver;
+}
+
+export function getAttestationVerifier(platform: AttestationPlatform): AttestationVerifier | null {
+  if (verifierOverride) {
+    return verifierOverride(platform);
+  }
+
+  if (isLocalAttestationMode()) {
+    return localAttestationVerifier;
+  }
+
+  switch (platform) {
+    case 'android':
+      return createPlayIntegrityVerifier();
+    case 'ios':
+      return createAppAttestVerifier();
+    default:
+      return null;
+  }
+}
+
+export async function evaluateAttestation(
+  evidence: AttestationEvidence,
+  context: AttestationContext
+): Promise<AttestationVerdict> {
+  const challengeError = verifyAttestationChallenge(
+    context.challenge,
+    context.studentId,
+    context.deviceKey,
+    context.signingKey,
+    context.now
+  );
+  if (challengeError) {
+    return { passed: false, provider: 'local', reason: challengeError };
+  }
+
+  const verifier = getAttestationVerifier(evidence.platform);
+  if (!verifier) {
+    return {
+      passed: false,
+      provider: evidence.platform === 'ios' ? 'app-attest' : 'play-integrity',
+      reason:
+        evidence.platform === 'none'
+          ? 'This device cannot produce platform attestation.'
+          : 'Attestation for this platform is not configured on the server.'
+    };
+  }
+
+  try {
+    return await verifier.verify(evidence, context);
+  } catch (error) {
+    console.error(`[Attestation] ${verifier.provider} verification failed`, error);
+    return { passed: false, provider: verifier.provider, reason: 'The attestation could not be verified.' };
+  }
+}
+
+/**
+ * Stores the verdict where the check-in API and the admin console read it. The
+ * student app can no longer write these fields itself. A passing verdict also
+ * stores the device's offline signing key in `deviceSigningKeys`, which no
+ * client can read; a failing one revokes it.
+ */
+export async function recordAttestationVerdict(
+  studentId: string,
+  deviceKey: string,
+  verdict: AttestationVerdict,
+  signingKey: string | null
+): Promise<void> {
+  const db = getAdminDb();
+  const batch = db.batch();
+
+  batch.set(
+    db.doc(`students/${studentId}/devices/${deviceKey}`),
+    {
+      attestation: {
+        passed: verdict.passed,
+        provider: verdict.provider,
+        reason: verdict.reason,
+        evaluatedAt: FieldValue.serverTimestamp()
+      }
+    },
+    { merge: true }
+  );
+
+  batch.set(db.doc(`deviceDirectory/${deviceKey}`), { attestationPassed: verdict.passed }, { merge: true });
+
+  const signingKeyRef = db.doc(`deviceSigningKeys/${deviceKey}`);
+  if (verdict.passed && signingKey) {
+    batch.set(signingKeyRef, { studentId, key: signingKey, attestedAt: FieldValue.serverTimestamp() });
+  } else if (!verdict.passed) {
+    batch.delete(signingKeyRef);
+  }
+
+  await batch.commit();
+}
@@ -0,0 +1,168 @@
+import { FieldValue, type Timestamp } from 'firebase-admin/firestore';
+import type { DeviceApprovalState } from '@/lib/deviceAdmin';
+import { getAdminDb } from '@/lib/firebaseAdmin';
+
+// Server-only: the only place a device is approved without an administrator.
+
+/** What the student app reports about itself; none of it is trusted for approval. */
+export interface DeviceMetadata {
+  platform: string;
+  brand: string | null;
+  modelName: string | null;
+  osVersion: string | null;
+  isPhysicalDevice: boolean;
+  appVersion: string | null;
+  appBuild: string | null;
+}
+
+export interface DeviceRegistrationResult {
+  deviceKey: string;
+  approvalState: DeviceApprovalState;
+  approvalReason: string | null;
+  registeredAt: string;
+}
+
+const EMULATOR_BLOCK_REASON = 'Virtual devices are not allowed for attendance.';
+const DEVICE_CONFLICT_REASON = 'This device is registered to another student. Use your approved device or request a transfer.';
+const SECOND_DEVICE_REASON = 'Another device is already approved for this account.';
+
+function readString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function readApprovalState(value: unknown): DeviceApprovalState | null {
+  return value === 'pending' || value === 'approved' || value === 'blocked' ? value : null;
+}
+
+export function parseDeviceMetadata(raw: unknown): DeviceMetadata | null {
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+
+  const data = raw as Record<string, unknown>;
+  const platform = readString(data.platform);
+  if (!platform) {
+    return null;
+  }
+
+  return {
+    platform,
+    brand: readString(data.brand),
+    modelName: readString(data.modelName),
+    osVersion: readString(data.osVersion),
+    isPhysicalDevice: data.isPhysicalDevice === true,
+    appVersion: readString(data.appVersion),
+    appBuild: readString(data.appBuild)
+  };
+}
+
+/**
+ * Records the device under the student and decides its approval. A student's
+ * first device is approved automatically, later ones wait for an administrator,
+ * and hardware registered to another student is blocked. Decisions already on
+ * the device record (including an administrator's) are kept.
+ */
+export async function registerStudentDevice(
+  studentId: string,
+  deviceKey: string,
+  metadata: DeviceMetadata
+): Promise<DeviceRegistrationResult> {
+  const db = getAdminDb();
+  const directoryRef = db.doc(`deviceDirectory/${deviceKey}`);
+  const profileRef = db.doc(`students/${studentId}`);
+  const deviceRef = db.doc(`students/${studentId}/devices/${deviceKey}`);
+
+  return db.runTransaction(async (transaction) => {
+    const [directorySnapshot, profileSnapshot, deviceSnapshot] = await Promise.all([
+      transaction.get(directoryRef),
+      transaction.get(profileRef),
+      transaction.get(deviceRef)
+    ]);
+
+    const ownerId = readString(directorySnapshot.data()?.studentId);
+    const claimedByOther = ownerId !== null && ownerId !== studentId;
+    const profile = profileSnapshot.data() ?? {};
+    const activeDeviceKey = readString(profile.activeDeviceKey);
+    const stored = deviceSnapshot.data() ?? {};
+    const storedState = readApprovalState(stored.approvalState);
+
+    let approvalState: DeviceApprovalState;
+    let approvalReason = readString(stored.approvalReason);
+
+    if (claimedByOther) {
+      approvalState = 'blocked';
+      approvalReason = DEVICE_CONFLICT_REASON;
+    } else if (!metadata.isPhysicalDevice) {
+      approvalState = 'blocked';
+      approvalReason = EMULATOR_BLOCK_REASON;
+    } else if (storedState) {
+      approvalState = storedState;
+    } else if (!activeDeviceKey || activeDeviceKey === deviceKey) {
+      approvalState = 'approved';
+      approvalReason = null;
+    } else {
+      approvalState = 'pending';
+      approvalReason = SECOND_DEVICE_REASON;
+    }
+
+    if (!claimedByOther) {
+      transaction.set(
+        directoryRef,
+        {
+          studentId,
+          lastSeenAt: FieldValue.serverTimestamp(),
+          platform: metadata.platform,
+          brand: metadata.brand,
+          modelName: metadata.modelName,
+          osVersion: metadata.osVersion,
+          appVersion: metadata.appVersion,
+          isPhysicalDevice: metadata.isPhysicalDevice,
+          ...(directorySnapshot.exists ? {} : { createdAt: FieldValue.serverTimestamp() })
+        },
+        { merge: true }
+      );
+    }
+
+    transaction.set(
+      deviceRef,
+      {
+        deviceKey,
+        ...metadata,
+        approvalState,
+        approvalReason,
+        lastSeenAt: FieldValue.serverTimestamp(),
+        ...(deviceSnapshot.exists ? {} : { registeredAt: FieldValue.serverTimestamp() })
+      },
+      { merge: true }
+    );
+
+    // A secondary device must not overwrite the profile state of the active one,
+    // otherwise opening the app on an old phone would undo an admin's transfer.
+    const ownsProfileState = !activeDeviceKey || activeDeviceKey === deviceKey;
+    const profileChanged =
+      readApprovalState(profile.deviceApprovalState) !== approvalState ||
+      readString(profile.deviceApprovalReason) !== approvalReason;
+
+    if (approvalState === 'approved' || (ownsProfileState && profileChanged)) {
+      transaction.set(
+        profileRef,
+        {
+          deviceApprovalState: approvalState,
+          deviceApprovalReason: approvalReason,
+          deviceApprovalUpdatedAt: FieldValue.serverTimestamp(),
+          activeDeviceKey: approvalState === 'approved' ? deviceKey : null
+        },
+        { merge: true }
+      );
+    }
+
+    const registeredAt = stored.registeredAt as Timestamp | undefined;
+
+    return {
+      deviceKey,
+      approvalState,
+      approvalReason,
+      registeredAt: registeredAt?.toDate?.().toISOString() ?? new Date().toISOString()
+    };
+  });
+}
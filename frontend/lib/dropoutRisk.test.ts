@@ -0,0 +1,170 @@
+import { afterEach, describe, expect, spyOn, test } from 'bun:test';
+import {
+  DEFAULT_DROPOUT_RISK_CONFIG,
+  assessDropoutRisk,
+  parseDropoutRiskConfig,
+  type AttendanceHistoryEntry,
+  type DropoutRiskFeature,
+  type DropoutRiskLevel
+} from '@/lib/dropoutRisk';
+import type { AttendanceStatus } from '@/lib/hooks/useTeacherSessions';
+
+const CONFIG = { ...DEFAULT_DROPOUT_RISK_CONFIG, timeZone: 'UTC' };
+
+const STATUS_CODES: Record<string, AttendanceStatus> = {
+  P: 'present',
+  L: 'late',
+  F: 'flagged',
+  A: 'absent'
+};
+
+/**
+ * One session a day from Monday 5 January 2026, coded P/L/F/A. Up to seven
+ * sessions never repeat a weekday, which keeps the weekday feature out of the way.
+ */
+function daily(pattern: string): AttendanceHistoryEntry[] {
+  return Array.from(pattern).map((code, index) => ({
+    scheduledFor: new Date(Date.UTC(2026, 0, 5 + index, 9)).toISOString(),
+    status: STATUS_CODES[code]
+  }));
+}
+
+function pointsByFeature(pattern: string): Partial<Record<DropoutRiskFeature, number>> {
+  const assessment = assessDropoutRisk(daily(pattern), CONFIG);
+  return Object.fromEntries((assessment?.reasons ?? []).map((reason) => [reason.feature, reason.points]));
+}
+
+describe('assessDropoutRisk features', () => {
+  test.each([
+    {
+      name: 'perfect attendance scores nothing',
+      pattern: 'PPPPPP',
+      points: {},
+      score: 0
+    },
+    {
+      name: 'absence rate reaches its full 35 points at 50% absent',
+      pattern: 'APAPAP',
+      points: { 'absence-rate': 35 },
+      score: 35
+    },
+    {
+      name: 'declining trend compares the later half with the earlier half',
+      pattern: 'PPPPA',
+      points: { 'absence-rate': 14, 'declining-trend': 10, 'consecutive-absences': 5 },
+      score: 29
+    },
+    {
+      name: 'consecutive absences count back from the latest session',
+      pattern: 'PPPPPAA',
+      points: { 'absence-rate': 20, 'declining-trend': 15, 'consecutive-absences': 10 },
+      score: 45
+    },
+    {
+      name: 'late frequency is measured against attended sessions',
+      pattern: 'PLPLPL',
+      points: { 'late-frequency': 10 },
+      score: 10
+    },
+    {
+      name: 'flag frequency is measured against attended sessions',
+      pattern: 'FPFPFP',
+      points: { 'flag-frequency': 10 },
+      score: 10
+    }
+  ])('$name', ({ pattern, points, score }) => {
+    expect(pointsByFeature(pattern)).toEqual(points);
+    expect(assessDropoutRisk(daily(pattern), CONFIG)?.score).toBe(score);
+  });
+
+  test('weekday pattern finds the weekday the student keeps missing', () => {
+    // Mondays and Wednesdays for four weeks, absent every Monday.
+    const history = [0, 7, 14, 21].flatMap((offset) => [
+      { scheduledFor: new Date(Date.UTC(2026, 0, 5 + offset, 9)).toISOString(), status: 'absent' as const },
+      { scheduledFor: new Date(Date.UTC(2026, 0, 7 + offset, 9)).toISOString(), status: 'present' as const }
+    ]);
+    const reason = assessDropoutRisk(history, CONFIG)?.reasons.find((entry) => entry.feature === 'weekday-pattern');
+
+    expect(reason).toEqual({
+      feature: 'weekday-pattern',
+      points: 10,
+      detail: 'Absent on 4 of 4 Monday sessions.'
+    });
+  });
+
+  test('reasons explain each contribution, largest first', () => {
+    expect(assessDropoutRisk(daily('PPPPPAA'), CONFIG)).toEqual({
+      score: 45,
+      riskLevel: 'medium',
+      attendanceRate: 71,
+      absences: 2,
+      sessionCount: 7,
+      reasons: [
+        { feature: 'absence-rate', points: 20, detail: 'Missed 2 of 7 sessions (71% attendance).' },
+        { feature: 'declining-trend', points: 15, detail: 'Attendance fell from 100% to 50% across the period.' },
+        { feature: 'consecutive-absences', points: 10, detail: 'Missed the last 2 consecutive sessions.' }
+      ]
+    });
+  });
+
+  test('orders the history by schedule before scoring', () => {
+    const history = daily('PPPPPAA');
+    expect(assessDropoutRisk([...history].reverse(), CONFIG)).toEqual(assessDropoutRisk(history, CONFIG));
+  });
+
+  test('does not score histories shorter than minSessions', () => {
+    expect(assessDropoutRisk(daily('AA'), CONFIG)).toBeNull();
+    expect(assessDropoutRisk(daily('AAA'), CONFIG)).not.toBeNull();
+  });
+});
+
+describe('assessDropoutRisk levels at the default thresholds', () => {
+  test.each<{ pattern: string; score: number; riskLevel: DropoutRiskLevel }>([
+    { pattern: 'PPPPA', score: 29, riskLevel: 'low' },
+    { pattern: 'PPPALL', score: 30, riskLevel: 'medium' },
+    { pattern: 'PPAAAAL', score: 54, riskLevel: 'medium' },
+    { pattern: 'PPPAPAA', score: 55, riskLevel: 'high' }
+  ])('$pattern scores $score ($riskLevel)', ({ pattern, score, riskLevel }) => {
+    const assessment = assessDropoutRisk(daily(pattern), CONFIG);
+    expect(assessment?.score).toBe(score);
+    expect(assessment?.riskLevel).toBe(riskLevel);
+  });
+});
+
+describe('parseDropoutRiskConfig', () => {
+  const warn = spyOn(console, 'warn').mockImplementation(() => undefined);
+
+  afterEach(() => {
+    warn.mockClear();
+  });
+
+  test('returns the defaults when unset or malformed', () => {
+    expect(parseDropoutRiskConfig(undefined)).toBe(DEFAULT_DROPOUT_RISK_CONFIG);
+    expect(parseDropoutRiskConfig('{not json')).toBe(DEFAULT_DROPOUT_RISK_CONFIG);
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+
+  test('overrides known keys and keeps defaults for invalid values', () => {
+    const config = parseDropoutRiskConfig(
+      JSON.stringify({
+        weights: { 'late-frequency': 0.5, 'flag-frequency': -1, unknown: 3 },
+        highScore: 70,
+        mediumScore: 'high',
+        timeZone: 'Europe/Istanbul'
+      })
+    );
+
+    expect(config.weights).toEqual({
+      ...DEFAULT_DROPOUT_RISK_CONFIG.weights,
+      'late-frequency': 0.5
+    });
+    expect(config.highScore).toBe(70);
+    expect(config.mediumScore).toBe(DEFAULT_DROPOUT_RISK_CONFIG.mediumScore);
+    expect(config.timeZone).toBe('Europe/Istanbul');
+  });
+
+  test('ignores unknown time zones', () => {
+    expect(parseDropoutRiskConfig(JSON.stringify({ timeZone: 'Mars/Olympus' })).timeZone).toBeUndefined();
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,293 @@
+import type { AttendanceStatus } from '@/lib/hooks/useTeacherSessions';
+
+/*
+ * Drop-out risk scoring over a student's attendance history. Pure functions with
+ * the weights and thresholds passed in, so a change to either can be checked
+ * against recorded histories before it reaches the analytics page.
+ */
+
+export interface AttendanceHistoryEntry {
+  scheduledFor: string;
+  /** `absent` also covers a rostered student with no check-in. */
+  status: AttendanceStatus;
+}
+
+export type DropoutRiskFeature =
+  | 'absence-rate'
+  | 'declining-trend'
+  | 'consecutive-absences'
+  | 'late-frequency'
+  | 'flag-frequency'
+  | 'weekday-pattern';
+
+export type DropoutRiskLevel = 'low' | 'medium' | 'high';
+
+export interface DropoutRiskReason {
+  feature: DropoutRiskFeature;
+  /** Points this feature added to the 0–100 score. */
+  points: number;
+  detail: string;
+}
+
+export interface DropoutRiskAssessment {
+  score: number;
+  riskLevel: DropoutRiskLevel;
+  attendanceRate: number;
+  absences: number;
+  sessionCount: number;
+  /** Largest contribution first. */
+  reasons: DropoutRiskReason[];
+}
+
+export interface DropoutRiskConfig {
+  /** Relative importance of each feature; they are normalised to sum to 100 points. */
+  weights: Record<DropoutRiskFeature, number>;
+  mediumScore: number;
+  highScore: number;
+  /** Histories shorter than this are not scored. */
+  minSessions: number;
+  /** IANA zone used to read weekdays; the server's own zone when unset. */
+  timeZone?: string;
+}
+
+export const DEFAULT_DROPOUT_RISK_CONFIG: DropoutRiskConfig = {
+  weights: {
+    'absence-rate': 0.35,
+    'declining-trend': 0.15,
+    'consecutive-absences': 0.2,
+    'late-frequency': 0.1,
+    'flag-frequency': 0.1,
+    'weekday-pattern': 0.1
+  },
+  mediumScore: 30,
+  highScore: 55,
+  minSessions: 3
+};
+
+// Each feature reaches full severity at these levels.
+const FULL_ABSENCE_RATE = 0.5;
+const FULL_TREND_DROP = 0.5;
+const FULL_CONSECUTIVE_ABSENCES = 4;
+const FULL_LATE_RATE = 0.5;
+const FULL_FLAG_RATE = 0.5;
+const FULL_WEEKDAY_GAP = 0.5;
+const MIN_TREND_SESSIONS = 4;
+const MIN_WEEKDAY_SESSIONS = 2;
+
+const FEATURES = Object.keys(DEFAULT_DROPOUT_RISK_CONFIG.weights) as DropoutRiskFeature[];
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function percentage(part: number, whole: number): number {
+  return whole > 0 ? Math.round((part / whole) * 100) : 0;
+}
+
+function attended(entry: AttendanceHistoryEntry): boolean {
+  return entry.status !== 'absent';
+}
+
+function attendanceShare(entries: AttendanceHistoryEntry[]): number {
+  return entries.length ? entries.filter(attended).length / entries.length : 1;
+}
+
+interface FeatureResult {
+  severity: number;
+  detail: string;
+}
+
+function scoreAbsenceRate(history: AttendanceHistoryEntry[]): FeatureResult {
+  const absences = history.filter((entry) => !attended(entry)).length;
+  return {
+    severity: clamp01(absences / history.length / FULL_ABSENCE_RATE),
+    detail: `Missed ${absences} of ${history.length} sessions (${percentage(history.length - absences, history.length)}% attendance).`
+  };
+}
+
+/** Compares the later half of the history with the earlier half. */
+function scoreDecliningTrend(history: AttendanceHistoryEntry[]): FeatureResult | null {
+  if (history.length < MIN_TREND_SESSIONS) {
+    return null;
+  }
+
+  const middle = Math.floor(history.length / 2);
+  const earlier = attendanceShare(history.slice(0, middle));
+  const recent = attendanceShare(history.slice(middle));
+
+  return {
+    severity: clamp01((earlier - recent) / FULL_TREND_DROP),
+    detail: `Attendance fell from ${Math.round(earlier * 100)}% to ${Math.round(recent * 100)}% across the period.`
+  };
+}
+
+function scoreConsecutiveAbsences(history: AttendanceHistoryEntry[]): FeatureResult {
+  let streak = 0;
+  for (let index = history.length - 1; index >= 0 && !attended(history[index]); index -= 1) {
+    streak += 1;
+  }
+
+  return {
+    severity: clamp01(streak / FULL_CONSECUTIVE_ABSENCES),
+    detail: streak === 1 ? 'Missed the most recent session.' : `Missed the last ${streak} consecutive sessions.`
+  };
+}
+
+function scoreStatusFrequency(
+  history: AttendanceHistoryEntry[],
+  status: 'late' | 'flagged',
+  fullRate: number
+): FeatureResult {
+  const present = history.filter(attended);
+  const count = present.filter((entry) => entry.status === status).length;
+
+  return {
+    severity: present.length ? clamp01(count / present.length / fullRate) : 0,
+    detail:
+      status === 'late'
+        ? `Late to ${count} of ${present.length} attended sessions.`
+        : `${count} of ${present.length} check-ins were flagged for review.`
+  };
+}
+
+/** The weekday the student misses most, when it stands out from their usual absence rate. */
+function scoreWeekdayPattern(history: AttendanceHistoryEntry[], timeZone?: string): FeatureResult | null {
+  const weekdayFormat = new Intl.DateTimeFormat('en-US', { weekday: 'long', timeZone });
+  const byWeekday = new Map<string, AttendanceHistoryEntry[]>();
+
+  history.forEach((entry) => {
+    const date = new Date(entry.scheduledFor);
+    if (Number.isNaN(date.getTime())) {
+      return;
+    }
+    const weekday = weekdayFormat.format(date);
+    byWeekday.set(weekday, [...(byWeekday.get(weekday) ?? []), entry]);
+  });
+
+  if (byWeekday.size < 2) {
+    return null;
+  }
+
+  const overallAbsence = 1 - attendanceShare(history);
+  let worst: { weekday: string; entries: AttendanceHistoryEntry[]; absence: number } | null = null;
+
+  for (const [weekday, entries] of Array.from(byWeekday.entries())) {
+    const absence = 1 - attendanceShare(entries);
+    if (entries.length >= MIN_WEEKDAY_SESSIONS && (!worst || absence > worst.absence)) {
+      worst = { weekday, entries, absence };
+    }
+  }
+
+  if (!worst) {
+    return null;
+  }
+
+  const { weekday, entries, absence } = worst;
+  const missed = entries.filter((entry) => !attended(entry)).length;
+
+  return {
+    severity: absence >= 0.5 ? clamp01((absence - overallAbsence) / FULL_WEEKDAY_GAP) : 0,
+    detail: `Absent on ${missed} of ${entries.length} ${weekday} sessions.`
+  };
+}
+
+function levelFor(score: number, config: DropoutRiskConfig): DropoutRiskLevel {
+  if (score >= config.highScore) {
+    return 'high';
+  }
+  return score >= config.mediumScore ? 'medium' : 'low';
+}
+
+/**
+ * Scores one student's history in one class. Each feature yields a 0–1
+ * severity, is multiplied by its share of the weights, and contributes that
+ * many of the 100 points; every feature that added points becomes a reason.
+ * Returns null when the history is too short to judge.
+ */
+export function assessDropoutRisk(
+  history: AttendanceHistoryEntry[],
+  config: DropoutRiskConfig = DEFAULT_DROPOUT_RISK_CONFIG
+): DropoutRiskAssessment | null {
+  if (history.length < config.minSessions) {
+    return null;
+  }
+
+  const ordered = [...history].sort(
+    (a, b) => new Date(a.scheduledFor).getTime() - new Date(b.scheduledFor).getTime()
+  );
+
+  const results: Record<DropoutRiskFeature, FeatureResult | null> = {
+    'absence-rate': scoreAbsenceRate(ordered),
+    'declining-trend': scoreDecliningTrend(ordered),
+    'consecutive-absences': scoreConsecutiveAbsences(ordered),
+    'late-frequency': scoreStatusFrequency(ordered, 'late', FULL_LATE_RATE),
+    'flag-frequency': scoreStatusFrequency(ordered, 'flagged', FULL_FLAG_RATE),
+    'weekday-pattern': scoreWeekdayPattern(ordered, config.timeZone)
+  };
+
+  const totalWeight = FEATURES.reduce((sum, feature) => sum + Math.max(0, config.weights[feature]), 0) || 1;
+  const reasons = FEATURES.flatMap((feature): DropoutRiskReason[] => {
+    const result = results[feature];
+    const points = result ? Math.round((result.severity * Math.max(0, config.weights[feature]) * 1000) / totalWeight) / 10 : 0;
+    return result && points > 0 ? [{ feature, points, detail: result.detail }] : [];
+  }).sort((a, b) => b.points - a.points);
+
+  const score = Math.round(reasons.reduce((sum, reason) => sum + reason.points, 0));
+  const absences = ordered.filter((entry) => !attended(entry)).length;
+
+  return {
+    score,
+    riskLevel: levelFor(score, config),
+    attendanceRate: percentage(ordered.length - absences, ordered.length),
+    absences,
+    sessionCount: ordered.length,
+    reasons
+  };
+}
+
+/**
+ * Reads `DROPOUT_RISK_CONFIG`-style JSON over the defaults. Unknown keys and
+ * non-numeric values are ignored, so a typo falls back rather than zeroing a weight.
+ */
+export function parseDropoutRiskConfig(raw: string | undefined): DropoutRiskConfig {
+  if (!raw) {
+    return DEFAULT_DROPOUT_RISK_CONFIG;
+  }
+
+  let parsed: Record<string, unknown>;
+  try {
+    const value = JSON.parse(raw) as unknown;
+    parsed = value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+  } catch (error) {
+    console.warn('[Dropout risk] Ignoring malformed DROPOUT_RISK_CONFIG', error);
+    return DEFAULT_DROPOUT_RISK_CONFIG;
+  }
+
+  const readNumber = (value: unknown, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback;
+  const weights = (parsed.weights && typeof parsed.weights === 'object' ? parsed.weights : {}) as Record<string, unknown>;
+
+  return {
+    weights: Object.fromEntries(
+      FEATURES.map((feature) => [feature, readNumber(weights[feature], DEFAULT_DROPOUT_RISK_CONFIG.weights[feature])])
+    ) as Record<DropoutRiskFeature, number>,
+    mediumScore: readNumber(parsed.mediumScore, DEFAULT_DROPOUT_RISK_CONFIG.mediumScore),
+    highScore: readNumber(parsed.highScore, DEFAULT_DROPOUT_RISK_CONFIG.highScore),
+    minSessions: readNumber(parsed.minSessions, DEFAULT_DROPOUT_RISK_CONFIG.minSessions),
+    timeZone: readTimeZone(parsed.timeZone)
+  };
+}
+
+function readTimeZone(value: unknown): string | undefined {
+  if (typeof value !== 'string' || !value) {
+    return undefined;
+  }
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return value;
+  } catch {
+    console.warn(`[Dropout risk] Ignoring unknown time zone ${value}`);
+    return undefined;
+  }
+}
@@ -0,0 +1,47 @@
+import type { User } from 'firebase/auth';
+import { isFirebaseConfigured } from '@/lib/firebase';
+
+export interface FaceEnrollmentResetResult {
+  studentId: string;
+  removedSamples: number;
+}
+
+const RESET_PATH = '/api/admin/face-enrollment';
+
+/**
+ * Deletes a student's stored face templates through the admin API. Their next
+ * check-in selfie becomes the new enrollment baseline on every device.
+ */
+export async function resetStudentFaceEnrollment(
+  admin: User | null,
+  student: string,
+  reason: string
+): Promise<FaceEnrollmentResetResult> {
+  if (!isFirebaseConfigured) {
+    return { studentId: student, removedSamples: 0 };
+  }
+
+  if (!admin) {
+    throw new Error('Sign in again to manage face enrollment.');
+  }
+
+  const response = await fetch(RESET_PATH, {
+    method: 'DELETE',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${await admin.getIdToken()}`
+    },
+    body: JSON.stringify({ student, reason })
+  });
+
+  const body = (await response.json().catch(() => null)) as Record<string, unknown> | null;
+
+  if (!response.ok) {
+    throw new Error(typeof body?.error === 'string' ? body.error : 'Unable to reset face enrollment.');
+  }
+
+  return {
+    studentId: typeof body?.studentId === 'string' ? body.studentId : student,
+    removedSamples: typeof body?.removedSamples === 'number' ? body.removedSamples : 0
+  };
+}
@@ -0,0 +1,268 @@
+import { FieldValue, type Firestore, type Transaction } from 'firebase-admin/firestore';
+import type { FaceVerification } from '@/lib/faceVerification';
+import { getAdminDb } from '@/lib/firebaseAdmin';
+import {
+  DEFAULT_FACE_VERIFICATION_THRESHOLD,
+  distanceToReferences,
+  isFaceMatch,
+  l2Normalize,
+  round
+} from '@shared/face-matching';
+
+// Server-only: enrollment templates are embeddings, never images, and only the
+// admin SDK writes them. The student app keeps a read-only mirror for offline use.
+
+/** Samples captured outside a class, used until a class has samples of its own. */
+export const PROFILE_CLASS_ID = '__profile__';
+
+const MAX_SAMPLES_PER_CLASS = 10;
+const MAX_SAMPLES_PER_STUDENT = 60;
+
+/**
+ * Embedding models the server compares against, with the dimension each
+ * produces. The client's claimed version is only a key into this list, so it
+ * cannot pick the space it is compared in. Add an entry before shipping an app
+ * build with a new model; captures from any other version are refused.
+ */
+export const ACCEPTED_FACE_MODELS: Readonly<Record<string, { dimension: number }>> = {
+  'mobilefacenet-112-v1': { dimension: 192 }
+};
+
+export type FaceEnrollmentPose = 'frontal' | 'left' | 'right' | 'lighting';
+
+export const FACE_ENROLLMENT_POSES: FaceEnrollmentPose[] = ['frontal', 'left', 'right', 'lighting'];
+
+export interface FaceTemplateSample {
+  classId: string;
+  embedding: number[];
+  modelVersion: string;
+  capturedAt: string;
+  /** Set on guided enrollment captures, which are kept when older samples are trimmed. */
+  pose?: FaceEnrollmentPose;
+}
+
+/** An embedding computed on the device for a single capture. */
+export interface FaceTemplateSubmission {
+  embedding: number[];
+  modelVersion: string;
+}
+
+export interface FaceEnrollmentReset {
+  studentId: string;
+  removedSamples: number;
+}
+
+export function getFaceMatchThreshold(): number {
+  const configured = Number(process.env.FACE_MATCH_THRESHOLD);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_FACE_VERIFICATION_THRESHOLD;
+}
+
+/**
+ * Accepts a unit-length embedding from one of `ACCEPTED_FACE_MODELS`, with that
+ * model's dimension; anything else is treated as absent.
+ */
+export function parseFaceTemplateSubmission(raw: unknown): FaceTemplateSubmission | undefined {
+  if (!raw || typeof raw !== 'object') {
+    return undefined;
+  }
+
+  const data = raw as Record<string, unknown>;
+  const modelVersion = typeof data.modelVersion === 'string' ? data.modelVersion.trim() : '';
+  const model = Object.prototype.hasOwnProperty.call(ACCEPTED_FACE_MODELS, modelVersion)
+    ? ACCEPTED_FACE_MODELS[modelVersion]
+    : undefined;
+  const embedding = data.embedding;
+
+  if (
+    !model ||
+    !Array.isArray(embedding) ||
+    embedding.length !== model.dimension ||
+    !embedding.every((value) => typeof value === 'number' && Number.isFinite(value))
+  ) {
+    return undefined;
+  }
+
+  const normalized = l2Normalize(embedding as number[]);
+  if (normalized.every((value) => value === 0)) {
+    return undefined;
+  }
+
+  return { embedding: normalized.map(round), modelVersion };
+}
+
+function readSamples(raw: unknown): FaceTemplateSample[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  return raw
+    .filter((sample): sample is FaceTemplateSample => {
+      return (
+        typeof sample === 'object' &&
+        sample !== null &&
+        typeof sample.classId === 'string' &&
+        typeof sample.modelVersion === 'string' &&
+        typeof sample.capturedAt === 'string' &&
+        Array.isArray(sample.embedding)
+      );
+    })
+    .map(({ classId, embedding, modelVersion, capturedAt, pose: rawPose }) => {
+      // Rebuilt field by field: Firestore rejects undefined values when the list is written back.
+      const sample: FaceTemplateSample = { classId, embedding, modelVersion, capturedAt };
+      const pose = FACE_ENROLLMENT_POSES.find((candidate) => candidate === rawPose);
+      if (pose) {
+        sample.pose = pose;
+      }
+      return sample;
+    });
+}
+
+function templateRef(db: Firestore, studentId: string) {
+  return db.doc(`faceTemplates/${studentId}`);
+}
+
+function dropOldestUnposed(samples: FaceTemplateSample[], candidates: FaceTemplateSample[], limit: number) {
+  const unposed = candidates.filter((sample) => !sample.pose);
+  const overflow = new Set(unposed.slice(0, Math.max(0, candidates.length - limit)));
+  return samples.filter((sample) => !overflow.has(sample));
+}
+
+/**
+ * Keeps the newest samples per class, then trims the oldest overall. Guided
+ * enrollment captures are never trimmed; a new capture replaces its own pose.
+ */
+function appendSample(samples: FaceTemplateSample[], sample: FaceTemplateSample): FaceTemplateSample[] {
+  const withoutPose = sample.pose
+    ? samples.filter(
+        (existing) =>
+          !(existing.classId === sample.classId && existing.modelVersion === sample.modelVersion && existing.pose === sample.pose)
+      )
+    : samples;
+  const next = [...withoutPose, sample];
+  const sameClass = next.filter(
+    (existing) => existing.classId === sample.classId && existing.modelVersion === sample.modelVersion
+  );
+  const trimmed = dropOldestUnposed(next, sameClass, MAX_SAMPLES_PER_CLASS);
+  return dropOldestUnposed(trimmed, trimmed, MAX_SAMPLES_PER_STUDENT);
+}
+
+/**
+ * Prefers the class's own samples, then the profile baseline, then samples from
+ * any other class, so a new class is still checked against the student's face.
+ */
+function selectReferenceSamples(samples: FaceTemplateSample[], classId: string, submission: FaceTemplateSubmission) {
+  const comparable = samples.filter(
+    (sample) =>
+      sample.modelVersion === submission.modelVersion && sample.embedding.length === submission.embedding.length
+  );
+  const classSamples = comparable.filter((sample) => sample.classId === classId);
+  if (classSamples.length) {
+    return classSamples;
+  }
+
+  const profileSamples = comparable.filter((sample) => sample.classId === PROFILE_CLASS_ID);
+  return profileSamples.length ? profileSamples : comparable;
+}
+
+async function matchInTransaction(
+  transaction: Transaction,
+  db: Firestore,
+  studentId: string,
+  classId: string,
+  submission: FaceTemplateSubmission,
+  pose: FaceEnrollmentPose | undefined
+): Promise<FaceVerification> {
+  const ref = templateRef(db, studentId);
+  const snapshot = await transaction.get(ref);
+  const samples = readSamples(snapshot.data()?.samples);
+  const threshold = getFaceMatchThreshold();
+  const references = selectReferenceSamples(samples, classId, submission);
+
+  let verification: FaceVerification;
+
+  if (!references.length) {
+    verification = { verdict: 'enrolled', distance: null, threshold, source: 'server' };
+    // Stored samples from another model cannot vouch for this face, so the new baseline is unverified.
+    if (samples.length) {
+      verification.unverifiedBaseline = true;
+    }
+  } else {
+    const distance = round(distanceToReferences(submission.embedding, references.map((sample) => sample.embedding)));
+    verification = {
+      verdict: isFaceMatch(distance, threshold) ? 'matched' : 'mismatch',
+      distance,
+      threshold,
+      source: 'server'
+    };
+  }
+
+  // A rejected capture is never stored, so repeated attempts by someone else
+  // cannot drag the reference centroid toward them.
+  if (verification.verdict !== 'mismatch') {
+    const sample: FaceTemplateSample = {
+      classId,
+      embedding: submission.embedding,
+      modelVersion: submission.modelVersion,
+      capturedAt: new Date().toISOString(),
+      ...(pose ? { pose } : {})
+    };
+
+    transaction.set(
+      ref,
+      {
+        studentId,
+        samples: appendSample(samples, sample),
+        updatedAt: FieldValue.serverTimestamp()
+      },
+      { merge: true }
+    );
+  }
+
+  return verification;
+}
+
+/**
+ * Verifies a capture against the student's stored templates for the class (or
+ * their profile baseline). A student without comparable templates is enrolled
+ * with it, flagged as `unverifiedBaseline` when other templates already exist.
+ * `pose` marks a guided enrollment capture.
+ */
+export async function matchFaceTemplate(
+  studentId: string,
+  classId: string,
+  submission: FaceTemplateSubmission,
+  pose?: FaceEnrollmentPose
+): Promise<FaceVerification> {
+  const db = getAdminDb();
+  return db.runTransaction((transaction) => matchInTransaction(transaction, db, studentId, classId, submission, pose));
+}
+
+/**
+ * Deletes every stored template for the student and records who reset it. The
+ * document stays behind empty so devices notice the reset on their next sync.
+ */
+export async function resetFaceEnrollment(
+  studentId: string,
+  actor: { uid: string; email: string | null },
+  reason: string | null
+): Promise<FaceEnrollmentReset> {
+  const db = getAdminDb();
+  const ref = templateRef(db, studentId);
+
+  return db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    const removedSamples = readSamples(snapshot.data()?.samples).length;
+
+    transaction.set(ref, {
+      studentId,
+      samples: [],
+      updatedAt: FieldValue.serverTimestamp(),
+      resetAt: FieldValue.serverTimestamp(),
+      resetBy: actor.uid,
+      resetByEmail: actor.email,
+      resetReason: reason
+    });
+
+    return { studentId, removedSamples };
+  });
+}
@@ -0,0 +1,109 @@
+export type FaceVerdict = 'matched' | 'mismatch' | 'enrolled';
+
+/** `server` verdicts were computed against stored templates; `device` ones were reported by the app. */
+export type FaceVerificationSource = 'server' | 'device';
+
+/**
+ * Outcome of the selfie step in the student app. `enrolled` means the student
+ * had no reference samples yet, so the selfie became their baseline.
+ */
+export interface FaceVerification {
+  verdict: FaceVerdict;
+  distance: number | null;
+  threshold: number | null;
+  source: FaceVerificationSource;
+  /**
+   * Set on a server `enrolled` verdict when the student already had templates
+   * from another model, so nothing vouched for the new baseline.
+   */
+  unverifiedBaseline?: boolean;
+}
+
+export type LivenessChallenge = 'blink' | 'turn-left' | 'turn-right' | 'smile';
+
+/** Result of the active liveness challenge run on the same capture as the selfie. */
+export interface LivenessCheck {
+  challenge: LivenessChallenge;
+  passed: boolean;
+  confidence: number;
+}
+
+function readDistance(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : null;
+}
+
+export function normalizeFaceVerification(raw: unknown): FaceVerification | undefined {
+  if (!raw || typeof raw !== 'object') {
+    return undefined;
+  }
+
+  const data = raw as Record<string, unknown>;
+  if (data.verdict !== 'matched' && data.verdict !== 'mismatch' && data.verdict !== 'enrolled') {
+    return undefined;
+  }
+
+  return {
+    verdict: data.verdict,
+    distance: readDistance(data.distance),
+    threshold: readDistance(data.threshold),
+    source: data.source === 'server' ? 'server' : 'device'
+  };
+}
+
+export function describeFaceVerification(face: FaceVerification | undefined): string {
+  if (!face) {
+    return 'Face verification was skipped.';
+  }
+
+  const distance =
+    face.distance !== null
+      ? ` (distance ${face.distance.toFixed(3)}${face.threshold !== null ? ` / ${face.threshold.toFixed(3)}` : ''})`
+      : '';
+
+  const samples = face.source === 'server' ? 'stored templates' : 'enrolled samples on the device';
+
+  switch (face.verdict) {
+    case 'matched':
+      return `Face matched ${samples}${distance}.`;
+    case 'mismatch':
+      return `Face did not match ${samples}${distance}.`;
+    default:
+      if (face.unverifiedBaseline) {
+        return 'Stored templates came from another face model; this capture started a new baseline that needs review.';
+      }
+      return face.source === 'server'
+        ? 'No stored templates yet; this capture became the enrollment baseline.'
+        : 'First face sample captured as the enrollment baseline.';
+  }
+}
+
+export function normalizeLiveness(raw: unknown): LivenessCheck | undefined {
+  if (!raw || typeof raw !== 'object') {
+    return undefined;
+  }
+
+  const data = raw as Record<string, unknown>;
+  const challenge = data.challenge;
+  if (challenge !== 'blink' && challenge !== 'turn-left' && challenge !== 'turn-right' && challenge !== 'smile') {
+    return undefined;
+  }
+
+  const confidence = typeof data.confidence === 'number' && Number.isFinite(data.confidence) ? data.confidence : 0;
+
+  return {
+    challenge,
+    passed: data.passed === true,
+    confidence: Math.min(1, Math.max(0, confidence))
+  };
+}
+
+export function describeLiveness(liveness: LivenessCheck | undefined): string {
+  if (!liveness) {
+    return 'Liveness check was skipped.';
+  }
+
+  const confidence = `${Math.round(liveness.confidence * 100)}% confidence`;
+  return liveness.passed
+    ? `Liveness check passed (${liveness.challenge}, ${confidence}).`
+    : `Liveness check failed (${liveness.challenge}, ${confidence}).`;
+}
@@ -0,0 +1,48 @@
+import { applicationDefault, cert, getApp, getApps, initializeApp, type App } from 'firebase-admin/app';
+import { getAuth, type Auth } from 'firebase-admin/auth';
+import { getFirestore, type Firestore } from 'firebase-admin/firestore';
+
+// Server-only. Never import this from a client component.
+const ADMIN_APP_NAME = 'smart-attender-admin';
+
+const projectId = process.env.FIREBASE_ADMIN_PROJECT_ID ?? process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+const clientEmail = process.env.FIREBASE_ADMIN_CLIENT_EMAIL;
+const privateKey = process.env.FIREBASE_ADMIN_PRIVATE_KEY?.replace(/\\n/g, '\n');
+
+export const isFirebaseAdminConfigured =
+  Boolean(projectId && clientEmail && privateKey) || Boolean(process.env.GOOGLE_APPLICATION_CREDENTIALS);
+
+let adminApp: App | undefined;
+
+function ensureAdminApp(): App {
+  if (!isFirebaseAdminConfigured) {
+    throw new Error(
+      'Firebase Admin is not configured. Provide FIREBASE_ADMIN_CLIENT_EMAIL and FIREBASE_ADMIN_PRIVATE_KEY, or set GOOGLE_APPLICATION_CREDENTIALS.'
+    );
+  }
+
+  if (!adminApp) {
+    adminApp = getApps().some((app) => app.name === ADMIN_APP_NAME)
+      ? getApp(ADMIN_APP_NAME)
+      : initializeApp(
+          {
+            credential:
+              clientEmail && privateKey && projectId
+                ? cert({ projectId, clientEmail, privateKey })
+                : applicationDefault(),
+            projectId
+          },
+          ADMIN_APP_NAME
+        );
+  }
+
+  return adminApp;
+}
+
+export function getAdminAuth(): Auth {
+  return getAuth(ensureAdminApp());
+}
+
+export function getAdminDb(): Firestore {
+  return getFirestore(ensureAdminApp());
+}
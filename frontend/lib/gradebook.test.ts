@@ -0,0 +1,320 @@
+import { describe, expect, test } from 'bun:test';
+import type { ClassRecord, RosterEntry } from '@/lib/classRoster';
+import {
+  parseGradebookCsv,
+  planGradebookImport,
+  summarizeGrades,
+  type Assignment,
+  type AssignmentScore,
+  type GradeStatus,
+  type GradeSummary
+} from '@/lib/gradebook';
+
+const ROSTER_ID = 'roster-ada';
+
+/**
+ * One assignment out of 100 per token, due on consecutive days: a number is
+ * the points earned, `M` missing, `EX` excused and `-` not yet graded.
+ */
+function assignments(tokens: string): Assignment[] {
+  return tokens.split(' ').map((token, index) => {
+    const scores: Record<string, AssignmentScore> = {};
+    if (token === 'M') {
+      scores[ROSTER_ID] = { state: 'missing', points: null };
+    } else if (token === 'EX') {
+      scores[ROSTER_ID] = { state: 'excused', points: null };
+    } else if (token !== '-') {
+      scores[ROSTER_ID] = { state: 'graded', points: Number(token) };
+    }
+
+    return {
+      id: `assignment-${index + 1}`,
+      teacherId: 'teacher-1',
+      classId: 'algebra',
+      title: `Assignment ${index + 1}`,
+      maxPoints: 100,
+      dueDate: new Date(Date.UTC(2026, 0, 5 + index)).toISOString(),
+      scores
+    };
+  });
+}
+
+describe('summarizeGrades status', () => {
+  test.each<{ name: string; tokens: string; status: GradeStatus | null; average: number | null }>([
+    {
+      name: 'nothing graded has no status',
+      tokens: '- EX -',
+      status: null,
+      average: null
+    },
+    {
+      name: 'passing work has no status',
+      tokens: '80 70 90',
+      status: null,
+      average: 80
+    },
+    {
+      name: 'exactly the passing grade is not a warning',
+      tokens: '60 60',
+      status: null,
+      average: 60
+    },
+    {
+      name: 'below passing is a warning',
+      tokens: '55 58 57',
+      status: 'warning',
+      average: 56.7
+    },
+    {
+      name: 'two missing assignments are a warning even when passing',
+      tokens: '100 100 100 100 M M',
+      status: 'warning',
+      average: 66.7
+    },
+    {
+      name: 'below 50% is critical',
+      tokens: '40 45 48',
+      status: 'critical',
+      average: 44.3
+    },
+    {
+      name: 'three missing assignments are critical',
+      tokens: '100 100 100 100 100 100 100 M M M',
+      status: 'critical',
+      average: 70
+    },
+    {
+      name: 'passing the latest three after failing before is recovering',
+      tokens: '40 50 70 65 80',
+      status: 'recovering',
+      average: 61
+    },
+    {
+      name: 'recovering overrides an average below 50%',
+      tokens: '0 0 0 0 70 70 70',
+      status: 'recovering',
+      average: 30
+    },
+    {
+      name: 'three missing assignments override recovering',
+      tokens: '0 M M M 90 90 90',
+      status: 'critical',
+      average: 38.6
+    },
+    {
+      name: 'fewer than four assessed assignments cannot be recovering',
+      tokens: '20 70 70',
+      status: 'warning',
+      average: 53.3
+    },
+    {
+      name: 'failing the latest three is not recovering',
+      tokens: '70 70 50 50 50',
+      status: 'warning',
+      average: 58
+    }
+  ])('$name', ({ tokens, status, average }) => {
+    const summary = summarizeGrades(ROSTER_ID, assignments(tokens));
+
+    expect(summary.status).toBe(status);
+    expect(summary.averageGrade).toBe(average);
+  });
+});
+
+describe('summarizeGrades excused and missing work', () => {
+  test.each<{ name: string; tokens: string; summary: GradeSummary }>([
+    {
+      name: 'missing work counts as zero',
+      tokens: '80 M',
+      summary: { averageGrade: 40, missingAssignments: 1, gradedCount: 1, status: 'critical' }
+    },
+    {
+      name: 'excused work is left out of the average',
+      tokens: '80 EX',
+      summary: { averageGrade: 80, missingAssignments: 0, gradedCount: 1, status: null }
+    },
+    {
+      name: 'ungraded work is left out of the average',
+      tokens: '80 -',
+      summary: { averageGrade: 80, missingAssignments: 0, gradedCount: 1, status: null }
+    },
+    {
+      name: 'only missing work averages zero',
+      tokens: 'M',
+      summary: { averageGrade: 0, missingAssignments: 1, gradedCount: 0, status: 'critical' }
+    }
+  ])('$name', ({ tokens, summary }) => {
+    expect(summarizeGrades(ROSTER_ID, assignments(tokens))).toEqual(summary);
+  });
+
+  test('scores weigh by points possible, not per assignment', () => {
+    const [quiz, exam] = assignments('5 90');
+    const summary = summarizeGrades(ROSTER_ID, [{ ...quiz, maxPoints: 10 }, exam]);
+
+    expect(summary.averageGrade).toBe(86.4);
+  });
+
+  test('other students on the roster are ignored', () => {
+    expect(summarizeGrades('roster-ben', assignments('80 M')).status).toBeNull();
+  });
+});
+
+describe('parseGradebookCsv', () => {
+  test('a Points Possible row sets each column maximum and is not a student', () => {
+    const parsed = parseGradebookCsv(
+      [
+        'Student,SIS User ID,SIS Login ID,Section,Lab report 2 (40213),Quiz 1 (40214),Current Score',
+        '    Points Possible,,,,40,20,(read only)',
+        'Ada Lovelace,S0001,ada@example.edu,A,30,50%,75',
+        'Ben Okafor,S0002,,A,m,ex,0'
+      ].join('\n')
+    );
+
+    expect(parsed.columns).toEqual([
+      { title: 'Lab report 2', maxPoints: 40 },
+      { title: 'Quiz 1', maxPoints: 20 }
+    ]);
+    expect(parsed.rows).toEqual([
+      {
+        identity: { email: 'ada@example.edu', studentNumber: 'S0001' },
+        name: 'Ada Lovelace',
+        scores: [
+          { state: 'graded', points: 30 },
+          { state: 'graded', points: 10 }
+        ]
+      },
+      {
+        identity: { email: null, studentNumber: 'S0002' },
+        name: 'Ben Okafor',
+        scores: [
+          { state: 'missing', points: null },
+          { state: 'excused', points: null }
+        ]
+      }
+    ]);
+    expect(parsed.skippedRows).toEqual([]);
+  });
+
+  test('without a points row scores are out of 100 and blank cells have no score', () => {
+    const parsed = parseGradebookCsv(
+      ['Last Name,First Name,Email Address,Essay,Project', 'Lovelace,Ada,ada@example.edu,85%,'].join('\n')
+    );
+
+    expect(parsed.columns).toEqual([
+      { title: 'Essay', maxPoints: 100 },
+      { title: 'Project', maxPoints: 100 }
+    ]);
+    expect(parsed.rows).toEqual([
+      {
+        identity: { email: 'ada@example.edu', studentNumber: null },
+        name: 'Ada Lovelace',
+        scores: [{ state: 'graded', points: 85 }, null]
+      }
+    ]);
+  });
+
+  test.each([
+    {
+      name: 'no email or student number',
+      row: 'Cara Diaz,,,90',
+      skippedRows: [2]
+    },
+    {
+      name: 'an email without an @',
+      row: 'Cara Diaz,,cara at example,90',
+      skippedRows: [2]
+    },
+    {
+      name: 'no name',
+      row: ',S0003,,90',
+      skippedRows: [2]
+    },
+    {
+      name: 'a blank spacer row is ignored rather than skipped',
+      row: ',,,',
+      skippedRows: []
+    }
+  ])('$name', ({ row, skippedRows }) => {
+    const parsed = parseGradebookCsv(['Name,Student Number,Email,Essay', row].join('\n'));
+
+    expect(parsed.rows).toEqual([]);
+    expect(parsed.skippedRows).toEqual(skippedRows);
+  });
+
+  test('an empty file has nothing to import', () => {
+    expect(parseGradebookCsv('')).toEqual({ columns: [], rows: [], skippedRows: [] });
+  });
+});
+
+describe('planGradebookImport', () => {
+  function rosterEntry(name: string, identity: Partial<Pick<RosterEntry, 'email' | 'studentNumber'>>): RosterEntry {
+    return {
+      rosterId: `roster-${name.toLowerCase()}`,
+      name,
+      email: null,
+      studentNumber: null,
+      studentId: null,
+      addedAt: new Date(0).toISOString(),
+      ...identity
+    };
+  }
+
+  const classRecord: ClassRecord = {
+    id: 'algebra',
+    teacherId: 'teacher-1',
+    name: 'Algebra',
+    subject: 'Math',
+    roster: [rosterEntry('Ada', { email: 'ada@example.edu' }), rosterEntry('Ben', { studentNumber: 'S0002' })]
+  };
+
+  const parsed = parseGradebookCsv(
+    [
+      'Name,Student Number,Email,Essay,Quiz 1,Project',
+      'Points Possible,,,50,10,',
+      'Ada Lovelace,,ADA@example.edu,45,m,',
+      'Ben Okafor,s0002,,ex,8,',
+      'Zed Unknown,S0099,,40,9,'
+    ].join('\n')
+  );
+
+  test('matches rows to the roster and reports the rest as unmatched', () => {
+    const existing = assignments('-').map((assignment) => ({
+      ...assignment,
+      title: ' essay ',
+      scores: { 'roster-ben': { state: 'graded' as const, points: 20 }, 'roster-cara': { state: 'graded' as const, points: 30 } }
+    }));
+    const { assignments: planned, summary } = planGradebookImport(classRecord, existing, parsed);
+
+    expect(summary).toEqual({ assignmentsCreated: 1, assignmentsUpdated: 1, scoresImported: 4, unmatched: ['Zed Unknown'] });
+    expect(planned.map((assignment) => [assignment.id, assignment.title, assignment.maxPoints])).toEqual([
+      ['assignment-1', ' essay ', 100],
+      [planned[1].id, 'Quiz 1', 10]
+    ]);
+    expect(planned[0].scores).toEqual({
+      'roster-ada': { state: 'graded', points: 45 },
+      'roster-ben': { state: 'excused', points: null },
+      'roster-cara': { state: 'graded', points: 30 }
+    });
+    expect(planned[1]).toMatchObject({
+      teacherId: 'teacher-1',
+      classId: 'algebra',
+      dueDate: null,
+      scores: {
+        'roster-ada': { state: 'missing', points: null },
+        'roster-ben': { state: 'graded', points: 8 }
+      }
+    });
+  });
+
+  test('columns with no matched scores create nothing', () => {
+    const { assignments: planned, summary } = planGradebookImport({ ...classRecord, roster: [] }, [], parsed);
+
+    expect(planned).toEqual([]);
+    expect(summary).toEqual({
+      assignmentsCreated: 0,
+      assignmentsUpdated: 0,
+      scoresImported: 0,
+      unmatched: ['Ada Lovelace', 'Ben Okafor', 'Zed Unknown']
+    });
+  });
+});
@@ -0,0 +1,489 @@
+import {
+  FieldPath,
+  Timestamp,
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  writeBatch
+} from 'firebase/firestore';
+import { findRosterEntry, type ClassRecord, type RosterEntry, type RosterIdentity } from '@/lib/classRoster';
+import { getFirestoreDb, isFirebaseConfigured } from '@/lib/firebase';
+import { findColumn, normalizeHeader, parseCsv } from '@/lib/utils/csv';
+
+export type ScoreState = 'graded' | 'missing' | 'excused';
+
+export interface AssignmentScore {
+  state: ScoreState;
+  /** Only set when `state` is `graded`. */
+  points: number | null;
+}
+
+export interface Assignment {
+  id: string;
+  teacherId: string;
+  classId: string;
+  title: string;
+  maxPoints: number;
+  dueDate: string | null;
+  /** Keyed by roster id, so scores survive a student linking their app account. */
+  scores: Record<string, AssignmentScore>;
+  createdAt?: string;
+}
+
+export type AssignmentInput = Pick<Assignment, 'title' | 'maxPoints' | 'dueDate'>;
+
+export type GradeStatus = 'warning' | 'critical' | 'recovering';
+
+export interface GradeSummary {
+  /** Percentage across graded and missing work; null before anything is graded. */
+  averageGrade: number | null;
+  missingAssignments: number;
+  gradedCount: number;
+  status: GradeStatus | null;
+}
+
+export const PASSING_GRADE = 60;
+const CRITICAL_GRADE = 50;
+const WARNING_MISSING_ASSIGNMENTS = 2;
+const CRITICAL_MISSING_ASSIGNMENTS = 3;
+// Recovery compares the latest few assessed assignments with everything before them.
+const RECENT_ASSIGNMENT_COUNT = 3;
+const DEFAULT_MAX_POINTS = 100;
+
+function generateAssignmentId() {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return Math.random().toString(36).slice(2, 12);
+}
+
+function toIsoString(value: unknown): string | undefined {
+  if (value instanceof Timestamp) {
+    return value.toDate().toISOString();
+  }
+  return typeof value === 'string' ? value : undefined;
+}
+
+function normalizeScore(raw: unknown): AssignmentScore | null {
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+
+  const data = raw as Record<string, unknown>;
+  if (data.state === 'missing' || data.state === 'excused') {
+    return { state: data.state, points: null };
+  }
+
+  return typeof data.points === 'number' && Number.isFinite(data.points) && data.points >= 0
+    ? { state: 'graded', points: data.points }
+    : null;
+}
+
+export function normalizeAssignment(id: string, raw: Record<string, unknown>): Assignment {
+  const scores: Record<string, AssignmentScore> = {};
+  if (raw.scores && typeof raw.scores === 'object') {
+    Object.entries(raw.scores as Record<string, unknown>).forEach(([rosterId, value]) => {
+      const score = normalizeScore(value);
+      if (score) {
+        scores[rosterId] = score;
+      }
+    });
+  }
+
+  const maxPoints = Number(raw.maxPoints);
+
+  return {
+    id,
+    teacherId: String(raw.teacherId ?? ''),
+    classId: String(raw.classId ?? ''),
+    title: String(raw.title ?? 'Untitled assignment'),
+    maxPoints: Number.isFinite(maxPoints) && maxPoints > 0 ? maxPoints : DEFAULT_MAX_POINTS,
+    dueDate: typeof raw.dueDate === 'string' && raw.dueDate ? raw.dueDate : null,
+    scores,
+    createdAt: toIsoString(raw.createdAt)
+  } satisfies Assignment;
+}
+
+/** Due date first, then creation time, so the gradebook reads left to right in course order. */
+export function sortAssignments(assignments: Assignment[]): Assignment[] {
+  return [...assignments].sort((a, b) =>
+    (a.dueDate ?? a.createdAt ?? '').localeCompare(b.dueDate ?? b.createdAt ?? '')
+  );
+}
+
+/**
+ * Reads what a teacher types into a gradebook cell: points, `m`/`missing`,
+ * `ex`/`excused`, or a percentage. Blank clears the score; null means unreadable.
+ */
+export function parseScoreInput(value: string, maxPoints: number): AssignmentScore | 'clear' | null {
+  const text = value.trim().toLowerCase();
+
+  if (!text) {
+    return 'clear';
+  }
+  if (text === 'm' || text === 'missing') {
+    return { state: 'missing', points: null };
+  }
+  if (text === 'ex' || text === 'excused') {
+    return { state: 'excused', points: null };
+  }
+
+  const percent = text.endsWith('%');
+  const number = Number(percent ? text.slice(0, -1) : text);
+  if (!Number.isFinite(number) || number < 0) {
+    return null;
+  }
+
+  return { state: 'graded', points: percent ? Math.round(number * maxPoints) / 100 : number };
+}
+
+export function formatScore(score: AssignmentScore | undefined): string {
+  if (!score) {
+    return '';
+  }
+  if (score.state === 'missing') {
+    return 'M';
+  }
+  if (score.state === 'excused') {
+    return 'EX';
+  }
+  return String(score.points ?? '');
+}
+
+function averageOf(results: { earned: number; possible: number }[]): number | null {
+  const possible = results.reduce((sum, result) => sum + result.possible, 0);
+  return possible > 0 ? (results.reduce((sum, result) => sum + result.earned, 0) / possible) * 100 : null;
+}
+
+/**
+ * Summarises one student's work in a class. Missing work counts as zero;
+ * excused and ungraded assignments are left out.
+ *
+ * - `critical`: three or more missing assignments, or an average below 50%.
+ * - `recovering`: below passing before the latest three assessed assignments,
+ *   passing across those three.
+ * - `warning`: below the 60% passing grade, or two missing assignments.
+ */
+export function summarizeGrades(rosterId: string, assignments: Assignment[]): GradeSummary {
+  const assessed = sortAssignments(assignments).flatMap((assignment) => {
+    const score = assignment.scores[rosterId];
+    if (!score || score.state === 'excused') {
+      return [];
+    }
+    return [
+      {
+        earned: score.state === 'graded' ? score.points ?? 0 : 0,
+        possible: assignment.maxPoints,
+        missing: score.state === 'missing'
+      }
+    ];
+  });
+
+  const missingAssignments = assessed.filter((result) => result.missing).length;
+  const average = averageOf(assessed);
+  const summary = {
+    averageGrade: average === null ? null : Math.round(average * 10) / 10,
+    missingAssignments,
+    gradedCount: assessed.length - missingAssignments
+  };
+
+  if (average === null) {
+    return { ...summary, status: null };
+  }
+
+  const earlier = averageOf(assessed.slice(0, -RECENT_ASSIGNMENT_COUNT));
+  const recent = averageOf(assessed.slice(-RECENT_ASSIGNMENT_COUNT));
+  let status: GradeStatus | null = null;
+
+  if (missingAssignments >= CRITICAL_MISSING_ASSIGNMENTS) {
+    status = 'critical';
+  } else if (earlier !== null && earlier < PASSING_GRADE && recent !== null && recent >= PASSING_GRADE) {
+    status = 'recovering';
+  } else if (average < CRITICAL_GRADE) {
+    status = 'critical';
+  } else if (average < PASSING_GRADE || missingAssignments >= WARNING_MISSING_ASSIGNMENTS) {
+    status = 'warning';
+  }
+
+  return { ...summary, status };
+}
+
+export interface GradebookImportColumn {
+  title: string;
+  maxPoints: number;
+}
+
+export interface GradebookImportRow {
+  identity: RosterIdentity;
+  name: string;
+  /** One per column; null where the export had no score. */
+  scores: (AssignmentScore | null)[];
+}
+
+export interface GradebookImportResult {
+  columns: GradebookImportColumn[];
+  rows: GradebookImportRow[];
+  skippedRows: number[];
+}
+
+const NAME_HEADERS = ['name', 'student', 'studentname', 'fullname', 'displayname'];
+const FIRST_NAME_HEADERS = ['firstname', 'givenname'];
+const LAST_NAME_HEADERS = ['lastname', 'surname', 'familyname'];
+const EMAIL_HEADERS = ['email', 'emailaddress', 'studentemail', 'sisloginid'];
+const NUMBER_HEADERS = ['studentnumber', 'studentno', 'studentid', 'sisuserid', 'rollnumber', 'rollno', 'id'];
+const POINTS_ROW_LABELS = ['pointspossible', 'points', 'maxpoints', 'outof'];
+// Sections and the totals LMS exports compute are not assignments.
+const IGNORED_HEADER =
+  /^(section|integrationid|(current|final|unposted)(score|grade|points)|total(score|points)?|overall(score|grade)?|average(score|grade)?)$/;
+
+function stripExportId(title: string): string {
+  // Canvas appends the assignment id: "Lab report 2 (40213)".
+  return title.replace(/\s*\(\d+\)\s*$/, '').trim();
+}
+
+/**
+ * Reads a gradebook export (Google Classroom, Canvas and similar): student
+ * identity columns, then one column per assignment. A row labelled "Points
+ * Possible" (or "Points", "Max points") supplies each column's maximum;
+ * otherwise scores are out of 100. Rows without an email or student number
+ * cannot be matched to the roster and are skipped.
+ */
+export function parseGradebookCsv(text: string): GradebookImportResult {
+  const rows = parseCsv(text);
+  if (rows.length === 0) {
+    return { columns: [], rows: [], skippedRows: [] };
+  }
+
+  const headers = rows[0];
+  const nameColumn = findColumn(headers, NAME_HEADERS);
+  const firstNameColumn = findColumn(headers, FIRST_NAME_HEADERS);
+  const lastNameColumn = findColumn(headers, LAST_NAME_HEADERS);
+  const emailColumn = findColumn(headers, EMAIL_HEADERS);
+  const numberColumn = findColumn(headers, NUMBER_HEADERS);
+  const identityColumns = new Set([nameColumn, firstNameColumn, lastNameColumn, emailColumn, numberColumn]);
+
+  const assignmentColumns = headers
+    .map((header, index) => ({ header, index }))
+    .filter(({ header, index }) => !identityColumns.has(index) && header && !IGNORED_HEADER.test(normalizeHeader(header)));
+
+  const maxPoints = assignmentColumns.map(() => DEFAULT_MAX_POINTS);
+  const result: GradebookImportResult = {
+    columns: [],
+    rows: [],
+    skippedRows: []
+  };
+
+  rows.slice(1).forEach((cells, index) => {
+    const rowNumber = index + 2;
+    const label = normalizeHeader(cells[nameColumn >= 0 ? nameColumn : 0] ?? '');
+    const isMetaRow = POINTS_ROW_LABELS.includes(label) || cells.slice(0, 3).every((cell) => !cell);
+
+    if (isMetaRow) {
+      if (POINTS_ROW_LABELS.includes(label)) {
+        assignmentColumns.forEach(({ index: column }, position) => {
+          const value = Number(cells[column]);
+          if (Number.isFinite(value) && value > 0) {
+            maxPoints[position] = value;
+          }
+        });
+      }
+      return;
+    }
+
+    const name =
+      (nameColumn >= 0 ? cells[nameColumn] : '') ||
+      [firstNameColumn >= 0 ? cells[firstNameColumn] : '', lastNameColumn >= 0 ? cells[lastNameColumn] : '']
+        .filter(Boolean)
+        .join(' ');
+    const email = emailColumn >= 0 && cells[emailColumn]?.includes('@') ? cells[emailColumn] : null;
+    const studentNumber = numberColumn >= 0 ? cells[numberColumn] || null : null;
+
+    if (!name || (!email && !studentNumber)) {
+      result.skippedRows.push(rowNumber);
+      return;
+    }
+
+    result.rows.push({
+      identity: { email, studentNumber },
+      name,
+      scores: assignmentColumns.map(({ index: column }, position) => {
+        const parsed = parseScoreInput(cells[column] ?? '', maxPoints[position]);
+        return parsed === 'clear' ? null : parsed;
+      })
+    });
+  });
+
+  result.columns = assignmentColumns.map(({ header }, position) => ({
+    title: stripExportId(header),
+    maxPoints: maxPoints[position]
+  }));
+
+  return result;
+}
+
+export interface GradebookImportSummary {
+  assignmentsCreated: number;
+  assignmentsUpdated: number;
+  scoresImported: number;
+  /** Names from the export that match nobody on the roster. */
+  unmatched: string[];
+}
+
+function normalizeTitle(title: string): string {
+  return title.trim().toLowerCase();
+}
+
+/**
+ * Works out what an import changes. Columns update the assignment with the
+ * same title or become new assignments; rows are matched to the roster by
+ * email or student number.
+ */
+export function planGradebookImport(
+  classRecord: ClassRecord,
+  existing: Assignment[],
+  parsed: GradebookImportResult
+): { assignments: Assignment[]; summary: GradebookImportSummary } {
+  const matches = parsed.rows.map((row) => ({ row, entry: findRosterEntry(classRecord.roster, row.identity) }));
+  const summary: GradebookImportSummary = {
+    assignmentsCreated: 0,
+    assignmentsUpdated: 0,
+    scoresImported: 0,
+    unmatched: matches.filter(({ entry }) => !entry).map(({ row }) => row.name)
+  };
+
+  const assignments = parsed.columns.flatMap((column, position): Assignment[] => {
+    const scores: Record<string, AssignmentScore> = {};
+    matches.forEach(({ row, entry }) => {
+      const score = row.scores[position];
+      if (entry && score) {
+        scores[entry.rosterId] = score;
+      }
+    });
+
+    const count = Object.keys(scores).length;
+    if (count === 0) {
+      return [];
+    }
+    summary.scoresImported += count;
+
+    const current = existing.find((assignment) => normalizeTitle(assignment.title) === normalizeTitle(column.title));
+    if (current) {
+      summary.assignmentsUpdated += 1;
+      return [{ ...current, scores: { ...current.scores, ...scores } }];
+    }
+
+    summary.assignmentsCreated += 1;
+    return [
+      {
+        id: generateAssignmentId(),
+        teacherId: classRecord.teacherId,
+        classId: classRecord.id,
+        title: column.title,
+        maxPoints: column.maxPoints,
+        dueDate: null,
+        scores,
+        createdAt: new Date().toISOString()
+      }
+    ];
+  });
+
+  return { assignments, summary };
+}
+
+export async function createAssignment(classRecord: ClassRecord, input: AssignmentInput): Promise<Assignment> {
+  const assignment: Assignment = {
+    id: generateAssignmentId(),
+    teacherId: classRecord.teacherId,
+    classId: classRecord.id,
+    title: input.title.trim(),
+    maxPoints: input.maxPoints,
+    dueDate: input.dueDate,
+    scores: {},
+    createdAt: new Date().toISOString()
+  };
+
+  if (!isFirebaseConfigured) {
+    return assignment;
+  }
+
+  const assignmentRef = doc(collection(getFirestoreDb(), 'assignments'));
+  await setDoc(assignmentRef, {
+    teacherId: assignment.teacherId,
+    classId: assignment.classId,
+    title: assignment.title,
+    maxPoints: assignment.maxPoints,
+    dueDate: assignment.dueDate,
+    scores: {},
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp()
+  });
+
+  return { ...assignment, id: assignmentRef.id };
+}
+
+/** Writes or clears one student's score without touching the rest of the column. */
+export async function saveAssignmentScore(
+  assignment: Assignment,
+  entry: RosterEntry,
+  score: AssignmentScore | null
+): Promise<Assignment> {
+  const scores = { ...assignment.scores };
+  if (score) {
+    scores[entry.rosterId] = score;
+  } else {
+    delete scores[entry.rosterId];
+  }
+
+  if (isFirebaseConfigured) {
+    await updateDoc(
+      doc(getFirestoreDb(), 'assignments', assignment.id),
+      new FieldPath('scores', entry.rosterId),
+      score ?? deleteField(),
+      'updatedAt',
+      serverTimestamp()
+    );
+  }
+
+  return { ...assignment, scores };
+}
+
+export async function saveImportedAssignments(existing: Assignment[], assignments: Assignment[]): Promise<void> {
+  if (!isFirebaseConfigured || assignments.length === 0) {
+    return;
+  }
+
+  const db = getFirestoreDb();
+  const batch = writeBatch(db);
+
+  assignments.forEach((assignment) => {
+    const ref = doc(db, 'assignments', assignment.id);
+    if (existing.some((current) => current.id === assignment.id)) {
+      batch.set(ref, { scores: assignment.scores, updatedAt: serverTimestamp() }, { merge: true });
+    } else {
+      batch.set(ref, {
+        teacherId: assignment.teacherId,
+        classId: assignment.classId,
+        title: assignment.title,
+        maxPoints: assignment.maxPoints,
+        dueDate: assignment.dueDate,
+        scores: assignment.scores,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp()
+      });
+    }
+  });
+
+  await batch.commit();
+}
+
+export async function deleteAssignment(assignmentId: string): Promise<void> {
+  if (!isFirebaseConfigured) {
+    return;
+  }
+
+  await deleteDoc(doc(getFirestoreDb(), 'assignments', assignmentId));
+}
@@ -0,0 +1,163 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { collection, onSnapshot, query, where, type QuerySnapshot } from 'firebase/firestore';
+import { getFirestoreDb, isFirebaseConfigured } from '@/lib/firebase';
+import type { ClassRecord, RosterEntry } from '@/lib/classRoster';
+import {
+  createAssignment,
+  deleteAssignment,
+  normalizeAssignment,
+  planGradebookImport,
+  saveAssignmentScore,
+  saveImportedAssignments,
+  sortAssignments,
+  type Assignment,
+  type AssignmentInput,
+  type AssignmentScore,
+  type GradebookImportResult,
+  type GradebookImportSummary
+} from '@/lib/gradebook';
+
+export type { Assignment } from '@/lib/gradebook';
+
+const mockAssignments: Assignment[] = [
+  {
+    id: 'mock-assignment-1',
+    teacherId: 'mock-teacher',
+    classId: 'mock-class-1',
+    title: 'Algebra quiz',
+    maxPoints: 20,
+    dueDate: '2026-09-04',
+    scores: {
+      r1: { state: 'graded', points: 18 },
+      r2: { state: 'graded', points: 9 },
+      r3: { state: 'graded', points: 8 }
+    }
+  },
+  {
+    id: 'mock-assignment-2',
+    teacherId: 'mock-teacher',
+    classId: 'mock-class-1',
+    title: 'Linear equations worksheet',
+    maxPoints: 10,
+    dueDate: '2026-09-11',
+    scores: {
+      r1: { state: 'graded', points: 9 },
+      r2: { state: 'missing', points: null },
+      r3: { state: 'graded', points: 4 }
+    }
+  },
+  {
+    id: 'mock-assignment-3',
+    teacherId: 'mock-teacher',
+    classId: 'mock-class-1',
+    title: 'Unit test 1',
+    maxPoints: 50,
+    dueDate: '2026-09-18',
+    scores: {
+      r1: { state: 'graded', points: 44 },
+      r2: { state: 'missing', points: null },
+      r3: { state: 'graded', points: 33 }
+    }
+  }
+];
+
+export function useClassAssignments(classRecord?: ClassRecord) {
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const classId = classRecord?.id;
+  const teacherId = classRecord?.teacherId;
+
+  useEffect(() => {
+    if (!classId) {
+      setAssignments([]);
+      setLoading(false);
+      return () => undefined;
+    }
+
+    if (!isFirebaseConfigured) {
+      setAssignments(sortAssignments(mockAssignments.filter((assignment) => assignment.classId === classId)));
+      setLoading(false);
+      return () => undefined;
+    }
+
+    setLoading(true);
+    // Rules only let a teacher list their own assignments, so the query must say so.
+    const q = query(
+      collection(getFirestoreDb(), 'assignments'),
+      where('teacherId', '==', teacherId),
+      where('classId', '==', classId)
+    );
+
+    const unsubscribe = onSnapshot(
+      q,
+      (snapshot: QuerySnapshot<Record<string, unknown>>) => {
+        setAssignments(
+          sortAssignments(snapshot.docs.map((docSnapshot) => normalizeAssignment(docSnapshot.id, docSnapshot.data() ?? {})))
+        );
+        setLoading(false);
+      },
+      (error) => {
+        console.error('Failed to load assignments', error);
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [classId, teacherId]);
+
+  const replaceAssignment = useCallback((next: Assignment) => {
+    setAssignments((previous) =>
+      sortAssignments([...previous.filter((assignment) => assignment.id !== next.id), next])
+    );
+  }, []);
+
+  const addAssignment = useCallback(
+    async (input: AssignmentInput) => {
+      if (!classRecord) {
+        throw new Error('Select a class first.');
+      }
+      const created = await createAssignment(classRecord, input);
+      if (!isFirebaseConfigured) {
+        replaceAssignment(created);
+      }
+      return created;
+    },
+    [classRecord, replaceAssignment]
+  );
+
+  const setScore = useCallback(
+    async (assignment: Assignment, entry: RosterEntry, score: AssignmentScore | null) => {
+      replaceAssignment(await saveAssignmentScore(assignment, entry, score));
+    },
+    [replaceAssignment]
+  );
+
+  const importGradebook = useCallback(
+    async (parsed: GradebookImportResult): Promise<GradebookImportSummary> => {
+      if (!classRecord) {
+        throw new Error('Select a class first.');
+      }
+      const plan = planGradebookImport(classRecord, assignments, parsed);
+      await saveImportedAssignments(assignments, plan.assignments);
+      plan.assignments.forEach(replaceAssignment);
+      return plan.summary;
+    },
+    [assignments, classRecord, replaceAssignment]
+  );
+
+  const removeAssignment = useCallback(async (assignmentId: string) => {
+    await deleteAssignment(assignmentId);
+    setAssignments((previous) => previous.filter((assignment) => assignment.id !== assignmentId));
+  }, []);
+
+  return {
+    assignments,
+    loading,
+    addAssignment,
+    setScore,
+    importGradebook,
+    removeAssignment
+  };
+}
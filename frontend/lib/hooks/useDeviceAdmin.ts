@@ -0,0 +1,171 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { isFirebaseConfigured } from '@/lib/firebase';
+import {
+  decideDevice,
+  loadPendingDevices,
+  loadTransferRequests,
+  resolveTransferRequest,
+  type AdminActor,
+  type DeviceDecision,
+  type DeviceTransferRequest,
+  type ManagedDevice,
+  type TransferStatus
+} from '@/lib/deviceAdmin';
+
+export type { DeviceDecision, DeviceTransferRequest, ManagedDevice, TransferStatus } from '@/lib/deviceAdmin';
+
+const mockDevices: ManagedDevice[] = [
+  {
+    studentId: 's3',
+    studentName: 'Meera Iyer',
+    studentEmail: 'meera@example.edu',
+    studentNumber: '10A-014',
+    deviceKey: 'mock-device-3f2a',
+    platform: 'Android',
+    brand: 'Samsung',
+    modelName: 'Galaxy A54',
+    osVersion: '14',
+    appVersion: '1.0.0',
+    isPhysicalDevice: true,
+    attestationPassed: true,
+    approvalState: 'pending',
+    approvalReason: 'Another device is already approved for this account.',
+    registeredAt: new Date(Date.now() - 1000 * 60 * 45).toISOString(),
+    lastSeenAt: new Date(Date.now() - 1000 * 60 * 5).toISOString()
+  }
+];
+
+const mockTransfers: DeviceTransferRequest[] = [
+  {
+    id: 'mock-transfer-1',
+    studentId: 's4',
+    studentName: 'Kabir Singh',
+    studentEmail: 'kabir@example.edu',
+    deviceKey: 'mock-device-91bc',
+    fromDeviceKey: 'mock-device-11aa',
+    currentOwnerId: 's9',
+    reason: 'My sibling graduated and gave me their phone.',
+    status: 'pending',
+    device: {
+      studentId: 's4',
+      studentName: 'Kabir Singh',
+      studentEmail: 'kabir@example.edu',
+      studentNumber: null,
+      deviceKey: 'mock-device-91bc',
+      platform: 'iOS',
+      brand: 'Apple',
+      modelName: 'iPhone 12',
+      osVersion: '17.5',
+      appVersion: '1.0.0',
+      isPhysicalDevice: true,
+      attestationPassed: true,
+      approvalState: 'blocked',
+      approvalReason: 'This device is registered to another student. Use your approved device or request a transfer.'
+    },
+    resolution: null,
+    requestedAt: new Date(Date.now() - 1000 * 60 * 60 * 3).toISOString()
+  }
+];
+
+export function useDeviceAdmin(admin: AdminActor | null | undefined, isAdmin: boolean) {
+  const [devices, setDevices] = useState<ManagedDevice[]>([]);
+  const [transfers, setTransfers] = useState<DeviceTransferRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    if (!isFirebaseConfigured) {
+      setDevices(mockDevices);
+      setTransfers(mockTransfers);
+      setLoading(false);
+      return () => undefined;
+    }
+
+    if (!isAdmin) {
+      setDevices([]);
+      setTransfers([]);
+      setLoading(false);
+      return () => undefined;
+    }
+
+    setLoading(true);
+    Promise.all([loadPendingDevices(), loadTransferRequests()])
+      .then(([nextDevices, nextTransfers]) => {
+        if (isMounted) {
+          setDevices(nextDevices);
+          setTransfers(nextTransfers);
+          setError(null);
+        }
+      })
+      .catch((loadError) => {
+        console.error('Failed to load device approvals', loadError);
+        if (isMounted) {
+          setError('Unable to load devices awaiting approval.');
+        }
+      })
+      .finally(() => {
+        if (isMounted) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [isAdmin, refreshKey]);
+
+  const refresh = useCallback(() => {
+    setRefreshKey((value) => value + 1);
+  }, []);
+
+  const decide = useCallback(
+    async (device: ManagedDevice, decision: DeviceDecision, reason: string) => {
+      await decideDevice({
+        device,
+        decision,
+        reason,
+        admin: { uid: admin?.uid ?? 'demo-admin', displayName: admin?.displayName ?? null }
+      });
+
+      setDevices((previous) =>
+        previous.filter((entry) => !(entry.studentId === device.studentId && entry.deviceKey === device.deviceKey))
+      );
+    },
+    [admin?.displayName, admin?.uid]
+  );
+
+  const resolveTransfer = useCallback(
+    async (request: DeviceTransferRequest, resolution: Exclude<TransferStatus, 'pending'>, reason: string) => {
+      await resolveTransferRequest({
+        request,
+        resolution,
+        reason,
+        admin: { uid: admin?.uid ?? 'demo-admin', displayName: admin?.displayName ?? null }
+      });
+
+      setTransfers((previous) => previous.filter((entry) => entry.id !== request.id));
+      // An approved transfer can also settle a pending device for the same student.
+      setDevices((previous) =>
+        resolution === 'approved'
+          ? previous.filter((entry) => !(entry.studentId === request.studentId && entry.deviceKey === request.deviceKey))
+          : previous
+      );
+    },
+    [admin?.displayName, admin?.uid]
+  );
+
+  return {
+    devices,
+    transfers,
+    loading,
+    error,
+    refresh,
+    decide,
+    resolveTransfer
+  };
+}
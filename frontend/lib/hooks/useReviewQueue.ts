@@ -0,0 +1,136 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { isFirebaseConfigured } from '@/lib/firebase';
+import {
+  applyReviewDecision,
+  getDecisionOutcome,
+  isAwaitingReview,
+  loadFlaggedAttendances,
+  type FlaggedAttendance,
+  type ReviewDecision
+} from '@/lib/attendanceReview';
+import type { AttendanceSession } from '@/lib/hooks/useTeacherSessions';
+
+export type { FlaggedAttendance, ReviewDecision } from '@/lib/attendanceReview';
+
+function buildMockQueue(sessions: AttendanceSession[]): FlaggedAttendance[] {
+  return sessions.flatMap((session) =>
+    session.attendees
+      .filter((attendee) => attendee.status === 'flagged')
+      .map((attendee) => ({
+        sessionId: session.id,
+        sessionToken: session.sessionToken,
+        className: session.className,
+        subject: session.subject,
+        sessionCoordinates: session.locationCoordinates,
+        studentId: attendee.id,
+        studentName: attendee.name,
+        status: attendee.status,
+        scannedAt: attendee.scannedAt,
+        proximityMeters: attendee.proximityMeters,
+        deviceModel: 'Pixel 7',
+        devicePlatform: 'android',
+        latitude: session.locationCoordinates ? session.locationCoordinates.latitude + 0.0004 : undefined,
+        longitude: session.locationCoordinates ? session.locationCoordinates.longitude + 0.0002 : undefined,
+        notes: ['Distance adjusted by ±20m for GPS accuracy.', 'Distance exceeded 50m threshold'],
+        review: { state: 'pending' },
+        reviewHistory: []
+      }) satisfies FlaggedAttendance)
+  );
+}
+
+export function useReviewQueue(
+  teacher: { uid: string; displayName?: string | null } | null | undefined,
+  sessions: AttendanceSession[]
+) {
+  const [items, setItems] = useState<FlaggedAttendance[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const teacherId = teacher?.uid;
+
+  // Only refetch when a session gains or loses flagged check-ins, not on every lifecycle tick.
+  const flaggedKey = useMemo(
+    () =>
+      sessions
+        .map((session) => `${session.id}:${session.attendees.filter((attendee) => attendee.status === 'flagged').length}`)
+        .join('|'),
+    [sessions]
+  );
+
+  useEffect(() => {
+    let isMounted = true;
+
+    if (!teacherId || !isFirebaseConfigured) {
+      setItems(buildMockQueue(sessions));
+      setLoading(false);
+      return () => undefined;
+    }
+
+    setLoading(true);
+    loadFlaggedAttendances(teacherId, sessions)
+      .then((nextItems) => {
+        if (isMounted) {
+          setItems(nextItems);
+          setError(null);
+        }
+      })
+      .catch((loadError) => {
+        console.error('Failed to load flagged check-ins', loadError);
+        if (isMounted) {
+          setError('Unable to load flagged check-ins.');
+        }
+      })
+      .finally(() => {
+        if (isMounted) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      isMounted = false;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [flaggedKey, teacherId]);
+
+  const decide = useCallback(
+    async (item: FlaggedAttendance, decision: ReviewDecision, reason: string) => {
+      const entry = await applyReviewDecision({
+        item,
+        decision,
+        reason,
+        reviewer: { uid: teacher?.uid ?? 'demo-teacher', displayName: teacher?.displayName ?? null }
+      });
+      const { status, state } = getDecisionOutcome(decision);
+
+      setItems((previous) =>
+        previous
+          .map((existing) =>
+            existing.sessionId === item.sessionId && existing.studentId === item.studentId
+              ? {
+                  ...existing,
+                  status,
+                  review: {
+                    state,
+                    reason: entry.reason,
+                    decidedBy: entry.decidedBy,
+                    decidedByName: entry.decidedByName,
+                    decidedAt: entry.decidedAt
+                  },
+                  reviewHistory: [...existing.reviewHistory, entry]
+                }
+              : existing
+          )
+          .filter(isAwaitingReview)
+      );
+    },
+    [teacher?.displayName, teacher?.uid]
+  );
+
+  return {
+    items,
+    loading,
+    error,
+    decide
+  };
+}
@@ -0,0 +1,110 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { getWindowExpiry, signQrWindow, type QrRotationConfig } from '@/lib/qrTokens';
+
+export interface QrBasePayload {
+  sessionId: string;
+  sessionToken: string;
+  [key: string]: unknown;
+}
+
+interface RotatingQrState {
+  dataUrl: string | null;
+  secondsRemaining: number | null;
+  error: string | null;
+}
+
+const QR_WIDTH = 320;
+
+export function useRotatingQrCode(basePayload: QrBasePayload | null, rotation?: QrRotationConfig | null) {
+  const [state, setState] = useState<RotatingQrState>({ dataUrl: null, secondsRemaining: null, error: null });
+
+  useEffect(() => {
+    if (!basePayload) {
+      setState({ dataUrl: null, secondsRemaining: null, error: null });
+      return () => undefined;
+    }
+
+    let cancelled = false;
+
+    if (!rotation) {
+      QRCode.toDataURL(JSON.stringify(basePayload), { width: QR_WIDTH })
+        .then((dataUrl) => {
+          if (!cancelled) {
+            setState({ dataUrl, secondsRemaining: null, error: null });
+          }
+        })
+        .catch((error: unknown) => {
+          console.error('Failed to render session QR', error);
+          if (!cancelled) {
+            setState({ dataUrl: null, secondsRemaining: null, error: 'Unable to render the QR code.' });
+          }
+        });
+
+      return () => {
+        cancelled = true;
+      };
+    }
+
+    let expiresAt = 0;
+    let refreshing = false;
+
+    const refresh = async () => {
+      if (refreshing) {
+        return;
+      }
+
+      refreshing = true;
+
+      try {
+        const signed = await signQrWindow(basePayload.sessionToken, rotation);
+        const dataUrl = await QRCode.toDataURL(JSON.stringify({ ...basePayload, rotation: signed }), {
+          width: QR_WIDTH
+        });
+        expiresAt = getWindowExpiry(signed.window, signed.intervalSeconds);
+
+        if (!cancelled) {
+          setState({
+            dataUrl,
+            secondsRemaining: Math.max(0, Math.ceil((expiresAt - Date.now()) / 1000)),
+            error: null
+          });
+        }
+      } catch (error) {
+        console.error('Failed to sign rotating QR window', error);
+        if (!cancelled) {
+          setState({
+            dataUrl: null,
+            secondsRemaining: null,
+            error: error instanceof Error ? error.message : 'Unable to sign the QR code.'
+          });
+        }
+      } finally {
+        refreshing = false;
+      }
+    };
+
+    refresh();
+
+    const ticker = setInterval(() => {
+      if (Date.now() >= expiresAt) {
+        refresh();
+        return;
+      }
+
+      setState((previous) => ({
+        ...previous,
+        secondsRemaining: Math.max(0, Math.ceil((expiresAt - Date.now()) / 1000))
+      }));
+    }, 1000);
+
+    return () => {
+      cancelled = true;
+      clearInterval(ticker);
+    };
+  }, [basePayload, rotation]);
+
+  return state;
+}
@@ -0,0 +1,246 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  collection,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  startAfter,
+  where,
+  type QueryConstraint,
+  type QueryDocumentSnapshot
+} from 'firebase/firestore';
+import { getFirestoreDb, isFirebaseConfigured } from '@/lib/firebase';
+import {
+  fetchSessionAttendees,
+  mergeSessionAttendees,
+  mockSessions,
+  normalizeSession,
+  withDerivedStatus,
+  type AttendanceSession,
+  type SessionAttendee,
+  type SessionStatus
+} from '@/lib/hooks/useTeacherSessions';
+
+export interface SessionHistoryFilters {
+  classId: string;
+  subject: string;
+  /** Local calendar days as `yyyy-MM-dd`; empty leaves that end open. */
+  fromDate: string;
+  toDate: string;
+  status: SessionStatus | '';
+}
+
+export interface SessionAttendeesState {
+  loading: boolean;
+  error: string | null;
+  attendees: SessionAttendee[];
+}
+
+export const SESSION_HISTORY_PAGE_SIZE = 20;
+
+export const emptySessionHistoryFilters: SessionHistoryFilters = {
+  classId: '',
+  subject: '',
+  fromDate: '',
+  toDate: '',
+  status: ''
+};
+
+function dayStart(date: string): string {
+  return new Date(`${date}T00:00:00`).toISOString();
+}
+
+function dayEnd(date: string): string {
+  return new Date(`${date}T23:59:59.999`).toISOString();
+}
+
+/**
+ * Class and subject filters go to Firestore next to the `scheduledFor` range
+ * and order; `firebase/firestore.indexes.json` defines the composite index
+ * each one, and the two together, need. Status is left out: the page shows the
+ * status the schedule implies, which can run ahead of the stored one, so it is
+ * matched client-side.
+ */
+function buildConstraints(filters: SessionHistoryFilters): QueryConstraint[] {
+  const constraints: QueryConstraint[] = [];
+  if (filters.classId) {
+    constraints.push(where('classId', '==', filters.classId));
+  }
+  if (filters.subject.trim()) {
+    constraints.push(where('subject', '==', filters.subject.trim()));
+  }
+  if (filters.fromDate) {
+    constraints.push(where('scheduledFor', '>=', dayStart(filters.fromDate)));
+  }
+  if (filters.toDate) {
+    constraints.push(where('scheduledFor', '<=', dayEnd(filters.toDate)));
+  }
+  return constraints;
+}
+
+function filterMockSessions(filters: SessionHistoryFilters): AttendanceSession[] {
+  return mockSessions
+    .map((session) => withDerivedStatus(session))
+    .filter(
+      (session) =>
+        (!filters.classId || session.classId === filters.classId) &&
+        (!filters.subject.trim() || session.subject === filters.subject.trim()) &&
+        (!filters.status || session.status === filters.status) &&
+        (!filters.fromDate || session.scheduledFor >= dayStart(filters.fromDate)) &&
+        (!filters.toDate || session.scheduledFor <= dayEnd(filters.toDate))
+    )
+    .sort((a, b) => b.scheduledFor.localeCompare(a.scheduledFor));
+}
+
+/**
+ * Every session the teacher has run, newest first, a page at a time. Pages are
+ * one-off reads rather than listeners, and check-ins are only fetched for the
+ * sessions the teacher opens, once each.
+ */
+export function useSessionHistory(teacherId: string | undefined, filters: SessionHistoryFilters) {
+  const [sessions, setSessions] = useState<AttendanceSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [attendees, setAttendees] = useState<Record<string, SessionAttendeesState>>({});
+  const cursor = useRef<QueryDocumentSnapshot | null>(null);
+  // Bumped on every filter change so a slow page for old filters is dropped.
+  const generation = useRef(0);
+
+  const { classId, subject, fromDate, toDate, status } = filters;
+
+  const loadPage = useCallback(
+    async (reset: boolean) => {
+      const currentFilters = { classId, subject, fromDate, toDate, status };
+
+      if (!teacherId || !isFirebaseConfigured) {
+        setSessions(filterMockSessions(currentFilters));
+        setHasMore(false);
+        setLoading(false);
+        return;
+      }
+
+      const requestGeneration = reset ? ++generation.current : generation.current;
+      if (reset) {
+        cursor.current = null;
+        setLoading(true);
+      } else {
+        setLoadingMore(true);
+      }
+
+      try {
+        // With a status filter a batch may hold few matches, so batches are read
+        // until one match past the page shows another page exists.
+        const matches: Array<{ snapshot: QueryDocumentSnapshot; session: AttendanceSession }> = [];
+        let scanCursor = cursor.current;
+        let exhausted = false;
+        while (matches.length <= SESSION_HISTORY_PAGE_SIZE && !exhausted) {
+          const snapshot = await getDocs(
+            query(
+              collection(getFirestoreDb(), `teachers/${teacherId}/sessions`),
+              ...buildConstraints(currentFilters),
+              orderBy('scheduledFor', 'desc'),
+              ...(scanCursor ? [startAfter(scanCursor)] : []),
+              limit(SESSION_HISTORY_PAGE_SIZE + 1)
+            )
+          );
+          if (requestGeneration !== generation.current) {
+            return;
+          }
+
+          snapshot.docs.forEach((docSnapshot) => {
+            const session = withDerivedStatus(normalizeSession(docSnapshot.id, docSnapshot.data() ?? {}));
+            if (!currentFilters.status || session.status === currentFilters.status) {
+              matches.push({ snapshot: docSnapshot, session });
+            }
+          });
+          scanCursor = snapshot.docs[snapshot.docs.length - 1] ?? scanCursor;
+          exhausted = snapshot.docs.length <= SESSION_HISTORY_PAGE_SIZE;
+        }
+
+        const pageMatches = matches.slice(0, SESSION_HISTORY_PAGE_SIZE);
+        const page = pageMatches.map((match) => match.session);
+        cursor.current = pageMatches[pageMatches.length - 1]?.snapshot ?? cursor.current;
+        setSessions((previous) => (reset ? page : [...previous, ...page]));
+        setHasMore(matches.length > SESSION_HISTORY_PAGE_SIZE);
+        setError(null);
+      } catch (loadError) {
+        console.error('Failed to load session history', loadError);
+        if (requestGeneration === generation.current) {
+          setError('Unable to load sessions. New filter combinations can take a few minutes while Firestore builds their index.');
+        }
+      } finally {
+        if (requestGeneration === generation.current) {
+          setLoading(false);
+          setLoadingMore(false);
+        }
+      }
+    },
+    [classId, fromDate, status, subject, teacherId, toDate]
+  );
+
+  useEffect(() => {
+    loadPage(true);
+  }, [loadPage]);
+
+  const loadMore = useCallback(() => {
+    if (!loadingMore && hasMore) {
+      loadPage(false);
+    }
+  }, [hasMore, loadPage, loadingMore]);
+
+  const loadAttendees = useCallback(
+    async (session: AttendanceSession, { force = false }: { force?: boolean } = {}) => {
+      if (!force && attendees[session.id] && !attendees[session.id].error) {
+        return;
+      }
+
+      if (!session.sessionToken || !isFirebaseConfigured) {
+        setAttendees((previous) => ({
+          ...previous,
+          [session.id]: { loading: false, error: null, attendees: session.attendees }
+        }));
+        return;
+      }
+
+      setAttendees((previous) => ({
+        ...previous,
+        [session.id]: { loading: true, error: null, attendees: previous[session.id]?.attendees ?? [] }
+      }));
+
+      try {
+        const publicAttendees = await fetchSessionAttendees(session.sessionToken);
+        setAttendees((previous) => ({
+          ...previous,
+          [session.id]: {
+            loading: false,
+            error: null,
+            attendees: mergeSessionAttendees(session, publicAttendees).attendees
+          }
+        }));
+      } catch (loadError) {
+        console.error('Failed to load session attendees', loadError);
+        setAttendees((previous) => ({
+          ...previous,
+          [session.id]: { loading: false, error: 'Unable to load check-ins.', attendees: [] }
+        }));
+      }
+    },
+    [attendees]
+  );
+
+  return {
+    sessions,
+    loading,
+    loadingMore,
+    hasMore,
+    error,
+    loadMore,
+    attendees,
+    loadAttendees
+  };
+}
@@ -2,6 +2,7 @@
 
 import { useEffect, useMemo, useState } from 'react';
 import { Timestamp, doc, onSnapshot, type DocumentData } from 'firebase/firestore';
+import type { DropoutRiskFeature, DropoutRiskReason } from '@/lib/dropoutRisk';
 import { getFirestoreDb, isFirebaseConfigured } from '@/lib/firebase';
 
 export interface ClassAnalytics {
@@ -23,6 +24,10 @@ export interface RiskStudent {
   attendanceRate: number;
   absences: number;
   riskLevel: 'low' | 'medium' | 'high';
+  /** 0–100 from `assessDropoutRisk`; absent on documents written before scoring existed. */
+  score?: number;
+  /** Why the student is on the list, largest contribution first. */
+  reasons?: DropoutRiskReason[];
   notes?: string | null;
 }
 
@@ -97,7 +102,13 @@ const mockAnalytics: TeacherAnalytics = {
       attendanceRate: 62,
       absences: 14,
       riskLevel: 'high',
-      notes: 'Missed the last three consecutive sessions.'
+      score: 59,
+      reasons: [
+        { feature: 'absence-rate', points: 26.6, detail: 'Missed 14 of 37 sessions (62% attendance).' },
+        { feature: 'consecutive-absences', points: 20, detail: 'Missed the last 4 consecutive sessions.' },
+        { feature: 'declining-trend', points: 12.4, detail: 'Attendance fell from 78% to 47% across the period.' }
+      ],
+      notes: 'Missed 14 of 37 sessions (62% attendance).'
     },
     {
       studentId: 'stu-1023',
@@ -106,7 +117,13 @@ const mockAnalytics: TeacherAnalytics = {
       attendanceRate: 68,
       absences: 11,
       riskLevel: 'medium',
-      notes: 'Frequently absent on laboratory days.'
+      score: 41,
+      reasons: [
+        { feature: 'absence-rate', points: 22.4, detail: 'Missed 11 of 34 sessions (68% attendance).' },
+        { feature: 'weekday-pattern', points: 10, detail: 'Absent on 7 of 9 Thursday sessions.' },
+        { feature: 'late-frequency', points: 8.6, detail: 'Late to 10 of 23 attended sessions.' }
+      ],
+      notes: 'Missed 11 of 34 sessions (68% attendance).'
     },
     {
       studentId: 'stu-1098',
@@ -115,7 +132,13 @@ const mockAnalytics: TeacherAnalytics = {
       attendanceRate: 71,
       absences: 9,
       riskLevel: 'medium',
-      notes: 'Needs follow-up from homeroom teacher.'
+      score: 33,
+      reasons: [
+        { feature: 'absence-rate', points: 20.3, detail: 'Missed 9 of 31 sessions (71% attendance).' },
+        { feature: 'flag-frequency', points: 7.2, detail: '8 of 22 check-ins were flagged for review.' },
+        { feature: 'late-frequency', points: 5.5, detail: 'Late to 6 of 22 attended sessions.' }
+      ],
+      notes: 'Missed 9 of 31 sessions (71% attendance).'
     }
   ],
   failingStudents: [
@@ -221,10 +244,40 @@ function normalizeRiskStudent(raw: unknown): RiskStudent | null {
     riskLevel: allowed.includes(riskLevel as RiskStudent['riskLevel'])
       ? (riskLevel as RiskStudent['riskLevel'])
       : 'low',
+    score: typeof data.score === 'number' && Number.isFinite(data.score) ? data.score : undefined,
+    reasons: Array.isArray(data.reasons)
+      ? (data.reasons as unknown[])
+          .map((reason) => normalizeRiskReason(reason))
+          .filter((reason): reason is DropoutRiskReason => Boolean(reason))
+      : undefined,
     notes: typeof data.notes === 'string' ? data.notes : null
   } satisfies RiskStudent;
 }
 
+const RISK_FEATURES: DropoutRiskFeature[] = [
+  'absence-rate',
+  'declining-trend',
+  'consecutive-absences',
+  'late-frequency',
+  'flag-frequency',
+  'weekday-pattern'
+];
+
+function normalizeRiskReason(raw: unknown): DropoutRiskReason | null {
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+
+  const data = raw as Record<string, unknown>;
+  const feature = toString(data.feature);
+
+  if (!RISK_FEATURES.includes(feature as DropoutRiskFeature) || typeof data.detail !== 'string') {
+    return null;
+  }
+
+  return { feature: feature as DropoutRiskFeature, points: toNumber(data.points, 0), detail: data.detail };
+}
+
 function normalizeFailingStudent(raw: unknown): FailingStudent | null {
   if (!raw || typeof raw !== 'object') {
     return null;
@@ -270,16 +323,17 @@ function normalizeAnalytics(snapshotData: DocumentData | undefined, teacherId: s
     .map((entry) => normalizeFailingStudent(entry))
     .filter((entry): entry is FailingStudent => Boolean(entry));
 
+  // Written by the aggregation job (`lib/analyticsAggregation.ts`), so empty lists are real results.
   return {
     teacherId,
-    updatedAt: toIsoString(snapshotData.updatedAt) ?? mockAnalytics.updatedAt,
-    reportingPeriod: toIsoString(snapshotData.reportingPeriod) ?? mockAnalytics.reportingPeriod,
-    averageAttendanceRate: toNumber(snapshotData.averageAttendanceRate, mockAnalytics.averageAttendanceRate),
+    updatedAt: toIsoString(snapshotData.updatedAt),
+    reportingPeriod: toIsoString(snapshotData.reportingPeriod),
+    averageAttendanceRate: toNumber(snapshotData.averageAttendanceRate, 0),
     dropoutRiskCount: toNumber(snapshotData.dropoutRiskCount, dropoutRiskStudents.length),
     failingStudentsCount: toNumber(snapshotData.failingStudentsCount, failingStudents.length),
-    classes: classes.length ? classes : mockAnalytics.classes,
-    dropoutRiskStudents: dropoutRiskStudents.length ? dropoutRiskStudents : mockAnalytics.dropoutRiskStudents,
-    failingStudents: failingStudents.length ? failingStudents : mockAnalytics.failingStudents
+    classes,
+    dropoutRiskStudents,
+    failingStudents
   } satisfies TeacherAnalytics;
 }
 
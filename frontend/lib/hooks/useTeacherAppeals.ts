@@ -0,0 +1,93 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { collection, onSnapshot, query, where, type QuerySnapshot } from 'firebase/firestore';
+import { getFirestoreDb, isFirebaseConfigured } from '@/lib/firebase';
+import { normalizeAppeal, resolveAppeal, type AppealStatus, type AttendanceAppeal } from '@/lib/appeals';
+
+export type { AttendanceAppeal, AppealStatus } from '@/lib/appeals';
+
+const mockAppeals: AttendanceAppeal[] = [
+  {
+    id: 's2_mock-log-1',
+    studentId: 's2',
+    studentName: 'Arjun Patel',
+    teacherId: 'demo-teacher',
+    sessionId: 'mock-1',
+    classId: 'mock-class-1',
+    className: 'Grade 10 — Section A',
+    subject: 'Mathematics',
+    logId: 'mock-log-1',
+    logStatus: 'flagged',
+    category: 'gps-error',
+    reason: 'I was in the front row but my phone showed the location near the parking lot.',
+    attachment: null,
+    status: 'pending',
+    resolutionNote: null,
+    resolvedBy: null,
+    resolvedAt: null,
+    submittedAt: new Date(Date.now() - 1000 * 60 * 20).toISOString()
+  }
+];
+
+const STATUS_ORDER: Record<AppealStatus, number> = { pending: 0, accepted: 1, rejected: 1 };
+
+function sortAppeals(appeals: AttendanceAppeal[]) {
+  return [...appeals].sort(
+    (a, b) =>
+      STATUS_ORDER[a.status] - STATUS_ORDER[b.status] ||
+      new Date(b.submittedAt).getTime() - new Date(a.submittedAt).getTime()
+  );
+}
+
+export function useTeacherAppeals(teacher: { uid: string; displayName?: string | null } | null | undefined) {
+  const [appeals, setAppeals] = useState<AttendanceAppeal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const teacherId = teacher?.uid;
+
+  useEffect(() => {
+    if (!teacherId || !isFirebaseConfigured) {
+      setAppeals(mockAppeals);
+      setLoading(false);
+      return () => undefined;
+    }
+
+    const q = query(collection(getFirestoreDb(), 'appeals'), where('teacherId', '==', teacherId));
+
+    const unsubscribe = onSnapshot(
+      q,
+      (snapshot: QuerySnapshot<Record<string, unknown>>) => {
+        setAppeals(sortAppeals(snapshot.docs.map((docSnapshot) => normalizeAppeal(docSnapshot.id, docSnapshot.data()))));
+        setLoading(false);
+      },
+      (error) => {
+        console.error('Failed to load appeals', error);
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [teacherId]);
+
+  const resolve = useCallback(
+    async (appeal: AttendanceAppeal, resolution: Exclude<AppealStatus, 'pending'>, note: string) => {
+      const resolved = await resolveAppeal({
+        appeal,
+        resolution,
+        note,
+        reviewer: { uid: teacher?.uid ?? 'demo-teacher', displayName: teacher?.displayName ?? null }
+      });
+
+      if (!isFirebaseConfigured) {
+        setAppeals((previous) => sortAppeals(previous.map((entry) => (entry.id === resolved.id ? resolved : entry))));
+      }
+    },
+    [teacher?.displayName, teacher?.uid]
+  );
+
+  return {
+    appeals,
+    loading,
+    resolve
+  };
+}
@@ -0,0 +1,157 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { collection, onSnapshot, query, where, type QuerySnapshot } from 'firebase/firestore';
+import { getFirestoreDb, isFirebaseConfigured } from '@/lib/firebase';
+import {
+  addStudentsToClass,
+  createClass,
+  deleteClass,
+  normalizeClassRecord,
+  removeStudentFromClass,
+  type ClassRecord,
+  type RosterEntryInput
+} from '@/lib/classRoster';
+
+export type { ClassRecord, RosterEntry } from '@/lib/classRoster';
+
+const mockClasses: ClassRecord[] = [
+  {
+    id: 'mock-class-1',
+    teacherId: 'mock-teacher',
+    name: 'Grade 10 — Section A',
+    subject: 'Mathematics',
+    roster: [
+      {
+        rosterId: 'r1',
+        name: 'Riya Sharma',
+        email: 'riya.sharma@example.edu',
+        studentNumber: 'G10A-01',
+        studentId: 's1',
+        addedAt: new Date().toISOString()
+      },
+      {
+        rosterId: 'r2',
+        name: 'Arjun Patel',
+        email: 'arjun.patel@example.edu',
+        studentNumber: 'G10A-02',
+        studentId: 's2',
+        addedAt: new Date().toISOString()
+      },
+      {
+        rosterId: 'r3',
+        name: 'Meera Nair',
+        email: 'meera.nair@example.edu',
+        studentNumber: 'G10A-03',
+        studentId: null,
+        addedAt: new Date().toISOString()
+      }
+    ],
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString()
+  },
+  {
+    id: 'mock-class-2',
+    teacherId: 'mock-teacher',
+    name: 'Grade 12 — Section C',
+    subject: 'Physics Lab',
+    roster: [
+      {
+        rosterId: 'r4',
+        name: 'Devika Iyer',
+        email: 'devika.iyer@example.edu',
+        studentNumber: 'G12C-07',
+        studentId: 's3',
+        addedAt: new Date().toISOString()
+      },
+      {
+        rosterId: 'r5',
+        name: 'Kunal Singh',
+        email: 'kunal.singh@example.edu',
+        studentNumber: 'G12C-11',
+        studentId: 's4',
+        addedAt: new Date().toISOString()
+      }
+    ],
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString()
+  }
+];
+
+export function useTeacherClasses(teacherId?: string) {
+  const [classes, setClasses] = useState<ClassRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!teacherId || !isFirebaseConfigured) {
+      setClasses(mockClasses);
+      setLoading(false);
+      return () => undefined;
+    }
+
+    const q = query(collection(getFirestoreDb(), 'classes'), where('teacherId', '==', teacherId));
+
+    const unsubscribe = onSnapshot(
+      q,
+      (snapshot: QuerySnapshot<Record<string, unknown>>) => {
+        const nextClasses = snapshot.docs
+          .map((docSnapshot) => normalizeClassRecord(docSnapshot.id, docSnapshot.data() ?? {}))
+          .sort((a, b) => a.name.localeCompare(b.name));
+        setClasses(nextClasses);
+        setLoading(false);
+      },
+      (error) => {
+        console.error('Failed to load classes', error);
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [teacherId]);
+
+  const replaceRoster = useCallback((classId: string, roster: ClassRecord['roster']) => {
+    setClasses((previous) => previous.map((entry) => (entry.id === classId ? { ...entry, roster } : entry)));
+  }, []);
+
+  const addClass = useCallback(
+    async (params: { name: string; subject: string }) => {
+      const created = await createClass({ teacherId: teacherId ?? 'mock-teacher', ...params });
+      if (!isFirebaseConfigured) {
+        setClasses((previous) => [...previous, created].sort((a, b) => a.name.localeCompare(b.name)));
+      }
+      return created;
+    },
+    [teacherId]
+  );
+
+  const addStudents = useCallback(
+    async (classRecord: ClassRecord, additions: RosterEntryInput[]) => {
+      const roster = await addStudentsToClass(classRecord, additions);
+      replaceRoster(classRecord.id, roster);
+      return roster.length - classRecord.roster.length;
+    },
+    [replaceRoster]
+  );
+
+  const removeStudent = useCallback(
+    async (classRecord: ClassRecord, rosterId: string) => {
+      const roster = await removeStudentFromClass(classRecord, rosterId);
+      replaceRoster(classRecord.id, roster);
+    },
+    [replaceRoster]
+  );
+
+  const removeClass = useCallback(async (classId: string) => {
+    await deleteClass(classId);
+    setClasses((previous) => previous.filter((entry) => entry.id !== classId));
+  }, []);
+
+  return {
+    classes,
+    loading,
+    addClass,
+    addStudents,
+    removeStudent,
+    removeClass
+  };
+}
@@ -0,0 +1,107 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { collection, onSnapshot, query, where, type QuerySnapshot } from 'firebase/firestore';
+import { getFirestoreDb, isFirebaseConfigured } from '@/lib/firebase';
+import {
+  createRoom,
+  deleteRoom,
+  normalizeRoomRecord,
+  updateRoom,
+  type RoomInput,
+  type RoomRecord
+} from '@/lib/rooms';
+
+export type { RoomInput, RoomRecord } from '@/lib/rooms';
+
+const mockRooms: RoomRecord[] = [
+  {
+    id: 'mock-room-1',
+    teacherId: 'mock-teacher',
+    name: 'Room 204',
+    building: 'Science Block',
+    geofence: {
+      type: 'polygon',
+      vertices: [
+        { latitude: 12.97225, longitude: 77.59315 },
+        { latitude: 12.97225, longitude: 77.59345 },
+        { latitude: 12.97195, longitude: 77.59345 },
+        { latitude: 12.97195, longitude: 77.59315 }
+      ]
+    },
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString()
+  },
+  {
+    id: 'mock-room-2',
+    teacherId: 'mock-teacher',
+    name: 'Physics Lab',
+    building: 'Main Building',
+    geofence: { type: 'radius', center: { latitude: 12.9344, longitude: 77.6107 }, radiusMeters: 25 },
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString()
+  }
+];
+
+export function useTeacherRooms(teacherId?: string) {
+  const [rooms, setRooms] = useState<RoomRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!teacherId || !isFirebaseConfigured) {
+      setRooms(mockRooms);
+      setLoading(false);
+      return () => undefined;
+    }
+
+    const q = query(collection(getFirestoreDb(), 'rooms'), where('teacherId', '==', teacherId));
+
+    const unsubscribe = onSnapshot(
+      q,
+      (snapshot: QuerySnapshot<Record<string, unknown>>) => {
+        const nextRooms = snapshot.docs
+          .map((docSnapshot) => normalizeRoomRecord(docSnapshot.id, docSnapshot.data() ?? {}))
+          .filter((room): room is RoomRecord => room !== null)
+          .sort((a, b) => a.name.localeCompare(b.name));
+        setRooms(nextRooms);
+        setLoading(false);
+      },
+      (error) => {
+        console.error('Failed to load rooms', error);
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [teacherId]);
+
+  const addRoom = useCallback(
+    async (input: RoomInput) => {
+      const created = await createRoom(teacherId ?? 'mock-teacher', input);
+      if (!isFirebaseConfigured) {
+        setRooms((previous) => [...previous, created].sort((a, b) => a.name.localeCompare(b.name)));
+      }
+      return created;
+    },
+    [teacherId]
+  );
+
+  const editRoom = useCallback(async (room: RoomRecord, input: RoomInput) => {
+    const updated = await updateRoom(room, input);
+    setRooms((previous) => previous.map((entry) => (entry.id === room.id ? updated : entry)));
+    return updated;
+  }, []);
+
+  const removeRoom = useCallback(async (roomId: string) => {
+    await deleteRoom(roomId);
+    setRooms((previous) => previous.filter((entry) => entry.id !== roomId));
+  }, []);
+
+  return {
+    rooms,
+    loading,
+    addRoom,
+    editRoom,
+    removeRoom
+  };
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   Timestamp,
   collection,
@@ -9,12 +9,30 @@ import {
   onSnapshot,
   orderBy,
   query,
-  type QuerySnapshot
+  type QuerySnapshot,
+  type Unsubscribe
 } from 'firebase/firestore';
 import { getFirestoreDb, isFirebaseConfigured } from '@/lib/firebase';
+import { normalizeReview, type AttendanceReview } from '@/lib/attendanceReview';
+import { parseClassroomSignalFingerprint, type ClassroomSignalFingerprint } from '@shared/classroom-signals';
+import {
+  normalizeFaceVerification,
+  normalizeLiveness,
+  type FaceVerification,
+  type LivenessCheck
+} from '@/lib/faceVerification';
+import type { QrRotationConfig } from '@/lib/qrTokens';
+import {
+  applySessionTransition,
+  deriveSessionStatus,
+  getSessionWindow,
+  persistSessionTransition,
+  type SessionStatus
+} from '@/lib/sessionLifecycle';
+import { normalizeGeofence, type RoomGeofence } from '@/lib/utils/geofence';
 
-type SessionStatus = 'scheduled' | 'active' | 'completed';
-type AttendanceStatus = 'present' | 'flagged' | 'late';
+export type { SessionStatus };
+export type AttendanceStatus = 'present' | 'flagged' | 'late' | 'absent';
 
 export interface SessionLocationCoordinates {
   latitude: number;
@@ -29,17 +47,32 @@ export interface SessionAttendee {
   status: AttendanceStatus;
   scannedAt?: string;
   proximityMeters?: number;
+  faceVerification?: FaceVerification;
+  liveness?: LivenessCheck;
+  review?: AttendanceReview;
 }
 
 export interface AttendanceSession {
   id: string;
+  classId?: string;
   className: string;
   subject: string;
   scheduledFor: string;
+  durationMinutes: number;
+  lateGraceMinutes?: number;
   location: string;
   locationCoordinates?: SessionLocationCoordinates;
+  signalFingerprint?: ClassroomSignalFingerprint;
+  roomId?: string;
+  roomName?: string;
+  geofence?: RoomGeofence;
   status: SessionStatus;
+  startedAt?: string;
+  endedAt?: string;
+  cancelledAt?: string;
+  absenteesRecordedAt?: string;
   qrCodeData?: string;
+  qrRotation?: QrRotationConfig;
   sessionToken?: string;
   expectedAttendance: number;
   attendees: SessionAttendee[];
@@ -52,12 +85,14 @@ interface SessionsMetrics {
   activeSession?: AttendanceSession;
 }
 
-const mockSessions: AttendanceSession[] = [
+export const mockSessions: AttendanceSession[] = [
   {
     id: 'mock-1',
+    classId: 'mock-class-1',
     className: 'Grade 10 — Section A',
     subject: 'Mathematics',
     scheduledFor: new Date(Date.now() + 1000 * 60 * 30).toISOString(),
+    durationMinutes: 45,
     location: '12.9721, 77.5933',
     locationCoordinates: {
       latitude: 12.9721,
@@ -75,23 +110,29 @@ const mockSessions: AttendanceSession[] = [
         name: 'Riya Sharma',
         status: 'present',
         scannedAt: new Date().toISOString(),
-        proximityMeters: 3
+        proximityMeters: 3,
+        faceVerification: { verdict: 'matched', distance: 0.712, threshold: 1, source: 'server' },
+        liveness: { challenge: 'blink', passed: true, confidence: 0.92 }
       },
       {
         id: 's2',
         name: 'Arjun Patel',
         status: 'flagged',
         scannedAt: new Date().toISOString(),
-        proximityMeters: 28
+        proximityMeters: 28,
+        faceVerification: { verdict: 'mismatch', distance: 1.238, threshold: 1, source: 'server' },
+        liveness: { challenge: 'turn-left', passed: false, confidence: 0.21 }
       }
     ],
     createdAt: new Date().toISOString()
   },
   {
     id: 'mock-2',
+    classId: 'mock-class-2',
     className: 'Grade 12 — Section C',
     subject: 'Physics Lab',
     scheduledFor: new Date(Date.now() - 1000 * 60 * 45).toISOString(),
+    durationMinutes: 90,
     location: '12.9344, 77.6107',
     locationCoordinates: {
       latitude: 12.9344,
@@ -100,6 +141,7 @@ const mockSessions: AttendanceSession[] = [
       capturedAt: new Date().toISOString()
     },
     status: 'active',
+    startedAt: new Date(Date.now() - 1000 * 60 * 45).toISOString(),
     qrCodeData: 'mock-session-2',
     sessionToken: 'mock-token-2',
     expectedAttendance: 28,
@@ -109,165 +151,180 @@ const mockSessions: AttendanceSession[] = [
         name: 'Devika Iyer',
         status: 'present',
         scannedAt: new Date().toISOString(),
-        proximityMeters: 6
+        proximityMeters: 6,
+        faceVerification: { verdict: 'matched', distance: 0.634, threshold: 1, source: 'server' },
+        liveness: { challenge: 'smile', passed: true, confidence: 0.88 }
       },
       {
         id: 's4',
         name: 'Kunal Singh',
         status: 'late',
         scannedAt: new Date().toISOString(),
-        proximityMeters: 5
+        proximityMeters: 5,
+        faceVerification: { verdict: 'enrolled', distance: null, threshold: 1, source: 'server' },
+        liveness: { challenge: 'turn-right', passed: true, confidence: 0.74 }
       }
     ],
     createdAt: new Date().toISOString()
   }
 ];
 
-async function loadPublicAttendees(sessionToken: string): Promise<SessionAttendee[]> {
-  try {
-    const snapshot = await getDocs(collection(getFirestoreDb(), 'publicSessions', sessionToken, 'attendances'));
-    return snapshot.docs.map((docSnapshot) => {
-      const data = docSnapshot.data() ?? {};
-      const scannedAtValue = data.scannedAt as unknown;
-      const proximityValue = data.proximityMeters as unknown;
-
-      const scannedAt =
-        scannedAtValue instanceof Timestamp
-          ? scannedAtValue.toDate().toISOString()
-          : typeof scannedAtValue === 'string'
-            ? scannedAtValue
-            : undefined;
-
-      const proximityMeters =
-        typeof proximityValue === 'number'
-          ? proximityValue
-          : Number.isFinite(Number(proximityValue))
-            ? Number(proximityValue)
-            : undefined;
-
-      return {
-        id: String(data.studentId ?? docSnapshot.id ?? ''),
-        name: String(data.studentName ?? 'Student'),
-        status: (data.status as AttendanceStatus) ?? 'present',
-        scannedAt,
-        proximityMeters
-      } satisfies SessionAttendee;
-    });
-  } catch (error) {
-    console.error('Failed to load public attendees', error);
-    return [];
-  }
+function toIsoString(value: unknown): string | undefined {
+  return value instanceof Timestamp ? value.toDate().toISOString() : typeof value === 'string' ? value : undefined;
 }
 
-async function transformSnapshot(snapshot: QuerySnapshot<Record<string, unknown>>) {
-  const sessions = await Promise.all(
-    snapshot.docs.map(async (doc) => {
-    const data = doc.data() ?? {};
-      const attendees: SessionAttendee[] = Array.isArray(data.attendees)
-        ? data.attendees.map((attendeeRaw: unknown) => {
-          const attendee = attendeeRaw as Record<string, unknown>;
-          const scannedAtValue = attendee.scannedAt as unknown;
-          const proximityValue = attendee.proximityMeters as unknown;
-
-          const scannedAt =
-            scannedAtValue instanceof Timestamp
-              ? scannedAtValue.toDate().toISOString()
-              : typeof scannedAtValue === 'string'
-                ? scannedAtValue
-                : undefined;
-
-          const proximityMeters =
-            typeof proximityValue === 'number'
-              ? proximityValue
-              : Number.isFinite(Number(proximityValue))
-                ? Number(proximityValue)
-                : undefined;
-
-          return {
-            id: String(attendee.id ?? ''),
-            name: String(attendee.name ?? 'Unknown'),
-            status: (attendee.status as AttendanceStatus) ?? 'present',
-            scannedAt,
-            proximityMeters
-          } satisfies SessionAttendee;
-        })
-      : [];
-
-    const locationCoordinatesRaw = data.locationCoordinates as Record<string, unknown> | undefined;
-
-    let locationCoordinates: SessionLocationCoordinates | undefined;
-    if (locationCoordinatesRaw && typeof locationCoordinatesRaw === 'object') {
-      const latitude = Number(locationCoordinatesRaw.latitude);
-      const longitude = Number(locationCoordinatesRaw.longitude);
-
-      if (Number.isFinite(latitude) && Number.isFinite(longitude)) {
-        locationCoordinates = {
-          latitude,
-          longitude,
-          accuracy: Number.isFinite(Number(locationCoordinatesRaw.accuracy))
-            ? Number(locationCoordinatesRaw.accuracy)
-            : undefined,
-          capturedAt:
-            locationCoordinatesRaw.capturedAt instanceof Timestamp
-              ? locationCoordinatesRaw.capturedAt.toDate().toISOString()
-              : typeof locationCoordinatesRaw.capturedAt === 'string'
-                ? locationCoordinatesRaw.capturedAt
-                : undefined
-        };
-      }
+function toProximityMeters(value: unknown): number | undefined {
+  return typeof value === 'number' ? value : Number.isFinite(Number(value)) ? Number(value) : undefined;
+}
+
+/** A check-in from `publicSessions/{token}/attendances`. */
+export function normalizePublicAttendee(id: string, data: Record<string, unknown>): SessionAttendee {
+  return {
+    id: String(data.studentId ?? id ?? ''),
+    name: String(data.studentName ?? 'Student'),
+    status: (data.status as AttendanceStatus) ?? 'present',
+    scannedAt: toIsoString(data.scannedAt),
+    proximityMeters: toProximityMeters(data.proximityMeters),
+    faceVerification: normalizeFaceVerification(data.faceVerification),
+    liveness: normalizeLiveness(data.liveness),
+    review: data.review ? normalizeReview(data.review) : undefined
+  } satisfies SessionAttendee;
+}
+
+function normalizeSessionAttendee(raw: unknown): SessionAttendee {
+  const attendee = (raw ?? {}) as Record<string, unknown>;
+  return {
+    id: String(attendee.id ?? ''),
+    name: String(attendee.name ?? 'Unknown'),
+    status: (attendee.status as AttendanceStatus) ?? 'present',
+    scannedAt: toIsoString(attendee.scannedAt),
+    proximityMeters: toProximityMeters(attendee.proximityMeters),
+    faceVerification: normalizeFaceVerification(attendee.faceVerification),
+    liveness: normalizeLiveness(attendee.liveness),
+    review: attendee.review ? normalizeReview(attendee.review) : undefined
+  } satisfies SessionAttendee;
+}
+
+/** A teacher session document, with only the attendees stored on the document itself. */
+export function normalizeSession(id: string, data: Record<string, unknown>): AttendanceSession {
+  const attendees = Array.isArray(data.attendees) ? data.attendees.map(normalizeSessionAttendee) : [];
+  const locationCoordinatesRaw = data.locationCoordinates as Record<string, unknown> | undefined;
+
+  let locationCoordinates: SessionLocationCoordinates | undefined;
+  if (locationCoordinatesRaw && typeof locationCoordinatesRaw === 'object') {
+    const latitude = Number(locationCoordinatesRaw.latitude);
+    const longitude = Number(locationCoordinatesRaw.longitude);
+
+    if (Number.isFinite(latitude) && Number.isFinite(longitude)) {
+      locationCoordinates = {
+        latitude,
+        longitude,
+        accuracy: Number.isFinite(Number(locationCoordinatesRaw.accuracy))
+          ? Number(locationCoordinatesRaw.accuracy)
+          : undefined,
+        capturedAt: toIsoString(locationCoordinatesRaw.capturedAt)
+      };
     }
+  }
 
-  let combinedAttendees: SessionAttendee[] = attendees;
-  const sessionToken = typeof data.sessionToken === 'string' ? data.sessionToken : undefined;
-      if (sessionToken) {
-        const publicAttendees = await loadPublicAttendees(sessionToken);
-        if (publicAttendees.length) {
-          combinedAttendees = publicAttendees;
-        }
-      }
+  const qrRotationRaw = data.qrRotation as Record<string, unknown> | null | undefined;
+  const qrRotation: QrRotationConfig | undefined =
+    qrRotationRaw && typeof qrRotationRaw.secret === 'string' && Number(qrRotationRaw.intervalSeconds) > 0
+      ? { secret: qrRotationRaw.secret, intervalSeconds: Number(qrRotationRaw.intervalSeconds) }
+      : undefined;
 
-      return {
-      id: doc.id,
-      className: String(data.className ?? 'Untitled Class'),
-      subject: String(data.subject ?? 'Subject'),
-      scheduledFor:
-        data.scheduledFor instanceof Timestamp
-          ? data.scheduledFor.toDate().toISOString()
-          : String(data.scheduledFor ?? new Date().toISOString()),
-      location:
-        typeof data.location === 'string'
-          ? data.location
-          : locationCoordinates
-            ? `${locationCoordinates.latitude.toFixed(5)}, ${locationCoordinates.longitude.toFixed(5)}`
-            : 'Campus',
-      locationCoordinates,
+  return {
+    id,
+    classId: typeof data.classId === 'string' ? data.classId : undefined,
+    className: String(data.className ?? 'Untitled Class'),
+    subject: String(data.subject ?? 'Subject'),
+    scheduledFor: toIsoString(data.scheduledFor) ?? String(data.scheduledFor ?? new Date().toISOString()),
+    durationMinutes: Number(data.durationMinutes) > 0 ? Number(data.durationMinutes) : 45,
+    lateGraceMinutes: typeof data.lateGraceMinutes === 'number' ? data.lateGraceMinutes : undefined,
+    location:
+      typeof data.location === 'string'
+        ? data.location
+        : locationCoordinates
+          ? `${locationCoordinates.latitude.toFixed(5)}, ${locationCoordinates.longitude.toFixed(5)}`
+          : 'Campus',
+    locationCoordinates,
+    signalFingerprint: parseClassroomSignalFingerprint(data.signalFingerprint) ?? undefined,
+    roomId: typeof data.roomId === 'string' ? data.roomId : undefined,
+    roomName: typeof data.roomName === 'string' ? data.roomName : undefined,
+    geofence: normalizeGeofence(data.geofence) ?? undefined,
     status: (data.status as SessionStatus) ?? 'scheduled',
-      qrCodeData: typeof data.qrCodeData === 'string' ? data.qrCodeData : undefined,
-      sessionToken,
-      expectedAttendance:
-        typeof data.expectedAttendance === 'number'
-          ? data.expectedAttendance
-          : parseInt(String(data.expectedAttendance ?? attendees.length), 10),
-      attendees: combinedAttendees,
-      createdAt:
-        data.createdAt instanceof Timestamp
-          ? data.createdAt.toDate().toISOString()
-          : String(data.createdAt ?? new Date().toISOString())
-    } satisfies AttendanceSession;
-    })
-  );
+    startedAt: toIsoString(data.startedAt),
+    endedAt: toIsoString(data.endedAt),
+    cancelledAt: toIsoString(data.cancelledAt),
+    absenteesRecordedAt: toIsoString(data.absenteesRecordedAt),
+    qrCodeData: typeof data.qrCodeData === 'string' ? data.qrCodeData : undefined,
+    qrRotation,
+    sessionToken: typeof data.sessionToken === 'string' ? data.sessionToken : undefined,
+    expectedAttendance:
+      typeof data.expectedAttendance === 'number'
+        ? data.expectedAttendance
+        : parseInt(String(data.expectedAttendance ?? attendees.length), 10),
+    attendees,
+    createdAt: toIsoString(data.createdAt) ?? String(data.createdAt ?? new Date().toISOString())
+  } satisfies AttendanceSession;
+}
+
+/**
+ * Check-ins are read from the public attendances subcollection once it has
+ * any; absentees without an app account only exist on the session document.
+ */
+export function mergeSessionAttendees(
+  session: AttendanceSession,
+  publicAttendees: SessionAttendee[] | undefined
+): AttendanceSession {
+  if (!publicAttendees?.length) {
+    return session;
+  }
 
-  return sessions;
+  const publicIds = new Set(publicAttendees.map((attendee) => attendee.id));
+  return {
+    ...session,
+    attendees: [
+      ...publicAttendees,
+      ...session.attendees.filter((attendee) => attendee.status === 'absent' && !publicIds.has(attendee.id))
+    ]
+  };
+}
+
+function attendancesCollection(sessionToken: string) {
+  return collection(getFirestoreDb(), 'publicSessions', sessionToken, 'attendances');
+}
+
+/** One-off read of a session's check-ins, for sessions that are no longer changing. */
+export async function fetchSessionAttendees(sessionToken: string): Promise<SessionAttendee[]> {
+  const snapshot = await getDocs(attendancesCollection(sessionToken));
+  return snapshot.docs.map((docSnapshot) => normalizePublicAttendee(docSnapshot.id, docSnapshot.data() ?? {}));
+}
+
+/** Live check-ins for one session. Firestore only sends the documents that changed after the first read. */
+export function subscribeToSessionAttendees(
+  sessionToken: string,
+  onChange: (attendees: SessionAttendee[]) => void
+): Unsubscribe {
+  return onSnapshot(
+    attendancesCollection(sessionToken),
+    (snapshot) => {
+      onChange(snapshot.docs.map((docSnapshot) => normalizePublicAttendee(docSnapshot.id, docSnapshot.data() ?? {})));
+    },
+    (error) => {
+      console.error('Failed to load public attendees', error);
+    }
+  );
 }
 
 function calculateMetrics(sessions: AttendanceSession[]): SessionsMetrics {
   const upcomingCount = sessions.filter((session) => {
     const scheduled = new Date(session.scheduledFor).getTime();
-    return scheduled > Date.now() && session.status !== 'completed';
+    return scheduled > Date.now() && session.status === 'scheduled';
   }).length;
 
   const rates = sessions
-    .filter((session) => session.expectedAttendance > 0)
+    .filter((session) => session.expectedAttendance > 0 && session.status !== 'cancelled')
     .map((session) => session.attendees.filter((a) => a.status === 'present').length / session.expectedAttendance);
 
   const averageAttendanceRate = rates.length
@@ -283,9 +340,28 @@ function calculateMetrics(sessions: AttendanceSession[]): SessionsMetrics {
   };
 }
 
+const LIFECYCLE_TICK_MS = 30_000;
+
+export function withDerivedStatus(session: AttendanceSession, now = Date.now()): AttendanceSession {
+  const status = deriveSessionStatus(session, now);
+  return status === session.status ? session : { ...session, status };
+}
+
+/** The dashboard follows this many recent sessions live; older ones are on the history page. */
+export const RECENT_SESSION_LIMIT = 15;
+
 export function useTeacherSessions(teacherId?: string) {
-  const [sessions, setSessions] = useState<AttendanceSession[]>([]);
+  const [storedSessions, setSessions] = useState<AttendanceSession[]>([]);
+  const [publicAttendees, setPublicAttendees] = useState<Record<string, SessionAttendee[]>>({});
   const [loading, setLoading] = useState(true);
+  const [now, setNow] = useState(() => Date.now());
+  const pendingTransitions = useRef(new Set<string>());
+  const attendeeListeners = useRef(new Map<string, Unsubscribe>());
+
+  useEffect(() => {
+    const ticker = setInterval(() => setNow(Date.now()), LIFECYCLE_TICK_MS);
+    return () => clearInterval(ticker);
+  }, []);
 
   useEffect(() => {
     if (!teacherId || !isFirebaseConfigured) {
@@ -297,23 +373,132 @@ export function useTeacherSessions(teacherId?: string) {
     const q = query(
       collection(getFirestoreDb(), `teachers/${teacherId}/sessions`),
       orderBy('scheduledFor', 'desc'),
-      limit(15)
+      limit(RECENT_SESSION_LIMIT)
     );
 
-    const unsubscribe = onSnapshot(q, async (snapshot: QuerySnapshot<Record<string, unknown>>) => {
-      const nextSessions = await transformSnapshot(snapshot);
-      setSessions(nextSessions);
+    const unsubscribe = onSnapshot(q, (snapshot: QuerySnapshot<Record<string, unknown>>) => {
+      setSessions(snapshot.docs.map((docSnapshot) => normalizeSession(docSnapshot.id, docSnapshot.data() ?? {})));
       setLoading(false);
     });
 
     return () => unsubscribe();
   }, [teacherId]);
 
+  // One check-in listener per listed session, opened when it appears and closed
+  // when it drops off the list, so session updates never re-read attendances.
+  useEffect(() => {
+    if (!teacherId || !isFirebaseConfigured) {
+      return;
+    }
+
+    const listeners = attendeeListeners.current;
+    const tokens = new Set(
+      storedSessions.map((session) => session.sessionToken).filter((token): token is string => Boolean(token))
+    );
+
+    listeners.forEach((unsubscribe, token) => {
+      if (!tokens.has(token)) {
+        unsubscribe();
+        listeners.delete(token);
+        setPublicAttendees((previous) => {
+          const next = { ...previous };
+          delete next[token];
+          return next;
+        });
+      }
+    });
+
+    tokens.forEach((token) => {
+      if (!listeners.has(token)) {
+        listeners.set(
+          token,
+          subscribeToSessionAttendees(token, (attendees) =>
+            setPublicAttendees((previous) => ({ ...previous, [token]: attendees }))
+          )
+        );
+      }
+    });
+  }, [storedSessions, teacherId]);
+
+  useEffect(() => {
+    const listeners = attendeeListeners.current;
+    return () => {
+      listeners.forEach((unsubscribe) => unsubscribe());
+      listeners.clear();
+    };
+  }, [teacherId]);
+
+  const sessions = useMemo(
+    () =>
+      storedSessions.map((session) =>
+        withDerivedStatus(
+          mergeSessionAttendees(session, session.sessionToken ? publicAttendees[session.sessionToken] : undefined),
+          now
+        )
+      ),
+    [now, publicAttendees, storedSessions]
+  );
+
+  // Persist transitions the schedule implies so the student app and other
+  // dashboards see the same status without recomputing it themselves.
+  useEffect(() => {
+    if (!teacherId || !isFirebaseConfigured) {
+      return;
+    }
+
+    storedSessions.forEach((stored) => {
+      const derived = deriveSessionStatus(stored, now);
+      const key = `${stored.id}:${derived}`;
+
+      if (derived === stored.status || pendingTransitions.current.has(key)) {
+        return;
+      }
+
+      const { opensAt, closesAt } = getSessionWindow(stored);
+      pendingTransitions.current.add(key);
+
+      persistSessionTransition({
+        teacherId,
+        sessionId: stored.id,
+        sessionToken: stored.sessionToken,
+        from: stored.status,
+        to: derived,
+        source: 'auto',
+        effectiveAt: new Date(derived === 'active' ? opensAt : closesAt).toISOString()
+      }).catch((error) => {
+        console.error('Failed to persist automatic session transition', error);
+        pendingTransitions.current.delete(key);
+      });
+    });
+  }, [now, storedSessions, teacherId]);
+
+  const transitionSession = useCallback(
+    async (session: AttendanceSession, nextStatus: SessionStatus) => {
+      if (!teacherId || !isFirebaseConfigured) {
+        setSessions((previous) =>
+          previous.map((entry) => (entry.id === session.id ? applySessionTransition(entry, nextStatus) : entry))
+        );
+        return;
+      }
+
+      await persistSessionTransition({
+        teacherId,
+        sessionId: session.id,
+        sessionToken: session.sessionToken,
+        from: session.status,
+        to: nextStatus,
+        source: 'teacher'
+      });
+    },
+    [teacherId]
+  );
+
   const metrics = useMemo(() => calculateMetrics(sessions), [sessions]);
 
   return {
     sessions,
     loading,
-    metrics
+    metrics,
+    transitionSession
   };
 }
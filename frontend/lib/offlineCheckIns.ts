@@ -0,0 +1,92 @@
+import { computeSignature, constantTimeEquals, type SignedQrWindow } from '@/lib/qrTokens';
+import type { GeoPoint } from '@/lib/utils/geo';
+
+/** Sent with a check-in the student app captured without connectivity and queued. */
+export interface OfflineCapture {
+  /** Device clock at capture, epoch milliseconds. */
+  capturedAt: number;
+  /** Hex HMAC-SHA256 of `buildOfflineCheckInMessage`, keyed with the device's attested signing key. */
+  signature: string;
+}
+
+/** The parts of a check-in request the device signs. */
+interface SignedCheckInFields {
+  sessionToken: string;
+  deviceKey: string;
+  location: GeoPoint;
+  rotation?: SignedQrWindow;
+}
+
+export type OfflineCaptureFailure = 'unattested' | 'forged' | 'future' | 'too-late';
+
+/** Queued check-ins older than this are refused, however the session was timed. */
+export const MAX_OFFLINE_SYNC_DELAY_MS = 72 * 60 * 60 * 1000;
+
+// Phones that set their clock from the network drift by seconds, not minutes.
+const MAX_CAPTURE_CLOCK_SKEW_MS = 2 * 60_000;
+
+/**
+ * The student app signs this exact string, so keep the format in sync with
+ * `buildOfflineCheckInMessage` in `smart-attender-student/services/offline-check-ins.ts`.
+ */
+export function buildOfflineCheckInMessage(request: SignedCheckInFields, capturedAt: number): string {
+  return [
+    request.sessionToken,
+    request.deviceKey,
+    capturedAt,
+    request.location.latitude.toFixed(6),
+    request.location.longitude.toFixed(6),
+    request.rotation?.window ?? '',
+    request.rotation?.nonce ?? ''
+  ].join(':');
+}
+
+export function parseOfflineCapture(raw: unknown): OfflineCapture | undefined {
+  if (!raw || typeof raw !== 'object') {
+    return undefined;
+  }
+
+  const data = raw as Record<string, unknown>;
+  const capturedAt = data.capturedAt;
+  const signature = data.signature;
+
+  if (typeof capturedAt !== 'number' || !Number.isFinite(capturedAt) || typeof signature !== 'string' || !signature) {
+    return undefined;
+  }
+
+  return { capturedAt, signature };
+}
+
+/**
+ * Checks that the queued record was signed with the key the device registered
+ * when it last passed attestation (see `deviceSigningKeys`), and was synced
+ * within `MAX_OFFLINE_SYNC_DELAY_MS`. Returns the reason it was refused, or
+ * null when the capture time can be used in place of server time. The device
+ * still chose that time, so callers hold every offline record for review.
+ */
+export async function verifyOfflineCapture(
+  request: SignedCheckInFields,
+  offline: OfflineCapture,
+  signingKey: string | null,
+  now = Date.now()
+): Promise<OfflineCaptureFailure | null> {
+  if (!signingKey) {
+    return 'unattested';
+  }
+
+  const expected = await computeSignature(signingKey, buildOfflineCheckInMessage(request, offline.capturedAt));
+
+  if (!constantTimeEquals(expected, offline.signature.toLowerCase())) {
+    return 'forged';
+  }
+
+  if (offline.capturedAt > now + MAX_CAPTURE_CLOCK_SKEW_MS) {
+    return 'future';
+  }
+
+  if (now - offline.capturedAt > MAX_OFFLINE_SYNC_DELAY_MS) {
+    return 'too-late';
+  }
+
+  return null;
+}
@@ -0,0 +1,139 @@
+export interface QrRotationConfig {
+  intervalSeconds: number;
+  secret: string;
+}
+
+export interface SignedQrWindow {
+  window: number;
+  intervalSeconds: number;
+  nonce: string;
+  signature: string;
+}
+
+export const DEFAULT_QR_ROTATION_SECONDS = 15;
+export const MIN_QR_ROTATION_SECONDS = 5;
+export const MAX_QR_ROTATION_SECONDS = 120;
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function randomHex(byteLength: number): string {
+  const bytes = new Uint8Array(byteLength);
+  crypto.getRandomValues(bytes);
+  return toHex(bytes);
+}
+
+export function generateRotationSecret(): string {
+  return randomHex(32);
+}
+
+export function getQrWindow(intervalSeconds: number, now = Date.now()): number {
+  return Math.floor(now / 1000 / intervalSeconds);
+}
+
+export function getWindowExpiry(window: number, intervalSeconds: number): number {
+  return (window + 1) * intervalSeconds * 1000;
+}
+
+/**
+ * Signed by the classroom screen and checked by the check-in API. The student
+ * app only forwards the signed window; it never holds the secret.
+ */
+export function buildSignatureMessage(sessionToken: string, window: number, nonce: string): string {
+  return `${sessionToken}:${window}:${nonce}`;
+}
+
+/** Hex HMAC-SHA256 of `message`; also signs offline check-ins (see `offlineCheckIns.ts`). */
+export async function computeSignature(secret: string, message: string): Promise<string> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error('Rotating QR codes require a secure browser context (HTTPS or localhost).');
+  }
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+
+  return toHex(new Uint8Array(signature));
+}
+
+export async function signQrWindow(
+  sessionToken: string,
+  config: QrRotationConfig,
+  now = Date.now()
+): Promise<SignedQrWindow> {
+  const window = getQrWindow(config.intervalSeconds, now);
+  const nonce = randomHex(8);
+  const signature = await computeSignature(config.secret, buildSignatureMessage(sessionToken, window, nonce));
+
+  return {
+    window,
+    intervalSeconds: config.intervalSeconds,
+    nonce,
+    signature
+  } satisfies SignedQrWindow;
+}
+
+export type QrVerificationFailure = 'expired' | 'clock-skew' | 'forged';
+
+// One window either side absorbs scan latency and clock drift. The student app
+// applies the same tolerance to its unsigned freshness pre-check.
+const QR_WINDOW_TOLERANCE = 1;
+
+/**
+ * The only signature check: the secret lives on the teacher's session document,
+ * so the check-in API verifies the scanned window here against server time.
+ * Returns the reason it was rejected, or null when it is genuine and fresh.
+ */
+export async function verifyQrWindow(
+  sessionToken: string,
+  rotation: SignedQrWindow,
+  config: QrRotationConfig,
+  now = Date.now()
+): Promise<QrVerificationFailure | null> {
+  if (rotation.intervalSeconds !== config.intervalSeconds) {
+    return 'forged';
+  }
+
+  const expected = await computeSignature(
+    config.secret,
+    buildSignatureMessage(sessionToken, rotation.window, rotation.nonce)
+  );
+
+  if (!constantTimeEquals(expected, rotation.signature.toLowerCase())) {
+    return 'forged';
+  }
+
+  const currentWindow = getQrWindow(config.intervalSeconds, now);
+
+  if (rotation.window < currentWindow - QR_WINDOW_TOLERANCE) {
+    return 'expired';
+  }
+
+  if (rotation.window > currentWindow + QR_WINDOW_TOLERANCE) {
+    return 'clock-skew';
+  }
+
+  return null;
+}
+
+export function constantTimeEquals(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let mismatch = 0;
+  for (let index = 0; index < a.length; index += 1) {
+    mismatch |= a.charCodeAt(index) ^ b.charCodeAt(index);
+  }
+
+  return mismatch === 0;
+}
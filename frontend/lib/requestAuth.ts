@@ -0,0 +1,55 @@
+import { getAdminAuth } from '@/lib/firebaseAdmin';
+
+// Server-only helpers for API routes called by the student app, the teacher portal and the admin console.
+
+export interface AuthenticatedCaller {
+  uid: string;
+  name: string | null;
+  email: string | null;
+}
+
+export function readBearerToken(request: Request): string | null {
+  const header = request.headers.get('authorization') ?? '';
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  return match ? match[1].trim() : null;
+}
+
+/** Resolves the signed-in student behind a request, or null when the token is missing or invalid. */
+export async function authenticateStudent(request: Request): Promise<AuthenticatedCaller | null> {
+  const idToken = readBearerToken(request);
+  if (!idToken) {
+    return null;
+  }
+
+  try {
+    const decoded = await getAdminAuth().verifyIdToken(idToken);
+    return { uid: decoded.uid, name: decoded.name ?? null, email: decoded.email ?? null };
+  } catch (error) {
+    console.warn('[Request auth] Rejected ID token', error);
+    return null;
+  }
+}
+
+/**
+ * Teacher accounts carry no custom claim, so this only proves who is calling;
+ * routes that use it act on the caller's own data and nothing else.
+ */
+export function authenticateTeacher(request: Request): Promise<AuthenticatedCaller | null> {
+  return authenticateStudent(request);
+}
+
+/** Resolves the caller only when their ID token carries the `admin` custom claim. */
+export async function authenticateAdmin(request: Request): Promise<AuthenticatedCaller | null> {
+  const idToken = readBearerToken(request);
+  if (!idToken) {
+    return null;
+  }
+
+  try {
+    const decoded = await getAdminAuth().verifyIdToken(idToken);
+    return decoded.admin === true ? { uid: decoded.uid, name: decoded.name ?? null, email: decoded.email ?? null } : null;
+  } catch (error) {
+    console.warn('[Request auth] Rejected admin ID token', error);
+    return null;
+  }
+}
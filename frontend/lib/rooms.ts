@@ -0,0 +1,155 @@
+import { Timestamp, collection, deleteDoc, doc, serverTimestamp, setDoc } from 'firebase/firestore';
+import { getFirestoreDb, isFirebaseConfigured } from '@/lib/firebase';
+import {
+  MAX_ROOM_RADIUS_METERS,
+  MIN_ROOM_RADIUS_METERS,
+  normalizeGeofence,
+  type GeofenceVertex,
+  type RoomGeofence
+} from '@/lib/utils/geofence';
+
+export interface RoomRecord {
+  id: string;
+  teacherId: string;
+  name: string;
+  building: string | null;
+  geofence: RoomGeofence;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface RoomInput {
+  name: string;
+  building: string | null;
+  geofence: RoomGeofence;
+}
+
+function generateRoomId() {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return Math.random().toString(36).slice(2, 12);
+}
+
+function toIsoString(value: unknown): string | undefined {
+  if (value instanceof Timestamp) {
+    return value.toDate().toISOString();
+  }
+  return typeof value === 'string' ? value : undefined;
+}
+
+/** Null when the stored geofence is unusable, so the room is hidden rather than matched against nothing. */
+export function normalizeRoomRecord(id: string, raw: Record<string, unknown>): RoomRecord | null {
+  const geofence = normalizeGeofence(raw.geofence);
+  if (!geofence) {
+    return null;
+  }
+
+  return {
+    id,
+    teacherId: String(raw.teacherId ?? ''),
+    name: String(raw.name ?? 'Untitled room'),
+    building: typeof raw.building === 'string' && raw.building.trim() ? raw.building.trim() : null,
+    geofence,
+    createdAt: toIsoString(raw.createdAt),
+    updatedAt: toIsoString(raw.updatedAt)
+  } satisfies RoomRecord;
+}
+
+/**
+ * Reads polygon corners pasted one per line as `latitude, longitude` — the
+ * format map apps copy. Throws with the offending line number.
+ */
+export function parsePolygonVertices(text: string): GeofenceVertex[] {
+  const vertices = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .map((line, index) => ({ line, index }))
+    .filter(({ line }) => line.length > 0)
+    .map(({ line, index }) => {
+      const [latitude, longitude] = line.split(/[\s,;]+/).map(Number);
+      if (!Number.isFinite(latitude) || !Number.isFinite(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+        throw new Error(`Line ${index + 1} is not a "latitude, longitude" pair.`);
+      }
+      return { latitude, longitude };
+    });
+
+  if (vertices.length < 3) {
+    throw new Error('A room outline needs at least three corners.');
+  }
+
+  return vertices;
+}
+
+export function describeGeofence(geofence: RoomGeofence): string {
+  return geofence.type === 'radius'
+    ? `${geofence.radiusMeters}m radius`
+    : `${geofence.vertices.length}-corner outline`;
+}
+
+function assertRoomInput(input: RoomInput): RoomGeofence {
+  if (!input.name.trim()) {
+    throw new Error('Give the room a name.');
+  }
+
+  const geofence = normalizeGeofence(input.geofence);
+  if (!geofence) {
+    throw new Error(
+      input.geofence.type === 'radius'
+        ? `Enter a centre point and a radius between ${MIN_ROOM_RADIUS_METERS} and ${MAX_ROOM_RADIUS_METERS} meters.`
+        : 'A room outline needs at least three valid corners.'
+    );
+  }
+
+  return geofence;
+}
+
+export async function createRoom(teacherId: string, input: RoomInput): Promise<RoomRecord> {
+  const geofence = assertRoomInput(input);
+  const nowIso = new Date().toISOString();
+  const record = {
+    teacherId,
+    name: input.name.trim(),
+    building: input.building?.trim() || null,
+    geofence
+  };
+
+  if (!isFirebaseConfigured) {
+    return { id: generateRoomId(), ...record, createdAt: nowIso, updatedAt: nowIso };
+  }
+
+  const roomRef = doc(collection(getFirestoreDb(), 'rooms'));
+  await setDoc(roomRef, { ...record, createdAt: serverTimestamp(), updatedAt: serverTimestamp() });
+
+  return { id: roomRef.id, ...record, createdAt: nowIso, updatedAt: nowIso };
+}
+
+/** Sessions keep their own copy of the geofence, so editing a room never changes past attendance. */
+export async function updateRoom(room: RoomRecord, input: RoomInput): Promise<RoomRecord> {
+  const geofence = assertRoomInput(input);
+  const updated: RoomRecord = {
+    ...room,
+    name: input.name.trim(),
+    building: input.building?.trim() || null,
+    geofence,
+    updatedAt: new Date().toISOString()
+  };
+
+  if (isFirebaseConfigured) {
+    await setDoc(
+      doc(getFirestoreDb(), 'rooms', room.id),
+      { name: updated.name, building: updated.building, geofence, updatedAt: serverTimestamp() },
+      { merge: true }
+    );
+  }
+
+  return updated;
+}
+
+export async function deleteRoom(roomId: string): Promise<void> {
+  if (!isFirebaseConfigured) {
+    return;
+  }
+
+  await deleteDoc(doc(getFirestoreDb(), 'rooms', roomId));
+}
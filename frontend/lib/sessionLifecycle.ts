@@ -0,0 +1,155 @@
+import { deleteField, doc, serverTimestamp, updateDoc } from 'firebase/firestore';
+import { getFirestoreDb, isFirebaseConfigured } from '@/lib/firebase';
+
+export type SessionStatus = 'scheduled' | 'active' | 'completed' | 'cancelled';
+
+export type SessionTransitionSource = 'auto' | 'teacher';
+
+export interface SessionLifecycleFields {
+  status: SessionStatus;
+  scheduledFor: string;
+  durationMinutes: number;
+  startedAt?: string;
+  endedAt?: string;
+  cancelledAt?: string;
+}
+
+export interface SessionWindow {
+  opensAt: number;
+  closesAt: number;
+}
+
+const ALLOWED_TRANSITIONS: Record<SessionStatus, SessionStatus[]> = {
+  scheduled: ['active', 'completed', 'cancelled'],
+  active: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: []
+};
+
+export function isTerminalStatus(status: SessionStatus): boolean {
+  return ALLOWED_TRANSITIONS[status].length === 0;
+}
+
+export function canTransition(from: SessionStatus, to: SessionStatus): boolean {
+  return ALLOWED_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * A manual start can open the window early or stretch it when class begins late,
+ * but it never shortens the scheduled slot.
+ */
+export function getSessionWindow(session: SessionLifecycleFields): SessionWindow {
+  const scheduledStart = new Date(session.scheduledFor).getTime();
+  const durationMs = Math.max(0, session.durationMinutes) * 60 * 1000;
+  const startedAt = session.startedAt ? new Date(session.startedAt).getTime() : Number.NaN;
+  const opensAt = Number.isFinite(startedAt) ? Math.min(startedAt, scheduledStart) : scheduledStart;
+  const plannedClose = Number.isFinite(startedAt)
+    ? Math.max(scheduledStart + durationMs, startedAt + durationMs)
+    : scheduledStart + durationMs;
+  const endedAt = session.endedAt ? new Date(session.endedAt).getTime() : Number.NaN;
+
+  return {
+    opensAt,
+    closesAt: Number.isFinite(endedAt) ? Math.min(endedAt, plannedClose) : plannedClose
+  };
+}
+
+export function deriveSessionStatus(session: SessionLifecycleFields, now = Date.now()): SessionStatus {
+  if (isTerminalStatus(session.status)) {
+    return session.status;
+  }
+
+  const { opensAt, closesAt } = getSessionWindow(session);
+
+  if (now >= closesAt) {
+    return 'completed';
+  }
+
+  if (session.status === 'active' || now >= opensAt) {
+    return 'active';
+  }
+
+  return 'scheduled';
+}
+
+export const DEFAULT_LATE_GRACE_MINUTES = 10;
+
+/**
+ * Mirrors `getLateCutoff` in the student app: lateness counts from whichever is
+ * later, the scheduled start or the moment the teacher opened the session.
+ */
+export function getLateCutoff(session: SessionLifecycleFields & { lateGraceMinutes?: number }): number {
+  const scheduledStart = new Date(session.scheduledFor).getTime();
+  const startedAt = session.startedAt ? new Date(session.startedAt).getTime() : Number.NaN;
+  const effectiveStart = Number.isFinite(startedAt) ? Math.max(startedAt, scheduledStart) : scheduledStart;
+  const graceMinutes = Math.max(0, session.lateGraceMinutes ?? DEFAULT_LATE_GRACE_MINUTES);
+
+  return effectiveStart + graceMinutes * 60 * 1000;
+}
+
+export function applySessionTransition<T extends SessionLifecycleFields>(
+  session: T,
+  nextStatus: SessionStatus,
+  now = Date.now()
+): T {
+  if (!canTransition(session.status, nextStatus)) {
+    throw new Error(`Cannot move a ${session.status} session to ${nextStatus}.`);
+  }
+
+  const timestamp = new Date(now).toISOString();
+
+  return {
+    ...session,
+    status: nextStatus,
+    startedAt: nextStatus === 'active' ? session.startedAt ?? timestamp : session.startedAt,
+    endedAt: nextStatus === 'completed' ? session.endedAt ?? timestamp : session.endedAt,
+    cancelledAt: nextStatus === 'cancelled' ? timestamp : session.cancelledAt
+  };
+}
+
+export async function persistSessionTransition(params: {
+  teacherId: string;
+  sessionId: string;
+  sessionToken?: string;
+  from: SessionStatus;
+  to: SessionStatus;
+  source: SessionTransitionSource;
+  effectiveAt?: string;
+}): Promise<void> {
+  const { teacherId, sessionId, sessionToken, from, to, source } = params;
+
+  if (!canTransition(from, to)) {
+    throw new Error(`Cannot move a ${from} session to ${to}.`);
+  }
+
+  if (!isFirebaseConfigured) {
+    return;
+  }
+
+  const db = getFirestoreDb();
+  const nowIso = params.effectiveAt ?? new Date().toISOString();
+  const updates: Record<string, unknown> = {
+    status: to,
+    statusUpdatedAt: serverTimestamp(),
+    statusChangedBy: source
+  };
+
+  // Timestamps are stored as ISO strings so the student app can evaluate the
+  // window without needing the Firestore Timestamp class.
+  if (to === 'active') {
+    updates.startedAt = nowIso;
+  } else if (to === 'completed') {
+    updates.endedAt = nowIso;
+  } else if (to === 'cancelled') {
+    updates.cancelledAt = nowIso;
+  }
+
+  const writes = [updateDoc(doc(db, 'teachers', teacherId, 'sessions', sessionId), updates)];
+
+  if (sessionToken) {
+    // Sessions created before the QR secret moved off the public copy still carry it.
+    writes.push(updateDoc(doc(db, 'publicSessions', sessionToken), { ...updates, qrRotation: deleteField() }));
+  }
+
+  await Promise.all(writes);
+}
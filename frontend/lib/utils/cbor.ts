@@ -0,0 +1,116 @@
+export type CborValue = number | string | boolean | null | undefined | Uint8Array | CborValue[] | CborMap;
+
+export interface CborMap {
+  [key: string]: CborValue;
+}
+
+/**
+ * Minimal CBOR (RFC 8949) decoder covering the definite-length subset used by
+ * WebAuthn-style attestation objects. Map keys are stringified.
+ */
+export function decodeCbor(input: Uint8Array): CborValue {
+  const view = new DataView(input.buffer, input.byteOffset, input.byteLength);
+  let offset = 0;
+
+  function readLength(additional: number): number {
+    if (additional < 24) {
+      return additional;
+    }
+
+    let value: number;
+    switch (additional) {
+      case 24:
+        value = view.getUint8(offset);
+        offset += 1;
+        return value;
+      case 25:
+        value = view.getUint16(offset);
+        offset += 2;
+        return value;
+      case 26:
+        value = view.getUint32(offset);
+        offset += 4;
+        return value;
+      case 27: {
+        const big = view.getBigUint64(offset);
+        offset += 8;
+        if (big > BigInt(Number.MAX_SAFE_INTEGER)) {
+          throw new Error('CBOR length exceeds the supported range.');
+        }
+        return Number(big);
+      }
+      default:
+        throw new Error('Indefinite-length CBOR items are not supported.');
+    }
+  }
+
+  function readBytes(length: number): Uint8Array {
+    if (offset + length > input.byteLength) {
+      throw new Error('CBOR input ended unexpectedly.');
+    }
+    const bytes = input.subarray(offset, offset + length);
+    offset += length;
+    return bytes;
+  }
+
+  function readItem(): CborValue {
+    if (offset >= input.byteLength) {
+      throw new Error('CBOR input ended unexpectedly.');
+    }
+
+    const initial = view.getUint8(offset);
+    offset += 1;
+    const major = initial >> 5;
+    const additional = initial & 0x1f;
+
+    switch (major) {
+      case 0:
+        return readLength(additional);
+      case 1:
+        return -1 - readLength(additional);
+      case 2:
+        return readBytes(readLength(additional));
+      case 3:
+        return new TextDecoder().decode(readBytes(readLength(additional)));
+      case 4: {
+        const length = readLength(additional);
+        const items: CborValue[] = [];
+        for (let index = 0; index < length; index += 1) {
+          items.push(readItem());
+        }
+        return items;
+      }
+      case 5: {
+        const length = readLength(additional);
+        const map: CborMap = {};
+        for (let index = 0; index < length; index += 1) {
+          const key = readItem();
+          map[String(key)] = readItem();
+        }
+        return map;
+      }
+      case 6:
+        readLength(additional);
+        return readItem();
+      default:
+        return readSimpleValue(additional);
+    }
+  }
+
+  return readItem();
+}
+
+function readSimpleValue(additional: number): CborValue {
+  switch (additional) {
+    case 20:
+      return false;
+    case 21:
+      return true;
+    case 22:
+      return null;
+    case 23:
+      return undefined;
+    default:
+      throw new Error('Unsupported CBOR simple value.');
+  }
+}
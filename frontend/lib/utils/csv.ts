@@ -0,0 +1,86 @@
+/**
+ * Minimal RFC 4180 reader: quoted fields, escaped quotes, and CRLF/LF line endings.
+ * Blank lines are skipped so trailing newlines in exports do not produce empty rows.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index];
+
+    if (inQuotes) {
+      if (char === '"' && source[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[index + 1] === '\n') {
+        index += 1;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows
+    .map((cells) => cells.map((cell) => cell.trim()))
+    .filter((cells) => cells.some((cell) => cell.length > 0));
+}
+
+export function normalizeHeader(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+export function findColumn(headers: string[], candidates: string[]): number {
+  const normalized = headers.map(normalizeHeader);
+  return normalized.findIndex((header) => candidates.includes(header));
+}
+
+/**
+ * RFC 4180 writer. Cells that a spreadsheet would evaluate as a formula
+ * (leading `=`, `+`, `-`, `@`) are prefixed with a quote, since names come
+ * from imported rosters.
+ */
+export function formatCsv(rows: Array<Array<string | number | null>>): string {
+  return rows
+    .map((cells) =>
+      cells
+        .map((cell) => {
+          if (cell === null) {
+            return '';
+          }
+          if (typeof cell === 'number') {
+            return String(cell);
+          }
+          const text = /^[=+\-@]/.test(cell) ? `'${cell}` : cell;
+          return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        })
+        .join(',')
+    )
+    .join('\r\n');
+}
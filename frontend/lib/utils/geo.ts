@@ -0,0 +1,53 @@
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+  accuracy?: number | null;
+}
+
+/**
+ * Same formula as `smart-attender-student/lib/utils/geo.ts`, so a distance the
+ * student sees on their phone matches the one the server records.
+ */
+export function haversineDistanceMeters(from: GeoPoint, to: GeoPoint): number {
+  const earthRadiusMeters = 6_371_000;
+
+  const dLat = degreesToRadians(to.latitude - from.latitude);
+  const dLon = degreesToRadians(to.longitude - from.longitude);
+
+  const lat1 = degreesToRadians(from.latitude);
+  const lat2 = degreesToRadians(to.latitude);
+
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(lat1) * Math.cos(lat2) * Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return Math.round(earthRadiusMeters * c);
+}
+
+export function getAccuracyMargin(studentLocation: GeoPoint, targetLocation?: GeoPoint): number {
+  return Math.max(0, studentLocation.accuracy ?? 0) + Math.max(0, targetLocation?.accuracy ?? 0);
+}
+
+/**
+ * Distance after giving the student the benefit of both GPS fixes' reported
+ * accuracy. Returns Infinity when the session has no location to compare against.
+ */
+export function computeProximity(studentLocation: GeoPoint, targetLocation?: GeoPoint): number {
+  if (!targetLocation) {
+    return Number.POSITIVE_INFINITY;
+  }
+
+  const rawDistance = haversineDistanceMeters(studentLocation, targetLocation);
+  const combinedUncertainty = getAccuracyMargin(studentLocation, targetLocation);
+
+  if (combinedUncertainty === 0) {
+    return rawDistance;
+  }
+
+  return Math.max(0, rawDistance - combinedUncertainty);
+}
+
+function degreesToRadians(deg: number): number {
+  return (deg * Math.PI) / 180;
+}
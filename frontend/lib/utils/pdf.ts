@@ -0,0 +1,133 @@
+export type PdfOperation =
+  | {
+      kind: 'text';
+      x: number;
+      y: number;
+      text: string;
+      size: number;
+      bold?: boolean;
+      /** Draws the text upwards from (x, y), for narrow column headers. */
+      vertical?: boolean;
+      align?: 'left' | 'center' | 'right';
+      gray?: number;
+    }
+  | { kind: 'line'; x1: number; y1: number; x2: number; y2: number; width?: number; gray?: number }
+  | { kind: 'rect'; x: number; y: number; width: number; height: number; gray: number };
+
+export interface PdfPageSize {
+  width: number;
+  height: number;
+}
+
+/** A4 landscape, in points. */
+export const A4_LANDSCAPE: PdfPageSize = { width: 842, height: 595 };
+
+// Helvetica advance widths (per 1000 em) for ASCII 32–126, from the standard AFM.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584
+];
+// Helvetica-Bold runs about this much wider; close enough for layout.
+const BOLD_WIDTH_FACTOR = 1.08;
+
+/** The standard fonts only cover WinAnsi; anything outside Latin-1 prints as `?`. */
+function toWinAnsi(text: string): string {
+  return Array.from(text.normalize('NFC'))
+    .map((char) => {
+      const code = char.charCodeAt(0);
+      return char.length === 1 && ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) ? char : '?';
+    })
+    .join('');
+}
+
+export function measureText(text: string, size: number, bold = false): number {
+  const units = Array.from(toWinAnsi(text)).reduce((sum, char) => {
+    const code = char.charCodeAt(0);
+    return sum + (code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556);
+  }, 0);
+  return (units * size * (bold ? BOLD_WIDTH_FACTOR : 1)) / 1000;
+}
+
+/** Shortens text with a trailing "..." until it fits `maxWidth`. */
+export function fitText(text: string, maxWidth: number, size: number, bold = false): string {
+  if (measureText(text, size, bold) <= maxWidth) {
+    return text;
+  }
+  let shortened = text;
+  while (shortened.length > 0 && measureText(`${shortened}...`, size, bold) > maxWidth) {
+    shortened = shortened.slice(0, -1);
+  }
+  return `${shortened.trimEnd()}...`;
+}
+
+function escapePdfString(text: string): string {
+  return toWinAnsi(text).replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+function renderOperation(operation: PdfOperation): string {
+  switch (operation.kind) {
+    case 'text': {
+      const width = measureText(operation.text, operation.size, operation.bold);
+      const shift = operation.align === 'center' ? width / 2 : operation.align === 'right' ? width : 0;
+      const matrix = operation.vertical
+        ? `0 1 -1 0 ${formatNumber(operation.x)} ${formatNumber(operation.y - shift)}`
+        : `1 0 0 1 ${formatNumber(operation.x - shift)} ${formatNumber(operation.y)}`;
+      return `${formatNumber(operation.gray ?? 0)} g BT /${operation.bold ? 'F2' : 'F1'} ${formatNumber(operation.size)} Tf ${matrix} Tm (${escapePdfString(operation.text)}) Tj ET`;
+    }
+    case 'line':
+      return `${formatNumber(operation.gray ?? 0)} G ${formatNumber(operation.width ?? 0.5)} w ${formatNumber(
+        operation.x1
+      )} ${formatNumber(operation.y1)} m ${formatNumber(operation.x2)} ${formatNumber(operation.y2)} l S`;
+    case 'rect':
+      return `${formatNumber(operation.gray)} g ${formatNumber(operation.x)} ${formatNumber(operation.y)} ${formatNumber(
+        operation.width
+      )} ${formatNumber(operation.height)} re f`;
+  }
+}
+
+/**
+ * Writes a PDF 1.4 file from drawing operations, one list per page, using the
+ * built-in Helvetica fonts. Coordinates are points from the bottom-left corner.
+ */
+export function buildPdf(pages: PdfOperation[][], size: PdfPageSize = A4_LANDSCAPE): Uint8Array<ArrayBuffer> {
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 5 + index * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+  pages.forEach((operations, index) => {
+    const pageId = pageIds[index];
+    const content = operations.map(renderOperation).join('\n');
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${size.width} ${size.height}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${
+      pageId + 1
+    } 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  // Every character is Latin-1 at this point, so string length equals byte length.
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id += 1) {
+    offsets[id] = output.length;
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id += 1) {
+    output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Uint8Array.from(output, (char) => char.charCodeAt(0));
+}
@@ -1,6 +1,8 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   experimental: {
+    // Scoring shared with the student app lives in ../shared.
+    externalDir: true,
     serverActions: {
       allowedOrigins: process.env.NEXT_PUBLIC_ALLOWED_ORIGINS?.split(',') ?? []
     }
@@ -0,0 +1,153 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, test } from 'node:test';
+
+import {
+  assessLocationFactors,
+  parseClassroomSignalFingerprint,
+  parseClassroomSignalScan,
+  parseIBeaconUuid,
+  scoreClassroomSignals,
+  type SignalVerdict
+} from './classroom-signals';
+
+interface RecordedScan {
+  fingerprint: unknown;
+  scan: unknown;
+  proximityMeters: number;
+  thresholdMeters: number;
+  geofenceName?: string;
+}
+
+function loadScan(name: string): RecordedScan {
+  return JSON.parse(readFileSync(join(__dirname, 'fixtures', 'classroom-signals', name), 'utf8')) as RecordedScan;
+}
+
+function replay(name: string) {
+  const recorded = loadScan(name);
+  const fingerprint = parseClassroomSignalFingerprint(recorded.fingerprint);
+  assert.ok(fingerprint, `${name} declares no fingerprint`);
+
+  const signal = scoreClassroomSignals(fingerprint, parseClassroomSignalScan(recorded.scan));
+  const location = assessLocationFactors({
+    proximityMeters: recorded.proximityMeters,
+    thresholdMeters: recorded.thresholdMeters,
+    signal,
+    geofenceName: recorded.geofenceName
+  });
+  return { signal, location };
+}
+
+const RECORDED_SCANS: Array<{
+  file: string;
+  verdict: SignalVerdict;
+  score: number;
+  flagged: boolean;
+  notes: string[];
+}> = [
+  {
+    file: 'wifi-two-access-points.json',
+    verdict: 'matched',
+    score: 1,
+    flagged: false,
+    notes: ['Classroom signal matched: 2 classroom Wi-Fi access points.']
+  },
+  {
+    file: 'wifi-indoor-drift.json',
+    verdict: 'matched',
+    score: 0.5,
+    flagged: false,
+    notes: [
+      'Classroom signal matched: 1 classroom Wi-Fi access point.',
+      'GPS placed the device 95m away; accepted on the classroom signal.'
+    ]
+  },
+  {
+    file: 'beacon-saved-room.json',
+    verdict: 'matched',
+    score: 1,
+    flagged: false,
+    notes: [
+      'Classroom signal matched: the classroom beacon (-68 dBm).',
+      'GPS placed the device 20m outside Room 204; accepted on the classroom signal.'
+    ]
+  },
+  {
+    file: 'wifi-too-weak.json',
+    verdict: 'weak',
+    score: 0,
+    flagged: true,
+    notes: ['Classroom signal was too weak to confirm presence in the room.']
+  },
+  {
+    file: 'not-detected-off-campus.json',
+    verdict: 'not-detected',
+    score: 0,
+    flagged: true,
+    notes: ['Classroom Wi-Fi or beacon was not detected.', 'Distance exceeded 50m threshold']
+  },
+  {
+    file: 'not-scanned.json',
+    verdict: 'not-scanned',
+    score: 0,
+    flagged: true,
+    notes: ['Classroom signal could not be scanned on this device.']
+  },
+  {
+    file: 'replayed-far-away.json',
+    verdict: 'matched',
+    score: 1,
+    flagged: true,
+    notes: [
+      'Classroom signal matched: 2 classroom Wi-Fi access points.',
+      'GPS placed the device 2400m away, too far for the classroom signal to vouch for it.'
+    ]
+  }
+];
+
+describe('recorded classroom scans', () => {
+  for (const expected of RECORDED_SCANS) {
+    test(expected.file, () => {
+      const { signal, location } = replay(expected.file);
+      assert.equal(signal.verdict, expected.verdict);
+      assert.equal(signal.score, expected.score);
+      assert.equal(location.flagged, expected.flagged);
+      assert.deepEqual(location.notes, expected.notes);
+    });
+  }
+});
+
+describe('assessLocationFactors without a fingerprint', () => {
+  test('passes on GPS alone inside the threshold', () => {
+    assert.deepEqual(assessLocationFactors({ proximityMeters: 40, thresholdMeters: 50, signal: null }), {
+      flagged: false,
+      notes: []
+    });
+  });
+
+  test('flags a saved-room miss with the room name', () => {
+    assert.deepEqual(
+      assessLocationFactors({ proximityMeters: 35, thresholdMeters: 0, signal: null, geofenceName: 'Lab 3' }),
+      { flagged: true, notes: ['35m outside the Lab 3 geofence'] }
+    );
+  });
+});
+
+describe('parsing', () => {
+  test('drops malformed and placeholder BSSIDs from a fingerprint', () => {
+    assert.deepEqual(
+      parseClassroomSignalFingerprint({ wifiBssids: ['02:00:00:00:00:00', 'not-a-mac', 'A4:2B:B0:10:22:01'] }),
+      { wifiBssids: ['a4:2b:b0:10:22:01'], beaconUuid: null, minRssi: -85 }
+    );
+    assert.equal(parseClassroomSignalFingerprint({ wifiBssids: ['00:00:00:00:00:00'] }), null);
+  });
+
+  test('reads the proximity UUID from iBeacon manufacturer data', () => {
+    const uuid = [0xe2, 0xc5, 0x6d, 0xb5, 0xdf, 0xfb, 0x48, 0xd2, 0xb0, 0x60, 0xd0, 0xf5, 0xa7, 0x10, 0x96, 0xe0];
+    const data = Uint8Array.from([0x4c, 0x00, 0x02, 0x15, ...uuid, 0x00, 0x01, 0x00, 0x02, 0xc5]);
+
+    assert.equal(parseIBeaconUuid(data), 'e2c56db5-dffb-48d2-b060-d0f5a71096e0');
+    assert.equal(parseIBeaconUuid(Uint8Array.from([0x06, 0x00, ...Array.from(data.slice(2))])), null);
+  });
+});
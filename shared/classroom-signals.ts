@@ -0,0 +1,289 @@
+/*
+ * Classroom signal fingerprint matching: the second location factor next to
+ * GPS. A session may declare the Wi-Fi access points expected in the room and
+ * a BLE beacon UUID broadcast from the teacher's device; the phone's scan is
+ * scored against it. Shared by the portal's check-in API and the student app's
+ * demo mode, so both record the same verdict. No platform imports, so recorded
+ * scans can be replayed under Node.
+ */
+
+export interface ClassroomSignalFingerprint {
+  /** Access points expected in the room, as lowercase colon-separated MACs. */
+  wifiBssids: string[];
+  /** iBeacon proximity UUID or advertised service UUID, lowercase and hyphenated. */
+  beaconUuid: string | null;
+  /** Readings weaker than this (dBm) are treated as coming from outside the room. */
+  minRssi: number;
+}
+
+export interface SignalObservation {
+  /** BSSID for Wi-Fi, UUID for BLE. */
+  id: string;
+  /** Null when the platform only reports the connected network without a level. */
+  rssi: number | null;
+}
+
+export interface ClassroomSignalScan {
+  wifi: SignalObservation[];
+  beacons: SignalObservation[];
+  /** Whether each radio could be scanned; a radio that was not scanned is not evidence of absence. */
+  wifiScanned: boolean;
+  bleScanned: boolean;
+}
+
+export type SignalVerdict = 'matched' | 'weak' | 'not-detected' | 'not-scanned';
+
+export interface SignalFactorResult {
+  verdict: SignalVerdict;
+  /** 0–1; 1 means the beacon or two expected access points were heard clearly. */
+  score: number;
+  matchedBssids: string[];
+  beaconRssi: number | null;
+}
+
+export interface LocationFactorAssessment {
+  flagged: boolean;
+  notes: string[];
+}
+
+export const DEFAULT_MIN_SIGNAL_RSSI = -85;
+
+const MAX_FINGERPRINT_BSSIDS = 20;
+// Two matching access points count as full confidence; one is enough to pass.
+const FULL_CONFIDENCE_BSSIDS = 2;
+const MATCH_SCORE = 0.5;
+const MAX_SCAN_OBSERVATIONS = 40;
+// Indoor fixes drift by tens of metres; a matched signal vouches for no more than this.
+export const MAX_SIGNAL_OVERRIDE_METERS = 150;
+const APPLE_COMPANY_ID = 0x004c;
+const IBEACON_TYPE = 0x02;
+const IBEACON_LENGTH = 0x15;
+
+const BSSID_PATTERN = /^[0-9a-f]{2}(:[0-9a-f]{2}){5}$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/** Accepts `AA:BB:CC:DD:EE:FF`, `aa-bb-…` or bare hex; returns null for anything else. */
+export function normalizeBssid(raw: unknown): string | null {
+  if (typeof raw !== 'string') {
+    return null;
+  }
+
+  const hex = raw.trim().toLowerCase().replace(/[^0-9a-f]/g, '');
+  if (hex.length !== 12) {
+    return null;
+  }
+
+  const bssid = hex.match(/.{2}/g)!.join(':');
+  return BSSID_PATTERN.test(bssid) && bssid !== '00:00:00:00:00:00' && bssid !== '02:00:00:00:00:00' ? bssid : null;
+}
+
+/** Accepts a 128-bit UUID with or without hyphens; returns it lowercase and hyphenated. */
+export function normalizeBeaconUuid(raw: unknown): string | null {
+  if (typeof raw !== 'string') {
+    return null;
+  }
+
+  const hex = raw.trim().toLowerCase().replace(/[^0-9a-f]/g, '');
+  if (hex.length !== 32) {
+    return null;
+  }
+
+  const uuid = `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+  return UUID_PATTERN.test(uuid) ? uuid : null;
+}
+
+/** Reads a session's declared fingerprint; null when it declares none. */
+export function parseClassroomSignalFingerprint(raw: unknown): ClassroomSignalFingerprint | null {
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+
+  const data = raw as Record<string, unknown>;
+  const wifiBssids = Array.isArray(data.wifiBssids)
+    ? Array.from(
+        new Set(data.wifiBssids.map(normalizeBssid).filter((bssid): bssid is string => bssid !== null))
+      ).slice(0, MAX_FINGERPRINT_BSSIDS)
+    : [];
+  const beaconUuid = normalizeBeaconUuid(data.beaconUuid);
+
+  if (!wifiBssids.length && !beaconUuid) {
+    return null;
+  }
+
+  const minRssi = typeof data.minRssi === 'number' && Number.isFinite(data.minRssi) ? data.minRssi : DEFAULT_MIN_SIGNAL_RSSI;
+  return { wifiBssids, beaconUuid, minRssi };
+}
+
+function readObservations(raw: unknown, normalize: (value: unknown) => string | null): SignalObservation[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  return raw
+    .slice(0, MAX_SCAN_OBSERVATIONS)
+    .map((entry) => {
+      const data = (entry ?? {}) as Record<string, unknown>;
+      const rssi = typeof data.rssi === 'number' && Number.isFinite(data.rssi) ? data.rssi : null;
+      return { id: normalize(data.id), rssi };
+    })
+    .filter((entry): entry is SignalObservation => entry.id !== null);
+}
+
+/** Validates the scan from the request body; anything malformed is treated as not scanned. */
+export function parseClassroomSignalScan(raw: unknown): ClassroomSignalScan | null {
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+
+  const data = raw as Record<string, unknown>;
+  return {
+    wifi: readObservations(data.wifi, normalizeBssid),
+    beacons: readObservations(data.beacons, normalizeBeaconUuid),
+    wifiScanned: data.wifiScanned === true,
+    bleScanned: data.bleScanned === true
+  };
+}
+
+/**
+ * Extracts the proximity UUID from iBeacon manufacturer data (company ID
+ * little-endian, then type 0x02, length 0x15, then the 16-byte UUID).
+ */
+export function parseIBeaconUuid(manufacturerData: Uint8Array): string | null {
+  if (manufacturerData.length < 25) {
+    return null;
+  }
+
+  const companyId = manufacturerData[0] | (manufacturerData[1] << 8);
+  if (companyId !== APPLE_COMPANY_ID || manufacturerData[2] !== IBEACON_TYPE || manufacturerData[3] !== IBEACON_LENGTH) {
+    return null;
+  }
+
+  const hex = Array.from(manufacturerData.slice(4, 20), (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return normalizeBeaconUuid(hex);
+}
+
+function isStrong(observation: SignalObservation, minRssi: number): boolean {
+  return observation.rssi === null || observation.rssi >= minRssi;
+}
+
+function strongestRssi(observations: SignalObservation[]): number | null {
+  const levels = observations.map((observation) => observation.rssi).filter((rssi): rssi is number => rssi !== null);
+  return levels.length ? Math.max(...levels) : null;
+}
+
+/**
+ * Scores a scan against the session's fingerprint. The Wi-Fi and beacon
+ * factors are scored separately and the stronger one counts, so a room with
+ * both only needs one of them heard clearly.
+ */
+export function scoreClassroomSignals(
+  fingerprint: ClassroomSignalFingerprint,
+  scan: ClassroomSignalScan | null
+): SignalFactorResult {
+  const wifiRelevant = fingerprint.wifiBssids.length > 0 && Boolean(scan?.wifiScanned);
+  const bleRelevant = fingerprint.beaconUuid !== null && Boolean(scan?.bleScanned);
+
+  if (!scan || (!wifiRelevant && !bleRelevant)) {
+    return { verdict: 'not-scanned', score: 0, matchedBssids: [], beaconRssi: null };
+  }
+
+  const expected = new Set(fingerprint.wifiBssids);
+  const seenWifi = wifiRelevant
+    ? scan.wifi.filter((observation) => expected.has(normalizeBssid(observation.id) ?? ''))
+    : [];
+  const strongWifi = seenWifi.filter((observation) => isStrong(observation, fingerprint.minRssi));
+  const matchedBssids = Array.from(new Set(strongWifi.map((observation) => normalizeBssid(observation.id)!)));
+
+  const seenBeacons = bleRelevant
+    ? scan.beacons.filter((observation) => normalizeBeaconUuid(observation.id) === fingerprint.beaconUuid)
+    : [];
+  const beaconHeard = seenBeacons.some((observation) => isStrong(observation, fingerprint.minRssi));
+
+  const wifiScore = Math.min(1, matchedBssids.length / Math.min(FULL_CONFIDENCE_BSSIDS, expected.size || 1));
+  const score = Number(Math.max(wifiRelevant ? wifiScore : 0, beaconHeard ? 1 : 0).toFixed(2));
+  const beaconRssi = strongestRssi(seenBeacons);
+
+  if (score >= MATCH_SCORE) {
+    return { verdict: 'matched', score, matchedBssids, beaconRssi };
+  }
+
+  const verdict: SignalVerdict = seenWifi.length || seenBeacons.length ? 'weak' : 'not-detected';
+  return { verdict, score, matchedBssids, beaconRssi };
+}
+
+export function describeSignalFactor(result: SignalFactorResult): string {
+  switch (result.verdict) {
+    case 'matched': {
+      const sources = [
+        result.matchedBssids.length
+          ? `${result.matchedBssids.length} classroom Wi-Fi access point${result.matchedBssids.length === 1 ? '' : 's'}`
+          : null,
+        result.beaconRssi !== null ? `the classroom beacon (${result.beaconRssi} dBm)` : null
+      ].filter(Boolean);
+      return `Classroom signal matched: ${sources.join(' and ') || 'classroom beacon'}.`;
+    }
+    case 'weak':
+      return 'Classroom signal was too weak to confirm presence in the room.';
+    case 'not-detected':
+      return 'Classroom Wi-Fi or beacon was not detected.';
+    default:
+      return 'Classroom signal could not be scanned on this device.';
+  }
+}
+
+function describeGpsMiss(proximityMeters: number, thresholdMeters: number, geofenceName?: string): string {
+  return geofenceName
+    ? `${proximityMeters}m outside the ${geofenceName} geofence`
+    : `Distance exceeded ${thresholdMeters}m threshold`;
+}
+
+/**
+ * Combines the GPS distance with the signal factor when the session declares a
+ * fingerprint. An unmatched signal flags the check-in even when GPS passes,
+ * because a GPS fix alone is easy to spoof. A matched signal outweighs a GPS
+ * fix that drifted outside the threshold indoors, which is a trade-off: the
+ * scan is reported by the phone, so a student who recorded the room's BSSIDs
+ * could replay them. The override is therefore capped at
+ * `MAX_SIGNAL_OVERRIDE_METERS` past the threshold, and check-ins further out
+ * are flagged whatever the scan says. Sessions held in a saved room pass
+ * `geofenceName` with a threshold of 0, since the fence already has its own size.
+ */
+export function assessLocationFactors(params: {
+  proximityMeters: number;
+  thresholdMeters: number;
+  signal: SignalFactorResult | null;
+  geofenceName?: string;
+}): LocationFactorAssessment {
+  const { proximityMeters, thresholdMeters, signal, geofenceName } = params;
+  const gpsExceeded = Number.isFinite(proximityMeters) && proximityMeters > thresholdMeters;
+  const notes: string[] = [];
+
+  if (!signal) {
+    if (gpsExceeded) {
+      notes.push(describeGpsMiss(proximityMeters, thresholdMeters, geofenceName));
+    }
+    return { flagged: gpsExceeded, notes };
+  }
+
+  notes.push(describeSignalFactor(signal));
+
+  if (signal.verdict === 'matched') {
+    if (!gpsExceeded) {
+      return { flagged: false, notes };
+    }
+
+    const where = geofenceName ? `${proximityMeters}m outside ${geofenceName}` : `${proximityMeters}m away`;
+    if (proximityMeters - thresholdMeters > MAX_SIGNAL_OVERRIDE_METERS) {
+      notes.push(`GPS placed the device ${where}, too far for the classroom signal to vouch for it.`);
+      return { flagged: true, notes };
+    }
+
+    notes.push(`GPS placed the device ${where}; accepted on the classroom signal.`);
+    return { flagged: false, notes };
+  }
+
+  if (gpsExceeded) {
+    notes.push(`Distance exceeded ${thresholdMeters}m threshold`);
+  }
+  return { flagged: true, notes };
+}
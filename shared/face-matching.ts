@@ -0,0 +1,63 @@
+/*
+ * Centroid face matching. The portal's check-in API decides verdicts with it,
+ * the student app uses it for on-device verification, and the offline
+ * evaluation script replays it, so a threshold tuned with the script is the one
+ * the server applies. No platform imports, so it runs under Node.
+ */
+
+export type FaceEmbedding = number[];
+
+/** Euclidean distance between unit embeddings; 1.0 corresponds to a cosine similarity of 0.5. */
+export const DEFAULT_FACE_VERIFICATION_THRESHOLD = 1.0;
+
+export function round(value: number): number {
+  return Number(value.toFixed(6));
+}
+
+export function l2Normalize(vector: FaceEmbedding): FaceEmbedding {
+  const magnitude = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return magnitude === 0 ? vector.map(() => 0) : vector.map((value) => value / magnitude);
+}
+
+export function computeCentroid(vectors: FaceEmbedding[]): FaceEmbedding {
+  if (!vectors.length) {
+    throw new Error('No vectors to average.');
+  }
+
+  const dimension = vectors[0].length;
+  const centroid = new Array<number>(dimension).fill(0);
+
+  vectors.forEach((vector) => {
+    if (vector.length !== dimension) {
+      throw new Error('Mismatched embedding dimensions detected.');
+    }
+
+    vector.forEach((value, index) => {
+      centroid[index] += value;
+    });
+  });
+
+  return centroid.map((value) => value / vectors.length);
+}
+
+export function euclideanDistance(a: FaceEmbedding, b: FaceEmbedding): number {
+  if (a.length !== b.length) {
+    return Number.POSITIVE_INFINITY;
+  }
+
+  const sum = a.reduce((acc, value, index) => {
+    const diff = value - b[index];
+    return acc + diff * diff;
+  }, 0);
+
+  return Math.sqrt(sum);
+}
+
+/** Distance from a probe to the normalized centroid of the reference embeddings. */
+export function distanceToReferences(probe: FaceEmbedding, references: FaceEmbedding[]): number {
+  return euclideanDistance(probe, l2Normalize(computeCentroid(references)));
+}
+
+export function isFaceMatch(distance: number, threshold: number): boolean {
+  return distance <= threshold;
+}
@@ -0,0 +1,131 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, test } from 'node:test';
+
+import {
+  assessLocationIntegrity,
+  describeLocationIntegrity,
+  parseLocationTrace,
+  type LocationFix,
+  type LocationIntegrityReason
+} from './location-integrity';
+
+interface RecordedTrace {
+  label: 'genuine' | 'spoofed';
+  submittedAt?: number;
+  fixes: unknown;
+}
+
+/** Freshness is judged against `submittedAt`, or the newest fix when the trace has none. */
+function replay(name: string) {
+  const recorded = JSON.parse(
+    readFileSync(join(__dirname, 'fixtures', 'location-traces', name), 'utf8')
+  ) as RecordedTrace;
+  const fixes = parseLocationTrace(recorded.fixes);
+  return {
+    label: recorded.label,
+    report: assessLocationIntegrity(fixes, recorded.submittedAt ?? fixes?.[fixes.length - 1]?.timestamp)
+  };
+}
+
+const RECORDED_TRACES: Array<{
+  file: string;
+  riskScore: number;
+  fixCount: number;
+  reasons: LocationIntegrityReason[];
+}> = [
+  { file: 'genuine-android-indoor.json', riskScore: 0, fixCount: 5, reasons: [] },
+  { file: 'genuine-ios-single-fix.json', riskScore: 0, fixCount: 1, reasons: [] },
+  {
+    file: 'spoofed-frozen-coordinates.json',
+    riskScore: 0.55,
+    fixCount: 4,
+    reasons: ['zero-variance', 'accuracy-mismatch']
+  },
+  {
+    file: 'spoofed-mock-provider.json',
+    riskScore: 1,
+    fixCount: 3,
+    reasons: ['mocked', 'zero-variance', 'accuracy-mismatch']
+  },
+  { file: 'spoofed-teleport.json', riskScore: 0.6, fixCount: 4, reasons: ['impossible-jump'] }
+];
+
+describe('recorded location traces', () => {
+  for (const expected of RECORDED_TRACES) {
+    test(expected.file, () => {
+      const { label, report } = replay(expected.file);
+      assert.equal(report.riskScore, expected.riskScore);
+      assert.equal(report.fixCount, expected.fixCount);
+      assert.deepEqual(
+        report.findings.map((finding) => finding.reason),
+        expected.reasons
+      );
+      assert.equal(report.flagged, label === 'spoofed');
+    });
+  }
+
+  test('explains each finding in the attendance notes', () => {
+    assert.deepEqual(describeLocationIntegrity(replay('spoofed-teleport.json').report), [
+      'Location integrity risk 60% — possible spoofing.',
+      'Position jumped 2289m in 1s between fixes.'
+    ]);
+    assert.deepEqual(describeLocationIntegrity(replay('genuine-android-indoor.json').report), []);
+  });
+});
+
+describe('assessLocationIntegrity', () => {
+  const fix = (overrides: Partial<LocationFix> = {}): LocationFix => ({
+    latitude: 41.0082,
+    longitude: 28.9784,
+    accuracy: 18,
+    altitude: 42,
+    altitudeAccuracy: 6,
+    timestamp: 1_760_000_000_000,
+    mocked: null,
+    ...overrides
+  });
+
+  test('flags a check-in without a trace', () => {
+    const report = assessLocationIntegrity(null);
+    assert.equal(report.riskScore, 0.5);
+    assert.equal(report.flagged, true);
+    assert.deepEqual(
+      report.findings.map((finding) => finding.reason),
+      ['no-trace']
+    );
+  });
+
+  test('notes a stale fix without flagging it alone', () => {
+    const report = assessLocationIntegrity([fix()], fix().timestamp + 5 * 60_000);
+    assert.equal(report.riskScore, 0.3);
+    assert.equal(report.flagged, false);
+    assert.equal(report.findings[0].detail, 'Newest fix is 300s old.');
+  });
+
+  test('distrusts a precise fix from too few satellites', () => {
+    const report = assessLocationIntegrity([fix({ accuracy: 4, satellites: 2 })], fix().timestamp);
+    assert.deepEqual(
+      report.findings.map((finding) => finding.detail),
+      ['Fix claimed ±4m from only 2 satellites.']
+    );
+  });
+
+  test('parsing drops malformed fixes and orders the rest by time', () => {
+    const parsed = parseLocationTrace([
+      { latitude: 41, longitude: 29, timestamp: 2 },
+      { latitude: 'x', longitude: 29, timestamp: 1 },
+      { latitude: 95, longitude: 29, timestamp: 3 },
+      { latitude: 41, longitude: 29, timestamp: 1, mocked: true }
+    ]);
+    assert.deepEqual(
+      parsed?.map((entry) => [entry.timestamp, entry.mocked]),
+      [
+        [1, true],
+        [2, null]
+      ]
+    );
+    assert.equal(parseLocationTrace([]), null);
+  });
+});
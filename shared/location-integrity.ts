@@ -0,0 +1,240 @@
+/*
+ * Location-integrity heuristics: looks at a short trace of GPS fixes taken at
+ * check-in for signs of a mock-location app or a replayed position. Shared by
+ * the portal's check-in API and the student app's demo mode, so both record the
+ * same risk. No platform imports; the recorded traces in
+ * `fixtures/location-traces` are replayed against it by the tests.
+ */
+
+export interface LocationFix {
+  latitude: number;
+  longitude: number;
+  /** Horizontal accuracy radius in metres, as reported by the OS. */
+  accuracy: number | null;
+  altitude: number | null;
+  altitudeAccuracy: number | null;
+  /** Epoch milliseconds from the fix itself, not from when it was read. */
+  timestamp: number;
+  /** Android's mock-provider flag; null where the platform does not report it. */
+  mocked: boolean | null;
+  /** Satellites used in the fix, when the platform exposes it. */
+  satellites?: number | null;
+}
+
+export type LocationIntegrityReason =
+  | 'mocked'
+  | 'impossible-jump'
+  | 'zero-variance'
+  | 'accuracy-mismatch'
+  | 'stale-fix'
+  | 'no-trace';
+
+export interface LocationIntegrityFinding {
+  reason: LocationIntegrityReason;
+  /** 0–1 contribution to the risk score. */
+  weight: number;
+  detail: string;
+}
+
+export interface LocationIntegrityReport {
+  /** 0–1; findings combine as independent evidence, so two weak signs outweigh one. */
+  riskScore: number;
+  flagged: boolean;
+  fixCount: number;
+  findings: LocationIntegrityFinding[];
+}
+
+export const LOCATION_RISK_FLAG_SCORE = 0.5;
+export const MAX_TRACE_FIXES = 20;
+
+// Faster than a car on campus roads once both fixes' accuracy is allowed for.
+const MAX_PLAUSIBLE_SPEED_MPS = 30;
+const ZERO_VARIANCE_MIN_FIXES = 3;
+// ~1 cm; real receivers jitter well beyond this between fixes.
+const ZERO_VARIANCE_DEGREES = 1e-7;
+const PRECISE_FIX_METERS = 10;
+const MIN_SATELLITES_FOR_PRECISE_FIX = 4;
+const MAX_FIX_AGE_MS = 2 * 60_000;
+
+const WEIGHTS: Record<LocationIntegrityReason, number> = {
+  mocked: 1,
+  'impossible-jump': 0.6,
+  'zero-variance': 0.35,
+  'accuracy-mismatch': 0.3,
+  'stale-fix': 0.3,
+  'no-trace': 0.5
+};
+
+const EARTH_RADIUS_METERS = 6_371_000;
+
+function distanceMeters(from: LocationFix, to: LocationFix): number {
+  const toRadians = Math.PI / 180;
+  const dLat = (to.latitude - from.latitude) * toRadians;
+  const dLon = (to.longitude - from.longitude) * toRadians;
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(from.latitude * toRadians) * Math.cos(to.latitude * toRadians) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function readNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/** Reads a submitted trace, dropping malformed fixes; null when nothing usable remains. */
+export function parseLocationTrace(raw: unknown): LocationFix[] | null {
+  if (!Array.isArray(raw)) {
+    return null;
+  }
+
+  const fixes = raw
+    .slice(0, MAX_TRACE_FIXES)
+    .map((entry): LocationFix | null => {
+      if (!entry || typeof entry !== 'object') {
+        return null;
+      }
+      const data = entry as Record<string, unknown>;
+      const latitude = readNumber(data.latitude);
+      const longitude = readNumber(data.longitude);
+      const timestamp = readNumber(data.timestamp);
+      if (latitude === null || longitude === null || timestamp === null || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+        return null;
+      }
+      return {
+        latitude,
+        longitude,
+        accuracy: readNumber(data.accuracy),
+        altitude: readNumber(data.altitude),
+        altitudeAccuracy: readNumber(data.altitudeAccuracy),
+        timestamp,
+        mocked: typeof data.mocked === 'boolean' ? data.mocked : null,
+        satellites: readNumber(data.satellites)
+      };
+    })
+    .filter((fix): fix is LocationFix => fix !== null)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  return fixes.length ? fixes : null;
+}
+
+function findMocked(fixes: LocationFix[]): string | null {
+  const mockedCount = fixes.filter((fix) => fix.mocked === true).length;
+  return mockedCount ? `The OS marked ${mockedCount} of ${fixes.length} fixes as coming from a mock location provider.` : null;
+}
+
+/** Consecutive fixes that would need the phone to move faster than a car, after both accuracy radii. */
+function findImpossibleJump(fixes: LocationFix[]): string | null {
+  for (let index = 1; index < fixes.length; index += 1) {
+    const previous = fixes[index - 1];
+    const current = fixes[index];
+    const seconds = Math.max((current.timestamp - previous.timestamp) / 1000, 1);
+    const slack = Math.max(0, previous.accuracy ?? 0) + Math.max(0, current.accuracy ?? 0);
+    const jump = distanceMeters(previous, current) - slack;
+
+    if (jump / seconds > MAX_PLAUSIBLE_SPEED_MPS) {
+      return `Position jumped ${Math.round(jump)}m in ${Math.round(seconds)}s between fixes.`;
+    }
+  }
+  return null;
+}
+
+/** A live receiver never repeats the exact same coordinates and accuracy several times running. */
+function findZeroVariance(fixes: LocationFix[]): string | null {
+  if (fixes.length < ZERO_VARIANCE_MIN_FIXES) {
+    return null;
+  }
+
+  const [first] = fixes;
+  const frozen = fixes.every(
+    (fix) =>
+      Math.abs(fix.latitude - first.latitude) < ZERO_VARIANCE_DEGREES &&
+      Math.abs(fix.longitude - first.longitude) < ZERO_VARIANCE_DEGREES &&
+      fix.accuracy === first.accuracy
+  );
+
+  return frozen ? `${fixes.length} fixes reported identical coordinates and accuracy.` : null;
+}
+
+/**
+ * A fix claiming a tight radius must come from satellites. Where the satellite
+ * count is unavailable, a real satellite fix still carries an altitude with its
+ * own accuracy; mock providers usually leave it empty or at exactly 0.
+ */
+function findAccuracyMismatch(fixes: LocationFix[]): string | null {
+  const precise = fixes.filter((fix) => fix.accuracy !== null && fix.accuracy <= PRECISE_FIX_METERS);
+  if (!precise.length) {
+    return null;
+  }
+
+  const fewSatellites = precise.find(
+    (fix) => typeof fix.satellites === 'number' && fix.satellites < MIN_SATELLITES_FOR_PRECISE_FIX
+  );
+  if (fewSatellites) {
+    return `Fix claimed ±${Math.round(fewSatellites.accuracy ?? 0)}m from only ${fewSatellites.satellites} satellites.`;
+  }
+
+  const withoutAltitude = precise.filter(
+    (fix) => fix.altitude === null || fix.altitude === 0 || fix.altitudeAccuracy === null
+  );
+  return withoutAltitude.length === precise.length
+    ? `Fixes claimed ±${Math.round(Math.min(...precise.map((fix) => fix.accuracy ?? 0)))}m without the altitude a satellite fix reports.`
+    : null;
+}
+
+function findStaleFix(fixes: LocationFix[], now: number): string | null {
+  const newest = fixes[fixes.length - 1];
+  const ageMs = now - newest.timestamp;
+  return Math.abs(ageMs) > MAX_FIX_AGE_MS
+    ? `Newest fix is ${Math.round(Math.abs(ageMs) / 1000)}s ${ageMs > 0 ? 'old' : 'in the future'}.`
+    : null;
+}
+
+/**
+ * Scores a trace of fixes for spoofing. Each finding contributes its weight as
+ * independent evidence (`1 − Π(1 − w)`), and the check-in is flagged at
+ * `LOCATION_RISK_FLAG_SCORE`: the mock flag or an impossible jump flags on its
+ * own, while softer signs such as frozen coordinates need to coincide.
+ */
+export function assessLocationIntegrity(
+  fixes: LocationFix[] | null,
+  now: number = Date.now()
+): LocationIntegrityReport {
+  const findings: LocationIntegrityFinding[] = [];
+  const add = (reason: LocationIntegrityReason, detail: string | null) => {
+    if (detail) {
+      findings.push({ reason, weight: WEIGHTS[reason], detail });
+    }
+  };
+
+  if (!fixes?.length) {
+    add('no-trace', 'No location trace was submitted with the check-in.');
+  } else {
+    add('mocked', findMocked(fixes));
+    add('impossible-jump', findImpossibleJump(fixes));
+    add('zero-variance', findZeroVariance(fixes));
+    add('accuracy-mismatch', findAccuracyMismatch(fixes));
+    add('stale-fix', findStaleFix(fixes, now));
+  }
+
+  const riskScore = 1 - findings.reduce((remaining, finding) => remaining * (1 - finding.weight), 1);
+  const rounded = Math.round(riskScore * 100) / 100;
+
+  return {
+    riskScore: rounded,
+    flagged: rounded >= LOCATION_RISK_FLAG_SCORE,
+    fixCount: fixes?.length ?? 0,
+    findings
+  };
+}
+
+/** Notes for the attendance record; nothing when the trace looked clean. */
+export function describeLocationIntegrity(report: LocationIntegrityReport): string[] {
+  if (!report.findings.length) {
+    return [];
+  }
+
+  return [
+    `Location integrity risk ${Math.round(report.riskScore * 100)}%${report.flagged ? ' — possible spoofing' : ''}.`,
+    ...report.findings.map((finding) => finding.detail)
+  ];
+}
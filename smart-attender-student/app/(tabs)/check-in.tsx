@@ -6,12 +6,14 @@ import { CameraView, useCameraPermissions, type BarcodeScanningResult } from 'ex
 import * as Location from 'expo-location';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
+import { DeviceTransferForm } from '@/components/device-transfer-form';
 import { Navbar } from '@/components/navbar';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { useStudentProfile } from '@/hooks/use-student-profile';
+import type { LocationFix } from '@shared/location-integrity';
 import { useAuth } from '@/providers/AuthProvider';
 import {
   parseQrPayload,
@@ -19,14 +21,27 @@ import {
   resolveSessionFromPayload,
   type ResolvedSession
 } from '@/services/attendance';
+import { scanClassroomSignals } from '@/services/classroom-signals';
+import {
+  LIVENESS_CHALLENGE_PROMPTS,
+  pickLivenessChallenge,
+  runLivenessCheck,
+  type LivenessChallenge,
+  type LivenessResult
+} from '@/services/face-liveness';
+import { PROFILE_CLASS_ID, verifyFaceForCheckIn, type FaceVerificationResult } from '@/services/face-recognition';
+import { syncFaceTemplates } from '@/services/face-templates';
+import { collectLocationFixes } from '@/services/location-integrity';
 
 interface CapturedLocation {
   latitude: number;
   longitude: number;
   accuracy?: number | null;
+  /** Every fix sampled at scan time, for the spoofing heuristics. */
+  trace: LocationFix[];
 }
 
-type CheckInStep = 'scan' | 'confirm';
+type CheckInStep = 'scan' | 'face' | 'confirm';
 
 type DeviceStatusVariant = 'approved' | 'pending' | 'blocked';
 
@@ -39,6 +54,7 @@ type StatusMeta = {
 
 const STEP_LABELS: Record<CheckInStep, string> = {
   scan: 'Scan classroom QR code',
+  face: 'Verify your face',
   confirm: 'Confirm class details'
 };
 
@@ -62,6 +78,9 @@ export default function CheckInScreen() {
   const [step, setStep] = useState<CheckInStep>('scan');
   const [pendingSession, setPendingSession] = useState<ResolvedSession | null>(null);
   const [pendingLocation, setPendingLocation] = useState<CapturedLocation | null>(null);
+  const [faceResult, setFaceResult] = useState<FaceVerificationResult | null>(null);
+  const [livenessChallenge, setLivenessChallenge] = useState<LivenessChallenge>(() => pickLivenessChallenge());
+  const [livenessResult, setLivenessResult] = useState<LivenessResult | null>(null);
   const [lastScanned, setLastScanned] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [deviceSyncing, setDeviceSyncing] = useState(false);
@@ -131,12 +150,25 @@ export default function CheckInScreen() {
     setStep('scan');
     setPendingSession(null);
     setPendingLocation(null);
+    setFaceResult(null);
+    setLivenessResult(null);
     setLastScanned(null);
     setError(null);
     setCameraFacing('back');
     setIsProcessing(false);
   }, []);
 
+  useEffect(() => {
+    if (!user) {
+      return;
+    }
+
+    // Pull the backend templates before any selfie so a new phone or an admin reset is picked up.
+    syncFaceTemplates(user).catch((syncError) => {
+      console.warn('Unable to sync face templates; verifying against local samples.', syncError);
+    });
+  }, [user]);
+
   useEffect(() => {
     if (!cameraPermission?.granted && cameraPermission?.canAskAgain) {
       requestCameraPermission().catch(() => undefined);
@@ -183,18 +215,24 @@ export default function CheckInScreen() {
         const resolvedSession = await resolveSessionFromPayload(payload);
 
         await ensureLocationPermission();
-        const position = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Highest });
+        const trace = await collectLocationFixes();
+        const bestFix = trace.reduce((best, fix) =>
+          (fix.accuracy ?? Number.POSITIVE_INFINITY) < (best.accuracy ?? Number.POSITIVE_INFINITY) ? fix : best
+        );
 
         const locationSnapshot: CapturedLocation = {
-          latitude: position.coords.latitude,
-          longitude: position.coords.longitude,
-          accuracy: position.coords.accuracy ?? null
+          latitude: bestFix.latitude,
+          longitude: bestFix.longitude,
+          accuracy: bestFix.accuracy,
+          trace
         };
 
         setPendingSession(resolvedSession);
         setPendingLocation(locationSnapshot);
         setLastScanned(scan.data);
-        setStep('confirm');
+        setCameraFacing('front');
+        setLivenessChallenge(pickLivenessChallenge());
+        setStep('face');
       } catch (err) {
         console.error(err);
         setError(err instanceof Error ? err.message : 'Unable to process this QR code.');
@@ -205,6 +243,64 @@ export default function CheckInScreen() {
     [ensureLocationPermission, isProcessing, lastScanned, step]
   );
 
+  const handleCaptureFace = useCallback(async () => {
+    if (step !== 'face' || !pendingSession || !user || isProcessing) {
+      return;
+    }
+
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      const { result: liveness, referenceImageUri } = await runLivenessCheck(livenessChallenge, async () => {
+        const frame = await cameraRef.current?.takePictureAsync({ quality: 0.3, base64: true, skipProcessing: true });
+        return frame?.uri ? { uri: frame.uri, base64: frame.base64 } : null;
+      });
+
+      setLivenessResult(liveness);
+
+      if (!referenceImageUri) {
+        throw new Error(liveness.reason ?? 'No face was found in the capture. Try again.');
+      }
+
+      const result = await verifyFaceForCheckIn({
+        imageUri: referenceImageUri,
+        studentId: user.uid,
+        classId: pendingSession.session.classId ?? PROFILE_CLASS_ID,
+        studentProfile: {
+          displayName: profile?.displayName ?? user.displayName ?? null,
+          email: user.email ?? null,
+          studentNumber: profile?.studentNumber ?? null
+        }
+      });
+
+      setFaceResult(result);
+
+      if (!liveness.passed || result.verdict === 'mismatch') {
+        // A fresh challenge per attempt so a recorded clip of one movement cannot be replayed.
+        setLivenessChallenge(pickLivenessChallenge());
+        setError(
+          !liveness.passed
+            ? `${liveness.reason ?? 'The liveness check failed.'} You can also continue and your teacher will review the check-in.`
+            : 'Your face did not match your enrolled samples. Retake the selfie in good light, or continue and your teacher will review the check-in.'
+        );
+        return;
+      }
+
+      setStep('confirm');
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Unable to verify your face right now.');
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [isProcessing, livenessChallenge, pendingSession, profile?.displayName, profile?.studentNumber, step, user]);
+
+  const handleContinueForReview = useCallback(() => {
+    setError(null);
+    setStep('confirm');
+  }, []);
+
   const handleRefreshDevice = useCallback(async () => {
     if (deviceSyncing) {
       return;
@@ -240,12 +336,18 @@ export default function CheckInScreen() {
     setError(null);
 
     try {
+      const fingerprint = pendingSession.session.signalFingerprint;
+      const signalScan = fingerprint ? await scanClassroomSignals(fingerprint) : null;
       const result = await recordAttendance({
         student: user,
         session: pendingSession,
         studentLocation: pendingLocation,
+        locationTrace: pendingLocation.trace,
         device,
-        profile
+        profile,
+        faceVerification: faceResult,
+        liveness: livenessResult,
+        signalScan
       });
 
       router.push({
@@ -269,13 +371,17 @@ export default function CheckInScreen() {
     } finally {
       setIsProcessing(false);
     }
-  }, [device, deviceApproved, isProcessing, pendingLocation, pendingSession, profile, resetWorkflow, router, user]);
+  }, [device, deviceApproved, faceResult, isProcessing, livenessResult, pendingLocation, pendingSession, profile, resetWorkflow, router, user]);
 
   const statusLabel = useMemo(() => {
     if (step === 'scan') {
       return isProcessing ? 'Processing QR…' : 'Ready to scan';
     }
 
+    if (step === 'face') {
+      return isProcessing ? 'Checking your face…' : 'Complete the face check to continue';
+    }
+
     return isProcessing ? 'Submitting attendance…' : 'Review and submit your check-in.';
   }, [isProcessing, step]);
 
@@ -317,7 +423,7 @@ export default function CheckInScreen() {
   return (
     <SafeAreaView style={[styles.safeArea, { backgroundColor }]} edges={['top', 'left', 'right']}>
       <ThemedView style={styles.screen}>
-        <Navbar subtitle="Scan your classroom QR code, confirm the class, then submit attendance." />
+        <Navbar subtitle="Scan your classroom QR code, verify your face, then submit attendance." />
         <View style={styles.cameraContainer}>
           {step === 'confirm' && pendingSession ? (
             <ThemedView style={[styles.sessionCard, { backgroundColor: cardBackground }]}> 
@@ -337,9 +443,19 @@ export default function CheckInScreen() {
                 onBarcodeScanned={step === 'scan' ? handleBarcodeScanned : undefined}
               />
               <View style={[styles.overlay, { backgroundColor: overlayBackground }]}> 
-                <ThemedText type="defaultSemiBold">Scan the QR code</ThemedText>
-                <ThemedText>Position the QR within the frame to capture it.</ThemedText>
-                <ThemedText>We’ll confirm your location when you submit.</ThemedText>
+                {step === 'face' ? (
+                  <>
+                    <ThemedText type="defaultSemiBold">{LIVENESS_CHALLENGE_PROMPTS[livenessChallenge]}</ThemedText>
+                    <ThemedText>Start with a neutral face centred in the frame, then do this once capture begins.</ThemedText>
+                    <ThemedText>We check for live movement and compare you with your enrolled face samples.</ThemedText>
+                  </>
+                ) : (
+                  <>
+                    <ThemedText type="defaultSemiBold">Scan the QR code</ThemedText>
+                    <ThemedText>Position the QR within the frame to capture it.</ThemedText>
+                    <ThemedText>We’ll confirm your location when you submit.</ThemedText>
+                  </>
+                )}
               </View>
             </View>
           )}
@@ -384,8 +500,26 @@ export default function CheckInScreen() {
                     {deviceSyncing ? 'Refreshing…' : 'Refresh device status'}
                   </ThemedText>
                 </Pressable>
+                {device && deviceStatusVariant !== 'approved' ? <DeviceTransferForm device={device} /> : null}
               </View>
 
+              {faceResult ? (
+                <View style={styles.locationBlock}>
+                  <ThemedText type="defaultSemiBold">Face verification</ThemedText>
+                  <ThemedText type="default">{describeFaceResult(faceResult)}</ThemedText>
+                  {faceResult.distance !== null ? (
+                    <ThemedText type="default" style={styles.locationMeta}>
+                      Match distance {faceResult.distance.toFixed(3)} (threshold {faceResult.threshold.toFixed(3)})
+                    </ThemedText>
+                  ) : null}
+                  {livenessResult ? (
+                    <ThemedText type="default" style={styles.locationMeta}>
+                      Liveness {livenessResult.passed ? 'passed' : 'failed'} · {Math.round(livenessResult.confidence * 100)}% confidence
+                    </ThemedText>
+                  ) : null}
+                </View>
+              ) : null}
+
               {pendingLocation ? (
                 <View style={styles.locationBlock}>
                   <ThemedText type="defaultSemiBold">Captured location</ThemedText>
@@ -427,6 +561,42 @@ export default function CheckInScreen() {
               </>
             ) : null}
 
+            {step === 'face' ? (
+              <>
+                <Pressable
+                  style={({ pressed }) => [
+                    styles.button,
+                    styles.fullWidthButton,
+                    styles.primaryAction,
+                    isProcessing ? styles.disabledButton : null,
+                    { backgroundColor: pressed ? primaryButtonColor + 'cc' : primaryButtonColor }
+                  ]}
+                  onPress={handleCaptureFace}
+                  disabled={isProcessing}
+                >
+                  <ThemedText type="defaultSemiBold" style={styles.primaryLabel} lightColor="#ffffff" darkColor="#ffffff">
+                    {isProcessing ? 'Hold still…' : faceResult ? 'Try again' : 'Start face check'}
+                  </ThemedText>
+                </Pressable>
+                {faceResult && (faceResult.verdict === 'mismatch' || !livenessResult?.passed) ? (
+                  <Pressable
+                    style={[styles.button, styles.fullWidthButton, { borderColor: tint }, isProcessing ? styles.disabledButton : null]}
+                    disabled={isProcessing}
+                    onPress={handleContinueForReview}
+                  >
+                    <ThemedText type="defaultSemiBold">Continue for teacher review</ThemedText>
+                  </Pressable>
+                ) : null}
+                <Pressable
+                  style={[styles.button, styles.fullWidthButton, { borderColor: tint }, isProcessing ? styles.disabledButton : null]}
+                  disabled={isProcessing}
+                  onPress={resetWorkflow}
+                >
+                  <ThemedText type="defaultSemiBold">Rescan QR</ThemedText>
+                </Pressable>
+              </>
+            ) : null}
+
             {step === 'confirm' ? (
               <>
                 <Pressable
@@ -492,6 +662,17 @@ function StatusIndicator({ active, label, tint }: { active: boolean; label: stri
   );
 }
 
+function describeFaceResult(result: FaceVerificationResult) {
+  switch (result.verdict) {
+    case 'matched':
+      return 'Matched your enrolled face samples.';
+    case 'mismatch':
+      return 'Did not match — your teacher will review this check-in.';
+    default:
+      return 'No face samples yet, so this selfie was saved as your baseline.';
+  }
+}
+
 function formatSessionTime(rawValue?: string) {
   if (!rawValue) {
     return 'Scheduled time unavailable';
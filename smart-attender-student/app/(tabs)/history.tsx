@@ -1,17 +1,22 @@
-import { FlatList, RefreshControl, StyleSheet, View } from 'react-native';
+import { FlatList, Pressable, RefreshControl, StyleSheet, View } from 'react-native';
 import { useEffect, useState } from 'react';
 import { formatDistanceToNow, isValid, parseISO } from 'date-fns';
 
+import { AppealForm } from '@/components/appeal-form';
 import { Navbar } from '@/components/navbar';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { useAuth } from '@/providers/AuthProvider';
 import { useAttendanceHistory } from '@/hooks/use-attendance-history';
-import type { AttendanceLog } from '@/lib/types/student';
+import { useCheckInQueue } from '@/hooks/use-check-in-queue';
+import type { AttendanceLog, LogAppeal } from '@/lib/types/student';
+import { APPEAL_CATEGORIES, canAppeal } from '@/services/appeals';
+import type { QueuedCheckIn } from '@/services/offline-check-ins';
 
 export default function HistoryScreen() {
   const { user, isMock } = useAuth();
   const { records, loading, error, refresh } = useAttendanceHistory(20);
+  const queue = useCheckInQueue();
   const [refreshing, setRefreshing] = useState(false);
 
   useEffect(() => {
@@ -23,13 +28,14 @@ export default function HistoryScreen() {
   const handleRefresh = () => {
     setRefreshing(true);
     refresh();
+    void queue.syncNow();
   };
 
   return (
     <ThemedView style={styles.screen}>
       <Navbar subtitle="Review your check-in trail." />
       <ThemedText type="title">Attendance history</ThemedText>
-      <ThemedText type="subtitle">Latest check-ins and flags.</ThemedText>
+      <ThemedText type="subtitle">Latest check-ins, flags, and absences.</ThemedText>
       <ThemedText type="default" style={styles.accountHint}>
         Viewing history as {user?.displayName ?? user?.email ?? (isMock ? 'demo student' : 'student')}
       </ThemedText>
@@ -40,6 +46,23 @@ export default function HistoryScreen() {
         contentContainerStyle={styles.listContent}
         refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
         renderItem={({ item }) => <HistoryItem log={item} />}
+        ListHeaderComponent={
+          queue.entries.length ? (
+            <View style={styles.queueSection}>
+              <View style={styles.itemHeader}>
+                <ThemedText type="defaultSemiBold">Offline check-ins</ThemedText>
+                {queue.pendingCount ? (
+                  <Pressable accessibilityRole="button" onPress={queue.syncNow} disabled={queue.syncing}>
+                    <ThemedText type="link">{queue.syncing ? 'Syncing…' : 'Sync now'}</ThemedText>
+                  </Pressable>
+                ) : null}
+              </View>
+              {queue.entries.map((entry) => (
+                <QueuedCheckInItem key={entry.id} entry={entry} />
+              ))}
+            </View>
+          ) : null
+        }
         ListEmptyComponent={
           loading ? <ThemedText>Loading history…</ThemedText> : <ThemedText>No attendance yet.</ThemedText>
         }
@@ -52,6 +75,10 @@ export default function HistoryScreen() {
 
 function HistoryItem({ log }: { log: AttendanceLog }) {
   const recordedLabel = log.recordedAtLabel ?? formatTimestamp(log.recordedAt);
+  const [appealOpen, setAppealOpen] = useState(false);
+  // Keeps a just-submitted appeal visible until the snapshot listener catches up.
+  const [submittedAppeal, setSubmittedAppeal] = useState<LogAppeal | null>(null);
+  const appeal = log.appeal ?? submittedAppeal;
 
   return (
     <ThemedView style={styles.itemCard}>
@@ -64,10 +91,67 @@ function HistoryItem({ log }: { log: AttendanceLog }) {
       {log.notes?.length ? (
         <ThemedText type="default">Notes: {log.notes.join(', ')}</ThemedText>
       ) : null}
+      {log.review && log.review.state !== 'pending' ? (
+        <ThemedText type="default" style={styles.reviewText}>
+          {describeReview(log.review)}
+        </ThemedText>
+      ) : null}
+      {appeal ? <AppealStatusRow appeal={appeal} /> : null}
+      {!appeal && canAppeal(log) && !appealOpen ? (
+        <Pressable accessibilityRole="button" onPress={() => setAppealOpen(true)}>
+          <ThemedText type="link">Appeal this record</ThemedText>
+        </Pressable>
+      ) : null}
+      {!appeal && appealOpen ? (
+        <AppealForm
+          log={log}
+          onCancel={() => setAppealOpen(false)}
+          onSubmitted={(nextAppeal) => {
+            setSubmittedAppeal(nextAppeal);
+            setAppealOpen(false);
+          }}
+        />
+      ) : null}
+    </ThemedView>
+  );
+}
+
+function QueuedCheckInItem({ entry }: { entry: QueuedCheckIn }) {
+  const meta = QUEUE_STATE_META[entry.state];
+  const detail =
+    entry.state === 'synced'
+      ? entry.result?.message || `Synced ${formatTimestamp(entry.syncedAt ?? undefined)}.`
+      : entry.state === 'rejected'
+        ? entry.error ?? 'The server did not accept this check-in.'
+        : entry.attempts
+          ? `Not sent yet: ${entry.error ?? 'no connection'}. Retrying automatically.`
+          : 'Will sync automatically when you are back online.';
+
+  return (
+    <ThemedView style={styles.itemCard}>
+      <View style={styles.itemHeader}>
+        <ThemedText type="defaultSemiBold">{entry.className}</ThemedText>
+        <View style={[styles.pill, { backgroundColor: meta.background }]}>
+          <ThemedText type="defaultSemiBold" style={[styles.pillText, { color: meta.color }]}>
+            {entry.state === 'synced' && entry.result ? `SYNCED · ${entry.result.status.toUpperCase()}` : meta.label}
+          </ThemedText>
+        </View>
+      </View>
+      <ThemedText type="default">{entry.subject}</ThemedText>
+      <ThemedText type="default">Captured {formatTimestamp(entry.capturedAt)}</ThemedText>
+      <ThemedText type="default" style={styles.reviewText}>
+        {detail}
+      </ThemedText>
     </ThemedView>
   );
 }
 
+const QUEUE_STATE_META: Record<QueuedCheckIn['state'], { label: string; color: string; background: string }> = {
+  pending: { label: 'PENDING', color: '#d08700', background: 'rgba(208, 135, 0, 0.18)' },
+  synced: { label: 'SYNCED', color: '#0a7ea4', background: 'rgba(10, 126, 164, 0.18)' },
+  rejected: { label: 'REJECTED', color: '#d64545', background: 'rgba(236, 87, 87, 0.18)' }
+};
+
 function StatusPill({ status }: { status: string }) {
   const background = status === 'present' ? 'rgba(10, 126, 164, 0.18)' : 'rgba(236, 87, 87, 0.18)';
   const color = status === 'present' ? '#0a7ea4' : '#d64545';
@@ -81,6 +165,36 @@ function StatusPill({ status }: { status: string }) {
   );
 }
 
+function AppealStatusRow({ appeal }: { appeal: LogAppeal }) {
+  const categoryLabel = APPEAL_CATEGORIES.find((option) => option.value === appeal.category)?.label ?? appeal.category;
+  const color = appeal.status === 'accepted' ? '#0a7ea4' : appeal.status === 'rejected' ? '#d64545' : '#d08700';
+  const label =
+    appeal.status === 'accepted' ? 'Appeal accepted' : appeal.status === 'rejected' ? 'Appeal rejected' : 'Appeal pending';
+
+  return (
+    <View style={styles.appealRow}>
+      <ThemedText type="defaultSemiBold" style={{ color }}>
+        {label} · {categoryLabel}
+      </ThemedText>
+      {appeal.resolutionNote ? <ThemedText style={styles.reviewText}>{appeal.resolutionNote}</ThemedText> : null}
+    </View>
+  );
+}
+
+function describeReview(review: NonNullable<AttendanceLog['review']>) {
+  const reviewer = review.decidedByName ?? 'Your teacher';
+  const reason = review.reason ? `: ${review.reason}` : '.';
+
+  switch (review.state) {
+    case 'approved':
+      return `${reviewer} approved this check-in${reason}`;
+    case 'marked-absent':
+      return `${reviewer} marked you absent${reason}`;
+    default:
+      return `${reviewer} asked for an explanation${reason}`;
+  }
+}
+
 function formatTimestamp(timestamp?: string) {
   if (!timestamp) {
     return 'Unknown time';
@@ -108,6 +222,10 @@ const styles = StyleSheet.create({
     gap: 12,
     paddingBottom: 32
   },
+  queueSection: {
+    gap: 12,
+    marginBottom: 12
+  },
   itemCard: {
     borderRadius: 16,
     padding: 16,
@@ -128,6 +246,13 @@ const styles = StyleSheet.create({
     fontSize: 12,
     letterSpacing: 0.8
   },
+  appealRow: {
+    gap: 2
+  },
+  reviewText: {
+    fontSize: 13,
+    opacity: 0.85
+  },
   errorText: {
     color: '#ff5d5d'
   }
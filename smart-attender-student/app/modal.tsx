@@ -108,6 +108,18 @@ function resolveStatusMeta(status: string, defaultTint: string) {
         tint: '#d64545',
         background: 'rgba(214, 69, 69, 0.12)'
       };
+    case 'absent':
+      return {
+        label: 'absent',
+        tint: '#d64545',
+        background: 'rgba(214, 69, 69, 0.12)'
+      };
+    case 'queued':
+      return {
+        label: 'saved offline',
+        tint: '#6b7280',
+        background: 'rgba(107, 114, 128, 0.12)'
+      };
     case 'late':
       return {
         label: 'late',
@@ -0,0 +1,235 @@
+import { ActivityIndicator, Modal, Pressable, StyleSheet, TextInput, View } from 'react-native';
+import { useRef, useState } from 'react';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import { Image } from 'expo-image';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useAuth } from '@/providers/AuthProvider';
+import type { AppealCategory, AttendanceLog, LogAppeal } from '@/lib/types/student';
+import { APPEAL_CATEGORIES, submitAppeal } from '@/services/appeals';
+
+interface AppealFormProps {
+  log: AttendanceLog;
+  onSubmitted: (appeal: LogAppeal) => void;
+  onCancel: () => void;
+}
+
+export function AppealForm({ log, onSubmitted, onCancel }: AppealFormProps) {
+  const colorScheme = useColorScheme();
+  const palette = Colors[colorScheme ?? 'light'];
+  const { user } = useAuth();
+  const [category, setCategory] = useState<AppealCategory>(log.status === 'flagged' ? 'gps-error' : 'medical');
+  const [reason, setReason] = useState('');
+  const [photoUri, setPhotoUri] = useState<string | null>(null);
+  const [cameraOpen, setCameraOpen] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [cameraPermission, requestCameraPermission] = useCameraPermissions();
+  const cameraRef = useRef<CameraView | null>(null);
+
+  const inputTextColor = colorScheme === 'dark' ? '#fff' : '#11181C';
+  const placeholderTextColor = colorScheme === 'dark' ? 'rgba(255,255,255,0.5)' : 'rgba(0,0,0,0.4)';
+
+  const handleOpenCamera = async () => {
+    if (!cameraPermission?.granted) {
+      const result = await requestCameraPermission();
+      if (!result.granted) {
+        setError('Camera access is needed to attach a photo.');
+        return;
+      }
+    }
+    setCameraOpen(true);
+  };
+
+  const handleCapture = async () => {
+    try {
+      const picture = await cameraRef.current?.takePictureAsync({ quality: 0.7 });
+      if (picture?.uri) {
+        setPhotoUri(picture.uri);
+      }
+    } catch (captureError) {
+      console.warn('Failed to capture appeal photo', captureError);
+      setError('Unable to take the photo. Try again.');
+    } finally {
+      setCameraOpen(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!user) {
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const appeal = await submitAppeal({ student: user, log, category, reason, photoUri });
+      onSubmitted(appeal);
+    } catch (submitError) {
+      console.error('Failed to submit appeal', submitError);
+      setError(submitError instanceof Error ? submitError.message : 'Unable to submit your appeal.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <ThemedText type="defaultSemiBold">Appeal this record</ThemedText>
+
+      <View style={styles.categoryRow}>
+        {APPEAL_CATEGORIES.map((option) => {
+          const selected = option.value === category;
+          return (
+            <Pressable
+              key={option.value}
+              accessibilityRole="button"
+              accessibilityState={{ selected }}
+              onPress={() => setCategory(option.value)}
+              style={[
+                styles.categoryChip,
+                { borderColor: palette.tint, backgroundColor: selected ? palette.tint : 'transparent' }
+              ]}
+            >
+              <ThemedText style={[styles.categoryLabel, { color: selected ? '#fff' : palette.tint }]}>
+                {option.label}
+              </ThemedText>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      <TextInput
+        value={reason}
+        onChangeText={setReason}
+        placeholder="What happened? Your teacher will read this."
+        placeholderTextColor={placeholderTextColor}
+        multiline
+        style={[styles.input, { borderColor: palette.tint, color: inputTextColor }]}
+      />
+
+      {photoUri ? (
+        <View style={styles.photoRow}>
+          <Image source={{ uri: photoUri }} style={styles.photo} contentFit="cover" />
+          <Pressable accessibilityRole="button" onPress={() => setPhotoUri(null)}>
+            <ThemedText style={{ color: palette.tint }}>Remove photo</ThemedText>
+          </Pressable>
+        </View>
+      ) : (
+        <Pressable accessibilityRole="button" onPress={handleOpenCamera}>
+          <ThemedText style={{ color: palette.tint }}>Attach a photo (optional)</ThemedText>
+        </Pressable>
+      )}
+
+      {error ? <ThemedText style={styles.errorText}>{error}</ThemedText> : null}
+
+      <View style={styles.actionsRow}>
+        <Pressable accessibilityRole="button" onPress={onCancel} disabled={submitting} style={styles.secondaryButton}>
+          <ThemedText style={{ color: palette.tint }}>Cancel</ThemedText>
+        </Pressable>
+        <Pressable
+          accessibilityRole="button"
+          onPress={handleSubmit}
+          disabled={submitting}
+          style={[styles.primaryButton, { backgroundColor: palette.tint, opacity: submitting ? 0.7 : 1 }]}
+        >
+          {submitting ? <ActivityIndicator color="#fff" /> : <ThemedText style={styles.primaryLabel}>Submit appeal</ThemedText>}
+        </Pressable>
+      </View>
+
+      <Modal visible={cameraOpen} animationType="slide" onRequestClose={() => setCameraOpen(false)}>
+        <ThemedView style={styles.cameraScreen}>
+          <CameraView ref={cameraRef} facing="back" style={styles.camera} />
+          <View style={styles.actionsRow}>
+            <Pressable accessibilityRole="button" onPress={() => setCameraOpen(false)} style={styles.secondaryButton}>
+              <ThemedText style={{ color: palette.tint }}>Close</ThemedText>
+            </Pressable>
+            <Pressable
+              accessibilityRole="button"
+              onPress={handleCapture}
+              style={[styles.primaryButton, { backgroundColor: palette.tint }]}
+            >
+              <ThemedText style={styles.primaryLabel}>Take photo</ThemedText>
+            </Pressable>
+          </View>
+        </ThemedView>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 10,
+    paddingTop: 4
+  },
+  categoryRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8
+  },
+  categoryChip: {
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 6
+  },
+  categoryLabel: {
+    fontSize: 13
+  },
+  input: {
+    minHeight: 80,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    textAlignVertical: 'top'
+  },
+  photoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12
+  },
+  photo: {
+    width: 64,
+    height: 64,
+    borderRadius: 8
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: 12
+  },
+  primaryButton: {
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    minWidth: 120,
+    alignItems: 'center'
+  },
+  primaryLabel: {
+    color: '#fff',
+    fontWeight: '600'
+  },
+  secondaryButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 10
+  },
+  cameraScreen: {
+    flex: 1,
+    padding: 16,
+    gap: 16
+  },
+  camera: {
+    flex: 1,
+    borderRadius: 16,
+    overflow: 'hidden'
+  },
+  errorText: {
+    color: '#ff5d5d'
+  }
+});
@@ -17,7 +17,9 @@ export function AuthGate({ children }: { children: ReactNode }) {
     loading: profileLoading,
     profile,
     device,
+    faceEnrollment,
     needsDetails,
+    needsFaceEnrollment,
     needsDeviceApproval,
     saveDetails,
     syncDevice,
@@ -43,7 +45,7 @@ export function AuthGate({ children }: { children: ReactNode }) {
     return <DemoModeNotice onContinue={() => setDemoAcknowledged(true)} />;
   }
 
-  const needsOnboarding = Boolean(user && (needsDetails || needsDeviceApproval));
+  const needsOnboarding = Boolean(user && (needsDetails || needsFaceEnrollment || needsDeviceApproval));
 
   if (user && profileLoading) {
     return <FullScreenStatus message="Preparing your profile…" />;
@@ -56,10 +58,13 @@ export function AuthGate({ children }: { children: ReactNode }) {
         profile={profile}
         device={device}
         accountEmail={accountEmail}
+        faceEnrollment={faceEnrollment}
         needsDetails={needsDetails}
+        needsFaceEnrollment={needsFaceEnrollment}
         needsDeviceApproval={needsDeviceApproval}
         onSaveDetails={saveDetails}
         onSyncDevice={syncDevice}
+        onFaceEnrolled={refresh}
         onCompleted={refresh}
       />
     );
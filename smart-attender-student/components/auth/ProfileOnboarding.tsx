@@ -1,10 +1,14 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { ActivityIndicator, KeyboardAvoidingView, Platform, Pressable, StyleSheet, TextInput, View } from 'react-native';
+import { CameraView, useCameraPermissions } from 'expo-camera';
 
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { ENROLLMENT_POSE_PROMPTS, ENROLLMENT_POSES, type EnrollmentPose } from '@/lib/face-quality';
+import { useAuth } from '@/providers/AuthProvider';
+import { enrollFacePose, type FaceEnrollmentProgress } from '@/services/face-enrollment';
 import type { StudentProfile } from '@/services/student-profile';
 import type { DeviceRegistration } from '@/services/device-trust';
 
@@ -13,28 +17,36 @@ interface ProfileOnboardingProps {
   accountEmail: string | null;
   profile: StudentProfile | null;
   device: DeviceRegistration | null;
+  faceEnrollment: FaceEnrollmentProgress | null;
   needsDetails: boolean;
+  needsFaceEnrollment: boolean;
   needsDeviceApproval: boolean;
   onSaveDetails: (updates: Partial<StudentProfile>) => Promise<void>;
   onSyncDevice: () => Promise<void>;
+  onFaceEnrolled: () => void;
   onCompleted: () => void;
 }
 
-type OnboardingStep = 'details' | 'device';
+type OnboardingStep = 'details' | 'face' | 'device';
 
 export function ProfileOnboarding({
   profile,
   device,
   accountEmail,
+  faceEnrollment,
   needsDetails,
+  needsFaceEnrollment,
   needsDeviceApproval,
   onSaveDetails,
   onSyncDevice,
+  onFaceEnrolled,
   onCompleted
 }: ProfileOnboardingProps) {
   const colorScheme = useColorScheme();
   const palette = Colors[colorScheme ?? 'light'];
-  const [step, setStep] = useState<OnboardingStep>(needsDetails ? 'details' : 'device');
+  const [step, setStep] = useState<OnboardingStep>(
+    needsDetails ? 'details' : needsFaceEnrollment ? 'face' : 'device'
+  );
   const [currentProfile, setCurrentProfile] = useState<StudentProfile | null>(profile);
 
   useEffect(() => {
@@ -44,17 +56,33 @@ export function ProfileOnboarding({
   useEffect(() => {
     if (needsDetails) {
       setStep('details');
+    } else if (needsFaceEnrollment) {
+      setStep('face');
     } else if (needsDeviceApproval) {
       setStep('device');
     } else {
       onCompleted();
     }
-  }, [needsDetails, needsDeviceApproval, onCompleted]);
+  }, [needsDetails, needsFaceEnrollment, needsDeviceApproval, onCompleted]);
 
-  if (!needsDetails && !needsDeviceApproval) {
+  if (!needsDetails && !needsFaceEnrollment && !needsDeviceApproval) {
     return null;
   }
 
+  if (step === 'face') {
+    return (
+      <FaceEnrollmentStep
+        paletteTint={palette.tint}
+        profile={currentProfile}
+        initialCompleted={faceEnrollment?.completed ?? []}
+        onCompleted={() => {
+          setStep('device');
+          onFaceEnrolled();
+        }}
+      />
+    );
+  }
+
   return step === 'details' ? (
     <DetailsStep
       paletteTint={palette.tint}
@@ -76,7 +104,7 @@ export function ProfileOnboarding({
           updatedAt: new Date().toISOString(),
           profileCompletedAt: previous?.profileCompletedAt ?? null
         } satisfies StudentProfile));
-        setStep('device');
+        setStep(needsFaceEnrollment ? 'face' : 'device');
       }}
     />
   ) : (
@@ -176,6 +204,164 @@ function DetailsStep({
   );
 }
 
+function FaceEnrollmentStep({
+  profile,
+  paletteTint,
+  initialCompleted,
+  onCompleted
+}: {
+  profile: StudentProfile | null;
+  paletteTint: string;
+  initialCompleted: EnrollmentPose[];
+  onCompleted: () => void;
+}) {
+  const colorScheme = useColorScheme();
+  const palette = Colors[colorScheme ?? 'light'];
+  const { user } = useAuth();
+  const cardBackground = colorScheme === 'dark' ? 'rgba(26,28,30,0.9)' : 'rgba(0,0,0,0.03)';
+  const [cameraPermission, requestCameraPermission] = useCameraPermissions();
+  const cameraRef = useRef<CameraView | null>(null);
+  const [completed, setCompleted] = useState<EnrollmentPose[]>(initialCompleted);
+  // The lighting pose is compared against the frontal capture taken in this session.
+  const [baselineBrightness, setBaselineBrightness] = useState<number | undefined>(undefined);
+  const [capturing, setCapturing] = useState(false);
+  const [guidance, setGuidance] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const currentPose = ENROLLMENT_POSES.find((pose) => !completed.includes(pose)) ?? null;
+
+  useEffect(() => {
+    if (!currentPose) {
+      onCompleted();
+    }
+  }, [currentPose, onCompleted]);
+
+  const handleCapture = async () => {
+    if (!user || !currentPose || capturing) {
+      return;
+    }
+
+    try {
+      setCapturing(true);
+      setError(null);
+      const picture = await cameraRef.current?.takePictureAsync({ quality: 0.7 });
+      if (!picture?.uri) {
+        throw new Error('Unable to take the photo. Try again.');
+      }
+
+      const result = await enrollFacePose({
+        student: user,
+        imageUri: picture.uri,
+        pose: currentPose,
+        baselineBrightness,
+        studentProfile: {
+          displayName: profile?.displayName ?? null,
+          email: profile?.email ?? null,
+          photoURL: profile?.photoURL ?? null,
+          studentNumber: profile?.studentNumber ?? null
+        }
+      });
+
+      setGuidance(result.guidance);
+      if (!result.accepted) {
+        return;
+      }
+
+      if (result.pose === 'frontal' && result.quality) {
+        setBaselineBrightness(result.quality.stats.brightness);
+      }
+      setCompleted(result.completed);
+    } catch (captureError) {
+      console.warn('Face enrollment capture failed', captureError);
+      setError(captureError instanceof Error ? captureError.message : 'Unable to save this photo. Try again.');
+    } finally {
+      setCapturing(false);
+    }
+  };
+
+  if (!cameraPermission?.granted) {
+    return (
+      <View style={[styles.container, { backgroundColor: palette.background }]}>
+        <ThemedView style={[styles.card, { backgroundColor: cardBackground }]}>
+          <ThemedText type="title">Enroll your face</ThemedText>
+          <ThemedText type="default">
+            We take four quick photos so check-ins can confirm it is really you. Only a face signature is stored, not
+            the photos.
+          </ThemedText>
+          <Pressable
+            accessibilityRole="button"
+            onPress={() => requestCameraPermission()}
+            style={[styles.primaryButton, { backgroundColor: paletteTint }]}
+          >
+            <ThemedText style={styles.primaryButtonText}>Allow camera access</ThemedText>
+          </Pressable>
+        </ThemedView>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: palette.background }]}>
+      <ThemedView style={[styles.card, { backgroundColor: cardBackground }]}>
+        <ThemedText type="title">Enroll your face</ThemedText>
+        <ThemedText type="defaultSemiBold">
+          {currentPose ? ENROLLMENT_POSE_PROMPTS[currentPose] : 'All photos captured'}
+        </ThemedText>
+
+        <View style={styles.poseRow}>
+          {ENROLLMENT_POSES.map((pose) => {
+            const done = completed.includes(pose);
+            const active = pose === currentPose;
+            return (
+              <View
+                key={pose}
+                style={[
+                  styles.poseChip,
+                  { borderColor: paletteTint, backgroundColor: done ? paletteTint : 'transparent', opacity: done || active ? 1 : 0.5 }
+                ]}
+              >
+                <ThemedText style={[styles.poseChipText, { color: done ? '#fff' : paletteTint }]}>
+                  {FACE_POSE_LABELS[pose]}
+                </ThemedText>
+              </View>
+            );
+          })}
+        </View>
+
+        <CameraView ref={cameraRef} facing="front" style={styles.faceCamera} />
+
+        {guidance.length ? (
+          <View style={styles.guidanceList}>
+            {guidance.map((line) => (
+              <ThemedText key={line} style={styles.errorText}>
+                • {line}
+              </ThemedText>
+            ))}
+          </View>
+        ) : null}
+
+        {error ? <ThemedText style={styles.errorText}>{error}</ThemedText> : null}
+
+        <Pressable
+          accessibilityRole="button"
+          onPress={handleCapture}
+          style={[styles.primaryButton, { backgroundColor: paletteTint, opacity: capturing ? 0.7 : 1 }]}
+          disabled={capturing || !currentPose}
+        >
+          {capturing ? <ActivityIndicator color="#fff" /> : <ThemedText style={styles.primaryButtonText}>Take photo</ThemedText>}
+        </Pressable>
+      </ThemedView>
+    </View>
+  );
+}
+
+const FACE_POSE_LABELS: Record<EnrollmentPose, string> = {
+  frontal: 'Front',
+  left: 'Left',
+  right: 'Right',
+  lighting: 'New light'
+};
+
 function DeviceTrustStep({
   device,
   paletteTint,
@@ -365,6 +551,30 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600'
   },
+  poseRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8
+  },
+  poseChip: {
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 4
+  },
+  poseChipText: {
+    fontSize: 13,
+    fontWeight: '600'
+  },
+  faceCamera: {
+    width: '100%',
+    aspectRatio: 3 / 4,
+    borderRadius: 20,
+    overflow: 'hidden'
+  },
+  guidanceList: {
+    gap: 4
+  },
   deviceContainer: {
     flex: 1,
     padding: 24,
@@ -0,0 +1,163 @@
+import { ActivityIndicator, Pressable, StyleSheet, TextInput, View } from 'react-native';
+import { useEffect, useState } from 'react';
+
+import { ThemedText } from '@/components/themed-text';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useAuth } from '@/providers/AuthProvider';
+import {
+  fetchLatestTransferRequest,
+  requestDeviceTransfer,
+  type DeviceRegistration,
+  type DeviceTransferRequest
+} from '@/services/device-trust';
+
+interface DeviceTransferFormProps {
+  device: DeviceRegistration;
+}
+
+export function DeviceTransferForm({ device }: DeviceTransferFormProps) {
+  const colorScheme = useColorScheme();
+  const palette = Colors[colorScheme ?? 'light'];
+  const { user } = useAuth();
+  const [request, setRequest] = useState<DeviceTransferRequest | null>(null);
+  const [expanded, setExpanded] = useState(false);
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const inputTextColor = colorScheme === 'dark' ? '#fff' : '#11181C';
+  const placeholderTextColor = colorScheme === 'dark' ? 'rgba(255,255,255,0.5)' : 'rgba(0,0,0,0.4)';
+
+  useEffect(() => {
+    let isMounted = true;
+
+    fetchLatestTransferRequest(user, device.deviceKey)
+      .then((latest) => {
+        if (isMounted) {
+          setRequest(latest);
+        }
+      })
+      .catch((loadError) => console.warn('Failed to load device transfer request', loadError));
+
+    return () => {
+      isMounted = false;
+    };
+  }, [device.deviceKey, user]);
+
+  const handleSubmit = async () => {
+    if (!user) {
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const created = await requestDeviceTransfer(user, device, reason);
+      setRequest(created);
+      setExpanded(false);
+      setReason('');
+    } catch (submitError) {
+      console.error('Failed to request device transfer', submitError);
+      setError(submitError instanceof Error ? submitError.message : 'Unable to send your transfer request.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (request?.status === 'pending') {
+    return (
+      <ThemedText type="default" style={styles.statusText}>
+        Transfer requested. An administrator will review it shortly; refresh the device status once approved.
+      </ThemedText>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {request?.status === 'rejected' ? (
+        <ThemedText type="default" style={styles.statusText}>
+          Your last transfer request was declined{request.resolutionReason ? `: ${request.resolutionReason}` : '.'}
+        </ThemedText>
+      ) : null}
+
+      {expanded ? (
+        <>
+          <TextInput
+            value={reason}
+            onChangeText={setReason}
+            placeholder="Why should this device replace your approved one?"
+            placeholderTextColor={placeholderTextColor}
+            multiline
+            style={[styles.input, { borderColor: palette.tint, color: inputTextColor }]}
+          />
+          {error ? <ThemedText style={styles.errorText}>{error}</ThemedText> : null}
+          <View style={styles.actionsRow}>
+            <Pressable
+              accessibilityRole="button"
+              onPress={() => setExpanded(false)}
+              disabled={submitting}
+              style={styles.secondaryButton}
+            >
+              <ThemedText style={{ color: palette.tint }}>Cancel</ThemedText>
+            </Pressable>
+            <Pressable
+              accessibilityRole="button"
+              onPress={handleSubmit}
+              disabled={submitting}
+              style={[styles.primaryButton, { backgroundColor: palette.tint, opacity: submitting ? 0.7 : 1 }]}
+            >
+              {submitting ? <ActivityIndicator color="#fff" /> : <ThemedText style={styles.primaryLabel}>Send request</ThemedText>}
+            </Pressable>
+          </View>
+        </>
+      ) : (
+        <Pressable accessibilityRole="button" onPress={() => setExpanded(true)}>
+          <ThemedText style={{ color: palette.tint }}>Request a device transfer</ThemedText>
+        </Pressable>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 10
+  },
+  statusText: {
+    fontSize: 13,
+    opacity: 0.85
+  },
+  input: {
+    minHeight: 72,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    textAlignVertical: 'top'
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: 12
+  },
+  primaryButton: {
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    minWidth: 120,
+    alignItems: 'center'
+  },
+  primaryLabel: {
+    color: '#fff',
+    fontWeight: '600'
+  },
+  secondaryButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 10
+  },
+  errorText: {
+    color: '#ff5d5d'
+  }
+});
@@ -13,6 +13,10 @@ export interface SeedStudentConfig {
 export interface SeedEmbeddingFile {
   studentId?: string;
   embeddings?: number[][];
+  /** Embedding model version the vectors were produced with (see FACE_EMBEDDING_MODEL_VERSION). */
+  modelVersion?: string;
+  /** Generated vectors for demos and tests, not captures of real faces. */
+  synthetic?: boolean;
   dimension?: number;
   numSamples?: number;
   samples?: string[];
@@ -13,7 +13,7 @@ import {
 import { format } from 'date-fns';
 import { useAuth } from '@/providers/AuthProvider';
 import { getFirestoreDb, isFirebaseConfigured } from '@/lib/firebase';
-import type { AttendanceLog } from '@/lib/types/student';
+import type { AttendanceLog, AttendanceReview, LogAppeal } from '@/lib/types/student';
 import type { AttendanceStatus } from '@/lib/types/session';
 
 const mockLogs: AttendanceLog[] = [
@@ -28,9 +28,60 @@ const mockLogs: AttendanceLog[] = [
     recordedAt: new Date(Date.now() - 1000 * 60 * 60).toISOString(),
     recordedAtLabel: format(Date.now() - 1000 * 60 * 60, 'PPpp'),
     notes: ['Demo data']
+  },
+  {
+    id: 'absent-mock-session-0',
+    sessionId: 'mock-session-0',
+    className: 'Physics',
+    subject: 'Motion and Forces',
+    teacherId: 'demo-teacher',
+    status: 'absent',
+    recordedAt: new Date(Date.now() - 1000 * 60 * 60 * 26).toISOString(),
+    recordedAtLabel: format(Date.now() - 1000 * 60 * 60 * 26, 'PPpp'),
+    notes: ['No check-in recorded before the session ended.']
   }
 ];
 
+function normalizeReview(raw: unknown): AttendanceReview | undefined {
+  if (!raw || typeof raw !== 'object') {
+    return undefined;
+  }
+
+  const data = raw as Record<string, unknown>;
+  const state =
+    data.state === 'approved' || data.state === 'marked-absent' || data.state === 'explanation-requested'
+      ? data.state
+      : 'pending';
+
+  return {
+    state,
+    reason: typeof data.reason === 'string' ? data.reason : undefined,
+    decidedByName: typeof data.decidedByName === 'string' ? data.decidedByName : null,
+    decidedAt: typeof data.decidedAt === 'string' ? data.decidedAt : undefined
+  };
+}
+
+function normalizeAppeal(raw: unknown): LogAppeal | undefined {
+  if (!raw || typeof raw !== 'object') {
+    return undefined;
+  }
+
+  const data = raw as Record<string, unknown>;
+  if (typeof data.id !== 'string') {
+    return undefined;
+  }
+
+  return {
+    id: data.id,
+    category: data.category === 'medical' || data.category === 'gps-error' ? data.category : 'device-issue',
+    status: data.status === 'accepted' || data.status === 'rejected' ? data.status : 'pending',
+    submittedAt: typeof data.submittedAt === 'string' ? data.submittedAt : '',
+    hasAttachment: Boolean(data.hasAttachment),
+    resolutionNote: typeof data.resolutionNote === 'string' ? data.resolutionNote : null,
+    resolvedAt: typeof data.resolvedAt === 'string' ? data.resolvedAt : null
+  };
+}
+
 export function useAttendanceHistory(limitCount = 10) {
   const { user } = useAuth();
   const [records, setRecords] = useState<AttendanceLog[]>([]);
@@ -66,6 +117,7 @@ export function useAttendanceHistory(limitCount = 10) {
           return {
             id: docSnapshot.id,
             sessionId: String(data.sessionId ?? ''),
+            classId: typeof data.classId === 'string' ? data.classId : undefined,
             className: String(data.className ?? 'Class'),
             subject: String(data.subject ?? 'Subject'),
             teacherId: String(data.teacherId ?? ''),
@@ -78,7 +130,9 @@ export function useAttendanceHistory(limitCount = 10) {
             deviceKey: typeof data.deviceKey === 'string' ? data.deviceKey : undefined,
             devicePlatform: typeof data.devicePlatform === 'string' ? data.devicePlatform : undefined,
             deviceModel: typeof data.deviceModel === 'string' ? data.deviceModel : undefined,
-            notes: Array.isArray(data.notes) ? (data.notes as string[]) : undefined
+            notes: Array.isArray(data.notes) ? (data.notes as string[]) : undefined,
+            review: normalizeReview(data.review),
+            appeal: normalizeAppeal(data.appeal)
           } satisfies AttendanceLog;
         });
         setRecords(docs);
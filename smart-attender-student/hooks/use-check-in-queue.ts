@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useState } from 'react';
+import { isFirebaseConfigured } from '@/lib/firebase';
+import { useAuth } from '@/providers/AuthProvider';
+import { isMockStudent } from '@/services/mock-student';
+import {
+  loadCheckInQueue,
+  startCheckInQueueSync,
+  subscribeToCheckInQueue,
+  syncCheckInQueue,
+  type QueuedCheckIn
+} from '@/services/offline-check-ins';
+
+/** Demo students record locally, so only real accounts ever queue check-ins. */
+function useQueueOwnerId(): string | null {
+  const { user } = useAuth();
+  return user && isFirebaseConfigured && !isMockStudent(user) ? user.uid : null;
+}
+
+/** Keeps offline check-ins syncing in the background while the tabs are mounted. */
+export function useCheckInQueueSync() {
+  const studentId = useQueueOwnerId();
+
+  useEffect(() => {
+    if (!studentId) {
+      return undefined;
+    }
+    return startCheckInQueueSync(studentId);
+  }, [studentId]);
+}
+
+export function useCheckInQueue() {
+  const studentId = useQueueOwnerId();
+  const [entries, setEntries] = useState<QueuedCheckIn[]>([]);
+  const [syncing, setSyncing] = useState(false);
+
+  useEffect(() => {
+    if (!studentId) {
+      setEntries([]);
+      return undefined;
+    }
+
+    let active = true;
+    const load = () => {
+      loadCheckInQueue(studentId).then((next) => {
+        if (active) {
+          setEntries([...next].reverse());
+        }
+      });
+    };
+
+    load();
+    const unsubscribe = subscribeToCheckInQueue(load);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [studentId]);
+
+  const syncNow = useCallback(async () => {
+    if (!studentId) {
+      return;
+    }
+
+    setSyncing(true);
+    try {
+      await syncCheckInQueue(studentId);
+    } finally {
+      setSyncing(false);
+    }
+  }, [studentId]);
+
+  return {
+    entries,
+    pendingCount: entries.filter((entry) => entry.state === 'pending').length,
+    syncing,
+    syncNow
+  };
+}
@@ -13,12 +13,16 @@ import {
   isDeviceApproved,
   type DeviceRegistration
 } from '@/services/device-trust';
+import { loadFaceEnrollmentProgress, type FaceEnrollmentProgress } from '@/services/face-enrollment';
+import { fetchEnrolledClassIds, hasEnrollmentChanged } from '@/services/student-classes';
 
 interface ProfileState {
   loading: boolean;
   profile: StudentProfile | null;
   device: DeviceRegistration | null;
+  faceEnrollment: FaceEnrollmentProgress | null;
   needsDetails: boolean;
+  needsFaceEnrollment: boolean;
   needsDeviceApproval: boolean;
   refresh: () => void;
   saveDetails: (updates: Partial<StudentProfile>) => Promise<void>;
@@ -29,6 +33,7 @@ export function useStudentProfile(): ProfileState {
   const { user } = useAuth();
   const [profile, setProfile] = useState<StudentProfile | null>(null);
   const [device, setDevice] = useState<DeviceRegistration | null>(null);
+  const [faceEnrollment, setFaceEnrollment] = useState<FaceEnrollmentProgress | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshKey, setRefreshKey] = useState(0);
 
@@ -40,6 +45,7 @@ export function useStudentProfile(): ProfileState {
         if (isMounted) {
           setProfile(null);
           setDevice(null);
+          setFaceEnrollment(null);
           setLoading(false);
         }
         return;
@@ -48,17 +54,32 @@ export function useStudentProfile(): ProfileState {
       setLoading(true);
 
       try {
-        const [nextProfile, nextDevice] = await Promise.all([
+        const [loadedProfile, nextDevice, enrolledClassIds, nextFaceEnrollment] = await Promise.all([
           fetchStudentProfile(user),
-          ensureDeviceRegistration(user)
+          ensureDeviceRegistration(user),
+          fetchEnrolledClassIds(user).catch((error) => {
+            console.warn('Failed to load class enrollments', error);
+            return null;
+          }),
+          loadFaceEnrollmentProgress(user).catch((error) => {
+            console.warn('Failed to load face enrollment', error);
+            return null;
+          })
         ]);
 
+        let nextProfile = loadedProfile;
+        if (nextProfile && enrolledClassIds && hasEnrollmentChanged(nextProfile, enrolledClassIds)) {
+          await updateStudentProfile(user, { enrolledClasses: enrolledClassIds });
+          nextProfile = { ...nextProfile, enrolledClasses: enrolledClassIds };
+        }
+
         if (!isMounted) {
           return;
         }
 
         setProfile(nextProfile);
         setDevice(nextDevice);
+        setFaceEnrollment(nextFaceEnrollment);
       } catch (error) {
         console.warn('Failed to load student profile', error);
         if (isMounted) {
@@ -109,13 +130,16 @@ export function useStudentProfile(): ProfileState {
   );
 
   const needsDetails = !isProfileComplete(profile, false);
+  const needsFaceEnrollment = Boolean(faceEnrollment?.remaining.length);
   const needsDeviceApproval = !isDeviceApproved(device);
 
   return {
     loading,
     profile,
     device,
+    faceEnrollment,
     needsDetails,
+    needsFaceEnrollment,
     needsDeviceApproval,
     refresh,
     saveDetails,
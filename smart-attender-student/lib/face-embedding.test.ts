@@ -0,0 +1,181 @@
+import assert from 'node:assert/strict';
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { before, describe, test } from 'node:test';
+
+import * as tf from '@tensorflow/tfjs';
+
+import {
+  FACE_EMBEDDING_INPUT_SIZE,
+  alignFace,
+  computeFaceEmbedding,
+  embedAlignedFace,
+  type FacePoint
+} from './face-embedding';
+
+const FRAME_SIZE = 200;
+const EYE_CENTER: FacePoint = { x: 100, y: 90 };
+const EYE_DISTANCE = 40;
+
+/** Directory holding a downloaded copy of the pinned model (model.json name and weight shards). */
+const MODEL_DIR = process.env.FACE_EMBEDDING_MODEL_DIR;
+const MODEL_FILE = process.env.FACE_EMBEDDING_MODEL_FILE ?? 'mobilefacenet.json';
+
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+/**
+ * A smooth "face" texture defined in face coordinates (eye midpoint at the
+ * origin, one unit per eye distance), rendered with the head rolled by `roll`.
+ */
+function renderFace(roll: number, phase: number) {
+  const cos = Math.cos(roll);
+  const sin = Math.sin(roll);
+  const pixels = new Float32Array(FRAME_SIZE * FRAME_SIZE * 3);
+
+  for (let y = 0; y < FRAME_SIZE; y += 1) {
+    for (let x = 0; x < FRAME_SIZE; x += 1) {
+      const dx = x - EYE_CENTER.x;
+      const dy = y - EYE_CENTER.y;
+      const u = (cos * dx + sin * dy) / EYE_DISTANCE;
+      const v = (-sin * dx + cos * dy) / EYE_DISTANCE;
+      const offset = (y * FRAME_SIZE + x) * 3;
+
+      pixels[offset] = 0.5 + 0.4 * Math.sin(2.1 * u + phase) * Math.cos(1.7 * v);
+      pixels[offset + 1] = 0.5 + 0.4 * Math.cos(1.3 * u - 0.8 * v + phase);
+      pixels[offset + 2] = 0.5 + 0.4 * Math.sin(0.9 * v + 1.1 * u + 2 * phase);
+    }
+  }
+
+  const eye = (side: number): FacePoint => ({
+    x: EYE_CENTER.x + side * cos * (EYE_DISTANCE / 2),
+    y: EYE_CENTER.y + side * sin * (EYE_DISTANCE / 2)
+  });
+  const landmarks: FacePoint[] = Array.from({ length: 468 }, () => ({ x: 0, y: 0 }));
+  // The subject's right eye sits on the image's left.
+  landmarks[33] = landmarks[133] = eye(-1);
+  landmarks[263] = landmarks[362] = eye(1);
+
+  return { image: tf.tensor3d(pixels, [FRAME_SIZE, FRAME_SIZE, 3]), landmarks };
+}
+
+/** Stand-in recognition model: a fixed random projection of the aligned crop. */
+function createProjectionModel(dimension: number): tf.InferenceModel {
+  const random = seededRandom(7);
+  const inputLength = FACE_EMBEDDING_INPUT_SIZE * FACE_EMBEDDING_INPUT_SIZE * 3;
+  const weights = tf.tensor2d(
+    Float32Array.from({ length: inputLength * dimension }, () => random() - 0.5),
+    [inputLength, dimension]
+  );
+
+  return {
+    inputs: [],
+    outputs: [],
+    predict: (input) => tf.tidy(() => (input as tf.Tensor).reshape([1, inputLength]).matMul(weights)),
+    execute: () => {
+      throw new Error('Not implemented.');
+    }
+  };
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  return a.reduce((sum, value, index) => sum + value * b[index], 0);
+}
+
+async function embedFace(model: tf.InferenceModel, roll: number, phase: number): Promise<number[]> {
+  const { image, landmarks } = renderFace(roll, phase);
+  try {
+    return await computeFaceEmbedding(model, image, landmarks);
+  } finally {
+    image.dispose();
+  }
+}
+
+before(async () => {
+  // Silences the "install tfjs-node" notice; these tests are meant to run on the plain CPU backend.
+  tf.env().set('IS_TEST', true);
+  await tf.setBackend('cpu');
+});
+
+describe('alignFace', () => {
+  test('crops the model input size with values normalised to [-1, 1]', () => {
+    const { image, landmarks } = renderFace(0, 0);
+    const aligned = alignFace(image, landmarks);
+
+    assert.deepEqual(aligned.shape, [1, FACE_EMBEDDING_INPUT_SIZE, FACE_EMBEDDING_INPUT_SIZE, 3]);
+    assert.ok(aligned.min().dataSync()[0] >= -1);
+    assert.ok(aligned.max().dataSync()[0] <= 1);
+
+    tf.dispose([image, aligned]);
+  });
+
+  test('rejects incomplete landmarks and coincident eyes', () => {
+    const { image, landmarks } = renderFace(0, 0);
+
+    assert.throws(() => alignFace(image, landmarks.slice(0, 100)), /incomplete/);
+    assert.throws(
+      () => alignFace(image, landmarks.map(() => ({ x: 50, y: 50 }))),
+      /Unable to locate the eyes/
+    );
+
+    image.dispose();
+  });
+});
+
+describe('computeFaceEmbedding', () => {
+  const model = createProjectionModel(64);
+
+  test('returns a unit-length embedding', async () => {
+    const embedding = await embedFace(model, 0, 0);
+
+    assert.equal(embedding.length, 64);
+    assert.ok(Math.abs(Math.hypot(...embedding) - 1) < 1e-5);
+  });
+
+  test('levels a rolled head so it embeds like the upright one', async () => {
+    const upright = await embedFace(model, 0, 0);
+    const rolled = await embedFace(model, 0.35, 0);
+    const otherFace = await embedFace(model, 0, 1.4);
+
+    assert.ok(cosineSimilarity(upright, rolled) > 0.98);
+    assert.ok(cosineSimilarity(upright, rolled) > cosineSimilarity(upright, otherFace));
+  });
+
+  test('rejects non-finite model output', async () => {
+    const broken: tf.InferenceModel = { ...model, predict: () => tf.tensor2d([[Number.NaN, 1]]) };
+    const input = tf.zeros([1, FACE_EMBEDDING_INPUT_SIZE, FACE_EMBEDDING_INPUT_SIZE, 3]) as tf.Tensor4D;
+
+    await assert.rejects(embedAlignedFace(broken, input), /invalid embedding/);
+    input.dispose();
+  });
+});
+
+describe('pinned embedding model', { skip: !MODEL_DIR && 'set FACE_EMBEDDING_MODEL_DIR to a downloaded copy' }, () => {
+  test('produces stable 192-d embeddings on the CPU backend', async () => {
+    const manifest = JSON.parse(readFileSync(join(MODEL_DIR!, MODEL_FILE), 'utf8')) as tf.io.ModelJSON;
+    const shards = manifest.weightsManifest.flatMap((group) => group.paths.map((path) => join(MODEL_DIR!, path)));
+    assert.ok(shards.every((path) => existsSync(path)), 'weight shards are missing');
+
+    const weightData = Buffer.concat(shards.map((path) => readFileSync(path)));
+    const model = await tf.loadGraphModel(
+      tf.io.fromMemory({
+        modelTopology: manifest.modelTopology,
+        weightSpecs: manifest.weightsManifest.flatMap((group) => group.weights),
+        weightData: weightData.buffer.slice(weightData.byteOffset, weightData.byteOffset + weightData.byteLength)
+      })
+    );
+
+    const first = await embedFace(model, 0, 0);
+    const repeat = await embedFace(model, 0, 0);
+
+    assert.equal(first.length, 192);
+    assert.ok(Math.abs(Math.hypot(...first) - 1) < 1e-5);
+    assert.ok(cosineSimilarity(first, repeat) > 0.9999);
+    model.dispose();
+  });
+});
@@ -0,0 +1,104 @@
+import * as tf from '@tensorflow/tfjs';
+
+import { l2Normalize } from '@shared/face-matching';
+
+/*
+ * Face alignment and identity embedding for MobileFaceNet-class models.
+ * Pure tfjs with no React Native imports, so it runs on the CPU backend in
+ * Node as well as on the device.
+ */
+
+export const FACE_EMBEDDING_INPUT_SIZE = 112;
+
+// ArcFace's canonical 112×112 template puts the eye centres ~35px apart,
+// centred horizontally and 46% of the way down the crop.
+const CROP_TO_EYE_DISTANCE = 112 / 35.2;
+const EYE_LINE_OFFSET = 0.46;
+
+// FaceMesh landmark indices for the eye corners (subject's right / left eye).
+const RIGHT_EYE_CORNERS = [33, 133];
+const LEFT_EYE_CORNERS = [263, 362];
+
+export interface FacePoint {
+  x: number;
+  y: number;
+}
+
+function midpoint(points: FacePoint[], indices: number[]): FacePoint {
+  return {
+    x: indices.reduce((sum, index) => sum + points[index].x, 0) / indices.length,
+    y: indices.reduce((sum, index) => sum + points[index].y, 0) / indices.length
+  };
+}
+
+/**
+ * Rotates the frame so the eyes are level and crops the canonical face square,
+ * scaled to the model input and normalised to [-1, 1].
+ *
+ * @param image RGB frame with values in [0, 1], in the same pixel space as `landmarks`.
+ * @param landmarks FaceMesh keypoints for the face (468+ points, unmirrored).
+ */
+export function alignFace(image: tf.Tensor3D, landmarks: FacePoint[]): tf.Tensor4D {
+  if (landmarks.length < 468) {
+    throw new Error('Face landmarks are incomplete.');
+  }
+
+  const rightEye = midpoint(landmarks, RIGHT_EYE_CORNERS);
+  const leftEye = midpoint(landmarks, LEFT_EYE_CORNERS);
+  const eyeDistance = Math.hypot(leftEye.x - rightEye.x, leftEye.y - rightEye.y);
+
+  if (eyeDistance === 0) {
+    throw new Error('Unable to locate the eyes in this frame.');
+  }
+
+  return tf.tidy(() => {
+    const [height, width] = image.shape;
+    const center: [number, number] = [(rightEye.x + leftEye.x) / 2, (rightEye.y + leftEye.y) / 2];
+    const roll = Math.atan2(leftEye.y - rightEye.y, leftEye.x - rightEye.x);
+
+    // rotateWithOffset samples input(R·(p − c) + c), so rotating by the eye-line
+    // angle levels the eyes around their midpoint.
+    const rotated = tf.image.rotateWithOffset(image.expandDims(0) as tf.Tensor4D, roll, 0, [
+      center[0] / width,
+      center[1] / height
+    ]);
+
+    const side = eyeDistance * CROP_TO_EYE_DISTANCE;
+    const top = center[1] - side * EYE_LINE_OFFSET;
+    const left = center[0] - side / 2;
+    const box = tf.tensor2d([[top / height, left / width, (top + side) / height, (left + side) / width]]);
+
+    const crop = tf.image.cropAndResize(rotated, box, [0], [FACE_EMBEDDING_INPUT_SIZE, FACE_EMBEDDING_INPUT_SIZE]);
+    // (pixel − 127.5) / 128 with pixels in [0, 255].
+    return crop.mul(255).sub(127.5).div(128) as tf.Tensor4D;
+  });
+}
+
+/** Runs the model on an aligned crop and returns a unit-length identity embedding. */
+export async function embedAlignedFace(model: tf.InferenceModel, input: tf.Tensor4D): Promise<number[]> {
+  const output = model.predict(input, {}) as tf.Tensor | tf.Tensor[];
+  const tensor = Array.isArray(output) ? output[0] : output;
+
+  try {
+    const values = Array.from(await tensor.data());
+    if (!values.length || values.some((value) => !Number.isFinite(value))) {
+      throw new Error('The face model returned an invalid embedding.');
+    }
+    return l2Normalize(values);
+  } finally {
+    tf.dispose(output);
+  }
+}
+
+export async function computeFaceEmbedding(
+  model: tf.InferenceModel,
+  image: tf.Tensor3D,
+  landmarks: FacePoint[]
+): Promise<number[]> {
+  const aligned = alignFace(image, landmarks);
+  try {
+    return await embedAlignedFace(model, aligned);
+  } finally {
+    aligned.dispose();
+  }
+}
@@ -0,0 +1,230 @@
+import * as tf from '@tensorflow/tfjs';
+
+import type { FacePoint } from './face-embedding';
+
+/*
+ * Capture quality checks for face enrollment: face size and framing, blur,
+ * brightness and head pose, all derived from FaceMesh keypoints and the frame.
+ * Pure tfjs, like face-embedding.ts, so it runs on the CPU backend in Node.
+ */
+
+export type EnrollmentPose = 'frontal' | 'left' | 'right' | 'lighting';
+
+export const ENROLLMENT_POSES: EnrollmentPose[] = ['frontal', 'left', 'right', 'lighting'];
+
+export const ENROLLMENT_POSE_PROMPTS: Record<EnrollmentPose, string> = {
+  frontal: 'Look straight at the camera',
+  left: 'Turn your head slightly to your left',
+  right: 'Turn your head slightly to your right',
+  lighting: 'Move to different lighting and look straight at the camera'
+};
+
+export type FaceQualityIssue =
+  | 'too-small'
+  | 'too-large'
+  | 'off-center'
+  | 'blurry'
+  | 'too-dark'
+  | 'too-bright'
+  | 'tilted'
+  | 'chin-angle'
+  | 'wrong-pose'
+  | 'same-lighting';
+
+/**
+ * Yaw is 0 facing the camera and positive when the subject turns to their own
+ * left; roll is the eye-line angle in degrees; pitch is 0 with the chin level
+ * and positive when the chin drops.
+ */
+export interface HeadPose {
+  yaw: number;
+  pitch: number;
+  roll: number;
+}
+
+export interface FaceImageStats {
+  /** Mean luminance of the face region, 0–255. */
+  brightness: number;
+  /** Variance of the Laplacian over the face region; low values mean blur. */
+  sharpness: number;
+}
+
+export interface FaceQualityInput {
+  keypoints: FacePoint[];
+  width: number;
+  height: number;
+  stats: FaceImageStats;
+}
+
+export interface FaceQualityReport {
+  passed: boolean;
+  issues: FaceQualityIssue[];
+  guidance: string[];
+  pose: HeadPose;
+  /** Face width as a fraction of the frame width. */
+  coverage: number;
+  stats: FaceImageStats;
+}
+
+// FaceMesh landmark indices (subject's left/right).
+const RIGHT_EYE_OUTER = 33;
+const LEFT_EYE_OUTER = 263;
+const NOSE_TIP = 1;
+const CHIN = 152;
+const RIGHT_CHEEK = 234;
+const LEFT_CHEEK = 454;
+
+const MIN_COVERAGE = 0.3;
+const MAX_COVERAGE = 0.85;
+const MIN_BRIGHTNESS = 60;
+const MAX_BRIGHTNESS = 200;
+const MIN_SHARPNESS = Number(process.env.EXPO_PUBLIC_FACE_MIN_SHARPNESS ?? 30);
+const MAX_ROLL_DEGREES = 12;
+// The nose tip sits ~42% of the way from the eye line to the chin when the chin is level.
+const LEVEL_NOSE_RATIO = 0.42;
+const MAX_PITCH = 0.15;
+const FRONTAL_MAX_YAW = 0.12;
+const TURN_MIN_YAW = 0.15;
+const TURN_MAX_YAW = 0.6;
+const LIGHTING_MIN_CHANGE = 25;
+
+const LAPLACIAN_KERNEL = [
+  [0, 1, 0],
+  [1, -4, 1],
+  [0, 1, 0]
+];
+
+export function estimateHeadPose(points: FacePoint[]): HeadPose {
+  const rightEye = points[RIGHT_EYE_OUTER];
+  const leftEye = points[LEFT_EYE_OUTER];
+  const eyeMidY = (rightEye.y + leftEye.y) / 2;
+  const cheekSpan = points[LEFT_CHEEK].x - points[RIGHT_CHEEK].x;
+  const chinDrop = points[CHIN].y - eyeMidY;
+
+  // Same landmark-relative ratio as the liveness turn check, centred on 0.
+  const yawRatio = cheekSpan === 0 ? 0.5 : (points[NOSE_TIP].x - points[RIGHT_CHEEK].x) / cheekSpan;
+  const noseRatio = chinDrop === 0 ? LEVEL_NOSE_RATIO : (points[NOSE_TIP].y - eyeMidY) / chinDrop;
+
+  return {
+    yaw: Number(((yawRatio - 0.5) * 2).toFixed(3)),
+    pitch: Number((noseRatio - LEVEL_NOSE_RATIO).toFixed(3)),
+    roll: Number(((Math.atan2(leftEye.y - rightEye.y, leftEye.x - rightEye.x) * 180) / Math.PI).toFixed(1))
+  };
+}
+
+/**
+ * Measures brightness and sharpness inside the face's bounding box.
+ *
+ * @param image RGB frame with values in [0, 1], in the same pixel space as `points`.
+ */
+export function measureFaceImageStats(image: tf.Tensor3D, points: FacePoint[]): FaceImageStats {
+  const [height, width] = image.shape;
+  const xs = points.map((point) => point.x);
+  const ys = points.map((point) => point.y);
+  const left = Math.max(0, Math.floor(Math.min(...xs)));
+  const top = Math.max(0, Math.floor(Math.min(...ys)));
+  const right = Math.min(width, Math.ceil(Math.max(...xs)));
+  const bottom = Math.min(height, Math.ceil(Math.max(...ys)));
+
+  if (right - left < 3 || bottom - top < 3) {
+    return { brightness: 0, sharpness: 0 };
+  }
+
+  const [brightness, sharpness] = tf.tidy(() => {
+    const face = image.slice([top, left, 0], [bottom - top, right - left, 3]);
+    const gray = face.mean(2).mul(255).expandDims(0).expandDims(-1) as tf.Tensor4D;
+    const kernel = tf.tensor4d(LAPLACIAN_KERNEL.flat(), [3, 3, 1, 1]);
+    const laplacian = tf.conv2d(gray, kernel, 1, 'valid');
+    const { variance } = tf.moments(laplacian);
+    return [gray.mean().dataSync()[0], variance.dataSync()[0]];
+  });
+
+  return { brightness: Number(brightness.toFixed(1)), sharpness: Number(sharpness.toFixed(1)) };
+}
+
+function describeTurn(pose: EnrollmentPose, yaw: number): string {
+  if (pose === 'frontal' || pose === 'lighting') {
+    return 'Face the camera directly.';
+  }
+
+  const magnitude = pose === 'left' ? yaw : -yaw;
+  return magnitude < TURN_MIN_YAW
+    ? `Turn your head a little further to your ${pose}.`
+    : `Turn back slightly — only a small turn to your ${pose} is needed.`;
+}
+
+/**
+ * Checks one enrollment capture against the requested pose. `baselineBrightness`
+ * is the frontal capture's brightness, which the lighting pose must differ from.
+ */
+export function assessFaceQuality(
+  pose: EnrollmentPose,
+  input: FaceQualityInput,
+  options: { baselineBrightness?: number } = {}
+): FaceQualityReport {
+  const { keypoints, width, height, stats } = input;
+  const issues: FaceQualityIssue[] = [];
+  const guidance: string[] = [];
+  const flag = (issue: FaceQualityIssue, message: string) => {
+    issues.push(issue);
+    guidance.push(message);
+  };
+
+  if (keypoints.length < 468) {
+    throw new Error('Face landmarks are incomplete.');
+  }
+
+  const headPose = estimateHeadPose(keypoints);
+  const faceWidth = Math.abs(keypoints[LEFT_CHEEK].x - keypoints[RIGHT_CHEEK].x);
+  const coverage = width === 0 ? 0 : faceWidth / width;
+  const centerX = (keypoints[LEFT_CHEEK].x + keypoints[RIGHT_CHEEK].x) / 2 / width;
+  const centerY = keypoints[NOSE_TIP].y / height;
+
+  if (coverage < MIN_COVERAGE) {
+    flag('too-small', 'Move closer so your face fills more of the frame.');
+  } else if (coverage > MAX_COVERAGE) {
+    flag('too-large', 'Move the phone back a little so your whole face fits.');
+  }
+
+  if (centerX < 0.25 || centerX > 0.75 || centerY < 0.2 || centerY > 0.8) {
+    flag('off-center', 'Centre your face in the frame.');
+  }
+
+  if (stats.brightness < MIN_BRIGHTNESS) {
+    flag('too-dark', 'It is too dark. Face a light source or turn on a light.');
+  } else if (stats.brightness > MAX_BRIGHTNESS) {
+    flag('too-bright', 'Your face is washed out. Move away from direct light or the window.');
+  }
+
+  if (stats.sharpness < MIN_SHARPNESS) {
+    flag('blurry', 'The photo is blurry. Hold the phone steady and wipe the camera lens.');
+  }
+
+  if (Math.abs(headPose.roll) > MAX_ROLL_DEGREES) {
+    flag('tilted', 'Keep your head upright instead of tilting it to one side.');
+  }
+
+  if (Math.abs(headPose.pitch) > MAX_PITCH) {
+    flag('chin-angle', headPose.pitch > 0 ? 'Raise your chin a little.' : 'Lower your chin a little.');
+  }
+
+  const turn = pose === 'left' ? headPose.yaw : pose === 'right' ? -headPose.yaw : Math.abs(headPose.yaw);
+  const poseMatches =
+    pose === 'frontal' || pose === 'lighting'
+      ? turn <= FRONTAL_MAX_YAW
+      : turn >= TURN_MIN_YAW && turn <= TURN_MAX_YAW;
+
+  if (!poseMatches) {
+    flag('wrong-pose', describeTurn(pose, headPose.yaw));
+  }
+
+  if (
+    pose === 'lighting' &&
+    options.baselineBrightness !== undefined &&
+    Math.abs(stats.brightness - options.baselineBrightness) < LIGHTING_MIN_CHANGE
+  ) {
+    flag('same-lighting', 'The lighting looks the same as your first photo. Move near a window or under a different light.');
+  }
+
+  return { passed: issues.length === 0, issues, guidance, pose: headPose, coverage: Number(coverage.toFixed(3)), stats };
+}
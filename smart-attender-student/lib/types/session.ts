@@ -1,4 +1,9 @@
-export type AttendanceStatus = 'present' | 'flagged' | 'late';
+import type { ClassroomSignalFingerprint } from '@shared/classroom-signals';
+import type { RoomGeofence } from '../utils/geofence';
+
+export type AttendanceStatus = 'present' | 'flagged' | 'late' | 'absent';
+
+export type SessionStatus = 'scheduled' | 'active' | 'completed' | 'cancelled';
 
 export interface SessionLocationCoordinates {
   latitude: number;
@@ -9,14 +14,25 @@ export interface SessionLocationCoordinates {
 
 export interface AttendanceSession {
   id: string;
+  classId?: string;
   className: string;
   subject: string;
   scheduledFor: string;
   durationMinutes: number;
+  lateGraceMinutes?: number;
   location: string;
   locationCoordinates?: SessionLocationCoordinates;
+  /** Wi-Fi access points or BLE beacon expected in the room, when the teacher declared them. */
+  signalFingerprint?: ClassroomSignalFingerprint;
+  /** Saved room outline or radius; replaces the point-plus-threshold check when present. */
+  geofence?: RoomGeofence;
+  roomName?: string;
   teacherId: string;
   sessionToken?: string;
+  status?: SessionStatus;
+  startedAt?: string;
+  endedAt?: string;
+  cancelledAt?: string;
 }
 
 export interface SessionAttendee {
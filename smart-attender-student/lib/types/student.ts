@@ -1,8 +1,32 @@
 import type { AttendanceStatus } from '@/lib/types/session';
 
+export type AttendanceReviewState = 'pending' | 'approved' | 'marked-absent' | 'explanation-requested';
+
+export interface AttendanceReview {
+  state: AttendanceReviewState;
+  reason?: string;
+  decidedByName?: string | null;
+  decidedAt?: string;
+}
+
+export type AppealCategory = 'medical' | 'gps-error' | 'device-issue';
+
+export type AppealStatus = 'pending' | 'accepted' | 'rejected';
+
+export interface LogAppeal {
+  id: string;
+  category: AppealCategory;
+  status: AppealStatus;
+  submittedAt: string;
+  hasAttachment: boolean;
+  resolutionNote?: string | null;
+  resolvedAt?: string | null;
+}
+
 export interface AttendanceLog {
   id: string;
   sessionId: string;
+  classId?: string;
   className: string;
   subject: string;
   teacherId: string;
@@ -16,4 +40,6 @@ export interface AttendanceLog {
   devicePlatform?: string | null;
   deviceModel?: string | null;
   notes?: string[];
+  review?: AttendanceReview;
+  appeal?: LogAppeal;
 }
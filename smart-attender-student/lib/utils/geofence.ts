@@ -0,0 +1,147 @@
+import { haversineDistanceMeters } from './geo';
+
+export interface GeofenceVertex {
+  latitude: number;
+  longitude: number;
+}
+
+export type RoomGeofence =
+  | { type: 'radius'; center: GeofenceVertex; radiusMeters: number }
+  | { type: 'polygon'; vertices: GeofenceVertex[] };
+
+export interface GeofenceCheck {
+  inside: boolean;
+  /** Metres from the student's fix to the fence; 0 when the fix is inside. */
+  distanceMeters: number;
+  /** How far the fence was widened for the student's reported GPS accuracy. */
+  bufferMeters: number;
+  /** Distance left after the buffer; anything above 0 is outside the room. */
+  proximityMeters: number;
+}
+
+// A phone reporting ±500m could otherwise pass from across campus.
+export const MAX_ACCURACY_BUFFER_METERS = 30;
+export const MIN_ROOM_RADIUS_METERS = 5;
+export const MAX_ROOM_RADIUS_METERS = 500;
+const MAX_POLYGON_VERTICES = 50;
+const EARTH_RADIUS_METERS = 6_371_000;
+
+function readVertex(raw: unknown): GeofenceVertex | null {
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+
+  const data = raw as Record<string, unknown>;
+  const latitude = Number(data.latitude);
+  const longitude = Number(data.longitude);
+
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    return null;
+  }
+
+  return { latitude, longitude };
+}
+
+/** Reads a stored geofence; null when it is missing or malformed. */
+export function normalizeGeofence(raw: unknown): RoomGeofence | null {
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+
+  const data = raw as Record<string, unknown>;
+
+  if (data.type === 'radius') {
+    const center = readVertex(data.center);
+    const radiusMeters = Number(data.radiusMeters);
+    return center && Number.isFinite(radiusMeters) && radiusMeters >= MIN_ROOM_RADIUS_METERS
+      ? { type: 'radius', center, radiusMeters: Math.min(radiusMeters, MAX_ROOM_RADIUS_METERS) }
+      : null;
+  }
+
+  if (data.type === 'polygon' && Array.isArray(data.vertices)) {
+    const vertices = data.vertices
+      .slice(0, MAX_POLYGON_VERTICES)
+      .map(readVertex)
+      .filter((vertex): vertex is GeofenceVertex => vertex !== null);
+    return vertices.length >= 3 ? { type: 'polygon', vertices } : null;
+  }
+
+  return null;
+}
+
+/** The point shown on maps and kept as the session's `locationCoordinates`. */
+export function geofenceCenter(geofence: RoomGeofence): GeofenceVertex {
+  if (geofence.type === 'radius') {
+    return geofence.center;
+  }
+
+  const sum = geofence.vertices.reduce(
+    (acc, vertex) => ({ latitude: acc.latitude + vertex.latitude, longitude: acc.longitude + vertex.longitude }),
+    { latitude: 0, longitude: 0 }
+  );
+  return { latitude: sum.latitude / geofence.vertices.length, longitude: sum.longitude / geofence.vertices.length };
+}
+
+// Rooms are small enough that an equirectangular projection around the fix is exact to centimetres.
+function project(origin: GeofenceVertex, point: GeofenceVertex): { x: number; y: number } {
+  const toRadians = Math.PI / 180;
+  return {
+    x: (point.longitude - origin.longitude) * toRadians * Math.cos(origin.latitude * toRadians) * EARTH_RADIUS_METERS,
+    y: (point.latitude - origin.latitude) * toRadians * EARTH_RADIUS_METERS
+  };
+}
+
+/** Ray casting in the projected plane around the point being tested. */
+export function isPointInPolygon(point: GeofenceVertex, vertices: GeofenceVertex[]): boolean {
+  const projected = vertices.map((vertex) => project(point, vertex));
+  let inside = false;
+
+  for (let i = 0, j = projected.length - 1; i < projected.length; j = i++) {
+    const a = projected[i];
+    const b = projected[j];
+    if (a.y > 0 !== b.y > 0 && 0 < ((b.x - a.x) * (0 - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+function distanceToSegment(a: { x: number; y: number }, b: { x: number; y: number }): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSquared));
+  return Math.hypot(a.x + t * dx, a.y + t * dy);
+}
+
+/** Metres from the point to the nearest edge of the geofence, or 0 inside it. */
+export function distanceOutsideGeofence(point: GeofenceVertex, geofence: RoomGeofence): number {
+  if (geofence.type === 'radius') {
+    return Math.max(0, Math.round(haversineDistanceMeters(point, geofence.center) - geofence.radiusMeters));
+  }
+
+  if (isPointInPolygon(point, geofence.vertices)) {
+    return 0;
+  }
+
+  const projected = geofence.vertices.map((vertex) => project(point, vertex));
+  const distances = projected.map((vertex, index) => distanceToSegment(vertex, projected[(index + 1) % projected.length]));
+  return Math.round(Math.min(...distances));
+}
+
+/**
+ * Checks a GPS fix against a room's fence, widening the fence by the fix's
+ * reported accuracy up to `MAX_ACCURACY_BUFFER_METERS`. Same rules as
+ * `frontend/lib/utils/geofence.ts`, which makes the authoritative call.
+ */
+export function evaluateGeofence(
+  point: GeofenceVertex & { accuracy?: number | null },
+  geofence: RoomGeofence
+): GeofenceCheck {
+  const distanceMeters = distanceOutsideGeofence(point, geofence);
+  const bufferMeters = Math.round(Math.min(Math.max(0, point.accuracy ?? 0), MAX_ACCURACY_BUFFER_METERS));
+  const proximityMeters = Math.max(0, distanceMeters - bufferMeters);
+
+  return { inside: proximityMeters === 0, distanceMeters, bufferMeters, proximityMeters };
+}
@@ -0,0 +1,13 @@
+/**
+ * Builds a URL on the teacher portal, which hosts the server-side verification
+ * endpoints the app calls with the student's Firebase ID token.
+ */
+export function resolveTeacherApiUrl(path: string): string {
+  const base = process.env.EXPO_PUBLIC_TEACHER_API_BASE_URL;
+  if (!base || !/^https?:\/\//i.test(base)) {
+    throw new Error('Attendance server is not configured. Set EXPO_PUBLIC_TEACHER_API_BASE_URL and restart the app.');
+  }
+
+  const trimmed = base.endsWith('/') ? base.slice(0, -1) : base;
+  return `${trimmed}${path}`;
+}
@@ -0,0 +1,10 @@
+// https://docs.expo.dev/guides/customizing-metro/
+const path = require('path');
+const { getDefaultConfig } = require('expo/metro-config');
+
+const config = getDefaultConfig(__dirname);
+
+// Scoring shared with the teacher portal lives in ../shared.
+config.watchFolders = [...(config.watchFolders ?? []), path.resolve(__dirname, '../shared')];
+
+module.exports = config;
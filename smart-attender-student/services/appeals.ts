@@ -0,0 +1,111 @@
+import { doc, serverTimestamp, writeBatch } from 'firebase/firestore';
+import { manipulateAsync, SaveFormat } from 'expo-image-manipulator';
+
+import { getFirestoreDb, isFirebaseConfigured } from '@/lib/firebase';
+import type { AppealCategory, AttendanceLog, LogAppeal } from '@/lib/types/student';
+import { isMockStudent, type MockStudentUser } from '@/services/mock-student';
+
+type AppealUser = { uid: string; displayName?: string | null; email?: string | null } | MockStudentUser;
+
+export const APPEAL_CATEGORIES: Array<{ value: AppealCategory; label: string }> = [
+  { value: 'medical', label: 'Medical' },
+  { value: 'gps-error', label: 'GPS error' },
+  { value: 'device-issue', label: 'Device issue' }
+];
+
+const APPEALABLE_STATUSES = new Set<AttendanceLog['status']>(['flagged', 'late', 'absent']);
+const MIN_REASON_LENGTH = 10;
+const ATTACHMENT_WIDTH = 720;
+
+export function canAppeal(log: AttendanceLog): boolean {
+  return APPEALABLE_STATUSES.has(log.status) && !log.appeal;
+}
+
+export function getAppealId(studentId: string, logId: string): string {
+  return `${studentId}_${logId}`;
+}
+
+/**
+ * Photos are downscaled and stored inline as a JPEG data URL so an appeal is a
+ * single Firestore document; at this size they stay well under the 1 MB limit.
+ */
+async function prepareAttachment(photoUri: string) {
+  const manipulated = await manipulateAsync(photoUri, [{ resize: { width: ATTACHMENT_WIDTH } }], {
+    compress: 0.5,
+    format: SaveFormat.JPEG,
+    base64: true
+  });
+
+  if (!manipulated.base64) {
+    throw new Error('Unable to read the attached photo. Try taking it again.');
+  }
+
+  return {
+    dataUrl: `data:image/jpeg;base64,${manipulated.base64}`,
+    width: manipulated.width,
+    height: manipulated.height
+  };
+}
+
+export async function submitAppeal(params: {
+  student: AppealUser;
+  log: AttendanceLog;
+  category: AppealCategory;
+  reason: string;
+  photoUri?: string | null;
+}): Promise<LogAppeal> {
+  const { student, log, category } = params;
+  const reason = params.reason.trim();
+
+  if (!canAppeal(log)) {
+    throw new Error('This check-in cannot be appealed.');
+  }
+
+  if (reason.length < MIN_REASON_LENGTH) {
+    throw new Error('Describe what happened in a little more detail.');
+  }
+
+  const appealId = getAppealId(student.uid, log.id);
+  const submittedAt = new Date().toISOString();
+  const appeal: LogAppeal = {
+    id: appealId,
+    category,
+    status: 'pending',
+    submittedAt,
+    hasAttachment: Boolean(params.photoUri)
+  };
+
+  if (!isFirebaseConfigured || isMockStudent(student)) {
+    return appeal;
+  }
+
+  const attachment = params.photoUri ? await prepareAttachment(params.photoUri) : null;
+  const db = getFirestoreDb();
+  const batch = writeBatch(db);
+
+  batch.set(doc(db, 'appeals', appealId), {
+    studentId: student.uid,
+    studentName: student.displayName ?? student.email ?? 'Student',
+    teacherId: log.teacherId,
+    sessionId: log.sessionId,
+    classId: log.classId ?? null,
+    className: log.className,
+    subject: log.subject,
+    logId: log.id,
+    logStatus: log.status,
+    category,
+    reason,
+    attachment,
+    status: 'pending',
+    resolutionNote: null,
+    resolvedBy: null,
+    resolvedAt: null,
+    submittedAt,
+    createdAt: serverTimestamp()
+  });
+
+  batch.update(doc(db, 'students', student.uid, 'attendanceLogs', log.id), { appeal });
+
+  await batch.commit();
+  return appeal;
+}
@@ -1,42 +1,65 @@
 import {
-  addDoc,
   collection,
   doc,
   getDoc,
   getDocs,
   limit,
   query,
-  runTransaction,
-  serverTimestamp,
-  setDoc,
   where,
   type DocumentData,
-  type DocumentReference,
-  type Transaction
+  type DocumentReference
 } from 'firebase/firestore';
 import { FirebaseError } from 'firebase/app';
 import { z } from 'zod';
-import { format } from 'date-fns';
+import {
+  assessLocationFactors,
+  parseClassroomSignalFingerprint,
+  scoreClassroomSignals,
+  type ClassroomSignalScan
+} from '@shared/classroom-signals';
 import { getFirestoreDb, isFirebaseConfigured } from '@/lib/firebase';
+import { assessLocationIntegrity, describeLocationIntegrity, type LocationFix } from '@shared/location-integrity';
 import { haversineDistanceMeters } from '@/lib/utils/geo';
+import { evaluateGeofence, normalizeGeofence } from '@/lib/utils/geofence';
 import type { AttendanceStatus, AttendanceSession, SessionLocationCoordinates } from '@/lib/types/session';
+import { CheckInSubmitError, postCheckIn, type CheckInSubmission } from '@/services/check-in-api';
 import { isMockStudent, type MockStudentUser } from '@/services/mock-student';
 import type { DeviceRegistration } from '@/services/device-trust';
+import type { LivenessResult } from '@/services/face-liveness';
+import type { FaceVerificationResult } from '@/services/face-recognition';
+import { enqueueCheckIn } from '@/services/offline-check-ins';
+import { assertQrWindowFresh } from '@/services/qr-token';
 import type { StudentProfile } from '@/services/student-profile';
+import {
+  DEFAULT_LATE_GRACE_MINUTES,
+  assertSessionOpen,
+  getLateCutoff,
+  toSessionStatus
+} from '@/services/session-lifecycle';
 
 const qrPayloadSchema = z.object({
   sessionId: z.string().min(1),
   sessionToken: z.string().min(8),
   teacherId: z.string().min(1),
+  classId: z.string().min(1).optional(),
   className: z.string().min(1),
   subject: z.string().min(1),
   scheduledFor: z.string().min(1),
   durationMinutes: z.number().int().positive(),
+  lateGraceMinutes: z.number().int().nonnegative().optional(),
   locationCoordinates: z.object({
     latitude: z.number(),
     longitude: z.number(),
     accuracy: z.number().optional()
-  })
+  }),
+  rotation: z
+    .object({
+      window: z.number().int(),
+      intervalSeconds: z.number().positive(),
+      nonce: z.string().min(1),
+      signature: z.string().min(1)
+    })
+    .optional()
 });
 
 export type ScannedSessionPayload = z.infer<typeof qrPayloadSchema>;
@@ -46,6 +69,8 @@ export interface ResolvedSession {
   session: AttendanceSession;
   sessionRef?: DocumentReference<DocumentData>;
   isMock: boolean;
+  /** Resolved from the QR payload alone because Firestore could not be reached. */
+  isOffline: boolean;
 }
 
 export interface AttendanceCheckInput {
@@ -58,10 +83,17 @@ export interface AttendanceCheckInput {
   };
   device: DeviceRegistration | null;
   profile: StudentProfile | null;
+  faceVerification: FaceVerificationResult | null;
+  liveness: LivenessResult | null;
+  /** Wi-Fi/BLE scan taken at check-in; only needed when the session declares a fingerprint. */
+  signalScan?: ClassroomSignalScan | null;
+  /** GPS fixes sampled over a few seconds at scan time; checked for signs of a mock location. */
+  locationTrace?: LocationFix[] | null;
 }
 
 export interface AttendanceCheckResult {
-  status: AttendanceStatus;
+  /** `queued` when the check-in was saved offline and will be decided once it syncs. */
+  status: AttendanceStatus | 'queued';
   proximityMeters: number;
   message: string;
   notes: string[];
@@ -83,28 +115,62 @@ export function parseQrPayload(rawValue: string): ScannedSessionPayload {
     throw new Error('QR code contents are malformed. Please request a new code from your teacher.');
   }
 
+  if (result.data.rotation) {
+    assertQrWindowFresh(result.data.rotation);
+  }
+
   return result.data;
 }
 
+function buildSessionFromPayload(
+  payload: ScannedSessionPayload,
+  flags: Pick<ResolvedSession, 'isMock' | 'isOffline'>
+): ResolvedSession {
+  return {
+    payload,
+    ...flags,
+    session: {
+      id: payload.sessionId,
+      classId: payload.classId,
+      teacherId: payload.teacherId,
+      className: payload.className,
+      subject: payload.subject,
+      scheduledFor: payload.scheduledFor,
+      durationMinutes: payload.durationMinutes,
+      lateGraceMinutes: payload.lateGraceMinutes,
+      location: `${payload.locationCoordinates.latitude.toFixed(5)}, ${payload.locationCoordinates.longitude.toFixed(5)}`,
+      locationCoordinates: payload.locationCoordinates,
+      sessionToken: payload.sessionToken
+    }
+  };
+}
+
+function isOfflineError(error: unknown): boolean {
+  return error instanceof FirebaseError && error.code === 'unavailable';
+}
+
+/**
+ * Looks the session up in Firestore. Without connectivity it falls back to the
+ * QR payload so the check-in can still be captured and queued; the server
+ * re-resolves the session when the queued check-in syncs.
+ */
 export async function resolveSessionFromPayload(payload: ScannedSessionPayload): Promise<ResolvedSession> {
   if (!isFirebaseConfigured) {
-    return {
-      payload,
-      isMock: true,
-      session: {
-        id: payload.sessionId,
-        teacherId: payload.teacherId,
-        className: payload.className,
-        subject: payload.subject,
-        scheduledFor: payload.scheduledFor,
-        durationMinutes: payload.durationMinutes,
-        location: `${payload.locationCoordinates.latitude.toFixed(5)}, ${payload.locationCoordinates.longitude.toFixed(5)}`,
-        locationCoordinates: payload.locationCoordinates,
-        sessionToken: payload.sessionToken
-      }
-    };
+    return buildSessionFromPayload(payload, { isMock: true, isOffline: false });
+  }
+
+  try {
+    return await resolveSessionOnline(payload);
+  } catch (error) {
+    if (isOfflineError(error)) {
+      console.warn('[attendance] Firestore unreachable; resolving the session from the QR code', error);
+      return buildSessionFromPayload(payload, { isMock: false, isOffline: true });
+    }
+    throw error;
   }
+}
 
+async function resolveSessionOnline(payload: ScannedSessionPayload): Promise<ResolvedSession> {
   const db = getFirestoreDb();
 
   const publicRef = doc(db, 'publicSessions', payload.sessionToken);
@@ -167,11 +233,13 @@ export async function resolveSessionFromPayload(payload: ScannedSessionPayload):
 
     const session: AttendanceSession = {
       id: resolvedSessionId,
+      classId: readClassId(sourceData.classId ?? publicData.classId, payload),
       teacherId,
       className: String(sourceData.className ?? payload.className),
       subject: String(sourceData.subject ?? payload.subject),
       scheduledFor: typeof sourceData.scheduledFor === 'string' ? sourceData.scheduledFor : payload.scheduledFor,
       durationMinutes: Number(sourceData.durationMinutes ?? payload.durationMinutes),
+      lateGraceMinutes: readGraceMinutes(sourceData.lateGraceMinutes ?? publicData.lateGraceMinutes, payload),
       location:
         typeof sourceData.location === 'string'
           ? sourceData.location
@@ -179,14 +247,26 @@ export async function resolveSessionFromPayload(payload: ScannedSessionPayload):
               locationCoordinates?.longitude?.toFixed(5) ?? payload.locationCoordinates.longitude.toFixed(5)
             }`,
       locationCoordinates,
-      sessionToken: typeof sourceData.sessionToken === 'string' ? sourceData.sessionToken : payload.sessionToken
+      signalFingerprint:
+        parseClassroomSignalFingerprint(sourceData.signalFingerprint ?? publicData.signalFingerprint) ?? undefined,
+      geofence: normalizeGeofence(sourceData.geofence ?? publicData.geofence) ?? undefined,
+      roomName:
+        typeof (sourceData.roomName ?? publicData.roomName) === 'string'
+          ? String(sourceData.roomName ?? publicData.roomName)
+          : undefined,
+      sessionToken: typeof sourceData.sessionToken === 'string' ? sourceData.sessionToken : payload.sessionToken,
+      status: toSessionStatus(sourceData.status ?? publicData.status),
+      startedAt: readIsoString(sourceData.startedAt ?? publicData.startedAt),
+      endedAt: readIsoString(sourceData.endedAt ?? publicData.endedAt),
+      cancelledAt: readIsoString(sourceData.cancelledAt ?? publicData.cancelledAt)
     };
 
     return {
       payload,
       session,
       sessionRef,
-      isMock: false
+      isMock: false,
+      isOffline: false
     };
   }
 
@@ -270,11 +350,13 @@ export async function resolveSessionFromPayload(payload: ScannedSessionPayload):
 
   const session: AttendanceSession = {
     id: resolvedRef.id,
+    classId: readClassId(data.classId, payload),
     teacherId: payload.teacherId,
     className: String(data.className ?? payload.className),
     subject: String(data.subject ?? payload.subject),
     scheduledFor: typeof data.scheduledFor === 'string' ? data.scheduledFor : payload.scheduledFor,
     durationMinutes: Number(data.durationMinutes ?? payload.durationMinutes),
+    lateGraceMinutes: readGraceMinutes(data.lateGraceMinutes, payload),
     location:
       typeof data.location === 'string'
         ? data.location
@@ -282,17 +364,37 @@ export async function resolveSessionFromPayload(payload: ScannedSessionPayload):
             locationCoordinates?.longitude?.toFixed(5) ?? payload.locationCoordinates.longitude.toFixed(5)
           }`,
     locationCoordinates,
-    sessionToken: typeof data.sessionToken === 'string' ? data.sessionToken : payload.sessionToken
+    signalFingerprint: parseClassroomSignalFingerprint(data.signalFingerprint) ?? undefined,
+    geofence: normalizeGeofence(data.geofence) ?? undefined,
+    roomName: typeof data.roomName === 'string' ? data.roomName : undefined,
+    sessionToken: typeof data.sessionToken === 'string' ? data.sessionToken : payload.sessionToken,
+    status: toSessionStatus(data.status),
+    startedAt: readIsoString(data.startedAt),
+    endedAt: readIsoString(data.endedAt),
+    cancelledAt: readIsoString(data.cancelledAt)
   };
 
   return {
     payload,
     session,
     sessionRef: resolvedRef,
-    isMock: false
+    isMock: false,
+    isOffline: false
   };
 }
 
+function readGraceMinutes(value: unknown, payload: ScannedSessionPayload): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : payload.lateGraceMinutes;
+}
+
+function readClassId(value: unknown, payload: ScannedSessionPayload): string | undefined {
+  return typeof value === 'string' && value.length > 0 ? value : payload.classId;
+}
+
+function readIsoString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
 export function computeProximity(
   studentLocation: { latitude: number; longitude: number; accuracy?: number | null },
   targetLocation?: SessionLocationCoordinates
@@ -318,7 +420,11 @@ export async function recordAttendance({
   session,
   studentLocation,
   device,
-  profile
+  profile,
+  faceVerification,
+  liveness,
+  signalScan,
+  locationTrace
 }: AttendanceCheckInput): Promise<AttendanceCheckResult> {
   if (!device) {
     throw new Error('This device is not registered. Refresh the device status and try again.');
@@ -337,23 +443,70 @@ export async function recordAttendance({
     throw new Error('Another device is currently approved for this account. Switch back to the approved device.');
   }
 
-  const proximityMeters = computeProximity(studentLocation, session.session.locationCoordinates);
+  const isMockCheckIn = !isFirebaseConfigured || session.isMock || isMockStudent(student);
+
+  if (!isMockCheckIn) {
+    return submitCheckIn(
+      student.uid,
+      session,
+      studentLocation,
+      device,
+      faceVerification,
+      liveness,
+      signalScan ?? null,
+      locationTrace ?? null
+    );
+  }
+
+  const now = Date.now();
+  assertSessionOpen(session.session, now);
+
+  const { geofence } = session.session;
+  const geofenceCheck = geofence ? evaluateGeofence(studentLocation, geofence) : null;
+  const proximityMeters = geofenceCheck
+    ? geofenceCheck.proximityMeters
+    : computeProximity(studentLocation, session.session.locationCoordinates);
   const notes: string[] = [];
-  const threshold = DEFAULT_THRESHOLD_METERS;
+  const threshold = geofenceCheck ? 0 : DEFAULT_THRESHOLD_METERS;
 
-  const accuracyMargin =
-    Math.max(0, studentLocation.accuracy ?? 0) +
-    Math.max(0, session.session.locationCoordinates?.accuracy ?? 0);
+  const accuracyMargin = geofenceCheck
+    ? geofenceCheck.bufferMeters
+    : Math.max(0, studentLocation.accuracy ?? 0) + Math.max(0, session.session.locationCoordinates?.accuracy ?? 0);
 
   if (accuracyMargin > 0) {
-    notes.push(`Distance adjusted by ±${Math.round(accuracyMargin)}m for GPS accuracy.`);
+    notes.push(
+      geofenceCheck
+        ? `Geofence widened by ±${accuracyMargin}m for GPS accuracy.`
+        : `Distance adjusted by ±${Math.round(accuracyMargin)}m for GPS accuracy.`
+    );
   }
 
   let status: AttendanceStatus = 'present';
+  const lateCutoff = getLateCutoff(session.session);
+
+  if (now > lateCutoff) {
+    const graceMinutes = session.session.lateGraceMinutes ?? DEFAULT_LATE_GRACE_MINUTES;
+    const minutesLate = Math.ceil((now - lateCutoff) / 60_000);
+    status = 'late';
+    notes.push(`Checked in ${minutesLate} min after the ${graceMinutes}-minute grace period.`);
+  }
+
+  const fingerprint = session.session.signalFingerprint;
+  const location = assessLocationFactors({
+    proximityMeters,
+    thresholdMeters: threshold,
+    signal: fingerprint ? scoreClassroomSignals(fingerprint, signalScan ?? null) : null,
+    geofenceName: geofenceCheck ? session.session.roomName ?? 'room' : undefined
+  });
+  notes.push(...location.notes);
+  if (location.flagged) {
+    status = 'flagged';
+  }
 
-  if (Number.isFinite(proximityMeters) && proximityMeters > threshold) {
+  const locationIntegrity = assessLocationIntegrity(locationTrace ?? null, now);
+  notes.push(...describeLocationIntegrity(locationIntegrity));
+  if (locationIntegrity.flagged) {
     status = 'flagged';
-    notes.push(`Distance exceeded ${threshold}m threshold`);
   }
 
   notes.push(`Device key ${device.deviceKey}`);
@@ -362,109 +515,132 @@ export async function recordAttendance({
     status = 'flagged';
   }
 
-  if (!isFirebaseConfigured || session.isMock || isMockStudent(student)) {
-    notes.push('Attendance recorded locally (mock mode).');
-    return {
-      status,
-      proximityMeters,
-      message: status === 'present' ? 'Attendance recorded (demo).' : 'Attendance flagged (demo).',
-      notes
-    };
+  notes.push(describeFaceVerification(faceVerification));
+  if (!faceVerification || faceVerification.verdict === 'mismatch') {
+    status = 'flagged';
   }
 
-  const db = getFirestoreDb();
-  if (!session.sessionRef) {
-    throw new Error('Session reference unavailable.');
+  notes.push(describeLiveness(liveness));
+  if (!liveness?.passed) {
+    status = 'flagged';
   }
 
-  const attendeeEntry = {
-    id: student.uid,
-    name: student.displayName ?? student.email ?? 'Student',
+  notes.push('Attendance recorded locally (mock mode).');
+  return {
     status,
     proximityMeters,
-    scannedAt: serverTimestamp(),
+    message: `${describeStatus(status)} (demo).`,
+    notes
+  };
+}
+
+/**
+ * Posts the check-in to the teacher portal. When the phone is offline, either
+ * at scan time or when posting, the check-in is first checked against the
+ * session window from the QR code, then signed and queued to sync later.
+ */
+async function submitCheckIn(
+  studentId: string,
+  session: ResolvedSession,
+  studentLocation: AttendanceCheckInput['studentLocation'],
+  device: DeviceRegistration,
+  faceVerification: FaceVerificationResult | null,
+  liveness: LivenessResult | null,
+  signalScan: ClassroomSignalScan | null,
+  locationTrace: LocationFix[] | null
+): Promise<AttendanceCheckResult> {
+  const capturedAt = Date.now();
+  const submission: CheckInSubmission = {
+    sessionToken: session.session.sessionToken ?? session.payload.sessionToken,
     deviceKey: device.deviceKey,
-    devicePlatform: device.platform,
-    deviceModel: device.modelName
-  } satisfies Record<string, unknown>;
+    location: {
+      latitude: studentLocation.latitude,
+      longitude: studentLocation.longitude,
+      accuracy: studentLocation.accuracy ?? null
+    },
+    rotation: session.payload.rotation,
+    faceTemplate: faceVerification
+      ? { embedding: faceVerification.embedding, modelVersion: faceVerification.modelVersion }
+      : null,
+    faceVerification: faceVerification
+      ? {
+          verdict: faceVerification.verdict,
+          distance: faceVerification.distance,
+          threshold: faceVerification.threshold
+        }
+      : null,
+    liveness: liveness
+      ? { challenge: liveness.challenge, passed: liveness.passed, confidence: liveness.confidence }
+      : null,
+    signals: signalScan,
+    locationTrace
+  };
 
-  try {
-    await runTransaction(db, async (transaction: Transaction) => {
-      const snapshot = await transaction.get(session.sessionRef!);
-      if (!snapshot.exists()) {
-        throw new Error('Session was removed before attendance could be recorded.');
+  if (!session.isOffline) {
+    try {
+      const result = await postCheckIn(submission);
+      return { ...result, message: result.message || `${describeStatus(result.status)}.` };
+    } catch (error) {
+      if (!(error instanceof CheckInSubmitError && error.code === 'offline')) {
+        throw error;
       }
+    }
+  }
 
-      const data = snapshot.data() as Record<string, unknown>;
-      const attendees = Array.isArray(data.attendees) ? [...(data.attendees as Array<Record<string, unknown>>)] : [];
+  assertSessionOpen(session.session, capturedAt);
+  await enqueueCheckIn(
+    studentId,
+    { sessionId: session.session.id, className: session.session.className, subject: session.session.subject },
+    submission,
+    capturedAt
+  );
 
-      const existingIndex = attendees.findIndex((attendee) => attendee?.id === student.uid);
-      if (existingIndex >= 0) {
-        attendees[existingIndex] = attendeeEntry;
-      } else {
-        attendees.push(attendeeEntry);
-      }
+  return {
+    status: 'queued',
+    proximityMeters: Number.POSITIVE_INFINITY,
+    message: 'Saved offline. Your check-in will sync automatically when you are back online.',
+    notes: [
+      `Captured at ${new Date(capturedAt).toLocaleTimeString()} without a connection.`,
+      'Track it under History; the server decides present, late or flagged when it syncs.'
+    ]
+  };
+}
 
-      transaction.update(session.sessionRef!, {
-        attendees
-      });
-    });
-  } catch (transactionError) {
-    if (!(transactionError instanceof FirebaseError && transactionError.code === 'permission-denied')) {
-      throw transactionError;
-    }
-    notes.push('Teacher session will sync attendance when permissions are updated.');
+function describeFaceVerification(face: FaceVerificationResult | null): string {
+  if (!face) {
+    return 'Face verification was skipped.';
   }
 
-  const sessionToken = session.session.sessionToken;
-  if (!sessionToken) {
-    throw new Error('Session token missing from record. Ask your teacher to regenerate the QR code.');
+  const distance = face.distance !== null ? ` (distance ${face.distance.toFixed(3)} / ${face.threshold.toFixed(3)})` : '';
+
+  switch (face.verdict) {
+    case 'matched':
+      return `Face matched enrolled samples${distance}.`;
+    case 'mismatch':
+      return `Face did not match enrolled samples${distance}.`;
+    default:
+      return 'First face sample captured as the enrollment baseline.';
   }
+}
 
-  const attendanceDoc = {
-    studentId: student.uid,
-    studentName: student.displayName ?? student.email ?? 'Student',
-    status,
-    proximityMeters,
-    scannedAt: serverTimestamp(),
-    deviceKey: device.deviceKey,
-    devicePlatform: device.platform,
-    deviceModel: device.modelName,
-    studentLatitude: studentLocation.latitude,
-    studentLongitude: studentLocation.longitude,
-    teacherId: session.session.teacherId,
-    sessionId: session.session.id,
-    sessionToken,
-    notes,
-    updatedAt: serverTimestamp()
-  } satisfies Record<string, unknown>;
-
-  const attendanceRef = doc(db, 'publicSessions', sessionToken, 'attendances', student.uid);
-  await setDoc(attendanceRef, attendanceDoc, { merge: true });
-
-  const attendanceLog = {
-    sessionId: session.session.id,
-    className: session.session.className,
-    subject: session.session.subject,
-    teacherId: session.session.teacherId,
-    status,
-    proximityMeters,
-    recordedAt: serverTimestamp(),
-    recordedAtLabel: format(new Date(), 'PPpp'),
-    latitude: studentLocation.latitude,
-    longitude: studentLocation.longitude,
-    deviceKey: device.deviceKey,
-    devicePlatform: device.platform,
-    deviceModel: device.modelName,
-    notes
-  } satisfies Record<string, unknown>;
+function describeLiveness(liveness: LivenessResult | null): string {
+  if (!liveness) {
+    return 'Liveness check was skipped.';
+  }
 
-  await addDoc(collection(db, 'students', student.uid, 'attendanceLogs'), attendanceLog);
+  const confidence = `${Math.round(liveness.confidence * 100)}% confidence`;
+  return liveness.passed
+    ? `Liveness check passed (${liveness.challenge}, ${confidence}).`
+    : `Liveness check failed (${liveness.challenge}, ${confidence}).`;
+}
 
-  return {
-    status,
-    proximityMeters,
-    message: status === 'present' ? 'You were marked present.' : 'Attendance flagged for review.',
-    notes
-  };
+function describeStatus(status: AttendanceStatus): string {
+  switch (status) {
+    case 'present':
+      return 'You were marked present';
+    case 'late':
+      return 'You were marked late';
+    default:
+      return 'Attendance flagged for review';
+  }
 }
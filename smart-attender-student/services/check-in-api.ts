@@ -0,0 +1,106 @@
+import type { ClassroomSignalScan } from '@shared/classroom-signals';
+import { getFirebaseAuth } from '@/lib/firebase';
+import type { LocationFix } from '@shared/location-integrity';
+import type { AttendanceStatus } from '@/lib/types/session';
+import { resolveTeacherApiUrl } from '@/lib/utils/teacher-api';
+import type { SignedQrWindow } from '@/services/qr-token';
+
+const CHECK_IN_PATH = '/api/attendance/check-in';
+
+/** Set when a check-in was captured without connectivity and is being synced later. */
+export interface OfflineCapture {
+  /** Device clock at capture, epoch milliseconds; the server judges the session window against it. */
+  capturedAt: number;
+  /** HMAC-SHA256 keyed with the device key; see `signOfflineCheckIn`. */
+  signature: string;
+}
+
+/** The JSON body of `POST /api/attendance/check-in`. */
+export interface CheckInSubmission {
+  sessionToken: string;
+  deviceKey: string;
+  location: { latitude: number; longitude: number; accuracy: number | null };
+  rotation?: SignedQrWindow;
+  faceTemplate: { embedding: number[]; modelVersion: string } | null;
+  faceVerification: { verdict: string; distance: number | null; threshold: number } | null;
+  liveness: { challenge: string; passed: boolean; confidence: number } | null;
+  signals: ClassroomSignalScan | null;
+  locationTrace: LocationFix[] | null;
+  offline?: OfflineCapture;
+}
+
+export interface CheckInServerResult {
+  status: Exclude<AttendanceStatus, 'absent'>;
+  proximityMeters: number;
+  message: string;
+  notes: string[];
+}
+
+/**
+ * `offline` — the server could not be reached; `retry` — it answered but could
+ * not decide yet (expired sign-in, server error); `rejected` — it refused the
+ * check-in and resending will not change that.
+ */
+export type CheckInSubmitErrorCode = 'offline' | 'retry' | 'rejected';
+
+export class CheckInSubmitError extends Error {
+  readonly code: CheckInSubmitErrorCode;
+
+  constructor(code: CheckInSubmitErrorCode, message: string) {
+    super(message);
+    this.name = 'CheckInSubmitError';
+    this.code = code;
+  }
+}
+
+/**
+ * Sends what the phone observed to the teacher portal, which re-verifies the QR
+ * window, session state and device, matches the selfie embedding against the
+ * stored face templates, computes distance and status against its own clock,
+ * and writes the attendance records with admin credentials.
+ */
+export async function postCheckIn(submission: CheckInSubmission): Promise<CheckInServerResult> {
+  const currentUser = getFirebaseAuth().currentUser;
+
+  if (!currentUser) {
+    throw new CheckInSubmitError('retry', 'Sign in again to submit attendance.');
+  }
+
+  let response: Response;
+
+  try {
+    const idToken = await currentUser.getIdToken();
+    response = await fetch(resolveTeacherApiUrl(CHECK_IN_PATH), {
+      method: 'POST',
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${idToken}`
+      },
+      body: JSON.stringify(submission)
+    });
+  } catch (error) {
+    console.warn('[attendance] Check-in request failed', error);
+    throw new CheckInSubmitError('offline', 'Unable to reach the attendance server. Check your connection and try again.');
+  }
+
+  const body = (await response.json().catch(() => null)) as Record<string, unknown> | null;
+
+  if (!response.ok) {
+    const message =
+      typeof body?.error === 'string' ? body.error : 'Unable to record attendance right now. Try again shortly.';
+    throw new CheckInSubmitError(response.status === 401 || response.status >= 500 ? 'retry' : 'rejected', message);
+  }
+
+  const status = body?.status;
+  if (status !== 'present' && status !== 'late' && status !== 'flagged') {
+    throw new CheckInSubmitError('retry', 'The attendance server returned an unexpected response.');
+  }
+
+  return {
+    status,
+    proximityMeters: typeof body?.proximityMeters === 'number' ? body.proximityMeters : Number.POSITIVE_INFINITY,
+    message: typeof body?.message === 'string' ? body.message : '',
+    notes: Array.isArray(body?.notes) ? body.notes.filter((note): note is string => typeof note === 'string') : []
+  };
+}
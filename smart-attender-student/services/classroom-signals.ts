@@ -0,0 +1,140 @@
+import { Buffer } from 'buffer';
+import { PermissionsAndroid, Platform, type Permission } from 'react-native';
+import { BleManager, type Device } from 'react-native-ble-plx';
+import WifiManager from 'react-native-wifi-reborn';
+
+import {
+  normalizeBeaconUuid,
+  normalizeBssid,
+  parseIBeaconUuid,
+  type ClassroomSignalFingerprint,
+  type ClassroomSignalScan,
+  type SignalObservation
+} from '@shared/classroom-signals';
+
+const BLE_SCAN_MS = Number(process.env.EXPO_PUBLIC_BEACON_SCAN_MS ?? 4000);
+// Only the strongest networks are sent; the fingerprint never lists more than a handful.
+const MAX_WIFI_OBSERVATIONS = 40;
+
+let bleManager: BleManager | null = null;
+
+async function ensureAndroidPermissions(permissions: Permission[]): Promise<boolean> {
+  if (Platform.OS !== 'android') {
+    return true;
+  }
+
+  const results = await PermissionsAndroid.requestMultiple(permissions);
+  return permissions.every((permission) => results[permission] === PermissionsAndroid.RESULTS.GRANTED);
+}
+
+async function scanWifi(): Promise<SignalObservation[] | null> {
+  try {
+    if (Platform.OS === 'android') {
+      if (!(await ensureAndroidPermissions([PermissionsAndroid.PERMISSIONS.ACCESS_FINE_LOCATION]))) {
+        return null;
+      }
+
+      const entries = await WifiManager.loadWifiList();
+      return entries
+        .map((entry) => ({ id: normalizeBssid(entry.BSSID), rssi: Number.isFinite(entry.level) ? entry.level : null }))
+        .filter((entry): entry is SignalObservation => entry.id !== null)
+        .sort((a, b) => (b.rssi ?? 0) - (a.rssi ?? 0))
+        .slice(0, MAX_WIFI_OBSERVATIONS);
+    }
+
+    if (Platform.OS === 'ios') {
+      // iOS only exposes the network the phone is joined to, without a signal level.
+      const bssid = normalizeBssid(await WifiManager.getBSSID());
+      return bssid ? [{ id: bssid, rssi: null }] : [];
+    }
+  } catch (error) {
+    console.warn('[classroom-signals] Wi-Fi scan failed', error);
+  }
+
+  return null;
+}
+
+function readBeaconUuids(device: Device): string[] {
+  const uuids = (device.serviceUUIDs ?? []).map(normalizeBeaconUuid);
+
+  if (device.manufacturerData) {
+    uuids.push(parseIBeaconUuid(new Uint8Array(Buffer.from(device.manufacturerData, 'base64'))));
+  }
+
+  return uuids.filter((uuid): uuid is string => uuid !== null);
+}
+
+async function scanBeacon(beaconUuid: string): Promise<SignalObservation[] | null> {
+  if (Platform.OS === 'web') {
+    return null;
+  }
+
+  try {
+    const granted = await ensureAndroidPermissions(
+      Number(Platform.Version) >= 31
+        ? [PermissionsAndroid.PERMISSIONS.BLUETOOTH_SCAN, PermissionsAndroid.PERMISSIONS.BLUETOOTH_CONNECT]
+        : [PermissionsAndroid.PERMISSIONS.ACCESS_FINE_LOCATION]
+    );
+    if (!granted) {
+      return null;
+    }
+
+    bleManager ??= new BleManager();
+    const manager = bleManager;
+
+    if ((await manager.state()) !== 'PoweredOn') {
+      return null;
+    }
+
+    const observations: SignalObservation[] = [];
+
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(finish, BLE_SCAN_MS);
+
+      function finish() {
+        clearTimeout(timer);
+        manager.stopDeviceScan().catch(() => undefined);
+        resolve();
+      }
+
+      // Unfiltered: iBeacon adverts carry the UUID in manufacturer data, not in the service list.
+      manager
+        .startDeviceScan(null, { allowDuplicates: false }, (error, device) => {
+          if (error) {
+            console.warn('[classroom-signals] BLE scan failed', error);
+            finish();
+            return;
+          }
+
+          if (device && readBeaconUuids(device).includes(beaconUuid)) {
+            observations.push({ id: beaconUuid, rssi: device.rssi ?? null });
+            finish();
+          }
+        })
+        .catch(() => finish());
+    });
+
+    return observations;
+  } catch (error) {
+    console.warn('[classroom-signals] BLE scan failed', error);
+    return null;
+  }
+}
+
+/**
+ * Scans only the radios the session's fingerprint uses. A radio that is off or
+ * not permitted is reported as not scanned rather than as an empty scan.
+ */
+export async function scanClassroomSignals(fingerprint: ClassroomSignalFingerprint): Promise<ClassroomSignalScan> {
+  const [wifi, beacons] = await Promise.all([
+    fingerprint.wifiBssids.length ? scanWifi() : Promise.resolve(null),
+    fingerprint.beaconUuid ? scanBeacon(fingerprint.beaconUuid) : Promise.resolve(null)
+  ]);
+
+  return {
+    wifi: wifi ?? [],
+    beacons: beacons ?? [],
+    wifiScanned: wifi !== null,
+    bleScanned: beacons !== null
+  };
+}
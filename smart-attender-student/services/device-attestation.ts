@@ -0,0 +1,132 @@
+import * as AppIntegrity from '@expo/app-integrity';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, randomBytes, utf8ToBytes } from '@noble/hashes/utils';
+import type { User } from 'firebase/auth';
+import * as SecureStore from 'expo-secure-store';
+import { Platform } from 'react-native';
+
+import { resolveTeacherApiUrl } from '@/lib/utils/teacher-api';
+
+export interface AttestationVerdict {
+  passed: boolean;
+  provider: string;
+  reason: string | null;
+}
+
+type AttestationEvidence =
+  | { platform: 'android'; token: string }
+  | { platform: 'ios'; keyId: string; attestation: string }
+  | { platform: 'none' };
+
+const CHALLENGE_PATH = '/api/devices/attestation/challenge';
+const VERIFY_PATH = '/api/devices/attestation';
+const SIGNING_KEY_SECURE_STORE = 'smart-attender.offline-signing-key';
+
+let integrityProviderReady: Promise<void> | null = null;
+
+async function postJson(path: string, idToken: string, payload: Record<string, unknown>) {
+  const response = await fetch(resolveTeacherApiUrl(path), {
+    method: 'POST',
+    headers: {
+      Accept: 'application/json',
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${idToken}`
+    },
+    body: JSON.stringify(payload)
+  });
+
+  const body = (await response.json().catch(() => null)) as Record<string, unknown> | null;
+
+  if (!response.ok) {
+    throw new Error(typeof body?.error === 'string' ? body.error : 'Unable to verify this device right now.');
+  }
+
+  return body ?? {};
+}
+
+/**
+ * The key offline check-ins are signed with. It lives only in this device's
+ * secure storage (never backed up or synced) and reaches the server once, bound
+ * into an attestation challenge. Returns null where secure storage is missing.
+ */
+export async function readOfflineSigningKey(): Promise<string | null> {
+  try {
+    return (await SecureStore.isAvailableAsync()) ? await SecureStore.getItemAsync(SIGNING_KEY_SECURE_STORE) : null;
+  } catch (error) {
+    console.warn('Unable to read the offline signing key', error);
+    return null;
+  }
+}
+
+async function getOrCreateOfflineSigningKey(): Promise<string | null> {
+  const existing = await readOfflineSigningKey();
+  if (existing || !(await SecureStore.isAvailableAsync())) {
+    return existing;
+  }
+
+  try {
+    const key = bytesToHex(randomBytes(32));
+    await SecureStore.setItemAsync(SIGNING_KEY_SECURE_STORE, key, {
+      keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY
+    });
+    return key;
+  } catch (error) {
+    console.warn('Unable to create an offline signing key', error);
+    return null;
+  }
+}
+
+async function collectEvidence(challenge: string): Promise<AttestationEvidence> {
+  if (Platform.OS === 'android') {
+    const cloudProjectNumber = process.env.EXPO_PUBLIC_GOOGLE_CLOUD_PROJECT_NUMBER;
+    if (!cloudProjectNumber) {
+      return { platform: 'none' };
+    }
+
+    integrityProviderReady ??= AppIntegrity.prepareIntegrityTokenProviderAsync(cloudProjectNumber).catch((error) => {
+      integrityProviderReady = null;
+      throw error;
+    });
+    await integrityProviderReady;
+
+    // The server expects the SHA-256 of the challenge as the Play Integrity request hash.
+    const token = await AppIntegrity.requestIntegrityCheckAsync(bytesToHex(sha256(utf8ToBytes(challenge))));
+    return { platform: 'android', token };
+  }
+
+  if (Platform.OS === 'ios' && AppIntegrity.isSupported) {
+    // A fresh key per attestation keeps the flow stateless; App Attest keys are cheap to mint.
+    const keyId = await AppIntegrity.generateKeyAsync();
+    const attestation = await AppIntegrity.attestKeyAsync(keyId, challenge);
+    return { platform: 'ios', keyId, attestation };
+  }
+
+  return { platform: 'none' };
+}
+
+/**
+ * Proves to the teacher portal that this is a genuine, unmodified install on
+ * real hardware. The server verifies the platform evidence and stores the
+ * verdict on the device record; the returned verdict mirrors what it stored.
+ * The offline signing key's hash is bound into the challenge, so a passing
+ * verdict also registers that key for verifying queued check-ins.
+ */
+export async function attestDevice(user: User, deviceKey: string): Promise<AttestationVerdict> {
+  const idToken = await user.getIdToken();
+  const signingKey = await getOrCreateOfflineSigningKey();
+  const signingKeyHash = signingKey ? bytesToHex(sha256(utf8ToBytes(signingKey))) : null;
+  const { challenge } = await postJson(CHALLENGE_PATH, idToken, { deviceKey, signingKeyHash });
+
+  if (typeof challenge !== 'string') {
+    throw new Error('The attestation server returned an unexpected response.');
+  }
+
+  const evidence = await collectEvidence(challenge);
+  const verdict = await postJson(VERIFY_PATH, idToken, { deviceKey, challenge, signingKey, ...evidence });
+
+  return {
+    passed: verdict.passed === true,
+    provider: typeof verdict.provider === 'string' ? verdict.provider : 'unknown',
+    reason: typeof verdict.reason === 'string' ? verdict.reason : null
+  };
+}
@@ -3,11 +3,21 @@ import Constants from 'expo-constants';
 import * as Device from 'expo-device';
 import * as SecureStore from 'expo-secure-store';
 import { Platform } from 'react-native';
-import { FirebaseError } from 'firebase/app';
-import { doc, getDoc, runTransaction, serverTimestamp, setDoc, updateDoc } from 'firebase/firestore';
+import {
+  addDoc,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  where
+} from 'firebase/firestore';
 import type { User } from 'firebase/auth';
 
 import { getFirestoreDb, isFirebaseConfigured } from '@/lib/firebase';
+import { resolveTeacherApiUrl } from '@/lib/utils/teacher-api';
+import { attestDevice, readOfflineSigningKey } from '@/services/device-attestation';
 import { isMockStudent, type MockStudentUser } from '@/services/mock-student';
 import { type DeviceApprovalState } from '@/services/student-profile';
 
@@ -24,7 +34,6 @@ interface DeviceMetadata {
   modelName: string | null;
   osVersion: string | null;
   isPhysicalDevice: boolean;
-  attestationPassed: boolean;
   appVersion: string | null;
   appBuild: string | null;
 }
@@ -44,14 +53,26 @@ export interface DeviceRegistration {
   registeredAt?: string | null;
 }
 
+export type DeviceTransferStatus = 'pending' | 'approved' | 'rejected';
+
+export interface DeviceTransferRequest {
+  id: string;
+  deviceKey: string;
+  status: DeviceTransferStatus;
+  reason: string;
+  resolutionReason: string | null;
+  requestedAt: string;
+}
+
 const DEVICE_KEY_STORAGE_KEY = 'smart-attender.device-key';
 const DEVICE_KEY_SECURE_STORE = DEVICE_KEY_STORAGE_KEY;
 const DEVICE_KEY_ASYNC_STORAGE = DEVICE_KEY_STORAGE_KEY;
 const LEGACY_DEVICE_KEY_ASYNC_STORAGE = 'smart-attender/device-key';
 const MOCK_DEVICE_PREFIX = 'smart-attender/mock-device/';
 const EMULATOR_BLOCK_REASON = 'Virtual devices are not allowed for attendance.';
-const DEVICE_CONFLICT_REASON = 'This device is registered to another student. Use your approved device or request a transfer.';
 const DEVICE_VERIFICATION_FAILURE_REASON = 'Unable to verify device ownership. Check your connection or contact an administrator.';
+const ATTESTATION_REFRESH_MS = 24 * 60 * 60 * 1000;
+const REGISTER_PATH = '/api/devices/register';
 
 let secureStoreAvailable: boolean | null = null;
 
@@ -74,149 +95,99 @@ export async function ensureDeviceRegistration(user: AllowedUser | null | undefi
     return record;
   }
 
-  const db = getFirestoreDb();
-  const directoryRef = doc(db, 'deviceDirectory', deviceKey);
-  let deviceClaimedByOther = false;
-  let ownershipVerificationFailed = false;
-
-  const directoryPayload = {
-    studentId: user.uid,
-    lastSeenAt: serverTimestamp(),
-    platform: metadata.platform,
-    brand: metadata.brand ?? null,
-    modelName: metadata.modelName ?? null,
-    osVersion: metadata.osVersion ?? null,
-    appVersion: metadata.appVersion ?? null,
-    isPhysicalDevice: metadata.isPhysicalDevice,
-    attestationPassed: metadata.attestationPassed
-  } as const;
+  let registered: ServerRegistration;
 
   try {
-    await runTransaction(db, async (transaction) => {
-      const snapshot = await transaction.get(directoryRef);
-
-      if (!snapshot.exists()) {
-        transaction.set(directoryRef, {
-          ...directoryPayload,
-          createdAt: serverTimestamp()
-        });
-        return;
-      }
-
-      const data = snapshot.data() as Record<string, unknown>;
-      const ownerId = typeof data.studentId === 'string' ? data.studentId : null;
-
-      if (ownerId && ownerId !== user.uid) {
-        deviceClaimedByOther = true;
-        return;
-      }
-
-      transaction.update(directoryRef, {
-        ...directoryPayload
-      });
-    });
+    registered = await postDeviceRegistration(user, deviceKey, metadata);
   } catch (error) {
-    if (error instanceof FirebaseError && error.code === 'permission-denied') {
-      deviceClaimedByOther = true;
-    } else {
-      ownershipVerificationFailed = true;
-      console.warn('Unable to sync device ownership directory entry', error);
-    }
+    console.warn('Unable to register device with the attendance server', error);
+    return {
+      ...((await fetchDeviceRegistration(user).catch(() => null)) ?? buildUnregisteredDevice(deviceKey, metadata, nowIso)),
+      approvalState: 'blocked',
+      approvalReason: DEVICE_VERIFICATION_FAILURE_REASON
+    };
   }
 
-  const profileRef = doc(db, 'students', user.uid);
-  const deviceRef = doc(db, 'students', user.uid, 'devices', deviceKey);
-
-  const [profileSnap, deviceSnap] = await Promise.all([getDoc(profileRef), getDoc(deviceRef)]);
-  const profileData = profileSnap.data() ?? {};
-  const currentActiveKey = typeof profileData.activeDeviceKey === 'string' ? profileData.activeDeviceKey : null;
-
-  const storedData = deviceSnap.data() ?? {};
-  const storedState = toDeviceState(storedData.approvalState);
-  const storedReason = typeof storedData.approvalReason === 'string' ? storedData.approvalReason : null;
-
-  let approvalState: DeviceApprovalState;
-  let approvalReason: string | null = storedReason;
-
-  if (deviceClaimedByOther) {
-    approvalState = 'blocked';
-    approvalReason = DEVICE_CONFLICT_REASON;
-  } else if (ownershipVerificationFailed) {
-    approvalState = 'blocked';
-    approvalReason = DEVICE_VERIFICATION_FAILURE_REASON;
-  } else if (!metadata.isPhysicalDevice) {
-    approvalState = 'blocked';
-    approvalReason = EMULATOR_BLOCK_REASON;
-  } else if (storedState) {
-    approvalState = storedState;
-  } else if (!currentActiveKey || currentActiveKey === deviceKey) {
-    approvalState = 'approved';
-    approvalReason = null;
-  } else {
-    approvalState = 'pending';
-    approvalReason = 'Another device is already approved for this account.';
-  }
+  const storedData = (await getDoc(doc(getFirestoreDb(), 'students', user.uid, 'devices', deviceKey))).data() ?? {};
+  const attestationPassed =
+    registered.approvalState === 'blocked'
+      ? readStoredAttestation(storedData)
+      : await refreshAttestation(user, deviceKey, storedData);
 
-  const devicePayload: Record<string, unknown> = {
+  return {
     deviceKey,
+    approvalState: registered.approvalState,
+    approvalReason: registered.approvalReason,
+    isPhysicalDevice: metadata.isPhysicalDevice,
     platform: metadata.platform,
     brand: metadata.brand,
     modelName: metadata.modelName,
     osVersion: metadata.osVersion,
-    isPhysicalDevice: metadata.isPhysicalDevice,
-    attestation: {
-      passed: metadata.attestationPassed,
-      evaluatedAt: serverTimestamp(),
-      reason: metadata.attestationPassed ? null : 'Failed runtime integrity checks.'
-    },
-    approvalState,
-    approvalReason,
     appVersion: metadata.appVersion,
-    appBuild: metadata.appBuild,
-    lastSeenAt: serverTimestamp()
-  };
+    attestationPassed,
+    lastSyncedAt: nowIso,
+    registeredAt: registered.registeredAt
+  } satisfies DeviceRegistration;
+}
 
-  if (!deviceSnap.exists()) {
-    devicePayload.registeredAt = serverTimestamp();
-  }
+interface ServerRegistration {
+  approvalState: DeviceApprovalState;
+  approvalReason: string | null;
+  registeredAt: string;
+}
+
+/**
+ * Approval is decided by the teacher portal: students cannot write approval
+ * fields, and the server approves a first device automatically.
+ */
+async function postDeviceRegistration(
+  user: User,
+  deviceKey: string,
+  metadata: DeviceMetadata
+): Promise<ServerRegistration> {
+  const response = await fetch(resolveTeacherApiUrl(REGISTER_PATH), {
+    method: 'POST',
+    headers: {
+      Accept: 'application/json',
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${await user.getIdToken()}`
+    },
+    body: JSON.stringify({ deviceKey, metadata })
+  });
 
-  await setDoc(deviceRef, devicePayload, { merge: true });
-
-  const profileUpdates: Record<string, unknown> = {};
-  const storedProfileState = toDeviceState(profileData.deviceApprovalState);
-  const storedProfileReason = typeof profileData.deviceApprovalReason === 'string' ? profileData.deviceApprovalReason : null;
-  const shouldUpdateProfile =
-    approvalState === 'approved' ||
-    currentActiveKey === deviceKey ||
-    !currentActiveKey ||
-    storedProfileState !== approvalState ||
-    storedProfileReason !== approvalReason;
-
-  if (shouldUpdateProfile) {
-    profileUpdates.deviceApprovalState = approvalState;
-    profileUpdates.deviceApprovalReason = approvalReason;
-    profileUpdates.deviceApprovalUpdatedAt = serverTimestamp();
-    profileUpdates.activeDeviceKey = approvalState === 'approved' ? deviceKey : null;
+  const body = (await response.json().catch(() => null)) as Record<string, unknown> | null;
+
+  if (!response.ok) {
+    throw new Error(typeof body?.error === 'string' ? body.error : 'Unable to register this device right now.');
   }
 
-  if (Object.keys(profileUpdates).length > 0) {
-    await updateDoc(profileRef, profileUpdates);
+  const approvalState = toDeviceState(body?.approvalState);
+  if (!approvalState) {
+    throw new Error('The attendance server returned an unexpected response.');
   }
 
   return {
-    deviceKey,
     approvalState,
-    approvalReason,
+    approvalReason: typeof body?.approvalReason === 'string' ? body.approvalReason : null,
+    registeredAt: typeof body?.registeredAt === 'string' ? body.registeredAt : new Date().toISOString()
+  };
+}
+
+function buildUnregisteredDevice(deviceKey: string, metadata: DeviceMetadata, nowIso: string): DeviceRegistration {
+  return {
+    deviceKey,
+    approvalState: 'pending',
+    approvalReason: null,
     isPhysicalDevice: metadata.isPhysicalDevice,
     platform: metadata.platform,
     brand: metadata.brand,
     modelName: metadata.modelName,
     osVersion: metadata.osVersion,
     appVersion: metadata.appVersion,
-    attestationPassed: metadata.attestationPassed,
+    attestationPassed: false,
     lastSyncedAt: nowIso,
-    registeredAt: timestampToIso(deviceSnap.data()?.registeredAt) ?? nowIso
-  } satisfies DeviceRegistration;
+    registeredAt: null
+  };
 }
 
 export async function fetchDeviceRegistration(user: AllowedUser | null | undefined): Promise<DeviceRegistration | null> {
@@ -252,13 +223,143 @@ export async function fetchDeviceRegistration(user: AllowedUser | null | undefin
     modelName: typeof data.modelName === 'string' ? data.modelName : metadata.modelName,
     osVersion: typeof data.osVersion === 'string' ? data.osVersion : metadata.osVersion,
     appVersion: typeof data.appVersion === 'string' ? data.appVersion : metadata.appVersion,
-    attestationPassed:
-      typeof data.attestation?.passed === 'boolean' ? data.attestation.passed : metadata.attestationPassed,
+    attestationPassed: readStoredAttestation(data),
     lastSyncedAt: timestampToIso(data.lastSeenAt) ?? nowIso,
     registeredAt: timestampToIso(data.registeredAt)
   } satisfies DeviceRegistration;
 }
 
+const MIN_TRANSFER_REASON_LENGTH = 10;
+
+/**
+ * Asks an administrator to make this device the student's approved device. If
+ * the hardware is registered to someone else, approval also moves it over.
+ */
+export async function requestDeviceTransfer(
+  user: AllowedUser,
+  registration: DeviceRegistration,
+  rawReason: string
+): Promise<DeviceTransferRequest> {
+  const reason = rawReason.trim();
+
+  if (reason.length < MIN_TRANSFER_REASON_LENGTH) {
+    throw new Error('Tell your administrator why you need this device (at least a short sentence).');
+  }
+
+  const nowIso = new Date().toISOString();
+
+  if (isMockStudent(user) || !isFirebaseConfigured) {
+    return {
+      id: `mock-transfer-${registration.deviceKey}`,
+      deviceKey: registration.deviceKey,
+      status: 'pending',
+      reason,
+      resolutionReason: null,
+      requestedAt: nowIso
+    } satisfies DeviceTransferRequest;
+  }
+
+  const existing = await fetchLatestTransferRequest(user, registration.deviceKey);
+  if (existing?.status === 'pending') {
+    return existing;
+  }
+
+  const db = getFirestoreDb();
+  const [profileSnap, directorySnap] = await Promise.all([
+    getDoc(doc(db, 'students', user.uid)),
+    getDoc(doc(db, 'deviceDirectory', registration.deviceKey))
+  ]);
+  const activeDeviceKey = profileSnap.data()?.activeDeviceKey;
+  const currentOwnerId = directorySnap.data()?.studentId;
+
+  const created = await addDoc(collection(db, 'deviceTransfers'), {
+    studentId: user.uid,
+    studentName: user.displayName ?? user.email ?? 'Student',
+    studentEmail: user.email ?? null,
+    deviceKey: registration.deviceKey,
+    fromDeviceKey: typeof activeDeviceKey === 'string' ? activeDeviceKey : null,
+    currentOwnerId: typeof currentOwnerId === 'string' ? currentOwnerId : null,
+    reason,
+    status: 'pending',
+    requestedAt: nowIso,
+    createdAt: serverTimestamp()
+  });
+
+  return {
+    id: created.id,
+    deviceKey: registration.deviceKey,
+    status: 'pending',
+    reason,
+    resolutionReason: null,
+    requestedAt: nowIso
+  } satisfies DeviceTransferRequest;
+}
+
+export async function fetchLatestTransferRequest(
+  user: AllowedUser | null | undefined,
+  deviceKey: string
+): Promise<DeviceTransferRequest | null> {
+  if (!user || isMockStudent(user) || !isFirebaseConfigured) {
+    return null;
+  }
+
+  const db = getFirestoreDb();
+  const snapshot = await getDocs(
+    query(collection(db, 'deviceTransfers'), where('studentId', '==', user.uid), where('deviceKey', '==', deviceKey))
+  );
+
+  const requests = snapshot.docs.map((docSnapshot) => {
+    const data = docSnapshot.data() as Record<string, unknown>;
+    const resolution = data.resolution as Record<string, unknown> | undefined;
+    const status: DeviceTransferStatus =
+      data.status === 'approved' || data.status === 'rejected' ? data.status : 'pending';
+
+    return {
+      id: docSnapshot.id,
+      deviceKey,
+      status,
+      reason: typeof data.reason === 'string' ? data.reason : '',
+      resolutionReason: typeof resolution?.reason === 'string' ? resolution.reason : null,
+      requestedAt: typeof data.requestedAt === 'string' ? data.requestedAt : new Date(0).toISOString()
+    } satisfies DeviceTransferRequest;
+  });
+
+  return requests.sort((a, b) => b.requestedAt.localeCompare(a.requestedAt))[0] ?? null;
+}
+
+function readStoredAttestation(data: Record<string, unknown>): boolean {
+  const attestation = data.attestation as Record<string, unknown> | undefined;
+  return attestation?.passed === true;
+}
+
+/**
+ * Re-runs platform attestation when the server has no passing verdict, the
+ * last one is more than a day old, or this install has no offline signing key
+ * registered yet. Failures keep the stored verdict so a flaky network does not
+ * demote an already-attested device.
+ */
+async function refreshAttestation(user: User, deviceKey: string, storedData: Record<string, unknown>): Promise<boolean> {
+  const storedPassed = readStoredAttestation(storedData);
+  const attestation = storedData.attestation as Record<string, unknown> | undefined;
+  const evaluatedAt = timestampToIso(attestation?.evaluatedAt);
+  const isFresh = evaluatedAt !== null && Date.now() - new Date(evaluatedAt).getTime() < ATTESTATION_REFRESH_MS;
+
+  if (storedPassed && isFresh && (await readOfflineSigningKey())) {
+    return true;
+  }
+
+  try {
+    const verdict = await attestDevice(user, deviceKey);
+    if (!verdict.passed) {
+      console.warn('Device attestation did not pass', verdict.reason);
+    }
+    return verdict.passed;
+  } catch (error) {
+    console.warn('Unable to attest device', error);
+    return storedPassed;
+  }
+}
+
 export function isDeviceApproved(registration: DeviceRegistration | null | undefined): boolean {
   return registration?.approvalState === 'approved';
 }
@@ -362,7 +463,6 @@ function collectDeviceMetadata(): DeviceMetadata {
   const modelName = typeof Device.modelName === 'string' ? Device.modelName : Device.modelId ?? null;
   const osVersion = typeof Device.osVersion === 'string' ? Device.osVersion : null;
   const isPhysicalDevice = Boolean(Device.isDevice);
-  const attestationPassed = isPhysicalDevice;
 
   const appVersion =
     Constants.expoConfig?.version ?? Constants.expoConfig?.runtimeVersion ?? Constants.manifest2?.extra?.expoClient?.config?.version ?? null;
@@ -375,7 +475,6 @@ function collectDeviceMetadata(): DeviceMetadata {
     modelName,
     osVersion,
     isPhysicalDevice,
-    attestationPassed,
     appVersion,
     appBuild
   } satisfies DeviceMetadata;
@@ -432,7 +531,8 @@ async function loadMockDeviceRecord(
         modelName: metadata.modelName,
         osVersion: metadata.osVersion,
         appVersion: metadata.appVersion,
-        attestationPassed: metadata.attestationPassed,
+        // Demo mode has no server to attest against, so trust the emulator check.
+        attestationPassed: metadata.isPhysicalDevice,
         lastSyncedAt: nowIso,
         registeredAt: parsed.registeredAt ?? nowIso
       } satisfies DeviceRegistration;
@@ -451,7 +551,7 @@ async function loadMockDeviceRecord(
     modelName: metadata.modelName,
     osVersion: metadata.osVersion,
     appVersion: metadata.appVersion,
-    attestationPassed: metadata.attestationPassed,
+    attestationPassed: metadata.isPhysicalDevice,
     lastSyncedAt: nowIso,
     registeredAt: nowIso
   } satisfies DeviceRegistration;
@@ -0,0 +1,154 @@
+import type { User } from 'firebase/auth';
+import { manipulateAsync, SaveFormat } from 'expo-image-manipulator';
+
+import { getFirebaseAuth, isFirebaseConfigured } from '@/lib/firebase';
+import {
+  assessFaceQuality,
+  ENROLLMENT_POSES,
+  type EnrollmentPose,
+  type FaceQualityReport
+} from '@/lib/face-quality';
+import { resolveTeacherApiUrl } from '@/lib/utils/teacher-api';
+import { FACE_EMBEDDING_MODEL_VERSION, inspectFaceFromBase64, isFaceRecognitionConfigured } from '@/services/face-model';
+import {
+  getEnrolledPoses,
+  measureEnrollmentConsistency,
+  storeEnrollmentSample,
+  type StudentProfileInput
+} from '@/services/face-recognition';
+import { syncFaceTemplates } from '@/services/face-templates';
+import { isMockStudent, type MockStudentUser } from '@/services/mock-student';
+
+type AllowedUser = User | MockStudentUser;
+
+export interface FaceEnrollmentProgress {
+  completed: EnrollmentPose[];
+  remaining: EnrollmentPose[];
+}
+
+export interface EnrollmentCaptureResult {
+  accepted: boolean;
+  pose: EnrollmentPose;
+  /** What to fix before retaking; empty when the capture was accepted. */
+  guidance: string[];
+  quality: FaceQualityReport | null;
+  completed: EnrollmentPose[];
+}
+
+const ENROLL_PATH = '/api/face/templates';
+// Enough resolution for the blur check; FaceMesh downsizes again for detection.
+const ENROLLMENT_FRAME_WIDTH = 480;
+const IDENTITY_GUIDANCE = 'This photo does not look like your earlier captures. Make sure only you are in the frame.';
+
+function toProgress(completed: EnrollmentPose[]): FaceEnrollmentProgress {
+  return { completed, remaining: ENROLLMENT_POSES.filter((pose) => !completed.includes(pose)) };
+}
+
+/**
+ * Loads which enrollment poses the student has on file, mirroring the backend
+ * templates first so enrollment done on another phone counts. When face
+ * recognition is not configured there is nothing to enroll.
+ */
+export async function loadFaceEnrollmentProgress(student: AllowedUser): Promise<FaceEnrollmentProgress> {
+  if (!isFaceRecognitionConfigured) {
+    return toProgress(ENROLLMENT_POSES);
+  }
+
+  try {
+    await syncFaceTemplates(student);
+  } catch (error) {
+    console.warn('Unable to sync face templates; using local enrollment.', error);
+  }
+
+  return toProgress(await getEnrolledPoses(student.uid));
+}
+
+async function uploadEnrollmentSample(pose: EnrollmentPose, embedding: number[]): Promise<boolean> {
+  const currentUser = getFirebaseAuth().currentUser;
+  if (!currentUser) {
+    throw new Error('Sign in again to enroll your face.');
+  }
+
+  const response = await fetch(resolveTeacherApiUrl(ENROLL_PATH), {
+    method: 'POST',
+    headers: {
+      Accept: 'application/json',
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${await currentUser.getIdToken()}`
+    },
+    body: JSON.stringify({ pose, faceTemplate: { embedding, modelVersion: FACE_EMBEDDING_MODEL_VERSION } })
+  });
+
+  const body = (await response.json().catch(() => null)) as Record<string, unknown> | null;
+
+  if (!response.ok) {
+    throw new Error(typeof body?.error === 'string' ? body.error : 'Unable to save your face enrollment right now.');
+  }
+
+  return body?.stored === true;
+}
+
+/**
+ * Checks one guided capture for framing, blur, brightness and head pose, and
+ * stores its embedding only when it passes and matches the earlier captures.
+ * `baselineBrightness` is the frontal capture's brightness for the lighting pose.
+ */
+export async function enrollFacePose(params: {
+  student: AllowedUser;
+  imageUri: string;
+  pose: EnrollmentPose;
+  baselineBrightness?: number;
+  studentProfile?: StudentProfileInput;
+}): Promise<EnrollmentCaptureResult> {
+  const { student, imageUri, pose, baselineBrightness, studentProfile } = params;
+
+  const frame = await manipulateAsync(imageUri, [{ resize: { width: ENROLLMENT_FRAME_WIDTH } }], {
+    compress: 0.8,
+    format: SaveFormat.JPEG,
+    base64: true
+  });
+
+  if (!frame.base64) {
+    throw new Error('Unable to read captured image. Please try again.');
+  }
+
+  const reject = (guidance: string[], quality: FaceQualityReport | null): EnrollmentCaptureResult => ({
+    accepted: false,
+    pose,
+    guidance,
+    quality,
+    completed: []
+  });
+
+  const inspection = await inspectFaceFromBase64(frame.base64);
+  if (!inspection) {
+    return reject(['We could not find a face. Centre your face in the frame in good light.'], null);
+  }
+
+  const quality = assessFaceQuality(pose, inspection, { baselineBrightness });
+  if (!quality.passed) {
+    return reject(quality.guidance, quality);
+  }
+
+  const consistency = await measureEnrollmentConsistency(student.uid, inspection.embedding);
+  if (consistency && !consistency.consistent) {
+    return reject([IDENTITY_GUIDANCE], quality);
+  }
+
+  if (isFirebaseConfigured && !isMockStudent(student)) {
+    const stored = await uploadEnrollmentSample(pose, inspection.embedding);
+    if (!stored) {
+      return reject([IDENTITY_GUIDANCE], quality);
+    }
+  }
+
+  const completed = await storeEnrollmentSample({
+    studentId: student.uid,
+    pose,
+    embedding: inspection.embedding,
+    previewBase64: frame.base64,
+    studentProfile
+  });
+
+  return { accepted: true, pose, guidance: [], quality, completed };
+}
@@ -0,0 +1,212 @@
+import type { Keypoint } from '@tensorflow-models/face-landmarks-detection';
+
+import { detectFaceKeypointsFromBase64 } from '@/services/face-model';
+
+export type LivenessChallenge = 'blink' | 'turn-left' | 'turn-right' | 'smile';
+
+export interface LivenessResult {
+  challenge: LivenessChallenge;
+  passed: boolean;
+  /** 0–1: how clearly the requested movement was observed, scaled by face coverage. */
+  confidence: number;
+  framesAnalyzed: number;
+  reason: string | null;
+}
+
+export interface LivenessFrame {
+  uri: string;
+  base64?: string;
+}
+
+export const LIVENESS_CHALLENGE_PROMPTS: Record<LivenessChallenge, string> = {
+  blink: 'Blink slowly twice',
+  'turn-left': 'Turn your head to your left',
+  'turn-right': 'Turn your head to your right',
+  smile: 'Give a big smile'
+};
+
+export const LIVENESS_FRAME_COUNT = Math.max(4, Number(process.env.EXPO_PUBLIC_LIVENESS_FRAMES ?? 6));
+const MIN_FACE_FRAMES = 4;
+
+// FaceMesh landmark indices (subject's left/right).
+const RIGHT_EYE = { outer: 33, inner: 133, upper: 159, lower: 145 };
+const LEFT_EYE = { outer: 263, inner: 362, upper: 386, lower: 374 };
+const NOSE_TIP = 1;
+const RIGHT_CHEEK = 234;
+const LEFT_CHEEK = 454;
+const MOUTH_RIGHT = 61;
+const MOUTH_LEFT = 291;
+
+// How far each metric must move from the first (neutral) frame to count.
+const REQUIRED_CHANGE: Record<LivenessChallenge, number> = {
+  blink: 0.35,
+  'turn-left': 0.12,
+  'turn-right': 0.12,
+  smile: 0.1
+};
+
+// Below this, landmark shapes are effectively identical across frames: a photo or a frozen screen.
+const STATIC_SHAPE_THRESHOLD = 0.004;
+
+interface FrameMetrics {
+  eyeOpenness: number;
+  yaw: number;
+  mouthWidth: number;
+  shape: number[];
+}
+
+export function pickLivenessChallenge(random: () => number = Math.random): LivenessChallenge {
+  const challenges = Object.keys(LIVENESS_CHALLENGE_PROMPTS) as LivenessChallenge[];
+  return challenges[Math.floor(random() * challenges.length) % challenges.length];
+}
+
+function distance(a: Keypoint, b: Keypoint): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function eyeAspectRatio(points: Keypoint[], eye: typeof RIGHT_EYE): number {
+  const width = distance(points[eye.outer], points[eye.inner]);
+  return width === 0 ? 0 : distance(points[eye.upper], points[eye.lower]) / width;
+}
+
+function measureFrame(points: Keypoint[]): FrameMetrics | null {
+  if (points.length < 468) {
+    return null;
+  }
+
+  const faceWidth = distance(points[RIGHT_CHEEK], points[LEFT_CHEEK]);
+  const interOcular = distance(points[RIGHT_EYE.outer], points[LEFT_EYE.outer]);
+  if (faceWidth === 0 || interOcular === 0) {
+    return null;
+  }
+
+  // Ratio of the nose's position between the cheek contours; landmark-relative,
+  // so it rises as the subject turns to their left whether or not the frame is mirrored.
+  const cheekSpan = points[LEFT_CHEEK].x - points[RIGHT_CHEEK].x;
+  const yaw = cheekSpan === 0 ? 0.5 : (points[NOSE_TIP].x - points[RIGHT_CHEEK].x) / cheekSpan;
+
+  const centroidX = points.reduce((sum, point) => sum + point.x, 0) / points.length;
+  const centroidY = points.reduce((sum, point) => sum + point.y, 0) / points.length;
+  const shape = points
+    .filter((_, index) => index % 8 === 0)
+    .flatMap((point) => [(point.x - centroidX) / faceWidth, (point.y - centroidY) / faceWidth]);
+
+  return {
+    eyeOpenness: (eyeAspectRatio(points, RIGHT_EYE) + eyeAspectRatio(points, LEFT_EYE)) / 2,
+    yaw,
+    mouthWidth: distance(points[MOUTH_RIGHT], points[MOUTH_LEFT]) / interOcular,
+    shape
+  };
+}
+
+function measureShapeChange(frames: FrameMetrics[]): number {
+  let largest = 0;
+
+  for (let index = 1; index < frames.length; index += 1) {
+    const previous = frames[index - 1].shape;
+    const current = frames[index].shape;
+    const change = current.reduce((sum, value, offset) => sum + Math.abs(value - previous[offset]), 0) / current.length;
+    largest = Math.max(largest, change);
+  }
+
+  return largest;
+}
+
+function measureChallenge(challenge: LivenessChallenge, frames: FrameMetrics[]): number {
+  const [baseline, ...rest] = frames;
+
+  switch (challenge) {
+    case 'blink': {
+      const widest = Math.max(...frames.map((frame) => frame.eyeOpenness));
+      const narrowest = Math.min(...frames.map((frame) => frame.eyeOpenness));
+      return widest === 0 ? 0 : 1 - narrowest / widest;
+    }
+    case 'turn-left':
+      return Math.max(0, ...rest.map((frame) => frame.yaw - baseline.yaw));
+    case 'turn-right':
+      return Math.max(0, ...rest.map((frame) => baseline.yaw - frame.yaw));
+    default:
+      return baseline.mouthWidth === 0
+        ? 0
+        : Math.max(0, ...rest.map((frame) => frame.mouthWidth / baseline.mouthWidth - 1));
+  }
+}
+
+/**
+ * Scores a burst of frames against the requested movement. Confidence reaches
+ * 1 when the movement is half again larger than required and every frame had
+ * a face in it.
+ */
+export function evaluateLiveness(
+  challenge: LivenessChallenge,
+  keypointFrames: (Keypoint[] | null)[],
+  expectedFrames = keypointFrames.length
+): LivenessResult {
+  const frames = keypointFrames
+    .map((points) => (points ? measureFrame(points) : null))
+    .filter((frame): frame is FrameMetrics => frame !== null);
+
+  const fail = (reason: string, confidence = 0): LivenessResult => ({
+    challenge,
+    passed: false,
+    confidence,
+    framesAnalyzed: frames.length,
+    reason
+  });
+
+  if (frames.length < MIN_FACE_FRAMES) {
+    return fail('Keep your face inside the frame for the whole check.');
+  }
+
+  if (measureShapeChange(frames) < STATIC_SHAPE_THRESHOLD) {
+    return fail('No natural movement was detected. Use your live face, not a photo or screen.');
+  }
+
+  const coverage = Math.min(1, frames.length / Math.max(1, expectedFrames));
+  const score = measureChallenge(challenge, frames) / REQUIRED_CHANGE[challenge];
+  const confidence = Number((coverage * Math.min(1, score / 1.5)).toFixed(3));
+
+  if (score < 1) {
+    return fail(`We didn't see you ${LIVENESS_CHALLENGE_PROMPTS[challenge].toLowerCase()}. Try again.`, confidence);
+  }
+
+  return { challenge, passed: true, confidence, framesAnalyzed: frames.length, reason: null };
+}
+
+/**
+ * Captures a burst of frames while the student performs the challenge and
+ * evaluates it. The first frame with a face is returned as the still to match
+ * against enrolled samples, so the selfie and the liveness burst are the same capture.
+ */
+export async function runLivenessCheck(
+  challenge: LivenessChallenge,
+  captureFrame: () => Promise<LivenessFrame | null>,
+  frameCount = LIVENESS_FRAME_COUNT
+): Promise<{ result: LivenessResult; referenceImageUri: string | null }> {
+  const frames: LivenessFrame[] = [];
+
+  for (let index = 0; index < frameCount; index += 1) {
+    const frame = await captureFrame();
+    if (frame) {
+      frames.push(frame);
+    }
+  }
+
+  // One frame at a time: FaceMesh tensors are large and phones run out of GPU memory quickly.
+  const keypointFrames: (Keypoint[] | null)[] = [];
+  for (const frame of frames) {
+    try {
+      keypointFrames.push(frame.base64 ? await detectFaceKeypointsFromBase64(frame.base64) : null);
+    } catch (error) {
+      console.warn('Liveness frame analysis failed', error);
+      keypointFrames.push(null);
+    }
+  }
+
+  const referenceIndex = keypointFrames.findIndex((points) => points !== null);
+
+  return {
+    result: evaluateLiveness(challenge, keypointFrames, frameCount),
+    referenceImageUri: referenceIndex >= 0 ? frames[referenceIndex].uri : null
+  };
+}
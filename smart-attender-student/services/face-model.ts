@@ -11,14 +11,59 @@ import { decodeJpeg } from '@tensorflow/tfjs-react-native';
 import { Buffer } from 'buffer';
 import { Platform } from 'react-native';
 
+import { computeFaceEmbedding } from '@/lib/face-embedding';
+import { measureFaceImageStats, type FaceImageStats } from '@/lib/face-quality';
+
+/**
+ * MobileFaceNet (112×112 input, 192-d output) converted for tfjs, loaded from
+ * an exact package version so the weights behind the default model version
+ * never change underneath stored samples.
+ */
+export const PINNED_FACE_EMBEDDING_MODEL_URL =
+  'https://cdn.jsdelivr.net/npm/@vladmandic/human-models@3.0.4/models/mobilefacenet.json';
+
+const PINNED_FACE_EMBEDDING_MODEL_VERSION = 'mobilefacenet-112-v1';
+
+const customModelUrl = process.env.EXPO_PUBLIC_FACE_EMBEDDING_MODEL_URL || null;
+
+/**
+ * Identifies the embedding space stored samples live in. Bump it whenever the
+ * embedding model changes; samples from other versions are re-enrolled.
+ */
+export const FACE_EMBEDDING_MODEL_VERSION =
+  process.env.EXPO_PUBLIC_FACE_EMBEDDING_MODEL_VERSION || PINNED_FACE_EMBEDDING_MODEL_VERSION;
+
+const FACE_EMBEDDING_MODEL_URL = customModelUrl ?? PINNED_FACE_EMBEDDING_MODEL_URL;
+
+// A custom model under the pinned version (or the pinned model under another
+// version) would mix embedding spaces, so an override must set both.
+const modelConfigError =
+  Boolean(customModelUrl) === (FACE_EMBEDDING_MODEL_VERSION === PINNED_FACE_EMBEDDING_MODEL_VERSION)
+    ? 'Face recognition model is misconfigured. Set EXPO_PUBLIC_FACE_EMBEDDING_MODEL_URL and EXPO_PUBLIC_FACE_EMBEDDING_MODEL_VERSION together, or leave both unset for the built-in model, and restart the app.'
+    : null;
+
+export const isFaceRecognitionConfigured = modelConfigError === null;
+
+export interface FaceInspection {
+  keypoints: Keypoint[];
+  /** Size of the frame the keypoints were measured in. */
+  width: number;
+  height: number;
+  stats: FaceImageStats;
+  embedding: number[];
+}
+
 let modelPromise: Promise<FaceLandmarksDetector> | null = null;
+let embeddingModelPromise: Promise<tf.GraphModel> | null = null;
+let backendPromise: Promise<void> | null = null;
 
-async function loadModel(): Promise<FaceLandmarksDetector> {
-  if (!modelPromise) {
-    modelPromise = (async () => {
+function ensureBackend(): Promise<void> {
+  if (!backendPromise) {
+    backendPromise = (async () => {
       await tf.ready();
 
-      const desiredBackend = Platform.OS === 'web' ? 'webgl' : 'rn-webgl';
+      // EXPO_PUBLIC_TF_BACKEND=cpu forces the portable backend, e.g. on devices without usable GL.
+      const desiredBackend = process.env.EXPO_PUBLIC_TF_BACKEND ?? (Platform.OS === 'web' ? 'webgl' : 'rn-webgl');
       if (tf.getBackend() !== desiredBackend && tf.findBackend(desiredBackend)) {
         try {
           await tf.setBackend(desiredBackend);
@@ -26,6 +71,16 @@ async function loadModel(): Promise<FaceLandmarksDetector> {
           console.warn(`Unable to set ${desiredBackend} backend, continuing with`, tf.getBackend(), error);
         }
       }
+    })();
+  }
+
+  return backendPromise;
+}
+
+async function loadModel(): Promise<FaceLandmarksDetector> {
+  if (!modelPromise) {
+    modelPromise = (async () => {
+      await ensureBackend();
 
       return createDetector(SupportedModels.MediaPipeFaceMesh, {
         runtime: 'tfjs',
@@ -38,7 +93,79 @@ async function loadModel(): Promise<FaceLandmarksDetector> {
   return modelPromise;
 }
 
+async function loadEmbeddingModel(): Promise<tf.GraphModel> {
+  if (modelConfigError) {
+    throw new Error(modelConfigError);
+  }
+
+  if (!embeddingModelPromise) {
+    embeddingModelPromise = (async () => {
+      await ensureBackend();
+      return tf.loadGraphModel(FACE_EMBEDDING_MODEL_URL);
+    })().catch((error) => {
+      embeddingModelPromise = null;
+      throw error;
+    });
+  }
+
+  return embeddingModelPromise;
+}
+
+/**
+ * Detects the face, aligns it on the eye line and returns the recognition
+ * model's unit-length identity embedding.
+ */
 export async function generateFaceEmbeddingFromBase64(base64: string): Promise<number[]> {
+  const embeddingModel = await loadEmbeddingModel();
+  const embedding = await withDetectedFace(base64, (image, keypoints) =>
+    computeFaceEmbedding(embeddingModel, image, keypoints)
+  );
+
+  if (!embedding) {
+    throw new Error('No face detected in frame.');
+  }
+
+  return embedding.map((value) => round(value));
+}
+
+/**
+ * One detection pass for enrollment: landmarks, brightness/sharpness of the face
+ * region and the identity embedding, or null when no face is found.
+ */
+export async function inspectFaceFromBase64(base64: string): Promise<FaceInspection | null> {
+  const embeddingModel = await loadEmbeddingModel();
+
+  return withDetectedFace(base64, async (image, keypoints) => {
+    const embedding = await computeFaceEmbedding(embeddingModel, image, keypoints);
+    const [height, width] = image.shape;
+
+    return {
+      keypoints,
+      width,
+      height,
+      stats: measureFaceImageStats(image, keypoints),
+      embedding: embedding.map((value) => round(value))
+    };
+  });
+}
+
+/**
+ * Runs FaceMesh on a JPEG frame and returns the landmarks of the first face, or
+ * null when none is found. Coordinates are in pixels of the resized frame, so
+ * callers comparing frames should normalise by the face's own extent.
+ */
+export async function detectFaceKeypointsFromBase64(base64: string): Promise<Keypoint[] | null> {
+  return withDetectedFace(base64, async (_image, keypoints) => keypoints);
+}
+
+/**
+ * Decodes the frame and tries a few input sizes until FaceMesh finds a face,
+ * then hands the [0, 1] frame and its landmarks (same pixel space) to `run`.
+ */
+async function withDetectedFace<T>(
+  base64: string,
+  run: (image: tf.Tensor3D, keypoints: Keypoint[]) => Promise<T>
+): Promise<T | null> {
   if (!base64) {
     throw new Error('Image data missing.');
   }
@@ -46,7 +173,7 @@ export async function generateFaceEmbeddingFromBase64(base64: string): Promise<n
   const model = await loadModel();
   const bytes = decodeBase64(base64);
   const imageTensor = decodeJpeg(bytes, 3);
-  const targetSizes: Array<[number, number]> = [
+  const targetSizes: [number, number][] = [
     [192, 192],
     [224, 224],
     [256, 256]
@@ -60,63 +187,26 @@ export async function generateFaceEmbeddingFromBase64(base64: string): Promise<n
       const normalized = floatTensor.div(normalizationScalar) as tf.Tensor3D;
 
       try {
-        const faces = await model.estimateFaces(normalized, { flipHorizontal: true });
+        const faces = await model.estimateFaces(normalized, { flipHorizontal: false });
 
         if (faces.length && faces[0].keypoints.length) {
-          const embedding = buildEmbedding(faces[0].keypoints);
-          return embedding.map((value) => round(value));
+          return await run(normalized, faces[0].keypoints);
         }
       } finally {
         tf.dispose([resized, floatTensor, normalized]);
       }
     }
 
-    throw new Error('No face detected in frame.');
+    return null;
   } finally {
     tf.dispose([imageTensor, normalizationScalar]);
   }
 }
 
-function buildEmbedding(keypoints: Keypoint[]): number[] {
-  const points = keypoints.map((point) => [point.x, point.y, point.z ?? 0]);
-  const centroid = [0, 1, 2].map((index) => average(points.map((coords) => coords[index])));
-  const ranges = [0, 1, 2].map((index) => {
-    const values = points.map((coords) => coords[index]);
-    const min = Math.min(...values);
-    const max = Math.max(...values);
-    const range = max - min;
-    return range === 0 ? 1 : range;
-  });
-
-  const normalized = points.flatMap((coords) =>
-    coords.map((value, index) => (value - centroid[index]) / ranges[index])
-  );
-
-  return normalizeVector(normalized);
-}
-
-function normalizeVector(values: number[]): number[] {
-  const magnitude = Math.sqrt(values.reduce((sum, value) => sum + value * value, 0));
-  if (magnitude === 0) {
-    return values.map(() => 0);
-  }
-
-  return values.map((value) => value / magnitude);
-}
-
 function round(value: number): number {
   return Number(value.toFixed(6));
 }
 
-function average(values: number[]): number {
-  if (!values.length) {
-    return 0;
-  }
-
-  const total = values.reduce((sum, value) => sum + value, 0);
-  return total / values.length;
-}
-
 function decodeBase64(base64: string): Uint8Array {
   const normalized = base64.replace(/\s/g, '');
   if (typeof globalThis.atob === 'function') {
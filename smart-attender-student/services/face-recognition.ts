@@ -1,13 +1,22 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { manipulateAsync, SaveFormat } from 'expo-image-manipulator';
-import { Buffer } from 'buffer';
 
-import { generateFaceEmbeddingFromBase64 } from '@/services/face-model';
-
-export type FaceEmbedding = number[];
+import {
+  DEFAULT_FACE_VERIFICATION_THRESHOLD,
+  distanceToReferences,
+  isFaceMatch,
+  round,
+  type FaceEmbedding
+} from '@shared/face-matching';
+import type { EnrollmentPose } from '@/lib/face-quality';
+import { FACE_EMBEDDING_MODEL_VERSION, generateFaceEmbeddingFromBase64 } from '@/services/face-model';
+
+export type { FaceEmbedding } from '@shared/face-matching';
 const STORAGE_KEY = 'smart-attender-face-model/v2';
-const FALLBACK_FEATURE_VECTOR_LENGTH = 128;
-const FACE_VERIFICATION_THRESHOLD = Number(process.env.EXPO_PUBLIC_FACE_THRESHOLD ?? 0.12);
+// Tune with `npm run evaluate-faces`, which reports FAR/FRR for labelled embedding sets.
+const FACE_VERIFICATION_THRESHOLD = Number(process.env.EXPO_PUBLIC_FACE_THRESHOLD ?? DEFAULT_FACE_VERIFICATION_THRESHOLD);
+// Samples stored before model versioning was introduced came from landmark/byte heuristics.
+const LEGACY_MODEL_VERSION = 'legacy';
 const MAX_SAMPLES_PER_STUDENT = 10;
 export const PROFILE_BASELINE_SAMPLE_TARGET = Math.max(
   1,
@@ -37,7 +46,11 @@ export interface StoredFaceSample {
   studentId: string;
   classId: string;
   embedding: FaceEmbedding;
+  /** Embedding model that produced `embedding`; samples from other versions cannot be compared. */
+  modelVersion: string;
   capturedAt: string;
+  /** Set on guided enrollment captures; check-in samples have none. */
+  pose?: EnrollmentPose;
   thumbnailBase64?: string;
 }
 
@@ -57,6 +70,19 @@ export interface FaceAnalysisResult {
   samplesForStudent: number;
   enrolled: boolean;
   profileSaved: boolean;
+  embedding: FaceEmbedding;
+  previewBase64?: string;
+}
+
+export type FaceVerdict = 'matched' | 'mismatch' | 'enrolled';
+
+export interface FaceVerificationResult {
+  verdict: FaceVerdict;
+  distance: number | null;
+  threshold: number;
+  /** The capture's embedding, sent with the check-in so the server can match it against stored templates. */
+  embedding: FaceEmbedding;
+  modelVersion: string;
   previewBase64?: string;
 }
 
@@ -64,11 +90,13 @@ export async function seedFaceEmbeddings(params: {
   studentId: string;
   classId: string;
   embeddings: FaceEmbedding[];
+  /** Model the embeddings were computed with; seeds from any other model are ignored. */
+  modelVersion?: string;
   studentProfile?: StudentProfileInput;
 }): Promise<number> {
-  const { studentId, classId, embeddings, studentProfile } = params;
+  const { studentId, classId, embeddings, modelVersion, studentProfile } = params;
 
-  if (!embeddings.length) {
+  if (!embeddings.length || modelVersion !== FACE_EMBEDDING_MODEL_VERSION) {
     return 0;
   }
 
@@ -110,11 +138,14 @@ export async function analyzeAndStoreFaceSample(params: {
   studentId: string;
   classId: string;
   studentProfile?: StudentProfileInput;
+  /** Leave the stored samples untouched when the capture does not match. */
+  discardMismatch?: boolean;
 }): Promise<FaceAnalysisResult> {
-  const { imageUri, studentId, classId, studentProfile } = params;
+  const { imageUri, studentId, classId, studentProfile, discardMismatch = false } = params;
 
   const { embedding, previewBase64 } = await generateImageEmbedding(imageUri);
   const dataset = await loadDataset();
+  await reenrollStaleSamples(dataset, studentId);
   const expectedDimension = embedding.length;
 
   if (!expectedDimension) {
@@ -152,9 +183,20 @@ export async function analyzeAndStoreFaceSample(params: {
   const enrolled = seededSamples.length === 0;
 
   if (!enrolled) {
-    const centroid = computeCentroid(seededSamples.map((sample) => sample.embedding));
-    distance = euclideanDistance(embedding, centroid);
-    verified = distance <= FACE_VERIFICATION_THRESHOLD;
+    distance = distanceToReferences(embedding, seededSamples.map((sample) => sample.embedding));
+    verified = isFaceMatch(distance, FACE_VERIFICATION_THRESHOLD);
+  }
+
+  if (!verified && discardMismatch) {
+    return {
+      verified,
+      distance,
+      samplesForStudent: seededSamples.length,
+      enrolled,
+      profileSaved: false,
+      embedding,
+      previewBase64
+    };
   }
 
   const nextSamples = truncateSamples([
@@ -181,14 +223,109 @@ export async function analyzeAndStoreFaceSample(params: {
     samplesForStudent: nextSamples.length,
     enrolled,
     profileSaved,
+    embedding,
     previewBase64
   };
 }
 
+/**
+ * Matches a check-in selfie against the student's samples for the class (or
+ * their profile baseline). A rejected selfie is not stored, so repeated
+ * attempts by someone else cannot drag the reference centroid toward them.
+ */
+export async function verifyFaceForCheckIn(params: {
+  imageUri: string;
+  studentId: string;
+  classId: string;
+  studentProfile?: StudentProfileInput;
+}): Promise<FaceVerificationResult> {
+  const result = await analyzeAndStoreFaceSample({ ...params, discardMismatch: true });
+
+  return {
+    verdict: result.enrolled ? 'enrolled' : result.verified ? 'matched' : 'mismatch',
+    distance: result.distance !== null && Number.isFinite(result.distance) ? round(result.distance) : null,
+    threshold: FACE_VERIFICATION_THRESHOLD,
+    embedding: result.embedding,
+    modelVersion: FACE_EMBEDDING_MODEL_VERSION,
+    previewBase64: result.previewBase64
+  };
+}
+
+/**
+ * Compares an enrollment capture with the student's profile samples captured so
+ * far. Returns null while there are none to compare against.
+ */
+export async function measureEnrollmentConsistency(
+  studentId: string,
+  embedding: FaceEmbedding
+): Promise<{ distance: number; threshold: number; consistent: boolean } | null> {
+  const references = (await getStoredFaceSamples(studentId, PROFILE_CLASS_ID)).filter(
+    (sample) => sample.embedding.length === embedding.length
+  );
+
+  if (!references.length) {
+    return null;
+  }
+
+  const distance = round(distanceToReferences(embedding, references.map((sample) => sample.embedding)));
+  return { distance, threshold: FACE_VERIFICATION_THRESHOLD, consistent: isFaceMatch(distance, FACE_VERIFICATION_THRESHOLD) };
+}
+
+/**
+ * Stores a quality-checked enrollment capture in the profile baseline. A new
+ * capture for a pose replaces the previous one for that pose.
+ */
+export async function storeEnrollmentSample(params: {
+  studentId: string;
+  pose: EnrollmentPose;
+  embedding: FaceEmbedding;
+  previewBase64?: string;
+  studentProfile?: StudentProfileInput;
+}): Promise<EnrollmentPose[]> {
+  const { studentId, pose, embedding, previewBase64, studentProfile } = params;
+  const dataset = await loadDataset();
+
+  const profileSamples = dataset.samples.filter(
+    (sample) => sample.studentId === studentId && sample.classId === PROFILE_CLASS_ID && sample.pose !== pose
+  );
+  const nextSamples = truncateSamples([
+    ...profileSamples,
+    createSample({ studentId, classId: PROFILE_CLASS_ID, embedding, previewBase64, pose })
+  ]);
+
+  dataset.samples = [
+    ...dataset.samples.filter((sample) => !(sample.studentId === studentId && sample.classId === PROFILE_CLASS_ID)),
+    ...nextSamples
+  ];
+  upsertStudentProfile(dataset, { studentId, classId: PROFILE_CLASS_ID, details: studentProfile });
+
+  await saveDataset(dataset);
+  return collectPoses(nextSamples);
+}
+
+/** Poses covered by the student's current-model enrollment samples. */
+export async function getEnrolledPoses(studentId: string): Promise<EnrollmentPose[]> {
+  return collectPoses(await getStoredFaceSamples(studentId, PROFILE_CLASS_ID));
+}
+
+function collectPoses(samples: StoredFaceSample[]): EnrollmentPose[] {
+  return [
+    ...new Set(
+      samples
+        .filter((sample) => sample.modelVersion === FACE_EMBEDDING_MODEL_VERSION)
+        .map((sample) => sample.pose)
+        .filter((pose): pose is EnrollmentPose => pose !== undefined)
+    )
+  ];
+}
+
 export async function getStoredSampleCount(studentId: string, classId: string): Promise<number> {
   const dataset = await loadDataset();
   const matches = dataset.samples.filter(
-    (sample) => sample.studentId === studentId && (sample.classId === classId || sample.classId === PROFILE_CLASS_ID)
+    (sample) =>
+      sample.studentId === studentId &&
+      sample.modelVersion === FACE_EMBEDDING_MODEL_VERSION &&
+      (sample.classId === classId || sample.classId === PROFILE_CLASS_ID)
   );
 
   if (!matches.length) {
@@ -211,7 +348,7 @@ export async function getStoredStudentProfile(studentId: string): Promise<Stored
 export async function getStoredFaceSamples(studentId: string, classId?: string): Promise<StoredFaceSample[]> {
   const dataset = await loadDataset();
   return dataset.samples.filter((sample) => {
-    if (sample.studentId !== studentId) {
+    if (sample.studentId !== studentId || sample.modelVersion !== FACE_EMBEDDING_MODEL_VERSION) {
       return false;
     }
 
@@ -223,10 +360,30 @@ export async function getStoredFaceSamples(studentId: string, classId?: string):
   });
 }
 
-export async function clearSamplesForStudent(studentId: string): Promise<void> {
+/**
+ * Replaces the student's local samples with the backend's templates, which are
+ * the source of truth. Thumbnails are kept for samples that still exist there.
+ */
+export async function replaceSamplesForStudent(
+  studentId: string,
+  samples: Omit<StoredFaceSample, 'studentId' | 'thumbnailBase64'>[]
+): Promise<void> {
   const dataset = await loadDataset();
-  dataset.samples = dataset.samples.filter((sample) => sample.studentId !== studentId);
-  delete dataset.students[studentId];
+  const thumbnails = new Map(
+    dataset.samples
+      .filter((sample) => sample.studentId === studentId && sample.thumbnailBase64)
+      .map((sample) => [`${sample.classId}|${sample.embedding.join(',')}`, sample.thumbnailBase64])
+  );
+
+  dataset.samples = [
+    ...dataset.samples.filter((sample) => sample.studentId !== studentId),
+    ...samples.map((sample) => ({
+      ...sample,
+      studentId,
+      thumbnailBase64: thumbnails.get(`${sample.classId}|${sample.embedding.join(',')}`)
+    }))
+  ];
+
   await saveDataset(dataset);
 }
 
@@ -245,23 +402,10 @@ async function generateImageEmbedding(imageUri: string): Promise<EmbeddingResult
     throw new Error('Unable to read captured image. Please try again.');
   }
 
-  const bytes = decodeBase64ToBytes(manipulated.base64);
+  const embedding = await generateFaceEmbeddingFromBase64(manipulated.base64);
 
-  if (!bytes.length) {
-    throw new Error('Captured image data is empty. Try retaking the photo.');
-  }
-
-  let embedding: FaceEmbedding;
-
-  try {
-    embedding = await generateFaceEmbeddingFromBase64(manipulated.base64);
-
-    if (!embedding.length) {
-      throw new Error('Received empty embedding from model');
-    }
-  } catch (error) {
-    console.warn('Falling back to heuristic face embedding', error);
-    embedding = bucketise(bytes, FALLBACK_FEATURE_VECTOR_LENGTH);
+  if (!embedding.length) {
+    throw new Error('Received empty embedding from the face model. Please try again.');
   }
 
   return {
@@ -270,110 +414,16 @@ async function generateImageEmbedding(imageUri: string): Promise<EmbeddingResult
   };
 }
 
-function bucketise(bytes: Uint8Array, vectorLength: number): FaceEmbedding {
-  if (!bytes.length) {
-    throw new Error('No bytes to process.');
-  }
-
-  const bucketSize = Math.ceil(bytes.length / vectorLength);
-  const embedding: FaceEmbedding = [];
-
-  for (let bucket = 0; bucket < vectorLength; bucket += 1) {
-    const start = bucket * bucketSize;
-    const end = Math.min(start + bucketSize, bytes.length);
-
-    if (start >= end) {
-      break;
-    }
-
-    let sum = 0;
-    for (let index = start; index < end; index += 1) {
-      sum += bytes[index];
-    }
-
-    const average = sum / (end - start);
-    embedding.push(round(average / 255));
-  }
-
-  if (!embedding.length) {
-    throw new Error('Failed to derive facial signature. Please retry.');
-  }
-
-  return normalizeVector(embedding);
-}
-
-function normalizeVector(vector: FaceEmbedding): FaceEmbedding {
-  const magnitude = Math.sqrt(vector.reduce((acc, value) => acc + value * value, 0));
-  if (magnitude === 0) {
-    return vector.map(() => 0);
-  }
-
-  return vector.map((value) => round(value / magnitude));
-}
-
-function decodeBase64ToBytes(base64: string): Uint8Array {
-  try {
-    const normalized = base64.replace(/\s/g, '');
-    if (typeof globalThis.atob === 'function') {
-      const binary = globalThis.atob(normalized);
-      const buffer = new Uint8Array(binary.length);
-      for (let i = 0; i < binary.length; i += 1) {
-        buffer[i] = binary.charCodeAt(i);
-      }
-      return buffer;
-    }
-
-    return Uint8Array.from(Buffer.from(normalized, 'base64'));
-  } catch (error) {
-    console.warn('Failed to decode base64 image data', error);
-    return new Uint8Array();
-  }
-}
-
-function round(value: number): number {
-  return Number(value.toFixed(6));
-}
-
-function computeCentroid(vectors: FaceEmbedding[]): FaceEmbedding {
-  if (!vectors.length) {
-    throw new Error('No vectors to average.');
-  }
-
-  const dimension = vectors[0].length;
-  const centroid = new Array<number>(dimension).fill(0);
-
-  vectors.forEach((vector) => {
-    if (vector.length !== dimension) {
-      throw new Error('Mismatched embedding dimensions detected.');
-    }
-
-    vector.forEach((value, index) => {
-      centroid[index] += value;
-    });
-  });
-
-  return centroid.map((value) => value / vectors.length);
-}
-
-function euclideanDistance(a: FaceEmbedding, b: FaceEmbedding): number {
-  if (a.length !== b.length) {
-    return Number.POSITIVE_INFINITY;
-  }
-
-  const sum = a.reduce((acc, value, index) => {
-    const diff = value - b[index];
-    return acc + diff * diff;
-  }, 0);
-
-  return Math.sqrt(sum);
-}
-
+/** Keeps the newest samples, but never drops guided enrollment captures. */
 function truncateSamples(samples: StoredFaceSample[]): StoredFaceSample[] {
   if (samples.length <= MAX_SAMPLES_PER_STUDENT) {
     return samples;
   }
 
-  return samples.slice(samples.length - MAX_SAMPLES_PER_STUDENT);
+  const posed = samples.filter((sample) => sample.pose);
+  const unposed = samples.filter((sample) => !sample.pose);
+  const kept = new Set([...posed, ...unposed.slice(Math.max(0, unposed.length - (MAX_SAMPLES_PER_STUDENT - posed.length)))]);
+  return samples.filter((sample) => kept.has(sample));
 }
 
 function createSample(params: {
@@ -381,12 +431,15 @@ function createSample(params: {
   classId: string;
   embedding: FaceEmbedding;
   previewBase64?: string;
+  pose?: EnrollmentPose;
 }): StoredFaceSample {
   return {
     studentId: params.studentId,
     classId: params.classId,
     embedding: params.embedding,
+    modelVersion: FACE_EMBEDDING_MODEL_VERSION,
     capturedAt: new Date().toISOString(),
+    pose: params.pose,
     thumbnailBase64: params.previewBase64
   };
 }
@@ -412,6 +465,39 @@ function upsertStudentProfile(
   return true;
 }
 
+/**
+ * Brings a student's samples into the current embedding space. Samples with a
+ * stored thumbnail are re-embedded with the current model; the rest are
+ * dropped, and the student's next capture becomes their new baseline.
+ */
+async function reenrollStaleSamples(dataset: FaceModelDataset, studentId: string): Promise<void> {
+  const stale = dataset.samples.filter(
+    (sample) => sample.studentId === studentId && sample.modelVersion !== FACE_EMBEDDING_MODEL_VERSION
+  );
+
+  if (!stale.length) {
+    return;
+  }
+
+  const refreshed: StoredFaceSample[] = [];
+  for (const sample of stale) {
+    if (!sample.thumbnailBase64) {
+      continue;
+    }
+
+    try {
+      const embedding = await generateFaceEmbeddingFromBase64(sample.thumbnailBase64);
+      refreshed.push({ ...sample, embedding, modelVersion: FACE_EMBEDDING_MODEL_VERSION });
+    } catch (error) {
+      console.warn('Unable to re-enroll stored face sample', error);
+    }
+  }
+
+  const staleSet = new Set(stale);
+  dataset.samples = [...dataset.samples.filter((sample) => !staleSet.has(sample)), ...refreshed];
+  await saveDataset(dataset);
+}
+
 async function loadDataset(): Promise<FaceModelDataset> {
   const raw = await AsyncStorage.getItem(STORAGE_KEY);
 
@@ -431,7 +517,10 @@ async function loadDataset(): Promise<FaceModelDataset> {
             typeof (sample as StoredFaceSample).classId === 'string' &&
             Array.isArray((sample as StoredFaceSample).embedding)
           );
-        })
+        }).map((sample) => ({
+          ...sample,
+          modelVersion: typeof sample.modelVersion === 'string' ? sample.modelVersion : LEGACY_MODEL_VERSION
+        }))
       : [];
 
     const studentsSource = parsed.students && typeof parsed.students === 'object' ? (parsed.students as Record<string, unknown>) : {};
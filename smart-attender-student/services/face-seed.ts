@@ -36,7 +36,13 @@ export async function ensureFaceSeedsLoaded(): Promise<void> {
       continue;
     }
 
-    if (embeddingData) {
+    // Vectors without a model version cannot be placed in any embedding space,
+    // so those seeds are built from their photos with the current model instead.
+    if (embeddingData && !embeddingData.modelVersion) {
+      console.warn(
+        `[face-seed] Embeddings for ${seed.studentId} have no modelVersion; seeding from sample photos instead.`
+      );
+    } else if (embeddingData) {
       try {
         const embeddings = extractEmbeddings(embeddingData);
         if (embeddings.length) {
@@ -44,6 +50,7 @@ export async function ensureFaceSeedsLoaded(): Promise<void> {
             studentId: seed.studentId,
             classId: targetClassId,
             embeddings,
+            modelVersion: embeddingData.modelVersion,
             studentProfile: {
               displayName: seed.displayName,
               studentNumber: seed.studentNumber,
@@ -119,7 +126,7 @@ function extractEmbeddings(data: SeedEmbeddingFile): FaceEmbedding[] {
 }
 
 function getDesiredSampleCount(sampleAssets: number[] | undefined, embeddingData: SeedEmbeddingFile | null): number {
-  if (embeddingData && Array.isArray(embeddingData.embeddings)) {
+  if (embeddingData?.modelVersion && Array.isArray(embeddingData.embeddings)) {
     return embeddingData.embeddings.length;
   }
 
@@ -0,0 +1,62 @@
+import { doc, getDoc } from 'firebase/firestore';
+
+import { getFirestoreDb, isFirebaseConfigured } from '@/lib/firebase';
+import { ENROLLMENT_POSES } from '@/lib/face-quality';
+import { replaceSamplesForStudent, type StoredFaceSample } from '@/services/face-recognition';
+import { isMockStudent, type MockStudentUser } from '@/services/mock-student';
+
+type TemplateSample = Omit<StoredFaceSample, 'studentId' | 'thumbnailBase64'>;
+
+function readSamples(raw: unknown): TemplateSample[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  return raw.flatMap((entry) => {
+    if (!entry || typeof entry !== 'object') {
+      return [];
+    }
+
+    const sample = entry as Record<string, unknown>;
+    if (
+      typeof sample.classId !== 'string' ||
+      typeof sample.modelVersion !== 'string' ||
+      !Array.isArray(sample.embedding) ||
+      !sample.embedding.every((value) => typeof value === 'number')
+    ) {
+      return [];
+    }
+
+    return [
+      {
+        classId: sample.classId,
+        embedding: sample.embedding as number[],
+        modelVersion: sample.modelVersion,
+        capturedAt: typeof sample.capturedAt === 'string' ? sample.capturedAt : new Date().toISOString(),
+        pose: ENROLLMENT_POSES.find((pose) => pose === sample.pose)
+      }
+    ];
+  });
+}
+
+/**
+ * Mirrors the student's enrollment templates from `faceTemplates/{uid}` into the
+ * on-device dataset, so a reinstalled app or a new phone verifies against the
+ * same baseline and an admin reset reaches every device. Returns the number of
+ * templates mirrored, or null when the backend has no record for the student
+ * yet (local samples are then kept until their first server-side check-in).
+ */
+export async function syncFaceTemplates(student: { uid: string } | MockStudentUser): Promise<number | null> {
+  if (!isFirebaseConfigured || isMockStudent(student)) {
+    return null;
+  }
+
+  const snapshot = await getDoc(doc(getFirestoreDb(), 'faceTemplates', student.uid));
+  if (!snapshot.exists()) {
+    return null;
+  }
+
+  const samples = readSamples(snapshot.data().samples);
+  await replaceSamplesForStudent(student.uid, samples);
+  return samples.length;
+}
@@ -0,0 +1,72 @@
+import * as Location from 'expo-location';
+
+import { MAX_TRACE_FIXES, type LocationFix } from '@shared/location-integrity';
+
+const SAMPLE_MS = Number(process.env.EXPO_PUBLIC_LOCATION_SAMPLE_MS ?? 3000);
+const SAMPLE_INTERVAL_MS = 500;
+const TARGET_FIXES = 5;
+
+function toLocationFix(position: Location.LocationObject): LocationFix {
+  return {
+    latitude: position.coords.latitude,
+    longitude: position.coords.longitude,
+    accuracy: position.coords.accuracy ?? null,
+    altitude: position.coords.altitude ?? null,
+    altitudeAccuracy: position.coords.altitudeAccuracy ?? null,
+    timestamp: position.timestamp,
+    mocked: typeof position.mocked === 'boolean' ? position.mocked : null
+  };
+}
+
+/**
+ * Samples GPS for up to `EXPO_PUBLIC_LOCATION_SAMPLE_MS` so the integrity
+ * heuristics have more than one fix to compare. Falls back to a single
+ * high-accuracy fix when the watch produces nothing in time. Location
+ * permission must already be granted.
+ */
+export async function collectLocationFixes(): Promise<LocationFix[]> {
+  const fixes: LocationFix[] = [];
+  let subscription: Location.LocationSubscription | null = null;
+  let finished = false;
+
+  await new Promise<void>((resolve) => {
+    const finish = () => {
+      finished = true;
+      clearTimeout(timer);
+      subscription?.remove();
+      resolve();
+    };
+    const timer = setTimeout(finish, SAMPLE_MS);
+
+    Location.watchPositionAsync(
+      { accuracy: Location.Accuracy.Highest, timeInterval: SAMPLE_INTERVAL_MS, distanceInterval: 0 },
+      (position) => {
+        if (finished) {
+          return;
+        }
+        fixes.push(toLocationFix(position));
+        if (fixes.length >= TARGET_FIXES) {
+          finish();
+        }
+      }
+    )
+      .then((watch) => {
+        // The watch can start after sampling already timed out.
+        if (finished) {
+          watch.remove();
+        } else {
+          subscription = watch;
+        }
+      })
+      .catch((error) => {
+        console.warn('Location sampling failed', error);
+        finish();
+      });
+  });
+
+  if (!fixes.length) {
+    fixes.push(toLocationFix(await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Highest })));
+  }
+
+  return fixes.slice(-MAX_TRACE_FIXES);
+}
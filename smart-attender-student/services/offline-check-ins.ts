@@ -0,0 +1,225 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import * as Network from 'expo-network';
+import { AppState } from 'react-native';
+
+import {
+  CheckInSubmitError,
+  postCheckIn,
+  type CheckInServerResult,
+  type CheckInSubmission
+} from '@/services/check-in-api';
+import { readOfflineSigningKey } from '@/services/device-attestation';
+
+export type QueuedCheckInState = 'pending' | 'synced' | 'rejected';
+
+export interface QueuedCheckIn {
+  id: string;
+  studentId: string;
+  sessionId: string;
+  className: string;
+  subject: string;
+  /** ISO time the check-in was captured on the device. */
+  capturedAt: string;
+  submission: CheckInSubmission;
+  state: QueuedCheckInState;
+  attempts: number;
+  lastAttemptAt: string | null;
+  /** Why the server refused the check-in, or why the last attempt did not go through. */
+  error: string | null;
+  result: Omit<CheckInServerResult, 'proximityMeters'> | null;
+  syncedAt: string | null;
+}
+
+const QUEUE_STORAGE_PREFIX = 'smart-attender.check-in-queue.';
+// Settled entries stay visible in History for a week, then make room.
+const SETTLED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_SETTLED_ENTRIES = 20;
+
+const listeners = new Set<() => void>();
+const inFlightSyncs = new Map<string, Promise<void>>();
+
+/**
+ * Must match `buildOfflineCheckInMessage` in `frontend/lib/offlineCheckIns.ts`.
+ */
+export function buildOfflineCheckInMessage(submission: CheckInSubmission, capturedAt: number): string {
+  return [
+    submission.sessionToken,
+    submission.deviceKey,
+    capturedAt,
+    submission.location.latitude.toFixed(6),
+    submission.location.longitude.toFixed(6),
+    submission.rotation?.window ?? '',
+    submission.rotation?.nonce ?? ''
+  ].join(':');
+}
+
+/**
+ * Signs the capture time and position with the offline signing key registered
+ * at attestation, which only this device and the server hold, so a queued
+ * check-in cannot be edited or moved to another session before it syncs. The
+ * server still holds every offline check-in for the teacher to review.
+ */
+export function signOfflineCheckIn(
+  submission: CheckInSubmission,
+  capturedAt: number,
+  signingKey: string
+): CheckInSubmission {
+  const signature = bytesToHex(
+    hmac(sha256, utf8ToBytes(signingKey), utf8ToBytes(buildOfflineCheckInMessage(submission, capturedAt)))
+  );
+  return { ...submission, offline: { capturedAt, signature } };
+}
+
+function storageKey(studentId: string): string {
+  return `${QUEUE_STORAGE_PREFIX}${studentId}`;
+}
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeToCheckInQueue(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export async function loadCheckInQueue(studentId: string): Promise<QueuedCheckIn[]> {
+  try {
+    const raw = await AsyncStorage.getItem(storageKey(studentId));
+    const parsed = raw ? (JSON.parse(raw) as unknown) : [];
+    return Array.isArray(parsed) ? (parsed as QueuedCheckIn[]) : [];
+  } catch (error) {
+    console.warn('Unable to read the offline check-in queue', error);
+    return [];
+  }
+}
+
+async function saveCheckInQueue(studentId: string, entries: QueuedCheckIn[]): Promise<void> {
+  const now = Date.now();
+  const pending = entries.filter((entry) => entry.state === 'pending');
+  const settled = entries
+    .filter((entry) => entry.state !== 'pending')
+    .filter((entry) => now - new Date(entry.syncedAt ?? entry.lastAttemptAt ?? entry.capturedAt).getTime() < SETTLED_RETENTION_MS)
+    .slice(-MAX_SETTLED_ENTRIES);
+
+  const kept = [...pending, ...settled].sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
+  await AsyncStorage.setItem(storageKey(studentId), JSON.stringify(kept));
+  notify();
+}
+
+export async function enqueueCheckIn(
+  studentId: string,
+  details: Pick<QueuedCheckIn, 'sessionId' | 'className' | 'subject'>,
+  submission: CheckInSubmission,
+  capturedAt = Date.now()
+): Promise<QueuedCheckIn> {
+  const signingKey = await readOfflineSigningKey();
+  if (!signingKey) {
+    throw new Error('This device has not been verified for offline check-ins yet. Connect to the internet and try again.');
+  }
+
+  const entries = await loadCheckInQueue(studentId);
+
+  // Rescanning the same session while still offline replaces the earlier capture.
+  const remaining = entries.filter(
+    (entry) => !(entry.state === 'pending' && entry.submission.sessionToken === submission.sessionToken)
+  );
+
+  const entry: QueuedCheckIn = {
+    id: `${capturedAt.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    studentId,
+    ...details,
+    capturedAt: new Date(capturedAt).toISOString(),
+    submission: signOfflineCheckIn(submission, capturedAt, signingKey),
+    state: 'pending',
+    attempts: 0,
+    lastAttemptAt: null,
+    error: null,
+    result: null,
+    syncedAt: null
+  };
+
+  await saveCheckInQueue(studentId, [...remaining, entry]);
+  return entry;
+}
+
+async function runSync(studentId: string): Promise<void> {
+  const entries = await loadCheckInQueue(studentId);
+
+  for (const entry of entries) {
+    if (entry.state !== 'pending') {
+      continue;
+    }
+
+    entry.attempts += 1;
+    entry.lastAttemptAt = new Date().toISOString();
+
+    try {
+      const result = await postCheckIn(entry.submission);
+      entry.state = 'synced';
+      entry.result = { status: result.status, message: result.message, notes: result.notes };
+      entry.error = null;
+      entry.syncedAt = entry.lastAttemptAt;
+    } catch (error) {
+      const code = error instanceof CheckInSubmitError ? error.code : 'retry';
+      entry.error = error instanceof Error ? error.message : 'Unable to sync this check-in.';
+
+      if (code === 'rejected') {
+        entry.state = 'rejected';
+      } else {
+        // Still offline or the server is struggling; the rest of the queue would fail the same way.
+        break;
+      }
+    } finally {
+      // Re-read so a check-in queued while this one was in flight is kept.
+      const latest = await loadCheckInQueue(studentId);
+      await saveCheckInQueue(
+        studentId,
+        latest.map((stored) => (stored.id === entry.id ? entry : stored))
+      );
+    }
+  }
+}
+
+/** Sends every pending check-in in capture order. Concurrent calls share one run. */
+export function syncCheckInQueue(studentId: string): Promise<void> {
+  const existing = inFlightSyncs.get(studentId);
+  if (existing) {
+    return existing;
+  }
+
+  const run = runSync(studentId)
+    .catch((error) => console.warn('Offline check-in sync failed', error))
+    .finally(() => inFlightSyncs.delete(studentId));
+  inFlightSyncs.set(studentId, run);
+  return run;
+}
+
+/**
+ * Syncs now, whenever connectivity returns, and whenever the app comes back to
+ * the foreground. Returns a cleanup function.
+ */
+export function startCheckInQueueSync(studentId: string): () => void {
+  void syncCheckInQueue(studentId);
+
+  const networkSubscription = Network.addNetworkStateListener((state) => {
+    if (state.isConnected && state.isInternetReachable !== false) {
+      void syncCheckInQueue(studentId);
+    }
+  });
+  const appStateSubscription = AppState.addEventListener('change', (state) => {
+    if (state === 'active') {
+      void syncCheckInQueue(studentId);
+    }
+  });
+
+  return () => {
+    networkSubscription.remove();
+    appStateSubscription.remove();
+  };
+}
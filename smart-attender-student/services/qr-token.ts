@@ -0,0 +1,55 @@
+/**
+ * The rotating window the teacher's screen signs into the QR code. The student
+ * app forwards it untouched: the signing secret never leaves the teacher's
+ * session document, so only the portal can check the signature and freshness,
+ * against server time, when the check-in is submitted.
+ */
+export interface SignedQrWindow {
+  window: number;
+  intervalSeconds: number;
+  nonce: string;
+  signature: string;
+}
+
+export type QrTokenErrorCode = 'expired' | 'clock-skew';
+
+export class QrTokenError extends Error {
+  readonly code: QrTokenErrorCode;
+
+  constructor(code: QrTokenErrorCode, message: string) {
+    super(message);
+    this.name = 'QrTokenError';
+    this.code = code;
+  }
+}
+
+// Same tolerance as `QR_WINDOW_TOLERANCE` in the portal's `lib/qrTokens.ts`: one
+// window either side absorbs scan latency and small clock drift.
+const WINDOW_TOLERANCE = 1;
+
+export function getQrWindow(intervalSeconds: number, now = Date.now()): number {
+  return Math.floor(now / 1000 / intervalSeconds);
+}
+
+/**
+ * Rejects a stale or future window at scan time so the student gets a clear
+ * message before any network call. The window number is not secret; the
+ * portal still verifies the signature and freshness on submission.
+ */
+export function assertQrWindowFresh(rotation: SignedQrWindow, now = Date.now()): void {
+  const currentWindow = getQrWindow(rotation.intervalSeconds, now);
+
+  if (rotation.window < currentWindow - WINDOW_TOLERANCE) {
+    throw new QrTokenError(
+      'expired',
+      'This QR code has expired. Scan the code currently shown on your teacher’s screen.'
+    );
+  }
+
+  if (rotation.window > currentWindow + WINDOW_TOLERANCE) {
+    throw new QrTokenError(
+      'clock-skew',
+      'This QR code is not valid yet. Check that your phone’s date and time are set automatically.'
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import type { AttendanceSession, SessionStatus } from '@/lib/types/session';
+
+export interface SessionWindow {
+  opensAt: number;
+  closesAt: number;
+}
+
+type LifecycleFields = Pick<
+  AttendanceSession,
+  'status' | 'scheduledFor' | 'durationMinutes' | 'startedAt' | 'endedAt'
+>;
+
+/**
+ * Mirrors `getSessionWindow` in `frontend/lib/sessionLifecycle.ts`. The teacher
+ * dashboard persists transitions, but a student may scan before it has done so.
+ */
+export function getSessionWindow(session: LifecycleFields): SessionWindow {
+  const scheduledStart = new Date(session.scheduledFor).getTime();
+  const durationMs = Math.max(0, session.durationMinutes) * 60 * 1000;
+  const startedAt = session.startedAt ? new Date(session.startedAt).getTime() : Number.NaN;
+  const opensAt = Number.isFinite(startedAt) ? Math.min(startedAt, scheduledStart) : scheduledStart;
+  const plannedClose = Number.isFinite(startedAt)
+    ? Math.max(scheduledStart + durationMs, startedAt + durationMs)
+    : scheduledStart + durationMs;
+  const endedAt = session.endedAt ? new Date(session.endedAt).getTime() : Number.NaN;
+
+  return {
+    opensAt,
+    closesAt: Number.isFinite(endedAt) ? Math.min(endedAt, plannedClose) : plannedClose
+  };
+}
+
+export function deriveSessionStatus(session: LifecycleFields, now = Date.now()): SessionStatus {
+  const stored = session.status ?? 'scheduled';
+
+  if (stored === 'completed' || stored === 'cancelled') {
+    return stored;
+  }
+
+  const { opensAt, closesAt } = getSessionWindow(session);
+
+  if (now >= closesAt) {
+    return 'completed';
+  }
+
+  if (stored === 'active' || now >= opensAt) {
+    return 'active';
+  }
+
+  return 'scheduled';
+}
+
+export function assertSessionOpen(session: LifecycleFields, now = Date.now()): void {
+  const status = deriveSessionStatus(session, now);
+
+  switch (status) {
+    case 'active':
+      return;
+    case 'scheduled':
+      throw new Error('This session has not started yet. Wait for your teacher to open check-ins.');
+    case 'cancelled':
+      throw new Error('This session was cancelled by your teacher.');
+    default:
+      throw new Error('This session has ended. Check-ins are closed.');
+  }
+}
+
+export const DEFAULT_LATE_GRACE_MINUTES = 10;
+
+/**
+ * Lateness is measured from whichever is later: the scheduled start or the
+ * moment the teacher actually opened the session.
+ */
+export function getLateCutoff(
+  session: LifecycleFields & Pick<AttendanceSession, 'lateGraceMinutes'>
+): number {
+  const scheduledStart = new Date(session.scheduledFor).getTime();
+  const startedAt = session.startedAt ? new Date(session.startedAt).getTime() : Number.NaN;
+  const effectiveStart = Number.isFinite(startedAt) ? Math.max(startedAt, scheduledStart) : scheduledStart;
+  const graceMinutes = Math.max(0, session.lateGraceMinutes ?? DEFAULT_LATE_GRACE_MINUTES);
+
+  return effectiveStart + graceMinutes * 60 * 1000;
+}
+
+export function toSessionStatus(value: unknown): SessionStatus | undefined {
+  if (value === 'scheduled' || value === 'active' || value === 'completed' || value === 'cancelled') {
+    return value;
+  }
+  return undefined;
+}
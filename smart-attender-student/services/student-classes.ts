@@ -0,0 +1,38 @@
+import { FirebaseError } from 'firebase/app';
+import { collection, getDocs } from 'firebase/firestore';
+
+import { getFirestoreDb, isFirebaseConfigured } from '@/lib/firebase';
+import { isMockStudent, type MockStudentUser } from '@/services/mock-student';
+import type { StudentProfile } from '@/services/student-profile';
+
+type RosterUser = { uid: string; email?: string | null } | MockStudentUser;
+
+/**
+ * Looks up the classes whose roster lists this student's email, through the
+ * per-student index the teacher portal keeps in `studentEnrollments/{email}`.
+ * Teachers build rosters before students sign in, so email is the only key both
+ * sides share. Class documents themselves are readable by the teacher only.
+ */
+export async function fetchEnrolledClassIds(user: RosterUser): Promise<string[] | null> {
+  const email = user.email?.trim().toLowerCase();
+
+  if (!email || isMockStudent(user) || !isFirebaseConfigured) {
+    return null;
+  }
+
+  try {
+    const snapshot = await getDocs(collection(getFirestoreDb(), 'studentEnrollments', email, 'classes'));
+    return snapshot.docs.map((docSnapshot) => docSnapshot.id).sort();
+  } catch (error) {
+    if (error instanceof FirebaseError && error.code === 'permission-denied') {
+      console.warn('Class enrollments are not readable with the current security rules.');
+      return null;
+    }
+    throw error;
+  }
+}
+
+export function hasEnrollmentChanged(profile: StudentProfile | null, classIds: string[]): boolean {
+  const current = [...(profile?.enrolledClasses ?? [])].sort();
+  return current.length !== classIds.length || current.some((classId, index) => classId !== classIds[index]);
+}
@@ -42,10 +42,6 @@ export async function ensureStudentProfile(user: AllowedUser | null | undefined)
       photoURL: user.photoURL ?? null,
       studentNumber: null,
       enrolledClasses: [],
-      activeDeviceKey: null,
-      deviceApprovalState: 'pending',
-      deviceApprovalReason: null,
-      deviceApprovalUpdatedAt: null,
       profileCompletedAt: null,
       createdAt: serverTimestamp(),
       updatedAt: serverTimestamp()
@@ -54,30 +50,14 @@ export async function ensureStudentProfile(user: AllowedUser | null | undefined)
   }
 
   const existing = snapshot.data() ?? {};
-  const payload: Record<string, unknown> = {
+
+  // Device approval fields are written only by the teacher portal.
+  await updateDoc(profileRef, {
     displayName: user.displayName ?? existing.displayName ?? null,
     photoURL: user.photoURL ?? existing.photoURL ?? null,
     email: user.email ?? existing.email ?? null,
     updatedAt: serverTimestamp()
-  };
-
-  if (typeof existing.activeDeviceKey === 'undefined') {
-    payload.activeDeviceKey = null;
-  }
-
-  if (typeof existing.deviceApprovalState === 'undefined') {
-    payload.deviceApprovalState = 'pending';
-  }
-
-  if (typeof existing.deviceApprovalReason === 'undefined') {
-    payload.deviceApprovalReason = null;
-  }
-
-  if (typeof existing.deviceApprovalUpdatedAt === 'undefined') {
-    payload.deviceApprovalUpdatedAt = null;
-  }
-
-  await updateDoc(profileRef, payload);
+  });
 }
 
 export async function fetchStudentProfile(user: AllowedUser | null | undefined): Promise<StudentProfile | null> {
@@ -122,6 +102,7 @@ export async function updateStudentProfile(
 
   const db = getFirestoreDb();
   const profileRef = doc(db, 'students', user.uid);
+  // Device approval updates are dropped: Firestore rules leave those fields to the teacher portal.
   const payload: Record<string, unknown> = {
     updatedAt: serverTimestamp()
   };
@@ -150,22 +131,6 @@ export async function updateStudentProfile(
     payload.email = updates.email;
   }
 
-  if (typeof updates.activeDeviceKey !== 'undefined') {
-    payload.activeDeviceKey = updates.activeDeviceKey;
-  }
-
-  if (typeof updates.deviceApprovalState !== 'undefined') {
-    payload.deviceApprovalState = updates.deviceApprovalState;
-  }
-
-  if (typeof updates.deviceApprovalReason !== 'undefined') {
-    payload.deviceApprovalReason = updates.deviceApprovalReason;
-  }
-
-  if (typeof updates.deviceApprovalUpdatedAt !== 'undefined') {
-    payload.deviceApprovalUpdatedAt = updates.deviceApprovalUpdatedAt;
-  }
-
   await setDoc(profileRef, payload, { merge: true });
 }
 
@@ -0,0 +1,336 @@
+/*
+ * Offline evaluation of face matching. Loads labelled embedding sets (the same
+ * JSON shape as assets/seed-faces/embeddings/*.json), replays the app's
+ * centroid/euclidean verification on every genuine and impostor pairing, and
+ * reports false-accept/false-reject rates, an ROC curve and a recommended
+ * threshold.
+ *
+ *   npm run evaluate-faces -- [paths...] [--threshold 1.0] [--enroll 3]
+ *     [--target-far 0.01] [--roc report.csv|report.json] [--json]
+ *     [--model-version <v>] [--max-far <rate>] [--max-frr <rate>]
+ *
+ * Paths are JSON files or directories of them (default:
+ * assets/seed-faces/embeddings). With --max-far/--max-frr the script exits 1
+ * when the configured threshold exceeds either rate, for use in CI.
+ *
+ * The matching comes from shared/face-matching.ts, the module the portal's
+ * check-in API decides with. Sets marked `"synthetic": true` (the bundled
+ * seeds) are reported as a fixture run: they exercise the script and say
+ * nothing about how the threshold performs on real faces.
+ */
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { basename, dirname, extname, join, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+
+import { DEFAULT_FACE_VERIFICATION_THRESHOLD, distanceToReferences, round, type FaceEmbedding } from '../../shared/face-matching';
+
+interface LabelledIdentity {
+  label: string;
+  source: string;
+  modelVersion: string | null;
+  synthetic: boolean;
+  embeddings: FaceEmbedding[];
+}
+
+interface Trial {
+  identity: string;
+  probe: string;
+  distance: number;
+}
+
+interface RocPoint {
+  threshold: number;
+  far: number;
+  frr: number;
+}
+
+interface EvaluationReport {
+  /** Some identity came from a synthetic set, so the rates are not a calibration. */
+  fixtureRun: boolean;
+  modelVersion: string | null;
+  identities: number;
+  genuineTrials: number;
+  impostorTrials: number;
+  enrollSamples: number;
+  threshold: { value: number; far: number; frr: number };
+  equalErrorRate: { value: number; threshold: number };
+  recommended: { threshold: number; far: number; frr: number; targetFar: number };
+  skipped: string[];
+}
+
+class UsageError extends Error {}
+
+function readRate(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const rate = Number(value);
+  if (!Number.isFinite(rate) || rate < 0 || rate > 1) {
+    throw new UsageError(`--${name} must be a rate between 0 and 1.`);
+  }
+  return rate;
+}
+
+function readPositive(value: string | undefined, name: string, fallback: number): number {
+  const parsed = Number(value ?? fallback);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new UsageError(`--${name} must be a positive number.`);
+  }
+  return parsed;
+}
+
+function collectFiles(path: string): string[] {
+  if (!existsSync(path)) {
+    throw new UsageError(`No embedding set found at ${path}.`);
+  }
+
+  const stats = statSync(path);
+  if (!stats.isDirectory()) {
+    return [path];
+  }
+
+  return readdirSync(path)
+    .filter((name) => extname(name) === '.json')
+    .sort()
+    .map((name) => join(path, name));
+}
+
+function loadIdentity(file: string): LabelledIdentity {
+  const parsed = JSON.parse(readFileSync(file, 'utf8')) as Record<string, unknown>;
+  const embeddings = Array.isArray(parsed.embeddings)
+    ? parsed.embeddings.filter(
+        (embedding): embedding is FaceEmbedding =>
+          Array.isArray(embedding) && embedding.length > 0 && embedding.every((value) => Number.isFinite(value))
+      )
+    : [];
+
+  return {
+    label: typeof parsed.studentId === 'string' && parsed.studentId ? parsed.studentId : basename(file, '.json'),
+    source: file,
+    modelVersion: typeof parsed.modelVersion === 'string' ? parsed.modelVersion : null,
+    synthetic: parsed.synthetic === true,
+    embeddings
+  };
+}
+
+/**
+ * References are the first `enrollSamples` embeddings, as the app builds its
+ * baseline from the first captures. Each genuine probe is scored against the
+ * references without itself, so students with few samples still contribute.
+ */
+function runTrials(identities: LabelledIdentity[], enrollSamples: number) {
+  const genuine: Trial[] = [];
+  const impostor: Trial[] = [];
+
+  identities.forEach((identity) => {
+    const references = identity.embeddings.slice(0, enrollSamples);
+
+    identity.embeddings.forEach((probe, index) => {
+      const ownReferences =
+        index < enrollSamples
+          ? identity.embeddings.filter((_, other) => other !== index).slice(0, enrollSamples)
+          : references;
+
+      if (ownReferences.length) {
+        genuine.push({
+          identity: identity.label,
+          probe: `${identity.label}#${index}`,
+          distance: distanceToReferences(probe, ownReferences)
+        });
+      }
+    });
+
+    identities
+      .filter((other) => other !== identity)
+      .forEach((other) => {
+        other.embeddings.forEach((probe, index) => {
+          impostor.push({
+            identity: identity.label,
+            probe: `${other.label}#${index}`,
+            distance: distanceToReferences(probe, references)
+          });
+        });
+      });
+  });
+
+  return { genuine, impostor };
+}
+
+function ratesAt(threshold: number, genuine: Trial[], impostor: Trial[]): RocPoint {
+  const falseAccepts = impostor.filter((trial) => trial.distance <= threshold).length;
+  const falseRejects = genuine.filter((trial) => trial.distance > threshold).length;
+
+  return {
+    threshold: round(threshold),
+    far: impostor.length ? round(falseAccepts / impostor.length) : 0,
+    frr: genuine.length ? round(falseRejects / genuine.length) : 0
+  };
+}
+
+/** One point per distinct trial distance, plus both ends of the curve. */
+function buildRoc(genuine: Trial[], impostor: Trial[]): RocPoint[] {
+  const distances = [...genuine, ...impostor].map((trial) => trial.distance).filter((value) => Number.isFinite(value));
+  const thresholds = [...new Set([0, ...distances])].sort((a, b) => a - b);
+
+  return thresholds.map((threshold) => ratesAt(threshold, genuine, impostor));
+}
+
+function findEqualErrorRate(roc: RocPoint[]): { value: number; threshold: number } {
+  const closest = roc.reduce((best, point) =>
+    Math.abs(point.far - point.frr) < Math.abs(best.far - best.frr) ? point : best
+  );
+  return { value: round((closest.far + closest.frr) / 2), threshold: closest.threshold };
+}
+
+/**
+ * The loosest threshold that keeps false accepts within budget, i.e. the fewest
+ * rejected students. Rates only change at trial distances, so the threshold is
+ * placed halfway to the next one for some margin on unseen faces.
+ */
+function recommendThreshold(roc: RocPoint[], targetFar: number, genuine: Trial[], impostor: Trial[]): RocPoint {
+  const index = roc.findIndex((point) => point.far > targetFar);
+  if (index === 0) {
+    return roc[0];
+  }
+
+  const last = index === -1 ? roc[roc.length - 1] : roc[index - 1];
+  return index === -1 ? last : ratesAt((last.threshold + roc[index].threshold) / 2, genuine, impostor);
+}
+
+function writeRoc(path: string, roc: RocPoint[]): void {
+  mkdirSync(dirname(path), { recursive: true });
+
+  if (extname(path) === '.json') {
+    writeFileSync(path, `${JSON.stringify(roc, null, 2)}\n`);
+    return;
+  }
+
+  const rows = roc.map((point) => `${point.threshold},${point.far},${point.frr},${round(1 - point.frr)}`);
+  writeFileSync(path, `threshold,far,frr,tar\n${rows.join('\n')}\n`);
+}
+
+function formatRate(rate: number): string {
+  return `${(rate * 100).toFixed(2)}%`;
+}
+
+function main(): number {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      threshold: { type: 'string' },
+      enroll: { type: 'string' },
+      'target-far': { type: 'string' },
+      'model-version': { type: 'string' },
+      roc: { type: 'string' },
+      json: { type: 'boolean', default: false },
+      'max-far': { type: 'string' },
+      'max-frr': { type: 'string' }
+    }
+  });
+
+  const threshold = readPositive(
+    values.threshold ?? process.env.FACE_MATCH_THRESHOLD ?? process.env.EXPO_PUBLIC_FACE_THRESHOLD,
+    'threshold',
+    DEFAULT_FACE_VERIFICATION_THRESHOLD
+  );
+  const enrollSamples = Math.floor(
+    readPositive(values.enroll ?? process.env.EXPO_PUBLIC_FACE_BASELINE_SAMPLES, 'enroll', 3)
+  );
+  const targetFar = readRate(values['target-far'], 'target-far') ?? 0.01;
+  const maxFar = readRate(values['max-far'], 'max-far');
+  const maxFrr = readRate(values['max-frr'], 'max-frr');
+
+  const paths = positionals.length ? positionals : ['assets/seed-faces/embeddings'];
+  const skipped: string[] = [];
+  const identities = paths
+    .flatMap((path) => collectFiles(resolve(path)))
+    .map(loadIdentity)
+    .filter((identity) => {
+      if (values['model-version'] && identity.modelVersion !== values['model-version']) {
+        skipped.push(`${identity.source}: model ${identity.modelVersion ?? 'unversioned'}`);
+        return false;
+      }
+      if (!identity.embeddings.length) {
+        skipped.push(`${identity.source}: no embeddings`);
+        return false;
+      }
+      return true;
+    });
+
+  const versions = new Set(identities.map((identity) => identity.modelVersion));
+  if (versions.size > 1) {
+    throw new UsageError(
+      `Embeddings come from different models (${[...versions].map((version) => version ?? 'unversioned').join(', ')}). Pass --model-version to pick one.`
+    );
+  }
+
+  const dimensions = new Set(identities.flatMap((identity) => identity.embeddings.map((embedding) => embedding.length)));
+  if (dimensions.size > 1) {
+    throw new UsageError(`Embeddings have mixed dimensions (${[...dimensions].join(', ')}).`);
+  }
+
+  if (identities.length < 2) {
+    throw new UsageError('At least two labelled identities are needed to measure false accepts.');
+  }
+
+  const { genuine, impostor } = runTrials(identities, enrollSamples);
+  if (!genuine.length) {
+    throw new UsageError('No identity has more than one embedding, so false rejects cannot be measured.');
+  }
+
+  const roc = buildRoc(genuine, impostor);
+  const current = ratesAt(threshold, genuine, impostor);
+  const recommended = recommendThreshold(roc, targetFar, genuine, impostor);
+
+  const report: EvaluationReport = {
+    fixtureRun: identities.some((identity) => identity.synthetic),
+    modelVersion: identities[0].modelVersion,
+    identities: identities.length,
+    genuineTrials: genuine.length,
+    impostorTrials: impostor.length,
+    enrollSamples,
+    threshold: { value: threshold, far: current.far, frr: current.frr },
+    equalErrorRate: findEqualErrorRate(roc),
+    recommended: { threshold: recommended.threshold, far: recommended.far, frr: recommended.frr, targetFar },
+    skipped
+  };
+
+  if (values.roc) {
+    writeRoc(resolve(values.roc), roc);
+  }
+
+  if (values.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    if (report.fixtureRun) {
+      console.log('Fixture run on synthetic embeddings: the rates check the script, they are not a calibration.');
+    }
+    console.log(`Model: ${report.modelVersion ?? 'unversioned'} · ${report.identities} identities · ${enrollSamples} enrollment sample(s)`);
+    console.log(`Trials: ${report.genuineTrials} genuine, ${report.impostorTrials} impostor`);
+    console.log(`At threshold ${threshold}: FAR ${formatRate(current.far)}, FRR ${formatRate(current.frr)}`);
+    console.log(`Equal error rate: ${formatRate(report.equalErrorRate.value)} at ${report.equalErrorRate.threshold}`);
+    console.log(
+      `Recommended threshold (FAR ≤ ${formatRate(targetFar)}): ${recommended.threshold} → FAR ${formatRate(recommended.far)}, FRR ${formatRate(recommended.frr)}`
+    );
+    skipped.forEach((entry) => console.log(`Skipped ${entry}`));
+    if (values.roc) {
+      console.log(`ROC curve written to ${values.roc}`);
+    }
+  }
+
+  const failures = [
+    maxFar !== undefined && current.far > maxFar ? `FAR ${formatRate(current.far)} exceeds ${formatRate(maxFar)}` : null,
+    maxFrr !== undefined && current.frr > maxFrr ? `FRR ${formatRate(current.frr)} exceeds ${formatRate(maxFrr)}` : null
+  ].filter((failure): failure is string => failure !== null);
+
+  failures.forEach((failure) => console.error(`✖ ${failure} at threshold ${threshold}`));
+  return failures.length ? 1 : 0;
+}
+
+try {
+  process.exitCode = main();
+} catch (error) {
+  console.error(error instanceof UsageError ? error.message : error);
+  process.exitCode = 2;
+}
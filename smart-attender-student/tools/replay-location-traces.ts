@@ -0,0 +1,102 @@
+/*
+ * Replays recorded GPS traces through the location-integrity heuristics and
+ * checks each verdict against the trace's label, so threshold or weight
+ * changes can be judged against known genuine and spoofed check-ins.
+ *
+ *   npm run replay-location-traces -- [paths...] [--json]
+ *
+ * Paths are JSON files or directories of them (default:
+ * ../shared/fixtures/location-traces). Each file holds
+ * `{ "label": "genuine" | "spoofed", "description"?: string, "submittedAt"?: number, "fixes": LocationFix[] }`;
+ * freshness is judged against `submittedAt`, or the newest fix when it is absent.
+ * Exits 1 when any labelled trace is misclassified, for use in CI.
+ */
+import { existsSync, readdirSync, readFileSync, statSync } from 'node:fs';
+import { basename, extname, join, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+
+import { assessLocationIntegrity, parseLocationTrace, type LocationIntegrityReport } from '@shared/location-integrity';
+
+type TraceLabel = 'genuine' | 'spoofed';
+
+interface RecordedTrace {
+  source: string;
+  label: TraceLabel | null;
+  description: string | null;
+  report: LocationIntegrityReport;
+}
+
+class UsageError extends Error {}
+
+function collectFiles(path: string): string[] {
+  if (!existsSync(path)) {
+    throw new UsageError(`No trace found at ${path}.`);
+  }
+
+  if (!statSync(path).isDirectory()) {
+    return [path];
+  }
+
+  return readdirSync(path)
+    .filter((name) => extname(name) === '.json')
+    .sort()
+    .map((name) => join(path, name));
+}
+
+function replayTrace(file: string): RecordedTrace {
+  const parsed = JSON.parse(readFileSync(file, 'utf8')) as Record<string, unknown>;
+  const fixes = parseLocationTrace(parsed.fixes);
+  const submittedAt = typeof parsed.submittedAt === 'number' ? parsed.submittedAt : fixes?.[fixes.length - 1]?.timestamp;
+
+  return {
+    source: basename(file),
+    label: parsed.label === 'genuine' || parsed.label === 'spoofed' ? parsed.label : null,
+    description: typeof parsed.description === 'string' ? parsed.description : null,
+    report: assessLocationIntegrity(fixes, submittedAt)
+  };
+}
+
+function isMisclassified(trace: RecordedTrace): boolean {
+  return trace.label !== null && trace.report.flagged !== (trace.label === 'spoofed');
+}
+
+function main(): number {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      json: { type: 'boolean', default: false }
+    }
+  });
+
+  const paths = positionals.length ? positionals : ['../shared/fixtures/location-traces'];
+  const traces = paths.flatMap((path) => collectFiles(resolve(path))).map(replayTrace);
+
+  if (!traces.length) {
+    throw new UsageError('No traces to replay.');
+  }
+
+  const misclassified = traces.filter(isMisclassified);
+
+  if (values.json) {
+    console.log(JSON.stringify(traces, null, 2));
+  } else {
+    traces.forEach((trace) => {
+      const verdict = trace.report.flagged ? 'flagged' : 'passed';
+      const marker = isMisclassified(trace) ? '✖' : '✔';
+      console.log(
+        `${marker} ${trace.source} [${trace.label ?? 'unlabelled'}] ${verdict} · risk ${Math.round(trace.report.riskScore * 100)}% · ${trace.report.fixCount} fix(es)`
+      );
+      trace.report.findings.forEach((finding) => console.log(`    ${finding.reason}: ${finding.detail}`));
+    });
+    console.log(`${traces.length} trace(s), ${misclassified.length} misclassified`);
+  }
+
+  return misclassified.length ? 1 : 0;
+}
+
+try {
+  process.exitCode = main();
+} catch (error) {
+  console.error(error instanceof UsageError ? error.message : error);
+  process.exitCode = 2;
+}